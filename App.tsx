@@ -1,45 +1,380 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { Activity, Wifi, WifiOff, Cpu, Database, Command, RefreshCw, Zap, ShieldAlert, Bot } from 'lucide-react';
-import { SystemMetric, LogEntry, NetworkStatus, AiAnalysisResult } from './types';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { Activity, Wifi, WifiOff, Command, RefreshCw, Bot, LayoutGrid, LayoutDashboard, Timer, Zap, ArrowUpDown, Siren, User, LogIn, LogOut } from 'lucide-react';
+import { SystemMetric, LogEntry, NetworkStatus, AiAnalysisResult, TelemetrySource, TelemetryConnectionState, TelemetrySourceConfig, TelemetrySourceKind, SyncStatus, Alert, ChatMessage, LogContext, LogLevel, DiagnosticsRun, DiagnosticsTrigger, ChartRange, DashboardLayout, FaultProfile, FaultScenario, HealthGrade, Incident, LayoutItem, MetricId, Permission, RecordedEvent, Role, Session, SessionRecording, WidgetType } from './types';
 import { DashboardCard, MetricValue, Button } from './components/Widgets';
 import ChartWidget from './components/ChartWidget';
 import ConsoleLog from './components/ConsoleLog';
-import { analyzeSystemMetrics } from './services/geminiService';
+import AlertsPanel from './components/AlertsPanel';
+import FleetOverview from './components/FleetOverview';
+import CopilotChat from './components/CopilotChat';
+import DiagnosticsReport, { DiagnosticsError } from './components/DiagnosticsReport';
+import DiagnosticsTimeline from './components/DiagnosticsTimeline';
+import DashboardGrid, { WidgetContent } from './components/DashboardGrid';
+import LayoutToolbar from './components/LayoutToolbar';
+import CommandInput from './components/CommandInput';
+import CommandPalette from './components/CommandPalette';
+import FaultInjectionPanel from './components/FaultInjectionPanel';
+import SessionControls from './components/SessionControls';
+import ReplayBar from './components/ReplayBar';
+import IncidentsPanel from './components/IncidentsPanel';
+import LoginPanel from './components/LoginPanel';
+import { Access, AccessContext } from './components/AccessContext';
+import DataTransferPanel, { ImportedTelemetry, LogsExportScope, MetricsExportScope } from './components/DataTransferPanel';
+import { DEFAULT_LAYOUT, WIDGET_REGISTRY, WIDGET_TYPES } from './components/widgetRegistry';
+import { createAiProvider } from './services/aiProvider';
+import { AiResponseError } from './services/aiPrompts';
+import { createTelemetrySource } from './services/telemetrySource';
+import { resolveNetworkStatus } from './services/networkStatus';
+import { createSeededRandom } from './services/random';
+import { telemetryConfig, SIMULATOR_SEED, storageConfig, aiConfig, autoDiagnosticsConfig, AUTO_DIAGNOSE_DEFAULT, STATION_STALE_INTERVALS, LIVE_METRIC_WINDOW, LOG_BUFFER_SIZE, CACHED_VIEW_POINTS, CHART_RANGES, CHART_MAX_POINTS, ALERT_SILENCE_MS, ALERT_HISTORY_LIMIT, INCIDENT_TIMELINE_LIMIT, INCIDENT_HISTORY_LIMIT, notificationConfig, authConfig, analyticsConfig, RECORDING_MAX_EVENTS, REPLAY_SPEEDS, REPLAY_TICK_MS, IMPORT_MAX_ROWS, faultScenarios } from './config';
+import { createAlertEngine } from './services/alertEngine';
+import { DeliveryRecord, createNotifier, fromAlertEvent, fromDiagnosticsRun, loadNotificationChannels } from './services/notifications';
+import { AuthError, GUEST_SESSION, LOCAL_SESSION, PERMISSION_LABELS, ROLE_PERMISSIONS, fetchAuditTrail, fetchAuthState, hasPermission, loadAuditTrail, loadSession, recordAudit, requiredRole, saveSession, signIn, signOut } from './services/accessControl';
+import { IncidentChange, IncidentManager, buildPostMortem, createIncidentManager, loadIncidents, saveIncidents } from './services/incidents';
+import { alertRules, getMetricDefinition, getMetricValue, metricColor, rangeFraction } from './services/metricRegistry';
+import { createDiagnosticsScheduler } from './services/diagnosticsScheduler';
+import { detectAnomalies, downsampleMetrics } from './services/metricStats';
+import { analyzeStation, formatEta } from './services/metricAnalytics';
+import { createRingBuffer } from './services/ringBuffer';
+import { addLogSink, errorContext, newCorrelationId, newLogId, startTimer, writeLog } from './services/logger';
+import { downloadFile } from './services/download';
+import { CommandSpec, formatHelp, resolveCommand } from './services/commandLine';
+import { toJsonLines, toPlainText } from './services/logExport';
+import { METRICS_EXPORT_FORMATS, MetricsExportFormat, exportMetrics } from './services/telemetryExport';
+import { TelemetryImportError, parseTelemetryFile } from './services/telemetryImport';
+import { FaultScenarioError, countActiveFaults, createFaultInjector, describeFaults, parseScenario, serializeScenario, withAiFaults, withTelemetryFaults } from './services/faultInjection';
+import { RecordingImportError, createSessionRecorder, parseRecording, serializeRecording } from './services/sessionRecorder';
+import { ReplayIndex, createReplayIndex } from './services/sessionReplay';
+import { LayoutImportError, loadWorkspace, parseLayout, saveWorkspace, serializeLayout } from './services/layoutStorage';
+import { getSyncStatus, isBackgroundSyncSupported, onSyncComplete, queueCacheRefresh, refreshCacheNow, replayQueueManually } from './services/offlineSync';
+import { applyRetentionPolicy, isStorageAvailable, loadRecentLogs, loadRecentMetrics, saveMetric, toLog, toMetric } from './services/storageService';
+
+// Only the simulated values are seeded. Ids stay random: stored logs and chat from earlier loads sit beside new ones.
+const SIMULATOR_RANDOM = SIMULATOR_SEED === null ? undefined : createSeededRandom(SIMULATOR_SEED);
+
+// Sign-in is only enforced once accounts are configured; until then the local operator keeps full control.
+
+const ROLE_STYLES: Record<Role, string> = {
+  viewer: 'bg-slate-700 text-slate-300',
+  operator: 'bg-cyan-900/60 text-cyan-300',
+  admin: 'bg-amber-900/60 text-amber-300',
+};
+
+const TREND_DIRECTIONS = { rising: 'up', falling: 'down', stable: 'stable' } as const;
+
+const HEALTH_GRADE_STYLES: Record<HealthGrade, string> = {
+  healthy: 'text-green-400',
+  degraded: 'text-amber-400',
+  critical: 'text-red-400',
+};
 
 const App: React.FC = () => {
   // --- State ---
-  const [networkStatus, setNetworkStatus] = useState<NetworkStatus>(NetworkStatus.ONLINE);
+  const [linkUp, setLinkUp] = useState(() => navigator.onLine);
   const [simulatedOffline, setSimulatedOffline] = useState(false);
-  const [metrics, setMetrics] = useState<SystemMetric[]>([]);
+  const [sourceState, setSourceState] = useState<TelemetryConnectionState>('idle');
+  const [fleetMetrics, setFleetMetrics] = useState<Record<string, SystemMetric[]>>({});
+  const [lastSeen, setLastSeen] = useState<Record<string, number>>({});
+  const [selectedStation, setSelectedStation] = useState<string | null>(null);
+  const [cachedMetrics, setCachedMetrics] = useState<SystemMetric[]>([]);
+  const [chartRange, setChartRange] = useState<ChartRange>('live');
+  const [historyMetrics, setHistoryMetrics] = useState<SystemMetric[]>([]);
   const [logs, setLogs] = useState<LogEntry[]>([]);
-  const [aiResult, setAiResult] = useState<AiAnalysisResult | null>(null);
-  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [aiResults, setAiResults] = useState<Record<string, AiAnalysisResult>>({});
+  const [aiErrors, setAiErrors] = useState<Record<string, DiagnosticsError>>({});
+  const [analyzingStations, setAnalyzingStations] = useState<string[]>([]);
+  const [autoDiagnose, setAutoDiagnose] = useState(AUTO_DIAGNOSE_DEFAULT);
+  const [diagnosticsTimeline, setDiagnosticsTimeline] = useState<Record<string, DiagnosticsRun[]>>({});
+  const [copilotMode, setCopilotMode] = useState<'report' | 'history' | 'chat'>('report');
+  const [chatHistories, setChatHistories] = useState<Record<string, ChatMessage[]>>({});
+  const [isChatStreaming, setIsChatStreaming] = useState(false);
   const [lastCacheTime, setLastCacheTime] = useState<string | null>(null);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>({ queueDepth: 0, lastSync: null });
+  const [alerts, setAlerts] = useState<Alert[]>([]);
+  const [workspace, setWorkspace] = useState(loadWorkspace);
+  const [editingLayout, setEditingLayout] = useState(false);
+  const [sourceConfig, setSourceConfig] = useState<TelemetrySourceConfig>(telemetryConfig);
+  const [commandHistory, setCommandHistory] = useState<string[]>([]);
+  const [paletteOpen, setPaletteOpen] = useState(false);
+  const [faultPanelOpen, setFaultPanelOpen] = useState(false);
+  const [importedScenarios, setImportedScenarios] = useState<FaultScenario[]>([]);
+  const [recordingSince, setRecordingSince] = useState<number | null>(null);
+  const [replay, setReplay] = useState<{ name: string; index: ReplayIndex; markers: number[] } | null>(null);
+  const [replayClock, setReplayClock] = useState({ at: 0, playing: false, speed: 1 });
+  const [dataPanelOpen, setDataPanelOpen] = useState(false);
+  const [importedTelemetry, setImportedTelemetry] = useState<ImportedTelemetry | null>(null);
+  const [incidents, setIncidents] = useState<Incident[]>(loadIncidents);
+  const [incidentsPanelOpen, setIncidentsPanelOpen] = useState(false);
+  // Read-only until the API says whether sign-in is on and whether the stored token is still good.
+  const [session, setSession] = useState<Session>(GUEST_SESSION);
+  const [authEnabled, setAuthEnabled] = useState(false);
+  const [authChecked, setAuthChecked] = useState(false);
+  const [loginOpen, setLoginOpen] = useState(false);
+  const sourceRef = useRef<TelemetrySource | null>(null);
+  const sessionStartRef = useRef(Date.now());
+  const alertEngineRef = useRef(createAlertEngine(alertRules, ALERT_HISTORY_LIMIT));
+  const autoSelectedRef = useRef(false);
+  const faultInjectorRef = useRef(createFaultInjector());
+  const sessionRef = useRef(session);
+  sessionRef.current = session;
+  const [faults, setFaults] = useState(() => faultInjectorRef.current.getState());
+  const aiProviderRef = useRef(withAiFaults(createAiProvider(aiConfig), faultInjectorRef.current, aiConfig.timeoutMs));
+  const logBufferRef = useRef(createRingBuffer<LogEntry>(LOG_BUFFER_SIZE));
+  const schedulerRef = useRef(createDiagnosticsScheduler(autoDiagnosticsConfig));
+  const fleetMetricsRef = useRef<Record<string, SystemMetric[]>>({});
+  // Longer per-station history than the live window, for trends and forecasts
+  const analyticsHistoryRef = useRef<Record<string, SystemMetric[]>>({});
+  const lastScoredRef = useRef<Record<string, SystemMetric>>({});
+  const budgetWarnedRef = useRef(false);
+  const inFlightRef = useRef(new Set<string>());
+  const recorderRef = useRef(createSessionRecorder(RECORDING_MAX_EVENTS));
+  // Built once from the incidents restored above; the manager owns the list from then on.
+  const incidentManagerRef = useRef<IncidentManager | null>(null);
+  incidentManagerRef.current ??= createIncidentManager({
+    timelineLimit: INCIDENT_TIMELINE_LIMIT,
+    historyLimit: INCIDENT_HISTORY_LIMIT,
+    // Alerts arrive as structured events; the manager's own log lines would echo back
+    ignoredLogSources: ['ALERT', 'INCIDENT', 'CMD', 'NOTIFY', 'AUDIT', 'AUTH'],
+  }, incidents);
+  const notifierRef = useRef(createNotifier(notificationConfig));
+
+  const networkStatus = resolveNetworkStatus(linkUp, simulatedOffline, sourceState);
+  const isOffline = networkStatus === NetworkStatus.OFFLINE;
+  // While the source is retrying the chart falls back to stored history just as it does offline.
+  const liveFeedDown = networkStatus !== NetworkStatus.ONLINE;
+  // The local mock provider keeps working without an uplink.
+  const aiUnavailable = isOffline && aiConfig.kind !== 'mock';
+
+  // While replaying, every widget reads the recorded state at the playhead instead of live state.
+  const replayFrame = useMemo(() => (replay ? replay.index.frameAt(replayClock.at) : null), [replay, replayClock.at]);
+  const replaying = replayFrame !== null;
+  const viewFleetMetrics = replayFrame ? replayFrame.fleetMetrics : fleetMetrics;
+  const viewLogs = replayFrame ? replayFrame.logs : logs;
+  const viewAlerts = replayFrame ? replayFrame.alerts : alerts;
+  const viewAiResults = replayFrame ? replayFrame.aiResults : aiResults;
+
+  const stationIds = Object.keys(viewFleetMetrics).sort();
+  const metrics = selectedStation ? viewFleetMetrics[selectedStation] ?? [] : [];
+  const aiResult = selectedStation ? viewAiResults[selectedStation] ?? null : null;
+  const aiError = selectedStation && !replaying ? aiErrors[selectedStation] ?? null : null;
+  const isAnalyzing = selectedStation && !replaying ? analyzingStations.includes(selectedStation) : false;
+  const timelineRuns = selectedStation ? (replayFrame ? replayFrame.diagnostics : diagnosticsTimeline)[selectedStation] ?? [] : [];
+  const chartHistory = useMemo(() => {
+    if (!replay || chartRange === 'live' || !selectedStation) return historyMetrics;
+    const frames = replay.index.metricsBetween(selectedStation, replayClock.at - CHART_RANGES[chartRange], replayClock.at);
+    return downsampleMetrics(frames, CHART_MAX_POINTS);
+  }, [replay, replayClock.at, chartRange, selectedStation, historyMetrics]);
+  fleetMetricsRef.current = fleetMetrics;
+  // Recomputed with every frame; a replay only has the frames its index keeps.
+  const analytics = useMemo(() => {
+    const source = replayFrame ? replayFrame.fleetMetrics : analyticsHistoryRef.current;
+    return Object.fromEntries(Object.keys(source).map(stationId => [stationId, analyzeStation(source[stationId], analyticsConfig)]));
+  }, [replayFrame, fleetMetrics]);
+  const stationAnalytics = selectedStation ? analytics[selectedStation] ?? null : null;
+  const chatMessages = selectedStation ? chatHistories[selectedStation] ?? [] : [];
+  const activeLayout = workspace.layouts.find(layout => layout.name === workspace.active) ?? DEFAULT_LAYOUT;
+  const access = useMemo<Access>(() => ({ session, can: permission => hasPermission(session.role, permission) }), [session]);
+  const { can } = access;
+  const signedIn = Boolean(session.token);
+  const scenarios = [...faultScenarios, ...importedScenarios.filter(imported => !faultScenarios.some(builtIn => builtIn.name === imported.name))];
 
   // --- Helpers ---
-  const addLog = useCallback((message: string, level: LogEntry['level'] = 'info', source: string = 'SYS') => {
-    const newLog: LogEntry = {
-      id: Math.random().toString(36).substr(2, 9),
-      timestamp: new Date().toLocaleTimeString([], { hour12: false, hour: '2-digit', minute: '2-digit', second: '2-digit' }),
-      level,
-      message,
-      source
-    };
-    setLogs(prev => [...prev.slice(-49), newLog]); // Keep last 50
+  // Entries reach the console through the in-app sink registered below, like any other module's logs.
+  const addLog = useCallback((message: string, level: LogLevel = 'info', source: string = 'SYS', context?: LogContext) => {
+    writeLog(source, level, message, context);
   }, []);
 
+  // Every privileged action passes through here, so the audit trail records refusals as well as what was done.
+  const authorize = (permission: Permission, detail: string) => {
+    const allowed = can(permission);
+    recordAudit(session, permission, detail, allowed ? 'allowed' : 'denied', authConfig.auditLimit);
+    if (!allowed) {
+      addLog(`Permission denied: ${session.username} (${session.role}) cannot ${PERMISSION_LABELS[permission]}. Requires the ${requiredRole(permission)} role.`, 'warning', 'AUTH');
+    }
+    return allowed;
+  };
+
+  const refreshSyncStatus = useCallback(() => {
+    if (!isStorageAvailable()) return;
+    getSyncStatus().then(setSyncStatus).catch(() => { /* Status card keeps its last known values */ });
+  }, []);
+
+  const persistMetric = useCallback(async (metric: SystemMetric) => {
+    if (!isStorageAvailable()) {
+      setLastCacheTime(new Date().toLocaleTimeString());
+      return;
+    }
+    try {
+      const stored = await saveMetric(metric);
+      setLastCacheTime(new Date(stored.recordedAt).toLocaleTimeString());
+    } catch {
+      addLog('Failed to write telemetry frame to local cache.', 'error', 'CACHE');
+    }
+  }, [addLog]);
+
+  // Every alert change is mirrored into an active recording so replays show acknowledgements too.
+  const publishAlerts = useCallback(() => {
+    const next = alertEngineRef.current.getAlerts();
+    setAlerts(next);
+    recorderRef.current.record('alerts', next);
+  }, []);
+
+  const publishIncidents = useCallback(() => {
+    setIncidents(incidentManagerRef.current.getIncidents());
+  }, []);
+
+  // Opening and escalation are announced; every other change only lands in the incident's timeline.
+  const trackIncident = useCallback((change: IncidentChange | null) => {
+    if (!change) return;
+    const { incident } = change;
+    if (change.type === 'opened') {
+      addLog(`Incident ${incident.id} opened on ${incident.stationId}: ${incident.title}.`, incident.severity === 'critical' ? 'error' : 'warning', 'INCIDENT', { stationId: incident.stationId });
+    } else if (change.type === 'escalated') {
+      addLog(`Incident ${incident.id} escalated to ${incident.severity}.`, 'error', 'INCIDENT', { stationId: incident.stationId });
+    }
+    publishIncidents();
+  }, [addLog, publishIncidents]);
+
+  const evaluateAlerts = useCallback((metric: SystemMetric) => {
+    const engine = alertEngineRef.current;
+    incidentManagerRef.current.observeMetric(metric);
+    const events = engine.evaluate(metric);
+    if (events.length === 0) return;
+
+    for (const event of events) {
+      const { type, alert } = event;
+      if (type === 'fired') {
+        addLog(`${alert.severity.toUpperCase()}: ${alert.label} (${alert.metric} ${alert.value}, threshold ${alert.threshold}).`, alert.severity === 'critical' ? 'error' : 'warning', 'ALERT');
+      } else {
+        addLog(`Resolved: ${alert.label} (${alert.metric} ${alert.value}).`, 'success', 'ALERT');
+      }
+      trackIncident(incidentManagerRef.current.observeAlert(event));
+      notifierRef.current.notify(fromAlertEvent(event));
+    }
+    publishAlerts();
+  }, [addLog, publishAlerts, trackIncident]);
+
+  // `frames` overrides the live/stored window, e.g. for an imported dataset. Resolves to the result, or null on failure.
+  const runDiagnostics = useCallback(async (stationId: string, trigger: DiagnosticsTrigger, reason?: string, frames?: SystemMetric[]): Promise<AiAnalysisResult | null> => {
+    // One run per station at a time; an overlapping automatic trigger is simply dropped.
+    // Imported datasets get their own slot so they never block the live station.
+    const flightKey = trigger === 'import' ? `import:${stationId}` : stationId;
+    if (inFlightRef.current.has(flightKey)) return null;
+    inFlightRef.current.add(flightKey);
+    setAnalyzingStations(prev => (prev.includes(flightKey) ? prev : [...prev, flightKey]));
+    const correlationId = newCorrelationId();
+    const elapsed = startTimer();
+    addLog(`Transmitting ${stationId} telemetry to ${aiProviderRef.current.label}${trigger === 'manual' ? '' : ` [${trigger}]`}...`, 'info', 'AI', { correlationId, stationId });
+
+    try {
+      // Prefer the persisted history so the model sees the full analysis window, not just the live chart.
+      let analyzed = frames;
+      if (!analyzed) {
+        const live = fleetMetricsRef.current[stationId] ?? [];
+        const stored = isStorageAvailable()
+          ? await loadRecentMetrics(aiConfig.diagnosticsWindow, { stationId }).catch(() => [])
+          : [];
+        analyzed = stored.length > live.length ? stored.map(toMetric) : live;
+      }
+
+      const result = await aiProviderRef.current.analyze(analyzed, { correlationId, authToken: sessionRef.current.token });
+      const run: DiagnosticsRun = { id: newLogId(), stationId, trigger, reason, ranAt: Date.now(), result };
+      recorderRef.current.record('diagnostics', run);
+      trackIncident(incidentManagerRef.current.observeDiagnostics(run));
+      const notification = fromDiagnosticsRun(run);
+      if (notification) notifierRef.current.notify(notification);
+      if (trigger !== 'import') setAiResults(prev => ({ ...prev, [stationId]: result }));
+      setDiagnosticsTimeline(prev => ({
+        ...prev,
+        [stationId]: [...(prev[stationId] ?? []), run].slice(-autoDiagnosticsConfig.timelineLimit)
+      }));
+      if (trigger !== 'import') {
+        setAiErrors(prev => {
+          const { [stationId]: _cleared, ...rest } = prev;
+          return rest;
+        });
+      }
+      
+      // Log the result status
+      const level = result.status === 'critical' ? 'error' : result.status === 'warning' ? 'warning' : 'success';
+      addLog(`Analysis Complete [${stationId}]: ${result.summary} (confidence ${Math.round(result.confidence * 100)}%, ${analyzed.length} frames${trigger === 'import' ? ', imported' : ''})`, level, 'AI', { correlationId, stationId, durationMs: elapsed() });
+      return result;
+    } catch (err) {
+      if (err instanceof AiResponseError) {
+        if (trigger !== 'import') setAiErrors(prev => ({ ...prev, [stationId]: { message: err.message, issues: err.issues } }));
+        addLog(`AI Core returned malformed diagnostics: ${err.issues.slice(0, 3).join('; ') || err.message}`, 'error', 'AI', { correlationId, stationId, durationMs: elapsed(), ...errorContext(err) });
+      } else {
+        addLog('AI Analysis protocol failed.', 'error', 'AI', { correlationId, stationId, durationMs: elapsed(), ...errorContext(err) });
+      }
+    } finally {
+      inFlightRef.current.delete(flightKey);
+      setAnalyzingStations(prev => prev.filter(id => id !== flightKey));
+    }
+    return null;
+  }, [addLog, trackIncident]);
+
+  // Automatic runs share one gate: per-station debounce and a fleet-wide hourly budget.
+  const requestAutoDiagnostics = useCallback((stationId: string, trigger: Exclude<DiagnosticsTrigger, 'manual'>, reason?: string) => {
+    const decision = schedulerRef.current.request(stationId);
+    if (decision.allowed) {
+      budgetWarnedRef.current = false;
+      runDiagnostics(stationId, trigger, reason);
+      return;
+    }
+    if (decision.reason === 'budget' && !budgetWarnedRef.current) {
+      budgetWarnedRef.current = true;
+      addLog(`Auto-diagnose budget exhausted (${autoDiagnosticsConfig.budget}/h). Skipping automatic runs until it frees up.`, 'warning', 'AI');
+    }
+  }, [addLog, runDiagnostics]);
+
   // --- Effects ---
 
-  // 1. Simulate Network Monitoring
+  // 0. In-app console sink. Declared first so the effects below can already log.
+  useEffect(() => addLogSink(entry => {
+    logBufferRef.current.push(entry);
+    recorderRef.current.record('log', entry);
+    setLogs(logBufferRef.current.toArray());
+    if (incidentManagerRef.current.observeLog(entry)) publishIncidents();
+  }), [publishIncidents]);
+
+  // The API owns accounts and sessions. Without it there is nothing to sign in to, so the cockpit runs as the local admin.
+  useEffect(() => {
+    let active = true;
+    fetchAuthState(authConfig.baseUrl, loadSession()?.token)
+      .then(state => {
+        if (!active) return;
+        setAuthEnabled(state.enabled);
+        if (!state.enabled) {
+          saveSession(null);
+          setSession(LOCAL_SESSION);
+          return;
+        }
+        saveSession(state.session);
+        if (state.session) setSession(state.session);
+        // A malformed account list locks the cockpit read-only; say why rather than leave everyone guessing.
+        if (!state.configured) addLog('AUTH_USERS could not be parsed on the API server. Nobody can sign in, so the cockpit stays read-only.', 'error', 'AUTH');
+      })
+      .catch(err => {
+        if (!active) return;
+        setSession(LOCAL_SESSION);
+        addLog(`Sign-in status unavailable (${(err as Error).message}). Running as the local admin; AI calls still need the API.`, 'warning', 'AUTH');
+      })
+      .finally(() => {
+        if (active) setAuthChecked(true);
+      });
+    return () => { active = false; };
+  }, [addLog]);
+
+  // 1. Physical Network Monitoring
   useEffect(() => {
     const handleOnline = () => {
+      setLinkUp(true);
       if (!simulatedOffline) {
-        setNetworkStatus(NetworkStatus.ONLINE);
         addLog('Connection restored. Resuming telemetry stream.', 'success', 'NET');
       }
     };
     const handleOffline = () => {
-      setNetworkStatus(NetworkStatus.OFFLINE);
+      setLinkUp(false);
       addLog('Carrier signal lost. Switching to local cache.', 'warning', 'NET');
     };
 
@@ -55,279 +390,1481 @@ const App: React.FC = () => {
     };
   }, [simulatedOffline, addLog]);
 
-  // 2. Simulate System Telemetry Generation
+  // 2. Telemetry Source Wiring
+  useEffect(() => {
+    const source = withTelemetryFaults(createTelemetrySource(sourceConfig, { random: SIMULATOR_RANDOM }), faultInjectorRef.current, sourceConfig);
+    sourceRef.current = source;
+
+    const unsubscribeMetrics = source.subscribe(metric => {
+      setFleetMetrics(prev => {
+        const newMetrics = [...(prev[metric.stationId] ?? []), metric];
+        if (newMetrics.length > LIVE_METRIC_WINDOW) newMetrics.shift();
+        return { ...prev, [metric.stationId]: newMetrics };
+      });
+      setLastSeen(prev => ({ ...prev, [metric.stationId]: Date.now() }));
+      const history = analyticsHistoryRef.current;
+      history[metric.stationId] = [...(history[metric.stationId] ?? []), metric].slice(-analyticsConfig.window);
+      recorderRef.current.record('metric', metric);
+      persistMetric(metric);
+      evaluateAlerts(metric);
+    });
+
+    const unsubscribeState = source.onStateChange((state, detail) => {
+      setSourceState(state);
+      const suffix = detail ? ` (${detail})` : '';
+      switch (state) {
+        case 'connected':
+          addLog(`Telemetry source [${source.kind}] linked${suffix}.`, 'success', 'NET');
+          break;
+        case 'connecting':
+          addLog(`Acquiring telemetry source [${source.kind}]${suffix}...`, 'info', 'NET');
+          break;
+        case 'reconnecting':
+          addLog(`Telemetry source [${source.kind}] reconnecting${suffix}.`, 'warning', 'NET');
+          break;
+        case 'error':
+          addLog(`Telemetry source [${source.kind}] fault${suffix}.`, 'error', 'NET');
+          break;
+        case 'disconnected':
+          addLog(`Telemetry source [${source.kind}] detached${suffix}.`, 'warning', 'NET');
+          break;
+      }
+    });
+
+    return () => {
+      unsubscribeMetrics();
+      unsubscribeState();
+      source.stop();
+      sourceRef.current = null;
+    };
+  }, [sourceConfig, addLog, persistMetric, evaluateAlerts]);
+
+  // 3. Rehydrate from IndexedDB and enforce the retention policy
+  useEffect(() => {
+    if (!isStorageAvailable()) {
+      addLog('IndexedDB unavailable. Telemetry history will not survive a reload.', 'warning', 'CACHE');
+      return;
+    }
+
+    let cancelled = false;
+    const rehydrate = async () => {
+      try {
+        await applyRetentionPolicy(storageConfig);
+        // Only pull records from earlier sessions; this session's live frames are already in state.
+        const before = sessionStartRef.current;
+        const [storedMetrics, storedLogs] = await Promise.all([
+          loadRecentMetrics(LIVE_METRIC_WINDOW * Math.max(telemetryConfig.stations.length, 1), { before }),
+          loadRecentLogs(LOG_BUFFER_SIZE, before)
+        ]);
+        if (cancelled) return;
+
+        const storedByStation: Record<string, SystemMetric[]> = {};
+        for (const record of storedMetrics) {
+          const metric = toMetric(record);
+          (storedByStation[metric.stationId] ??= []).push(metric);
+        }
+        // Stored frames come before anything that streamed in while we were loading.
+        setFleetMetrics(prev => {
+          const merged: Record<string, SystemMetric[]> = { ...prev };
+          for (const [stationId, stored] of Object.entries(storedByStation)) {
+            merged[stationId] = [...stored, ...(prev[stationId] ?? [])].slice(-LIVE_METRIC_WINDOW);
+          }
+          return merged;
+        });
+        // Stored entries go in front of anything logged while we were loading.
+        const buffer = logBufferRef.current;
+        const live = buffer.toArray();
+        buffer.clear();
+        [...storedLogs.map(toLog), ...live].forEach(buffer.push);
+        setLogs(buffer.toArray());
+        const lastStored = storedMetrics[storedMetrics.length - 1];
+        if (lastStored) {
+          setLastCacheTime(prev => prev ?? new Date(lastStored.recordedAt).toLocaleTimeString());
+        }
+        addLog(`Rehydrated ${storedMetrics.length} telemetry frames and ${storedLogs.length} log entries from local cache.`, 'info', 'CACHE');
+      } catch {
+        if (!cancelled) addLog('Local cache could not be opened. Running memory-only.', 'error', 'CACHE');
+      }
+    };
+    rehydrate();
+
+    const pruneInterval = setInterval(() => {
+      applyRetentionPolicy(storageConfig).catch(() => { /* Retried on next interval */ });
+    }, 60000);
+
+    return () => {
+      cancelled = true;
+      clearInterval(pruneInterval);
+    };
+  }, [addLog]);
+
+  // 4. Serve the offline chart from stored history
+  useEffect(() => {
+    if (!liveFeedDown || !isStorageAvailable()) {
+      setCachedMetrics([]);
+      return;
+    }
+
+    if (!selectedStation) return;
+
+    let cancelled = false;
+    loadRecentMetrics(CACHED_VIEW_POINTS, { stationId: selectedStation })
+      .then(records => { if (!cancelled) setCachedMetrics(records.map(toMetric)); })
+      .catch(() => { if (!cancelled) setCachedMetrics([]); });
+
+    return () => { cancelled = true; };
+  }, [liveFeedDown, selectedStation]);
+
+  // Chart history presets read from IndexedDB and refresh while open
+  useEffect(() => {
+    if (chartRange === 'live' || !selectedStation) {
+      setHistoryMetrics([]);
+      return;
+    }
+
+    const stationId = selectedStation;
+    const rangeMs = CHART_RANGES[chartRange];
+    let cancelled = false;
+    const load = () => {
+      const since = Date.now() - rangeMs;
+      const loaded = isStorageAvailable()
+        ? loadRecentMetrics(storageConfig.maxMetrics, { stationId, since }).then(records => records.map(toMetric))
+        : Promise.resolve((fleetMetricsRef.current[stationId] ?? []).filter(metric => metric.timestamp >= since));
+      loaded
+        .then(frames => { if (!cancelled) setHistoryMetrics(downsampleMetrics(frames, CHART_MAX_POINTS)); })
+        .catch(() => { if (!cancelled) addLog(`Failed to load ${chartRange} telemetry history from local cache.`, 'error', 'CACHE'); });
+    };
+    load();
+
+    // Short ranges move visibly; long ones only need an occasional top-up.
+    const interval = setInterval(load, chartRange === '5m' ? 5000 : 60000);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [chartRange, selectedStation, addLog]);
+
+  // A lone station skips the fleet grid and opens straight into its detail view.
+  useEffect(() => {
+    if (autoSelectedRef.current || stationIds.length === 0) return;
+    autoSelectedRef.current = true;
+    if (stationIds.length === 1 && telemetryConfig.stations.length <= 1) {
+      setSelectedStation(stationIds[0]);
+    }
+  }, [stationIds]);
+
+  // 5. Background sync bookkeeping for queued cache refreshes
   useEffect(() => {
+    refreshSyncStatus();
+    return onSyncComplete(({ replayed, syncedAt }) => {
+      addLog(`Background sync replayed ${replayed} queued cache refresh${replayed === 1 ? '' : 'es'}.`, 'success', 'CACHE');
+      setLastCacheTime(new Date(syncedAt).toLocaleTimeString());
+      refreshSyncStatus();
+    });
+  }, [addLog, refreshSyncStatus]);
+
+  // Without Background Sync support the page drains the queue itself once the uplink returns.
+  useEffect(() => {
+    if (networkStatus !== NetworkStatus.ONLINE || syncStatus.queueDepth === 0 || isBackgroundSyncSupported()) return;
+
+    replayQueueManually()
+      .then(({ replayed, notified }) => {
+        if (notified || replayed === 0) return;
+        addLog(`Uplink restored. Replayed ${replayed} queued cache refresh${replayed === 1 ? '' : 'es'}.`, 'success', 'CACHE');
+        setLastCacheTime(new Date().toLocaleTimeString());
+      })
+      .catch(err => addLog(`Queued cache refresh replay failed: ${(err as Error).message}`, 'error', 'CACHE'))
+      .finally(refreshSyncStatus);
+  }, [networkStatus, syncStatus.queueDepth, addLog, refreshSyncStatus]);
+
+  // 6. Only stream telemetry while an uplink is available
+  useEffect(() => {
+    const source = sourceRef.current;
+    if (!source) return;
+
+    if (linkUp && !simulatedOffline) {
+      source.start();
+    } else {
+      source.stop();
+    }
+  }, [linkUp, simulatedOffline, sourceConfig]);
+
+  // 7. Auto-diagnose: fixed schedule across the fleet
+  useEffect(() => {
+    if (!autoDiagnose || aiUnavailable) return;
+
     const interval = setInterval(() => {
-      // If we are "offline", we stop receiving "live" data updates, or we simulate data staleness.
-      // For this app, let's keep generating data locally but visually indicate it might be cached/stale if offline
-      // actually, a true offline app wouldn't get new server data.
-      
-      if (networkStatus === NetworkStatus.OFFLINE) {
-        return; 
+      for (const stationId of Object.keys(fleetMetricsRef.current)) {
+        requestAutoDiagnostics(stationId, 'schedule');
       }
+    }, autoDiagnosticsConfig.intervalMs);
 
-      setMetrics(prev => {
-        const now = new Date();
-        const timeStr = now.toLocaleTimeString([], { hour12: false, hour: '2-digit', minute: '2-digit', second: '2-digit' });
-        
-        // Simulate random fluctuation
-        const last = prev[prev.length - 1] || { cpuLoad: 30, memoryUsage: 40, temperature: 45 };
-        const newCpu = Math.min(100, Math.max(0, last.cpuLoad + (Math.random() * 20 - 10)));
-        const newMem = Math.min(100, Math.max(0, last.memoryUsage + (Math.random() * 10 - 5)));
-        const newTemp = Math.min(100, Math.max(20, last.temperature + (Math.random() * 5 - 2)));
-        const latency = Math.floor(Math.random() * 50) + 10;
-
-        const newMetric: SystemMetric = {
-          timestamp: timeStr,
-          cpuLoad: Math.round(newCpu),
-          memoryUsage: Math.round(newMem),
-          temperature: Math.round(newTemp),
-          networkLatency: latency
-        };
+    return () => clearInterval(interval);
+  }, [autoDiagnose, aiUnavailable, requestAutoDiagnostics]);
+
+  // 8. Auto-diagnose: score each new frame and fire early on a statistical spike
+  useEffect(() => {
+    for (const stationId of Object.keys(fleetMetrics)) {
+      const frames = fleetMetrics[stationId];
+      const latest = frames[frames.length - 1];
+      if (!latest || lastScoredRef.current[stationId] === latest) continue;
+      lastScoredRef.current[stationId] = latest;
+      if (!autoDiagnose || aiUnavailable) continue;
+
+      const anomalies = detectAnomalies(frames, autoDiagnosticsConfig.anomalyMetrics, autoDiagnosticsConfig.zScoreThreshold, autoDiagnosticsConfig.baselineSamples);
+      if (anomalies.length === 0) continue;
+
+      const reason = anomalies.map(anomaly => `${anomaly.metric} z=${anomaly.zScore} (${anomaly.value} vs mean ${anomaly.mean})`).join(', ');
+      addLog(`Anomaly detected [${stationId}]: ${reason}.`, 'warning', 'AI');
+      requestAutoDiagnostics(stationId, 'anomaly', reason);
+    }
+  }, [fleetMetrics, autoDiagnose, aiUnavailable, addLog, requestAutoDiagnostics]);
+
+  // 9. Persist dashboard layouts
+  useEffect(() => {
+    try {
+      saveWorkspace(workspace);
+    } catch {
+      addLog('Failed to save dashboard layout to local storage.', 'error', 'SYS');
+    }
+  }, [workspace, addLog]);
 
-        const newMetrics = [...prev, newMetric];
-        if (newMetrics.length > 20) newMetrics.shift(); // Keep last 20 points
-        
-        setLastCacheTime(now.toLocaleTimeString());
-        return newMetrics;
+  // Persist incidents so an open investigation survives a reload
+  useEffect(() => {
+    try {
+      saveIncidents(incidents);
+    } catch {
+      addLog('Failed to save incidents to local storage.', 'error', 'INCIDENT');
+    }
+  }, [incidents, addLog]);
+
+  // 10. Ctrl+K / Cmd+K opens the command palette from anywhere
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'k') {
+        event.preventDefault();
+        setPaletteOpen(prev => !prev);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // 11. Mirror the fault injector so the panel and header badge follow scenario steps
+  useEffect(() => {
+    const injector = faultInjectorRef.current;
+    const unsubscribe = injector.subscribe(setFaults);
+    return () => {
+      unsubscribe();
+      if (injector.getState().run) injector.clear();
+    };
+  }, []);
+
+  // 12. Notification channels. With sign-in on, the API relays only for signed-in cockpits, so reload whenever that changes.
+  useEffect(() => {
+    if (!authChecked) return;
+    const notifier = notifierRef.current;
+    notifier.setAuthToken(session.token);
+    if (authEnabled && !session.token) {
+      notifier.setChannels([]);
+      return;
+    }
+    let active = true;
+    loadNotificationChannels(notificationConfig.baseUrl, session.token)
+      .then(channels => {
+        if (!active) return;
+        notifier.setChannels(channels);
+        if (channels.length > 0) {
+          addLog(`Notifications armed for ${channels.map(channel => `${channel.name} (${channel.template}, ${channel.minSeverity}+)`).join(', ')}.`, 'info', 'NOTIFY');
+        }
+      })
+      .catch(err => {
+        if (active) addLog(`Notification channels unavailable from the cockpit API: ${(err as Error).message}.`, 'warning', 'NOTIFY');
       });
-    }, 2000);
+    return () => { active = false; };
+  }, [addLog, authChecked, authEnabled, session.token]);
 
-    return () => clearInterval(interval);
+  // Webhook delivery log
+  useEffect(() => {
+    const notifier = notifierRef.current;
+    const describe = ({ notification }: DeliveryRecord) => `${notification.kind} "${notification.title}" [${notification.stationId}]`;
+    const unsubscribe = notifier.onDelivery(record => {
+      switch (record.status) {
+        case 'delivered':
+          addLog(`Delivered ${describe(record)} to ${record.channel} (${record.detail}${record.attempt > 1 ? `, attempt ${record.attempt}` : ''}).`, 'success', 'NOTIFY');
+          break;
+        case 'retrying':
+          addLog(`Delivery of ${describe(record)} to ${record.channel} failed (${record.detail}). Retry ${record.attempt + 1}/${notificationConfig.maxAttempts} in ${Math.round(record.retryInMs! / 1000)}s.`, 'warning', 'NOTIFY');
+          break;
+        case 'failed':
+          addLog(`Gave up delivering ${describe(record)} to ${record.channel} after ${record.attempt} attempts (${record.detail}).`, 'error', 'NOTIFY');
+          break;
+        case 'held':
+          addLog(`Holding ${describe(record)} for ${record.channel} until the uplink returns.`, 'info', 'NOTIFY');
+          break;
+        case 'deduplicated':
+          addLog(`Skipped duplicate ${describe(record)} for ${record.channel}.`, 'info', 'NOTIFY');
+          break;
+        case 'dropped':
+          addLog(`Dropped ${describe(record)} for ${record.channel}: delivery queue full.`, 'warning', 'NOTIFY');
+          break;
+      }
+    });
+    return () => {
+      unsubscribe();
+      notifier.dispose();
+    };
+  }, [addLog]);
+
+  // Deliveries wait while OFFLINE and go out as soon as the cockpit is back
+  useEffect(() => {
+    notifierRef.current.setOnline(networkStatus !== NetworkStatus.OFFLINE);
   }, [networkStatus]);
 
+  // 13. Replay clock: advance the playhead while playing and stop at the end of the recording
+  useEffect(() => {
+    if (!replay || !replayClock.playing) return;
+    const end = replay.index.recording.endedAt;
+    const interval = setInterval(() => {
+      setReplayClock(prev => {
+        const at = Math.min(end, prev.at + REPLAY_TICK_MS * prev.speed);
+        return { ...prev, at, playing: at < end };
+      });
+    }, REPLAY_TICK_MS);
+    return () => clearInterval(interval);
+  }, [replay, replayClock.playing]);
+
   // --- Handlers ---
 
   const toggleSimulatedOffline = () => {
-    setSimulatedOffline(prev => {
-      const nextState = !prev;
-      if (nextState) {
-        setNetworkStatus(NetworkStatus.OFFLINE);
-        addLog('Simulation: Network Interface Disabled manually.', 'warning', 'SIM');
-      } else {
-        if (navigator.onLine) {
-          setNetworkStatus(NetworkStatus.ONLINE);
-          addLog('Simulation: Network Interface Enabled.', 'success', 'SIM');
-        } else {
-          addLog('Simulation disabled, but physical link is still down.', 'error', 'NET');
-        }
-      }
-      return nextState;
-    });
+    const nextState = !simulatedOffline;
+    if (!authorize('network.simulate', nextState ? 'Started a simulated outage' : 'Ended the simulated outage')) return;
+    setSimulatedOffline(nextState);
+    if (nextState) {
+      addLog('Simulation: Network Interface Disabled manually.', 'warning', 'SIM');
+    } else if (linkUp) {
+      addLog('Simulation: Network Interface Enabled.', 'success', 'SIM');
+    } else {
+      addLog('Simulation disabled, but physical link is still down.', 'error', 'NET');
+    }
   };
 
-  const handleRefreshCache = () => {
+  const handleRefreshCache = async () => {
+    if (!authorize('cache.refresh', `Forced a cache refresh${networkStatus === NetworkStatus.OFFLINE ? ' (queued offline)' : ''}`)) return;
     if (networkStatus === NetworkStatus.OFFLINE) {
-      addLog('Cache refresh sequence aborted. No uplink detected.', 'error', 'CACHE');
-      // Adding a slight delay to the visual feedback to make it feel like a failed attempt
-      setTimeout(() => {
-        alert("SYSTEM ALERT: Cache Refresh Failed\n\nUnable to synchronize data while the cockpit is offline.\n\nTroubleshooting:\n- Check physical network connection.\n- Verify uplink status.\n- Retry synchronization once connectivity is restored.");
-      }, 100);
+      try {
+        const { depth, backgroundSync } = await queueCacheRefresh('manual');
+        addLog(`No uplink detected. Cache refresh queued (${depth} pending) for ${backgroundSync ? 'background sync' : 'replay on reconnect'}.`, 'warning', 'CACHE');
+      } catch {
+        addLog('Cache refresh sequence aborted. No uplink detected and the sync queue is unavailable.', 'error', 'CACHE');
+      }
+      refreshSyncStatus();
       return;
     }
 
-    addLog('Cache refreshed successfully from main uplink.', 'success', 'CACHE');
-    setLastCacheTime(new Date().toLocaleTimeString());
+    try {
+      const syncedAt = await refreshCacheNow();
+      addLog('Cache refreshed successfully from main uplink.', 'success', 'CACHE');
+      setLastCacheTime(new Date(syncedAt).toLocaleTimeString());
+    } catch (err) {
+      addLog(`Cache refresh failed: ${(err as Error).message}`, 'error', 'CACHE');
+    }
+    refreshSyncStatus();
   };
 
-  const handleAiAnalysis = async () => {
-    if (networkStatus === NetworkStatus.OFFLINE) {
+  const handleAcknowledgeAlert = (alertId: string) => {
+    if (!authorize('alerts.manage', `Acknowledged alert ${alertId}`)) return;
+    const alert = alertEngineRef.current.acknowledge(alertId);
+    if (!alert) return;
+    addLog(`Acknowledged: ${alert.label}.`, 'info', 'ALERT');
+    publishAlerts();
+  };
+
+  const handleSilenceAlert = (alertId: string) => {
+    if (!authorize('alerts.manage', `Silenced alert ${alertId}`)) return;
+    const alert = alertEngineRef.current.silence(alertId, ALERT_SILENCE_MS);
+    if (!alert) return;
+    addLog(`Silenced: ${alert.label} for ${Math.round(ALERT_SILENCE_MS / 60000)} min.`, 'info', 'ALERT');
+    publishAlerts();
+  };
+
+  const handleAssignIncident = (incidentId: string, assignee: string) => {
+    if (!authorize('incidents.manage', `Assigned ${incidentId} to ${assignee.trim() || 'nobody'}`)) return;
+    const incident = incidentManagerRef.current.assign(incidentId, assignee);
+    if (!incident) return;
+    addLog(`Incident ${incident.id} ${incident.assignee ? `assigned to ${incident.assignee}` : 'unassigned'}.`, 'info', 'INCIDENT', { stationId: incident.stationId });
+    publishIncidents();
+  };
+
+  // Returns whether the notes were saved, so callers only report edits that actually landed.
+  const handleIncidentNotes = (incidentId: string, notes: string) => {
+    if (!authorize('incidents.manage', `Edited the notes of ${incidentId}`)) return false;
+    if (!incidentManagerRef.current.setNotes(incidentId, notes)) return false;
+    publishIncidents();
+    return true;
+  };
+
+  const handleResolveIncident = (incidentId: string, resolution: string) => {
+    if (!authorize('incidents.manage', `Resolved ${incidentId}`)) return;
+    const incident = incidentManagerRef.current.resolve(incidentId, resolution);
+    if (!incident) return;
+    addLog(`Incident ${incident.id} resolved${incident.resolution ? `: ${incident.resolution}` : ''}. Post-mortem ready for export.`, 'success', 'INCIDENT', { stationId: incident.stationId });
+    publishIncidents();
+  };
+
+  const handleExportIncident = (incidentId: string) => {
+    const incident = incidents.find(candidate => candidate.id === incidentId);
+    if (!incident || incident.state !== 'resolved') return;
+    downloadFile(`cockpit-postmortem-${incident.id}.md`, buildPostMortem(incident), 'text/markdown');
+    addLog(`Post-mortem for incident ${incident.id} exported.`, 'info', 'INCIDENT');
+  };
+
+  const handleSelectStation = (stationId: string | null) => {
+    setSelectedStation(stationId);
+    addLog(stationId ? `Focus transferred to station ${stationId}.` : 'Returning to fleet overview.', 'info', 'SYS');
+  };
+
+  const handleAiAnalysis = () => {
+    if (aiUnavailable) {
       addLog('Cannot contact AI Core: Uplink offline.', 'error', 'AI');
       return;
     }
 
-    if (metrics.length === 0) {
+    if (!selectedStation || metrics.length === 0) {
       addLog('Insufficient telemetry data for analysis.', 'warning', 'AI');
       return;
     }
 
-    setIsAnalyzing(true);
-    addLog('Transmitting telemetry to Gemini AI Core...', 'info', 'AI');
+    if (!authorize('diagnostics.run', `Ran diagnostics on ${selectedStation}`)) return;
+    runDiagnostics(selectedStation, 'manual');
+  };
+
+  const toggleAutoDiagnose = () => {
+    const next = !autoDiagnose;
+    if (!authorize('diagnostics.auto', next ? 'Armed auto-diagnose' : 'Disarmed auto-diagnose')) return;
+    setAutoDiagnose(next);
+    const { used, limit } = schedulerRef.current.getBudget();
+    addLog(next
+      ? `Auto-diagnose armed: every ${Math.round(autoDiagnosticsConfig.intervalMs / 60000)} min and on anomalies (budget ${used}/${limit} used this hour).`
+      : 'Auto-diagnose disarmed. Diagnostics run on demand only.', 'info', 'AI');
+  };
+
+  const upsertLayout = (layout: DashboardLayout) => {
+    setWorkspace(prev => ({
+      active: layout.name,
+      layouts: [...prev.layouts.filter(existing => existing.name !== layout.name), layout]
+    }));
+  };
+
+  const updateLayoutItems = (items: LayoutItem[]) => {
+    upsertLayout({ ...activeLayout, items, updatedAt: Date.now() });
+  };
+
+  const toggleLayoutEditing = () => {
+    if (!editingLayout && !authorize('layout.edit', `Opened the layout editor on "${activeLayout.name}"`)) return;
+    setEditingLayout(prev => !prev);
+  };
+
+  const handleSelectLayout = (name: string) => {
+    setWorkspace(prev => ({ ...prev, active: name }));
+    addLog(`Dashboard layout "${name}" loaded.`, 'info', 'SYS');
+  };
+
+  const handleSaveLayoutAs = (name: string) => {
+    if (!authorize('layout.edit', `Saved layout "${name}"`)) return;
+    const replaced = workspace.layouts.some(layout => layout.name === name);
+    upsertLayout({ name, items: activeLayout.items, updatedAt: Date.now() });
+    addLog(`Dashboard layout ${replaced ? 'overwritten' : 'saved'} as "${name}".`, 'success', 'SYS');
+  };
+
+  const handleDeleteLayout = () => {
+    if (workspace.layouts.length <= 1) return;
+    if (!authorize('layout.edit', `Deleted layout "${activeLayout.name}"`)) return;
+    const remaining = workspace.layouts.filter(layout => layout.name !== activeLayout.name);
+    setWorkspace({ active: remaining[0].name, layouts: remaining });
+    addLog(`Dashboard layout "${activeLayout.name}" deleted.`, 'warning', 'SYS');
+  };
+
+  const handleResetLayout = () => {
+    if (!authorize('layout.edit', `Reset layout "${activeLayout.name}"`)) return;
+    updateLayoutItems(DEFAULT_LAYOUT.items);
+    addLog(`Dashboard layout "${activeLayout.name}" reset to default arrangement.`, 'info', 'SYS');
+  };
+
+  const handleAddWidget = (type: WidgetType) => {
+    updateLayoutItems([...activeLayout.items, { type, ...WIDGET_REGISTRY[type].defaultSize }]);
+  };
+
+  const handleExportLayout = () => {
+    downloadFile(`cockpit-layout-${activeLayout.name.replace(/[^a-z0-9-_]+/gi, '_')}.json`, serializeLayout(activeLayout), 'application/json');
+    addLog(`Dashboard layout "${activeLayout.name}" exported.`, 'info', 'SYS');
+  };
+
+  const handleImportLayout = async (file: File) => {
+    if (!authorize('layout.edit', `Imported a layout from ${file.name}`)) return;
+    try {
+      const layout = parseLayout(await file.text());
+      upsertLayout(layout);
+      addLog(`Dashboard layout "${layout.name}" imported from ${file.name}.`, 'success', 'SYS');
+    } catch (err) {
+      const detail = err instanceof LayoutImportError && err.issues.length > 0 ? `: ${err.issues.slice(0, 3).join('; ')}` : '';
+      addLog(`Layout import failed (${(err as Error).message})${detail}.`, 'error', 'SYS');
+    }
+  };
+
+  const handleExportScenario = (scenario: FaultScenario) => {
+    downloadFile(`cockpit-scenario-${scenario.name.replace(/[^a-z0-9-_]+/gi, '_')}.json`, serializeScenario(scenario), 'application/json');
+    addLog(`Fault scenario "${scenario.name}" exported.`, 'info', 'FAULT');
+  };
+
+  const handleUpdateFaults = (patch: Partial<FaultProfile>) => {
+    if (authorize('faults.inject', `Set faults ${JSON.stringify(patch)}`)) faultInjectorRef.current.update(patch);
+  };
+
+  const handleClearFaults = () => {
+    if (authorize('faults.inject', 'Cleared all faults')) faultInjectorRef.current.clear();
+  };
+
+  const handlePlayScenario = (scenario: FaultScenario) => {
+    if (authorize('faults.inject', `Played fault scenario "${scenario.name}"`)) faultInjectorRef.current.play(scenario);
+  };
+
+  const handleImportScenario = async (file: File) => {
+    if (!authorize('faults.inject', `Imported a fault scenario from ${file.name}`)) return;
+    try {
+      const scenario = parseScenario(await file.text());
+      if (faultScenarios.some(builtIn => builtIn.name === scenario.name)) {
+        addLog(`Fault scenario "${scenario.name}" clashes with a built-in scenario. Rename it and import again.`, 'error', 'FAULT');
+        return;
+      }
+      setImportedScenarios(prev => [...prev.filter(existing => existing.name !== scenario.name), scenario]);
+      addLog(`Fault scenario "${scenario.name}" imported from ${file.name}.`, 'success', 'FAULT');
+    } catch (err) {
+      const detail = err instanceof FaultScenarioError && err.issues.length > 0 ? `: ${err.issues.slice(0, 3).join('; ')}` : '';
+      addLog(`Scenario import failed (${(err as Error).message})${detail}.`, 'error', 'FAULT');
+    }
+  };
+
+  const handleStartRecording = () => {
+    if (recorderRef.current.isRecording()) return;
+    if (!authorize('recording.manage', 'Started a session recording')) return;
+    const now = Date.now();
+    // Seed with what is on screen now so the replay opens on the same view.
+    const seed: RecordedEvent[] = [
+      ...Object.keys(fleetMetricsRef.current).flatMap(stationId => fleetMetricsRef.current[stationId])
+        .map(metric => ({ t: Math.min(metric.timestamp, now), type: 'metric' as const, data: metric })),
+      ...Object.keys(diagnosticsTimeline).flatMap(stationId => diagnosticsTimeline[stationId])
+        .map(run => ({ t: run.ranAt, type: 'diagnostics' as const, data: run })),
+      ...logBufferRef.current.toArray().slice(-200).map(entry => ({ t: now - 1, type: 'log' as const, data: entry })),
+      { t: now, type: 'alerts', data: alerts },
+    ];
+    recorderRef.current.start(seed);
+    setRecordingSince(now);
+    addLog(`Recording started (metrics, logs, alerts and diagnostics; cap ${RECORDING_MAX_EVENTS} events).`, 'info', 'REC');
+  };
+
+  const handleStopRecording = () => {
+    const recording = recorderRef.current.stop();
+    setRecordingSince(null);
+    if (!recording) return;
+    const stamp = new Date(recording.startedAt).toISOString().replace(/[:.]/g, '-');
+    downloadFile(`cockpit-recording-${stamp}.json`, serializeRecording(recording), 'application/json');
+    const seconds = Math.round((recording.endedAt - recording.startedAt) / 1000);
+    addLog(recording.truncated
+      ? `Recording saved with ${recording.events.length} events over ${seconds}s. Capture stopped early at the ${RECORDING_MAX_EVENTS}-event cap.`
+      : `Recording saved with ${recording.events.length} events over ${seconds}s.`, recording.truncated ? 'warning' : 'success', 'REC');
+  };
+
+  const startReplay = (name: string, recording: SessionRecording, at: number, playing: boolean) => {
+    const index = createReplayIndex(recording, { metrics: LIVE_METRIC_WINDOW, logs: LOG_BUFFER_SIZE, diagnostics: autoDiagnosticsConfig.timelineLimit });
+    const markers = recording.events.filter(event => event.type === 'diagnostics').map(event => event.t);
+    setReplay({ name, index, markers });
+    setReplayClock({ at, playing, speed: 1 });
+    if (selectedStation && !index.stations.includes(selectedStation)) {
+      setSelectedStation(index.stations.length === 1 ? index.stations[0] : null);
+    }
+    return index;
+  };
+
+  const handleOpenReplay = async (file: File) => {
+    try {
+      const { recording, skipped } = parseRecording(await file.text());
+      const index = startReplay(file.name, recording, recording.startedAt, true);
+      addLog(`Replaying ${file.name}: ${recording.events.length} events across ${index.stations.length} station${index.stations.length === 1 ? '' : 's'}${skipped > 0 ? `, ${skipped} unreadable events skipped` : ''}.`, skipped > 0 ? 'warning' : 'info', 'REC');
+    } catch (err) {
+      const detail = err instanceof RecordingImportError && err.issues.length > 0 ? `: ${err.issues.slice(0, 3).join('; ')}` : '';
+      addLog(`Recording could not be opened (${(err as Error).message})${detail}.`, 'error', 'REC');
+    }
+  };
+
+  const handleSeekReplay = (at: number) => {
+    if (!replay) return;
+    const { startedAt, endedAt } = replay.index.recording;
+    setReplayClock(prev => ({ ...prev, at: Math.min(endedAt, Math.max(startedAt, at)) }));
+  };
+
+  const handleToggleReplay = () => {
+    if (!replay) return;
+    setReplayClock(prev => prev.playing
+      ? { ...prev, playing: false }
+      // Playing from the very end restarts the recording
+      : { ...prev, playing: true, at: prev.at >= replay.index.recording.endedAt ? replay.index.recording.startedAt : prev.at });
+  };
+
+  const handleExitReplay = () => {
+    if (!replay) return;
+    setReplay(null);
+    setReplayClock({ at: 0, playing: false, speed: 1 });
+    addLog(`Closed replay of ${replay.name}. Back to live telemetry.`, 'info', 'REC');
+  };
+
+  const handleCopilotQuestion = async (question: string) => {
+    if (!selectedStation) return;
+    if (aiUnavailable) {
+      addLog('Cannot contact AI Core: Uplink offline.', 'error', 'AI');
+      return;
+    }
+
+    const stationId = selectedStation;
+    if (!authorize('copilot.ask', `Asked the copilot about ${stationId}: ${question}`)) return;
+    const history = chatHistories[stationId] ?? [];
+    const timestamp = new Date().toLocaleTimeString([], { hour12: false, hour: '2-digit', minute: '2-digit', second: '2-digit' });
+    const userMessage: ChatMessage = { id: newLogId(), role: 'user', text: question, timestamp, status: 'done' };
+    const replyId = newLogId();
+    const reply: ChatMessage = { id: replyId, role: 'model', text: '', timestamp, status: 'streaming' };
+
+    const updateReply = (update: (message: ChatMessage) => ChatMessage) => {
+      setChatHistories(prev => ({
+        ...prev,
+        [stationId]: (prev[stationId] ?? []).map(message => (message.id === replyId ? update(message) : message))
+      }));
+    };
+
+    setChatHistories(prev => ({ ...prev, [stationId]: [...(prev[stationId] ?? []), userMessage, reply] }));
+    setIsChatStreaming(true);
+    const correlationId = newCorrelationId();
+    const elapsed = startTimer();
+    addLog(`Copilot query [${stationId}]: ${question}`, 'info', 'AI', { correlationId, stationId });
 
     try {
-      const result = await analyzeSystemMetrics(metrics);
-      setAiResult(result);
-      
-      // Log the result status
-      const level = result.status === 'critical' ? 'error' : result.status === 'warning' ? 'warning' : 'success';
-      addLog(`Analysis Complete: ${result.summary}`, level, 'AI');
-      
+      const context = { stationId, metrics, logs: logs.slice(-15) };
+      for await (const chunk of aiProviderRef.current.streamChat(history, question, context, { correlationId, authToken: sessionRef.current.token })) {
+        updateReply(message => ({ ...message, text: message.text + chunk }));
+      }
+      updateReply(message => ({ ...message, status: 'done', text: message.text || 'No response from AI Core.' }));
     } catch (err) {
-      addLog('AI Analysis protocol failed.', 'error', 'AI');
+      updateReply(message => ({ ...message, status: 'error', text: message.text || 'Copilot link failed. Retry when the uplink stabilizes.' }));
+      addLog('Copilot conversation protocol failed.', 'error', 'AI', { correlationId, stationId, durationMs: elapsed(), ...errorContext(err) });
     } finally {
-      setIsAnalyzing(false);
+      setIsChatStreaming(false);
     }
   };
 
-  // --- Render ---
+  // --- Command Line ---
 
-  const currentMetric = metrics[metrics.length - 1] || { cpuLoad: 0, memoryUsage: 0, temperature: 0, networkLatency: 0 };
-  const isOffline = networkStatus === NetworkStatus.OFFLINE;
+  const SOURCE_KINDS: TelemetrySourceKind[] = ['websocket', 'sse', 'polling', 'prometheus', 'scrape'];
 
-  return (
-    <div className="min-h-screen bg-slate-900 text-slate-200 p-4 lg:p-6 overflow-hidden flex flex-col font-sans relative selection:bg-cyan-500/30">
-      
-      {/* Background Grid Effect */}
-      <div className="absolute inset-0 bg-[linear-gradient(rgba(15,23,42,0.9),rgba(15,23,42,0.9)),url('https://picsum.photos/1920/1080')] bg-cover bg-center pointer-events-none opacity-20 z-0"></div>
-      <div className="absolute inset-0 bg-[url('data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iMjAiIGhlaWdodD0iMjAiIHhtbG5zPSJodHRwOi8vd3d3LnczLm9yZy8yMDAwL3N2ZyI+PGNpcmNsZSBjeD0iMSIgY3k9IjEiIHI9IjEiIGZpbGw9InJnYmEoMzAsIDQxLCA1OSwgMC4zKSIvPjwvc3ZnPg==')] z-0 pointer-events-none"></div>
-
-      {/* Top Bar */}
-      <header className="relative z-10 flex flex-col md:flex-row justify-between items-start md:items-center mb-6 gap-4 border-b border-slate-700/50 pb-4">
-        <div className="flex items-center gap-3">
-          <div className="w-10 h-10 bg-cyan-900/50 border border-cyan-500 rounded flex items-center justify-center">
-            <Activity className="text-cyan-400" />
-          </div>
-          <div>
-            <h1 className="text-2xl font-black tracking-tighter text-white uppercase font-mono">Cockpit <span className="text-cyan-500">PRO</span></h1>
-            <p className="text-xs text-slate-400 font-mono tracking-widest">ORBITAL STATION MONITORING</p>
-          </div>
-        </div>
-
-        <div className="flex items-center gap-4">
-           {/* Offline Simulation Toggle */}
-          <div className="flex items-center gap-2 bg-slate-800/80 px-3 py-1.5 rounded border border-slate-700">
-             <span className="text-xs uppercase text-slate-400 font-mono">Simulate Outage</span>
-             <button 
-              onClick={toggleSimulatedOffline}
-              className={`w-10 h-5 rounded-full relative transition-colors ${simulatedOffline ? 'bg-red-900' : 'bg-slate-600'}`}
-             >
-                <div className={`absolute top-1 w-3 h-3 rounded-full bg-white transition-all ${simulatedOffline ? 'left-6 bg-red-400' : 'left-1'}`}></div>
-             </button>
-          </div>
+  const handleConnectSource = (url: string, kind?: string) => {
+    if (!authorize('source.configure', `Switched the telemetry source to ${url}${kind ? ` (${kind})` : ''}`)) return;
+    if (kind && !SOURCE_KINDS.includes(kind as TelemetrySourceKind)) {
+      addLog(`Unknown source kind "${kind}". Use ${SOURCE_KINDS.join(', ')}.`, 'error', 'CMD');
+      return;
+    }
+    let parsed: URL;
+    try {
+      parsed = new URL(url, window.location.href);
+    } catch {
+      addLog(`"${url}" is not a valid URL.`, 'error', 'CMD');
+      return;
+    }
+    const resolvedKind = (kind as TelemetrySourceKind | undefined) ?? (/^wss?:$/.test(parsed.protocol) ? 'websocket' : 'polling');
+    setSourceConfig(prev => ({ ...prev, kind: resolvedKind, url: parsed.href }));
+    addLog(`Switching telemetry source to ${resolvedKind} at ${parsed.href}.`, 'info', 'NET');
+  };
+
+  const handleResetSource = () => {
+    if (!authorize('source.configure', 'Reset the telemetry source')) return;
+    setSourceConfig(telemetryConfig);
+    addLog(`Telemetry source reset to configured ${telemetryConfig.kind}.`, 'info', 'NET');
+  };
+
+  // "live" is whatever the dashboard shows right now, including a replay.
+  const collectMetrics = async (scope: MetricsExportScope, stationId: string | null): Promise<SystemMetric[]> => {
+    if (scope === 'imported') {
+      return (importedTelemetry?.metrics ?? []).filter(metric => !stationId || metric.stationId === stationId);
+    }
+    if (scope === 'stored' && isStorageAvailable()) {
+      return (await loadRecentMetrics(storageConfig.maxMetrics, { stationId: stationId ?? undefined })).map(toMetric);
+    }
+    const frames = stationId ? viewFleetMetrics[stationId] ?? [] : Object.keys(viewFleetMetrics).flatMap(id => viewFleetMetrics[id]);
+    return [...frames].sort((a, b) => a.timestamp - b.timestamp);
+  };
+
+  const handleExportMetrics = async (format: MetricsExportFormat, scope: MetricsExportScope, stationId: string | null) => {
+    try {
+      const frames = await collectMetrics(scope, stationId);
+      if (frames.length === 0) {
+        addLog(`No ${scope} telemetry to export for ${stationId ?? 'the fleet'}.`, 'warning', 'SYS');
+        return;
+      }
+      const { content, type, extension } = exportMetrics(frames, format);
+      const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+      downloadFile(`cockpit-metrics-${stationId ?? 'fleet'}-${stamp}.${extension}`, content, type);
+      addLog(`Exported ${frames.length} ${scope} telemetry frames for ${stationId ?? 'the fleet'} as ${format.toUpperCase()}.`, 'success', 'SYS');
+    } catch (err) {
+      addLog('Metrics export failed.', 'error', 'SYS', errorContext(err));
+    }
+  };
+
+  const handleExportLogs = async (format: 'jsonl' | 'txt', scope: LogsExportScope) => {
+    try {
+      const entries = scope === 'stored' && isStorageAvailable()
+        ? (await loadRecentLogs(storageConfig.maxLogs)).map(toLog)
+        : viewLogs;
+      const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+      downloadFile(`cockpit-${scope === 'stored' ? 'logs' : 'console'}-${stamp}.${format}`, format === 'jsonl' ? toJsonLines(entries) : toPlainText(entries), format === 'jsonl' ? 'application/x-ndjson' : 'text/plain');
+      addLog(`Exported ${entries.length} ${scope === 'stored' ? 'stored log' : 'console'} entries as ${format.toUpperCase()}.`, 'success', 'SYS');
+    } catch (err) {
+      addLog('Log export failed.', 'error', 'SYS', errorContext(err));
+    }
+  };
+
+  const handleImportTelemetry = async (file: File) => {
+    if (!authorize('data.import', `Imported telemetry from ${file.name}`)) return;
+    try {
+      const { metrics: frames, issues, rows } = parseTelemetryFile(file.name, await file.text(), IMPORT_MAX_ROWS);
+      setImportedTelemetry({ name: file.name, metrics: frames, issues, rows, analysis: {} });
+      const level: LogLevel = frames.length === 0 ? 'error' : issues.length > 0 ? 'warning' : 'success';
+      addLog(`Imported ${frames.length} of ${rows} rows from ${file.name}${issues.length > 0 ? ` (${issues.length} validation issue${issues.length === 1 ? '' : 's'})` : ''}.`, level, 'SYS');
+      issues.slice(0, 5).forEach(issue => addLog(`${file.name} row ${issue.row}: ${issue.message}`, 'warning', 'SYS'));
+    } catch (err) {
+      const detail = err instanceof TelemetryImportError && err.issues.length > 0 ? `: ${err.issues.slice(0, 3).join('; ')}` : '';
+      addLog(`Telemetry import failed (${(err as Error).message})${detail}.`, 'error', 'SYS');
+    }
+  };
+
+  // Imported frames open in replay mode, so every widget and the chart ranges work on them unchanged.
+  const handleViewImport = () => {
+    if (!importedTelemetry || importedTelemetry.metrics.length === 0) return;
+    const { name, metrics: frames } = importedTelemetry;
+    const recording: SessionRecording = {
+      startedAt: frames[0].timestamp,
+      endedAt: frames[frames.length - 1].timestamp,
+      truncated: false,
+      events: frames.map(metric => ({ t: metric.timestamp, type: 'metric', data: metric })),
+    };
+    const index = startReplay(`${name} (import)`, recording, recording.endedAt, false);
+    const span = recording.endedAt - recording.startedAt;
+    setChartRange(span <= CHART_RANGES['5m'] ? '5m' : span <= CHART_RANGES['1h'] ? '1h' : '24h');
+    if (!selectedStation && index.stations.length === 1) setSelectedStation(index.stations[0]);
+    setDataPanelOpen(false);
+    addLog(`Viewing ${name} in replay mode (${frames.length} frames). Use LIVE to return.`, 'info', 'SYS');
+  };
+
+  const handleAnalyzeImport = async (stationId: string) => {
+    if (!importedTelemetry) return;
+    if (aiUnavailable) {
+      addLog('Cannot contact AI Core: Uplink offline.', 'error', 'AI');
+      return;
+    }
+    const { name } = importedTelemetry;
+    if (!authorize('diagnostics.run', `Ran diagnostics on ${stationId} from ${name}`)) return;
+    const frames = importedTelemetry.metrics.filter(metric => metric.stationId === stationId).slice(-aiConfig.diagnosticsWindow);
+    const result = await runDiagnostics(stationId, 'import', `${name} (${frames.length} frames)`, frames);
+    if (!result) return;
+    setImportedTelemetry(prev => (prev && prev.name === name ? { ...prev, analysis: { ...prev.analysis, [stationId]: result } } : prev));
+  };
+
+  // Resolves to the message shown under the form, or null once signed in.
+  const handleSignIn = async (username: string, password: string) => {
+    try {
+      const next = await signIn(authConfig.baseUrl, username, password);
+      saveSession(next);
+      setSession(next);
+      setLoginOpen(false);
+      recordAudit(next, 'auth.login', 'Signed in', 'allowed', authConfig.auditLimit);
+      addLog(`Signed in as ${next.username} (${next.role}).`, 'success', 'AUTH');
+      return null;
+    } catch (err) {
+      recordAudit({ ...GUEST_SESSION, username: username.trim() }, 'auth.failed', err instanceof AuthError ? 'Rejected sign-in' : 'Sign-in could not be checked', 'denied', authConfig.auditLimit);
+      return err instanceof AuthError ? err.message : `Sign-in unavailable: ${(err as Error).message}`;
+    }
+  };
+
+  const handleSignOut = () => {
+    if (!signedIn) return;
+    recordAudit(session, 'auth.logout', 'Signed out', 'allowed', authConfig.auditLimit);
+    signOut(authConfig.baseUrl, session);
+    saveSession(null);
+    setSession(GUEST_SESSION);
+    setEditingLayout(false);
+    setFaultPanelOpen(false);
+    addLog(`${session.username} signed out. The cockpit is read-only until someone signs in.`, 'info', 'AUTH');
+  };
+
+  // The API's trail when the role may read it and the API answers; otherwise this browser's own entries.
+  const loadAuditEntries = async (limit?: number) => {
+    const local = () => (limit ? loadAuditTrail().slice(-limit) : loadAuditTrail());
+    if (!can('audit.export')) return local();
+    try {
+      return await fetchAuditTrail(authConfig.baseUrl, session.token, limit);
+    } catch (err) {
+      addLog(`Server audit trail unavailable (${(err as Error).message}); showing this browser's entries only.`, 'warning', 'AUTH');
+      return local();
+    }
+  };
+
+  const handleExportAudit = async () => {
+    if (!authorize('audit.export', 'Exported the audit trail')) return;
+    const entries = await loadAuditEntries();
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    downloadFile(`cockpit-audit-${stamp}.jsonl`, entries.map(entry => JSON.stringify(entry)).join('\n') + (entries.length > 0 ? '\n' : ''), 'application/x-ndjson');
+    addLog(`Exported ${entries.length} audit entries.`, 'success', 'AUTH');
+  };
+
+  const openAlertIds = () => alerts.filter(alert => alert.state !== 'resolved').map(alert => alert.id);
+
+  const withAlert = (id: string, action: (alertId: string) => void) => {
+    if (!openAlertIds().includes(id)) {
+      addLog(`No open alert with id "${id}". Run "alerts list" to see them.`, 'error', 'CMD');
+      return;
+    }
+    action(id);
+  };
+
+  const openIncidentIds = () => incidents.filter(incident => incident.state === 'open').map(incident => incident.id);
+  const resolvedIncidentIds = () => incidents.filter(incident => incident.state === 'resolved').map(incident => incident.id);
+
+  const withIncident = (id: string, ids: string[], state: string, action: (incidentId: string) => void) => {
+    const incidentId = id.toUpperCase();
+    if (!ids.includes(incidentId)) {
+      addLog(`No ${state} incident with id "${id}". Run "incident list" to see them.`, 'error', 'CMD');
+      return;
+    }
+    action(incidentId);
+  };
+
+  const onOff = () => ['on', 'off'];
+
+  const requireReplay = (action: (index: ReplayIndex) => void) => {
+    if (replay) action(replay.index);
+    else addLog('No recording is open. Use the REPLAY button to open one.', 'warning', 'CMD');
+  };
 
-          <div className={`flex items-center gap-2 px-4 py-2 rounded font-mono font-bold border ${isOffline ? 'bg-red-900/20 border-red-500/50 text-red-400' : 'bg-green-900/20 border-green-500/50 text-green-400'}`}>
-            {isOffline ? <WifiOff size={18} /> : <Wifi size={18} />}
-            <span>{isOffline ? 'OFFLINE' : 'SYSTEM ONLINE'}</span>
+  const scenarioSlug = (scenario: FaultScenario) => scenario.name.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+
+  const commands: CommandSpec[] = [
+    { path: ['help'], args: [{ name: 'command', optional: true, suggest: () => [...new Set(commands.map(command => command.path[0]))] }], summary: 'List commands, or the subcommands of one group',
+      run: ([topic]) => formatHelp(commands, topic ? [topic] : []).forEach(line => addLog(line, 'info', 'CMD')) },
+    { path: ['diag', 'run'], summary: 'Run AI diagnostics for the selected station', run: () => handleAiAnalysis() },
+    { path: ['diag', 'auto'], args: [{ name: 'on|off', suggest: onOff }], summary: 'Arm or disarm automatic diagnostics',
+      run: ([state]) => { if ((state === 'on') !== autoDiagnose) toggleAutoDiagnose(); } },
+    { path: ['net', 'simulate'], args: [{ name: 'on|off', suggest: onOff }], summary: 'Simulate an uplink outage (on) or restore it (off)',
+      run: ([state]) => { if ((state === 'on') !== simulatedOffline) toggleSimulatedOffline(); } },
+    { path: ['net', 'status'], summary: 'Show link, source and network state',
+      run: () => addLog(`Network ${networkStatus}. Link ${linkUp ? 'up' : 'down'}, simulation ${simulatedOffline ? 'on' : 'off'}, source ${sourceConfig.kind} ${sourceState}${sourceConfig.url ? ` (${sourceConfig.url})` : ''}.`, 'info', 'CMD') },
+    { path: ['fault', 'list'], summary: 'List fault scenarios',
+      run: () => scenarios.forEach(scenario => addLog(`${scenarioSlug(scenario)}  ${Math.round(scenario.durationMs / 1000)}s  ${scenario.description ?? scenario.name}`, 'info', 'CMD')) },
+    { path: ['fault', 'run'], args: [{ name: 'scenario', suggest: () => scenarios.map(scenarioSlug) }], summary: 'Play (or replay) a fault scenario',
+      run: ([slug]) => {
+        const scenario = scenarios.find(candidate => scenarioSlug(candidate) === slug.toLowerCase());
+        if (scenario) handlePlayScenario(scenario);
+        else addLog(`Unknown scenario "${slug}". Run "fault list" to see them.`, 'error', 'CMD');
+      } },
+    { path: ['fault', 'clear'], summary: 'Stop the running scenario and remove all faults', run: () => handleClearFaults() },
+    { path: ['fault', 'status'], summary: 'Show active faults',
+      run: () => addLog(`Faults: ${describeFaults(faults.profile)}${faults.run ? ` (scenario "${faults.run.scenario.name}", step ${faults.run.applied}/${faults.run.scenario.steps.length})` : ''}.`, 'info', 'CMD') },
+    { path: ['record', 'start'], summary: 'Start recording metrics, logs, alerts and diagnostics', run: () => handleStartRecording() },
+    { path: ['record', 'stop'], summary: 'Stop recording and download the file',
+      run: () => (recorderRef.current.isRecording() ? handleStopRecording() : addLog('No recording in progress.', 'warning', 'CMD')) },
+    { path: ['replay', 'play'], summary: 'Resume replay', run: () => requireReplay(() => { if (!replayClock.playing) handleToggleReplay(); }) },
+    { path: ['replay', 'pause'], summary: 'Pause replay', run: () => requireReplay(() => setReplayClock(prev => ({ ...prev, playing: false }))) },
+    { path: ['replay', 'seek'], args: [{ name: 'mm:ss' }], summary: 'Jump to an offset from the start of the recording',
+      run: ([offset]) => requireReplay(index => {
+        const parts = offset.split(':').map(Number);
+        if (parts.some(part => !Number.isFinite(part) || part < 0)) {
+          addLog(`"${offset}" is not an offset. Use seconds or mm:ss.`, 'error', 'CMD');
+          return;
+        }
+        handleSeekReplay(index.recording.startedAt + parts.reduce((total, part) => total * 60 + part, 0) * 1000);
+      }) },
+    { path: ['replay', 'speed'], args: [{ name: 'x', suggest: () => REPLAY_SPEEDS.map(String) }], summary: 'Set the playback speed',
+      run: ([value]) => requireReplay(() => {
+        const speed = Number(value.replace(/x$/i, ''));
+        if (!REPLAY_SPEEDS.includes(speed)) addLog(`Speed must be one of ${REPLAY_SPEEDS.join(', ')}.`, 'error', 'CMD');
+        else setReplayClock(prev => ({ ...prev, speed }));
+      }) },
+    { path: ['replay', 'exit'], summary: 'Leave replay and return to live telemetry', run: () => requireReplay(handleExitReplay) },
+    { path: ['cache', 'refresh'], summary: 'Refresh the offline cache, or queue it while offline', run: () => handleRefreshCache() },
+    { path: ['alerts', 'list'], summary: 'List open alerts with their ids',
+      run: () => {
+        const open = alerts.filter(alert => alert.state !== 'resolved');
+        if (open.length === 0) addLog('No open alerts.', 'info', 'CMD');
+        open.forEach(alert => addLog(`${alert.id}  ${alert.stationId}  ${alert.severity.toUpperCase()}  ${alert.state}  ${alert.label} (${alert.value}/${alert.threshold})`, 'info', 'CMD'));
+      } },
+    { path: ['alerts', 'ack'], args: [{ name: 'id', suggest: openAlertIds }], summary: 'Acknowledge an alert', run: ([id]) => withAlert(id, handleAcknowledgeAlert) },
+    { path: ['alerts', 'silence'], args: [{ name: 'id', suggest: openAlertIds }], summary: `Silence an alert for ${Math.round(ALERT_SILENCE_MS / 60000)} min`, run: ([id]) => withAlert(id, handleSilenceAlert) },
+    { path: ['incident', 'list'], summary: 'List incidents, open ones first',
+      run: () => {
+        if (incidents.length === 0) addLog('No incidents.', 'info', 'CMD');
+        incidents.forEach(incident => addLog(`${incident.id}  ${incident.stationId}  ${incident.severity.toUpperCase()}  ${incident.state}  ${incident.assignee ?? 'unassigned'}  ${incident.title}`, 'info', 'CMD'));
+      } },
+    { path: ['incident', 'assign'], args: [{ name: 'id', suggest: openIncidentIds }, { name: 'name' }], summary: 'Assign an open incident (quote names with spaces)',
+      run: ([id, name]) => withIncident(id, openIncidentIds(), 'open', incidentId => handleAssignIncident(incidentId, name)) },
+    { path: ['incident', 'note'], args: [{ name: 'id', suggest: openIncidentIds }, { name: 'text' }], summary: 'Append a line to an incident\'s notes (quote text with spaces)',
+      run: ([id, text]) => withIncident(id, openIncidentIds(), 'open', incidentId => {
+        const { notes } = incidents.find(incident => incident.id === incidentId)!;
+        if (!handleIncidentNotes(incidentId, notes ? `${notes}\n${text}` : text)) return;
+        addLog(`Note added to incident ${incidentId}.`, 'info', 'INCIDENT');
+      }) },
+    { path: ['incident', 'resolve'], args: [{ name: 'id', suggest: openIncidentIds }, { name: 'resolution', optional: true }], summary: 'Resolve an incident, optionally noting what fixed it',
+      run: ([id, resolution = '']) => withIncident(id, openIncidentIds(), 'open', incidentId => handleResolveIncident(incidentId, resolution)) },
+    { path: ['incident', 'report'], args: [{ name: 'id', suggest: resolvedIncidentIds }], summary: 'Download the Markdown post-mortem of a resolved incident',
+      run: ([id]) => withIncident(id, resolvedIncidentIds(), 'resolved', handleExportIncident) },
+    { path: ['notify', 'status'], summary: 'List notification channels and pending deliveries',
+      run: () => {
+        const channels = notifierRef.current.getChannels();
+        if (channels.length === 0) addLog('No notification channels. Set NOTIFY_CHANNELS for the cockpit API server (npm run server).', 'info', 'CMD');
+        channels.forEach(channel => addLog(`${channel.name}  ${channel.template}  ${channel.minSeverity}+  ${channel.events?.join(',') ?? 'all events'}`, 'info', 'CMD'));
+        addLog(`${notifierRef.current.pending()} deliveries pending${isOffline ? ' (held while offline)' : ''}.`, 'info', 'CMD');
+      } },
+    { path: ['notify', 'test'], args: [{ name: 'channel', optional: true, suggest: () => notifierRef.current.getChannels().map(channel => channel.name) }], summary: 'Send a test notification to every channel, or one',
+      run: ([name]) => {
+        if (name && !notifierRef.current.getChannels().some(channel => channel.name === name)) {
+          addLog(`Unknown notification channel "${name}". Run "notify status" to see them.`, 'error', 'CMD');
+          return;
+        }
+        if (!authorize('notifications.test', `Sent a test notification to ${name ?? 'every channel'}`)) return;
+        const now = Date.now();
+        const queued = notifierRef.current.notify({
+          id: newCorrelationId(),
+          kind: 'test',
+          severity: 'warning',
+          stationId: selectedStation ?? 'FLEET',
+          title: 'Test notification',
+          message: `Sent from the cockpit command line at ${new Date(now).toLocaleTimeString()}.`,
+          at: now,
+          dedupKey: `test:${now}`,
+        }, name);
+        addLog(`Queued ${queued} test deliver${queued === 1 ? 'y' : 'ies'}.`, 'info', 'CMD');
+      } },
+    { path: ['station', 'select'], args: [{ name: 'id', suggest: () => stationIds }], summary: 'Open a station dashboard',
+      run: ([id]) => (stationIds.includes(id) ? handleSelectStation(id) : addLog(`Unknown station "${id}".`, 'error', 'CMD')) },
+    { path: ['station', 'fleet'], summary: 'Return to the fleet overview', run: () => handleSelectStation(null) },
+    { path: ['export', 'metrics'], args: [{ name: 'csv|json|openmetrics', suggest: () => METRICS_EXPORT_FORMATS }, { name: 'live|stored|imported', optional: true, suggest: () => ['live', 'stored', 'imported'] }],
+      summary: 'Download telemetry for the selected station (or fleet); stored history by default',
+      run: ([format, scope = 'stored']) => {
+        if (!METRICS_EXPORT_FORMATS.includes(format as MetricsExportFormat)) addLog(`Unsupported metrics export format "${format}". Use ${METRICS_EXPORT_FORMATS.join(', ')}.`, 'error', 'CMD');
+        else if (!['live', 'stored', 'imported'].includes(scope)) addLog(`Unknown scope "${scope}". Use live, stored or imported.`, 'error', 'CMD');
+        else handleExportMetrics(format as MetricsExportFormat, scope as MetricsExportScope, selectedStation);
+      } },
+    { path: ['export', 'logs'], args: [{ name: 'jsonl|txt', suggest: () => ['jsonl', 'txt'] }, { name: 'console|stored', optional: true, suggest: () => ['console', 'stored'] }],
+      summary: 'Download the console buffer or stored log history',
+      run: ([format, scope = 'console']) => {
+        if (format !== 'jsonl' && format !== 'txt') addLog(`Unsupported log export format "${format}". Use jsonl or txt.`, 'error', 'CMD');
+        else if (scope !== 'console' && scope !== 'stored') addLog(`Unknown scope "${scope}". Use console or stored.`, 'error', 'CMD');
+        else handleExportLogs(format, scope);
+      } },
+    { path: ['source', 'connect'], args: [{ name: 'url' }, { name: 'kind', optional: true, suggest: () => SOURCE_KINDS }], summary: 'Stream telemetry from a URL (kind inferred from ws:// or http://)',
+      run: ([url, kind]) => handleConnectSource(url, kind) },
+    { path: ['source', 'reset'], summary: 'Return to the configured telemetry source', run: () => handleResetSource() },
+    { path: ['console', 'clear'], summary: 'Clear the in-memory console buffer',
+      run: () => {
+        if (!authorize('console.clear', 'Cleared the console buffer')) return;
+        logBufferRef.current.clear();
+        setLogs([]);
+      } },
+    { path: ['auth', 'whoami'], summary: 'Show the signed-in user and what their role allows',
+      run: () => {
+        const allowed = ROLE_PERMISSIONS[session.role].map(permission => PERMISSION_LABELS[permission]);
+        addLog(`${session.username} (${session.role})${authEnabled ? '' : ', sign-in disabled'}. ${allowed.length > 0 ? `May ${allowed.join(', ')}.` : 'Read-only.'}`, 'info', 'CMD');
+      } },
+    { path: ['auth', 'login'], summary: 'Open the sign-in form',
+      run: () => (authEnabled ? setLoginOpen(true) : addLog('Sign-in is disabled. Configure AUTH_USERS on the API server to enable roles.', 'warning', 'CMD')) },
+    { path: ['auth', 'logout'], summary: 'Sign out and return to read-only mode',
+      run: () => (signedIn ? handleSignOut() : addLog('Nobody is signed in.', 'warning', 'CMD')) },
+    { path: ['audit', 'list'], args: [{ name: 'count', optional: true }], summary: 'Show the latest audit entries (10 by default)',
+      run: async ([count = '10']) => {
+        const limit = Number(count);
+        if (!Number.isInteger(limit) || limit <= 0) {
+          addLog(`"${count}" is not a positive count.`, 'error', 'CMD');
+          return;
+        }
+        const entries = await loadAuditEntries(limit);
+        if (entries.length === 0) addLog('The audit trail is empty.', 'info', 'CMD');
+        entries.forEach(entry => addLog(`${new Date(entry.at).toLocaleString()}  ${entry.username} (${entry.role})  ${entry.outcome.toUpperCase()}  ${entry.action}  ${entry.detail}`, entry.outcome === 'denied' ? 'warning' : 'info', 'CMD'));
+      } },
+    { path: ['audit', 'export'], summary: 'Download the audit trail as JSON Lines', run: () => handleExportAudit() },
+  ];
+
+  const executeCommand = async (line: string) => {
+    setCommandHistory(prev => [...prev.filter(entry => entry !== line), line].slice(-50));
+    addLog(`> ${line}`, 'info', 'CMD');
+    const resolved = resolveCommand(commands, line);
+    if ('error' in resolved) {
+      addLog(resolved.error, 'warning', 'CMD');
+      return;
+    }
+    try {
+      await resolved.command.run(resolved.args);
+    } catch (err) {
+      addLog(`Command failed: ${(err as Error).message}`, 'error', 'CMD', errorContext(err));
+    }
+  };
+
+  // --- Render ---
+
+  const isReconnecting = networkStatus === NetworkStatus.RECONNECTING;
+  const visibleAlerts = selectedStation ? viewAlerts.filter(alert => alert.stationId === selectedStation) : viewAlerts;
+  const firingCount = visibleAlerts.filter(alert => alert.state === 'firing').length;
+  const autoDiagnoseBudget = schedulerRef.current.getBudget();
+  const openIncidents = incidents.filter(incident => incident.state === 'open');
+
+  const renderMetricWidget = (id: MetricId): WidgetContent => {
+    const definition = getMetricDefinition(id);
+    if (!definition) return { content: <div className="text-xs text-slate-500 font-mono italic">Metric "{id}" is not in the registry.</div> };
+    const latest = metrics[metrics.length - 1];
+    const value = latest ? getMetricValue(latest, id) : undefined;
+    const accent = metricColor(definition, value);
+    const stats = stationAnalytics?.metrics.find(item => item.metric === id);
+    const rate = stats ? Number(stats.ratePerMin.toFixed(1)) : 0;
+    // The next threshold still ahead; one already crossed is the alert's business
+    const forecast = stats?.forecast;
+    const eta = forecast?.warningInMs
+      ? { severity: 'warning' as const, ms: forecast.warningInMs }
+      : forecast?.criticalInMs
+        ? { severity: 'critical' as const, ms: forecast.criticalInMs }
+        : null;
+    return {
+      content: (
+        <>
+          <MetricValue
+            label={definition.description}
+            value={value ?? '--'}
+            unit={definition.unit}
+            accent={accent}
+            trend={stats ? TREND_DIRECTIONS[stats.trend] : undefined}
+            trendLabel={stats && stats.trend !== 'stable' ? `${rate > 0 ? '+' : ''}${rate}${definition.unit}/min` : undefined}
+          />
+          <div className="mt-2 h-1 w-full bg-slate-700 rounded-full overflow-hidden">
+             <div className="h-full transition-all duration-500" style={{ width: `${value === undefined ? 0 : rangeFraction(definition, value) * 100}%`, backgroundColor: accent }}></div>
           </div>
-        </div>
-      </header>
-
-      {/* Main Grid */}
-      <main className="relative z-10 flex-1 grid grid-cols-1 lg:grid-cols-4 lg:grid-rows-2 gap-4 min-h-0">
-        
-        {/* Metric Cards (Top Row) */}
-        <div className="lg:col-span-3 grid grid-cols-1 md:grid-cols-4 gap-4">
-          <DashboardCard title="CPU Load" icon={Cpu} className="bg-slate-800/40">
-            <MetricValue label="Core Utilization" value={currentMetric.cpuLoad} unit="%" color="text-cyan-400" />
-            <div className="mt-2 h-1 w-full bg-slate-700 rounded-full overflow-hidden">
-               <div className="h-full bg-cyan-500 transition-all duration-500" style={{ width: `${currentMetric.cpuLoad}%` }}></div>
+          {eta && (
+            <div className={`mt-1 text-[10px] font-mono uppercase ${eta.severity === 'critical' ? 'text-red-400' : 'text-amber-400'}`} title={`${forecast!.method === 'ewma' ? 'EWMA' : 'Linear'} forecast over the last ${analyticsConfig.window} frames`}>
+              {eta.severity} {definition.thresholds[eta.severity]}{definition.unit} in ~{formatEta(eta.ms)}
             </div>
-          </DashboardCard>
+          )}
+        </>
+      )
+    };
+  };
 
-          <DashboardCard title="Memory" icon={Database} className="bg-slate-800/40">
-             <MetricValue label="RAM Usage" value={currentMetric.memoryUsage} unit="%" color="text-violet-400" />
-             <div className="mt-2 h-1 w-full bg-slate-700 rounded-full overflow-hidden">
-               <div className="h-full bg-violet-500 transition-all duration-500" style={{ width: `${currentMetric.memoryUsage}%` }}></div>
+  const renderWidget = (type: WidgetType): WidgetContent => {
+    if (type.startsWith('metric:')) return renderMetricWidget(type.slice('metric:'.length));
+    switch (type) {
+      case 'cache':
+        return {
+          content: (
+            <div className="flex flex-col justify-between h-full">
+              <div>
+                 <div className="text-xs text-slate-400 uppercase font-mono mb-1">Last Update</div>
+                 <div className={`text-lg font-mono font-bold ${isOffline ? 'text-red-400' : 'text-green-400'}`}>
+                   {lastCacheTime || '--:--:--'}
+                 </div>
+                 {isOffline && <div className="text-[10px] text-red-500 mt-1 font-mono">CONNECTION SEVERED</div>}
+                 <div className="mt-2 grid grid-cols-2 gap-1 text-[10px] font-mono uppercase text-slate-500">
+                   <span>Sync Queue</span>
+                   <span className={`text-right ${syncStatus.queueDepth > 0 ? 'text-amber-400' : 'text-slate-300'}`}>{syncStatus.queueDepth}</span>
+                   <span>Last Sync</span>
+                   <span className="text-right text-slate-300">{syncStatus.lastSync ? new Date(syncStatus.lastSync).toLocaleTimeString() : '--:--:--'}</span>
+                 </div>
+              </div>
+              <button 
+               onClick={handleRefreshCache}
+               disabled={!can('cache.refresh')}
+               title={can('cache.refresh') ? undefined : `Requires the ${requiredRole('cache.refresh')} role`}
+               className="mt-2 text-xs flex items-center justify-center gap-1 bg-slate-700 hover:bg-slate-600 py-1 px-2 rounded transition-colors active:scale-95 disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                <RefreshCw size={12} className={isOffline ? "" : "animate-[spin_3s_linear_infinite]"} />
+                FORCE REFRESH
+              </button>
             </div>
-          </DashboardCard>
-          
-           <DashboardCard title="Thermal" icon={Zap} className="bg-slate-800/40">
-             <MetricValue label="Core Temp" value={currentMetric.temperature} unit="°C" color={currentMetric.temperature > 80 ? "text-red-400" : "text-amber-400"} />
-              <div className="mt-2 h-1 w-full bg-slate-700 rounded-full overflow-hidden">
-               <div className="h-full bg-amber-500 transition-all duration-500" style={{ width: `${currentMetric.temperature}%` }}></div>
+          )
+        };
+      case 'custom': {
+        const custom = metrics[metrics.length - 1]?.custom ?? {};
+        const names = Object.keys(custom).filter(name => !getMetricDefinition(name)).sort();
+        return {
+          content: names.length === 0 ? (
+            <div className="text-xs text-slate-500 font-mono italic">No unregistered metrics for this station.</div>
+          ) : (
+            <div className="grid grid-cols-[1fr_auto] gap-x-2 gap-y-0.5 text-xs font-mono overflow-y-auto h-full">
+              {names.map(name => (
+                <React.Fragment key={name}>
+                  <span className="text-slate-400 truncate" title={name}>{name}</span>
+                  <span className="text-right text-cyan-300">{Number(custom[name].toFixed(2))}</span>
+                </React.Fragment>
+              ))}
             </div>
-          </DashboardCard>
-
-          <DashboardCard title="Cache Status" icon={RefreshCw} className="bg-slate-800/40">
-             <div className="flex flex-col justify-between h-full">
-               <div>
-                  <div className="text-xs text-slate-400 uppercase font-mono mb-1">Last Update</div>
-                  <div className={`text-lg font-mono font-bold ${isOffline ? 'text-red-400' : 'text-green-400'}`}>
-                    {lastCacheTime || '--:--:--'}
-                  </div>
-                  {isOffline && <div className="text-[10px] text-red-500 mt-1 font-mono">CONNECTION SEVERED</div>}
-               </div>
-               <button 
-                onClick={handleRefreshCache}
-                className="mt-2 text-xs flex items-center justify-center gap-1 bg-slate-700 hover:bg-slate-600 py-1 px-2 rounded transition-colors active:scale-95"
-               >
-                 <RefreshCw size={12} className={isOffline ? "" : "animate-[spin_3s_linear_infinite]"} />
-                 FORCE REFRESH
-               </button>
-             </div>
-          </DashboardCard>
-        </div>
-
-        {/* AI Side Panel (Right Column, spans 2 rows) */}
-        <div className="lg:col-span-1 lg:row-span-2 flex flex-col h-full gap-4">
-           <DashboardCard title="AI Copilot" icon={Bot} className="flex-1 flex flex-col">
-              <div className="flex-1 bg-slate-900/50 rounded border border-slate-800 p-4 mb-4 relative overflow-hidden">
-                {!aiResult && !isAnalyzing && (
-                  <div className="absolute inset-0 flex flex-col items-center justify-center text-slate-600 gap-2 opacity-50">
-                     <Bot size={48} />
-                     <span className="text-xs font-mono uppercase">System Standing By</span>
+          )
+        };
+      }
+      case 'copilot':
+        return {
+          action: (
+            <div className="flex rounded border border-slate-700 overflow-hidden text-[10px] font-mono font-bold">
+              {(['report', 'history', 'chat'] as const).map(mode => (
+                <button
+                  key={mode}
+                  onClick={() => setCopilotMode(mode)}
+                  className={`px-2 py-0.5 uppercase transition-colors ${copilotMode === mode ? 'bg-cyan-700 text-white' : 'text-slate-400 hover:bg-slate-700'}`}
+                >
+                  {mode}
+                </button>
+              ))}
+            </div>
+          ),
+          content: (
+            <div className="flex flex-col h-full">
+              {copilotMode === 'chat' ? (
+                <CopilotChat
+                  messages={chatMessages}
+                  onSend={handleCopilotQuestion}
+                  isStreaming={isChatStreaming}
+                  disabled={aiUnavailable || !can('copilot.ask')}
+                />
+              ) : copilotMode === 'history' ? (
+                <DiagnosticsTimeline key={selectedStation} runs={timelineRuns} />
+              ) : (
+                <>
+                  <div className="flex-1 bg-slate-900/50 rounded border border-slate-800 p-4 mb-4 relative overflow-y-auto">
+                    {!aiResult && !aiError && !isAnalyzing && (
+                      <div className="absolute inset-0 flex flex-col items-center justify-center text-slate-600 gap-2 opacity-50">
+                         <Bot size={48} />
+                         <span className="text-xs font-mono uppercase">System Standing By</span>
+                      </div>
+                    )}
+
+                    {isAnalyzing && (
+                      <div className="absolute inset-0 flex flex-col items-center justify-center gap-4 bg-slate-900/80 z-20 backdrop-blur-sm">
+                        <div className="w-12 h-12 border-4 border-cyan-500/30 border-t-cyan-500 rounded-full animate-spin"></div>
+                        <span className="text-cyan-400 font-mono text-xs animate-pulse">PROCESSING TELEMETRY...</span>
+                      </div>
+                    )}
+
+                    {(aiResult || aiError) && !isAnalyzing && (
+                      <DiagnosticsReport result={aiResult} error={aiError} />
+                    )}
                   </div>
-                )}
 
-                {isAnalyzing && (
-                  <div className="absolute inset-0 flex flex-col items-center justify-center gap-4 bg-slate-900/80 z-20 backdrop-blur-sm">
-                    <div className="w-12 h-12 border-4 border-cyan-500/30 border-t-cyan-500 rounded-full animate-spin"></div>
-                    <span className="text-cyan-400 font-mono text-xs animate-pulse">PROCESSING TELEMETRY...</span>
+                  <Button 
+                    onClick={handleAiAnalysis} 
+                    permission="diagnostics.run"
+                    disabled={isAnalyzing || aiUnavailable || replaying}
+                    variant={aiUnavailable || replaying ? 'secondary' : 'primary'}
+                    className="w-full flex items-center justify-center gap-2"
+                  >
+                    {aiUnavailable ? <WifiOff size={16}/> : <Bot size={16}/>}
+                    {replaying ? 'REPLAY MODE' : aiUnavailable ? 'UPLINK REQUIRED' : 'RUN DIAGNOSTICS'}
+                  </Button>
+
+                  <div className="mt-2 flex items-center justify-between text-[10px] font-mono text-slate-500">
+                    <button
+                      onClick={toggleAutoDiagnose}
+                      disabled={!can('diagnostics.auto')}
+                      title={can('diagnostics.auto') ? undefined : `Requires the ${requiredRole('diagnostics.auto')} role`}
+                      className={`flex items-center gap-1 uppercase font-bold transition-colors disabled:cursor-not-allowed ${autoDiagnose ? 'text-cyan-400' : 'hover:text-slate-300'}`}
+                    >
+                      <Timer size={12} /> Auto-diagnose {autoDiagnose ? 'on' : 'off'}
+                    </button>
+                    <span>BUDGET {autoDiagnoseBudget.used}/{autoDiagnoseBudget.limit} /H</span>
                   </div>
+                </>
+              )}
+            </div>
+          )
+        };
+      case 'alerts':
+        return {
+          action: firingCount > 0 && (
+            <span className="text-[10px] font-mono font-bold px-1.5 py-0.5 rounded bg-red-900/50 border border-red-500/50 text-red-300">{firingCount} FIRING</span>
+          ),
+          content: <AlertsPanel alerts={visibleAlerts} onAcknowledge={handleAcknowledgeAlert} onSilence={handleSilenceAlert} readOnly={replaying || !can('alerts.manage')} />
+        };
+      case 'chart':
+        return {
+          content: (
+            <div className="absolute inset-0">
+              {liveFeedDown && !replaying && chartRange === 'live' && (
+                 <div className="absolute top-9 right-2 z-10 bg-red-900/80 text-red-200 text-[10px] px-2 py-1 rounded font-mono border border-red-500/50 backdrop-blur">
+                   LIVE FEED PAUSED // CACHED VIEW{cachedMetrics.length > 0 && ` // ${cachedMetrics.length} FRAMES`}
+                 </div>
+              )}
+              <ChartWidget
+                data={chartRange !== 'live' ? chartHistory : liveFeedDown && !replaying && cachedMetrics.length > 0 ? cachedMetrics : metrics}
+                range={chartRange}
+                onRangeChange={setChartRange}
+                forecasts={chartRange === 'live' && (replaying || !liveFeedDown) ? stationAnalytics?.metrics.flatMap(item => (item.forecast ? [item.forecast] : [])) : undefined}
+              />
+            </div>
+          )
+        };
+      case 'console':
+        return {
+          content: (
+            <div className="h-full flex flex-col gap-1">
+              <div className="flex-1 min-h-0"><ConsoleLog logs={viewLogs} /></div>
+              <CommandInput commands={commands} history={commandHistory} onExecute={executeCommand} />
+            </div>
+          )
+        };
+    }
+  };
+
+  return (
+    <AccessContext.Provider value={access}>
+      <div className="min-h-screen bg-slate-900 text-slate-200 p-4 lg:p-6 overflow-hidden flex flex-col font-sans relative selection:bg-cyan-500/30">
+      
+        {/* Background Grid Effect */}
+        <div className="absolute inset-0 bg-[linear-gradient(rgba(15,23,42,0.9),rgba(15,23,42,0.9)),url('https://picsum.photos/1920/1080')] bg-cover bg-center pointer-events-none opacity-20 z-0"></div>
+        <div className="absolute inset-0 bg-[url('data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iMjAiIGhlaWdodD0iMjAiIHhtbG5zPSJodHRwOi8vd3d3LnczLm9yZy8yMDAwL3N2ZyI+PGNpcmNsZSBjeD0iMSIgY3k9IjEiIHI9IjEiIGZpbGw9InJnYmEoMzAsIDQxLCA1OSwgMC4zKSIvPjwvc3ZnPg==')] z-0 pointer-events-none"></div>
+
+        {/* Top Bar */}
+        <header className="relative z-10 flex flex-col md:flex-row justify-between items-start md:items-center mb-6 gap-4 border-b border-slate-700/50 pb-4">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-cyan-900/50 border border-cyan-500 rounded flex items-center justify-center">
+              <Activity className="text-cyan-400" />
+            </div>
+            <div>
+              <h1 className="text-2xl font-black tracking-tighter text-white uppercase font-mono">Cockpit <span className="text-cyan-500">PRO</span></h1>
+              <p className="text-xs text-slate-400 font-mono tracking-widest">
+                {selectedStation ? `STATION // ${selectedStation}` : `FLEET MONITORING // ${stationIds.length} STATION${stationIds.length === 1 ? '' : 'S'}`}
+                {stationAnalytics && (
+                  <span className={`ml-2 ${HEALTH_GRADE_STYLES[stationAnalytics.health.grade]}`} title={stationAnalytics.health.factors.join('\n') || 'All metrics nominal'}>
+                    {`// HEALTH ${stationAnalytics.health.score}`}
+                  </span>
                 )}
+              </p>
+            </div>
+          </div>
 
-                {aiResult && !isAnalyzing && (
-                  <div className="space-y-4 animate-fade-in">
-                    <div className={`p-2 rounded border font-mono text-center uppercase text-sm font-bold
-                      ${aiResult.status === 'optimal' ? 'bg-green-900/30 border-green-600 text-green-400' : 
-                        aiResult.status === 'warning' ? 'bg-amber-900/30 border-amber-600 text-amber-400' : 
-                        'bg-red-900/30 border-red-600 text-red-400'}`}>
-                       STATUS: {aiResult.status}
-                    </div>
-                    <div>
-                      <h4 className="text-xs text-slate-400 uppercase font-mono mb-1">Analysis</h4>
-                      <p className="text-sm text-slate-200 leading-relaxed">{aiResult.summary}</p>
-                    </div>
-                    <div>
-                      <h4 className="text-xs text-slate-400 uppercase font-mono mb-1">Directive</h4>
-                      <p className="text-sm text-cyan-300 font-medium">{aiResult.recommendation}</p>
-                    </div>
-                  </div>
+          <div className="flex items-center gap-4">
+            {authEnabled && (
+              <div className="flex items-center gap-2 bg-slate-800/80 px-3 py-1.5 rounded border border-slate-700 font-mono text-xs">
+                <User size={14} className="text-slate-400" />
+                <span className="text-slate-200">{session.username}</span>
+                <span className={`text-[10px] uppercase px-1 rounded ${ROLE_STYLES[session.role]}`}>{session.role}</span>
+                {session.role === 'viewer' && <span className="text-[10px] text-amber-400 font-bold">READ-ONLY</span>}
+                {signedIn ? (
+                  <button onClick={handleSignOut} className="text-slate-400 hover:text-slate-200" title="Sign out"><LogOut size={14} /></button>
+                ) : (
+                  <button onClick={() => setLoginOpen(true)} className="flex items-center gap-1 text-cyan-400 hover:text-cyan-300 uppercase" title="Sign in"><LogIn size={14} /> Sign in</button>
                 )}
               </div>
-              
-              <Button 
-                onClick={handleAiAnalysis} 
-                disabled={isAnalyzing || isOffline}
-                variant={isOffline ? 'secondary' : 'primary'}
-                className="w-full flex items-center justify-center gap-2"
+            )}
+            {selectedStation && (
+              <Button variant="secondary" onClick={() => handleSelectStation(null)} className="flex items-center gap-2 !px-3 !py-1.5">
+                <LayoutGrid size={14} /> Fleet
+              </Button>
+            )}
+            {selectedStation && (
+              <Button
+                variant={editingLayout ? 'primary' : 'secondary'}
+                onClick={toggleLayoutEditing}
+                permission="layout.edit"
+                className="flex items-center gap-2 !px-3 !py-1.5"
               >
-                {isOffline ? <WifiOff size={16}/> : <Bot size={16}/>}
-                {isOffline ? 'UPLINK REQUIRED' : 'RUN DIAGNOSTICS'}
+                <LayoutDashboard size={14} /> {editingLayout ? 'Done' : 'Layout'}
               </Button>
-           </DashboardCard>
+            )}
+
+            <Button
+              variant="secondary"
+              onClick={() => setIncidentsPanelOpen(true)}
+              className={`flex items-center gap-2 !px-3 !py-1.5 ${openIncidents.some(incident => incident.severity === 'critical') ? '!border-red-500 !text-red-300' : openIncidents.length > 0 ? '!border-amber-500 !text-amber-300' : ''}`}
+            >
+              <Siren size={14} /> Incidents
+              {openIncidents.length > 0 && <span className="text-[10px] font-mono px-1 rounded bg-red-900/60">{openIncidents.length}</span>}
+            </Button>
+
+            <Button variant="secondary" onClick={() => setDataPanelOpen(true)} className="flex items-center gap-2 !px-3 !py-1.5" title="Import / export telemetry and logs">
+              <ArrowUpDown size={14} /> Data
+            </Button>
+
+            <SessionControls
+              recordingSince={recordingSince}
+              recordedEvents={recorderRef.current.size()}
+              recorderFull={recorderRef.current.isFull()}
+              now={Date.now()}
+              onStartRecording={handleStartRecording}
+              onStopRecording={handleStopRecording}
+              onOpenReplay={handleOpenReplay}
+            />
+
+            <Button
+              variant="secondary"
+              onClick={() => setFaultPanelOpen(true)}
+              permission="faults.inject"
+              className={`flex items-center gap-2 !px-3 !py-1.5 ${countActiveFaults(faults.profile) > 0 ? '!border-amber-500 !text-amber-300' : ''}`}
+            >
+              <Zap size={14} className={faults.run ? 'animate-pulse' : ''} /> Faults
+              {countActiveFaults(faults.profile) > 0 && <span className="text-[10px] font-mono px-1 rounded bg-amber-900/60">{countActiveFaults(faults.profile)}</span>}
+            </Button>
+
+             {/* Offline Simulation Toggle */}
+            <div className="flex items-center gap-2 bg-slate-800/80 px-3 py-1.5 rounded border border-slate-700">
+               <span className="text-xs uppercase text-slate-400 font-mono">Simulate Outage</span>
+               <button 
+                onClick={toggleSimulatedOffline}
+                disabled={!can('network.simulate')}
+                title={can('network.simulate') ? undefined : `Requires the ${requiredRole('network.simulate')} role`}
+                className={`w-10 h-5 rounded-full relative transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${simulatedOffline ? 'bg-red-900' : 'bg-slate-600'}`}
+               >
+                  <div className={`absolute top-1 w-3 h-3 rounded-full bg-white transition-all ${simulatedOffline ? 'left-6 bg-red-400' : 'left-1'}`}></div>
+               </button>
+            </div>
+
+            <div className={`flex items-center gap-2 px-4 py-2 rounded font-mono font-bold border ${isOffline ? 'bg-red-900/20 border-red-500/50 text-red-400' : isReconnecting ? 'bg-amber-900/20 border-amber-500/50 text-amber-400' : 'bg-green-900/20 border-green-500/50 text-green-400'}`}>
+              {isOffline ? <WifiOff size={18} /> : <Wifi size={18} className={isReconnecting ? 'animate-pulse' : ''} />}
+              <span>{isOffline ? 'OFFLINE' : isReconnecting ? 'RECONNECTING' : 'SYSTEM ONLINE'}</span>
+              <span className="text-[10px] text-slate-500 font-normal uppercase">[{sourceConfig.kind}]</span>
+            </div>
+          </div>
+        </header>
+
+        {replay && (
+          <ReplayBar
+            name={replay.name}
+            startedAt={replay.index.recording.startedAt}
+            endedAt={replay.index.recording.endedAt}
+            at={replayClock.at}
+            playing={replayClock.playing}
+            speed={replayClock.speed}
+            speeds={REPLAY_SPEEDS}
+            markers={replay.markers}
+            onTogglePlay={handleToggleReplay}
+            onSeek={handleSeekReplay}
+            onSpeedChange={speed => setReplayClock(prev => ({ ...prev, speed }))}
+            onExit={handleExitReplay}
+          />
+        )}
+
+        {/* Fleet Overview */}
+        {!selectedStation && (
+          <main className="relative z-10 flex-1 min-h-0 overflow-y-auto">
+            <FleetOverview
+              fleetMetrics={viewFleetMetrics}
+              lastSeen={replayFrame ? replayFrame.lastSeen : lastSeen}
+              alerts={viewAlerts}
+              aiResults={viewAiResults}
+              staleAfterMs={telemetryConfig.intervalMs * STATION_STALE_INTERVALS}
+              now={replayFrame ? replayFrame.at : Date.now()}
+              healthScores={Object.fromEntries(Object.keys(analytics).map(stationId => [stationId, analytics[stationId].health]))}
+              onSelect={handleSelectStation}
+            />
+          </main>
+        )}
 
-           <DashboardCard title="Alerts" icon={ShieldAlert} className="h-1/3">
-              <div className="h-full flex items-center justify-center text-slate-500 text-xs font-mono">
-                 NO CRITICAL ALERTS
+        {/* Station Dashboard */}
+        {selectedStation && (
+          <main className="relative z-10 flex-1 min-h-0 overflow-y-auto">
+            {editingLayout && (
+              <LayoutToolbar
+                layouts={workspace.layouts}
+                active={activeLayout.name}
+                available={WIDGET_TYPES.filter(type => !activeLayout.items.some(item => item.type === type))}
+                onSelect={handleSelectLayout}
+                onSaveAs={handleSaveLayoutAs}
+                onDelete={handleDeleteLayout}
+                onReset={handleResetLayout}
+                onExport={handleExportLayout}
+                onImport={handleImportLayout}
+                onAdd={handleAddWidget}
+              />
+            )}
+            <DashboardGrid
+              items={activeLayout.items}
+              editing={editingLayout}
+              onChange={updateLayoutItems}
+              renderWidget={renderWidget}
+            />
+            {activeLayout.items.length === 0 && (
+              <div className="h-48 flex items-center justify-center text-slate-600 text-xs font-mono uppercase border border-dashed border-slate-700 rounded-lg">
+                Empty layout. Open LAYOUT to add widgets.
               </div>
-           </DashboardCard>
-        </div>
-
-        {/* Chart Area (Bottom Row, Left) */}
-        <div className="lg:col-span-3 lg:row-span-1 min-h-[300px] flex flex-col gap-4">
-          <DashboardCard title="Telemetry History" icon={Activity} className="flex-1">
-             <div className="absolute inset-0 top-12 bottom-4 left-4 right-4">
-               {isOffline && (
-                  <div className="absolute top-2 right-2 z-10 bg-red-900/80 text-red-200 text-[10px] px-2 py-1 rounded font-mono border border-red-500/50 backdrop-blur">
-                    LIVE FEED PAUSED // CACHED VIEW
-                  </div>
-               )}
-               <ChartWidget data={metrics} />
-             </div>
-          </DashboardCard>
-        </div>
-
-      </main>
-
-      {/* Footer Console (Bottom) */}
-      <footer className="mt-4 relative z-10 h-48">
-        <DashboardCard title="System Console" icon={Command} className="h-full bg-black/40">
-           <ConsoleLog logs={logs} />
-        </DashboardCard>
-      </footer>
-
-    </div>
+            )}
+          </main>
+        )}
+
+        {/* Footer Console (Fleet view; station dashboards host it as a widget) */}
+        {!selectedStation && (
+          <footer className="mt-4 relative z-10 h-64">
+            <DashboardCard title="System Console" icon={Command} className="h-full bg-black/40">
+               <div className="h-full flex flex-col gap-1">
+                 <div className="flex-1 min-h-0"><ConsoleLog logs={viewLogs} /></div>
+                 <CommandInput commands={commands} history={commandHistory} onExecute={executeCommand} />
+               </div>
+            </DashboardCard>
+          </footer>
+        )}
+
+        {incidentsPanelOpen && (
+          <IncidentsPanel
+            incidents={incidents}
+            initialId={openIncidents.find(incident => incident.stationId === selectedStation)?.id}
+            onAssign={handleAssignIncident}
+            onNotes={handleIncidentNotes}
+            onResolve={handleResolveIncident}
+            onExport={handleExportIncident}
+            onClose={() => setIncidentsPanelOpen(false)}
+          />
+        )}
+
+        {dataPanelOpen && (
+          <DataTransferPanel
+            stationIds={stationIds}
+            selectedStation={selectedStation}
+            storageAvailable={isStorageAvailable()}
+            imported={importedTelemetry}
+            analyzing={analyzingStations.filter(key => key.startsWith('import:')).map(key => key.slice('import:'.length))}
+            onExportMetrics={handleExportMetrics}
+            onExportLogs={handleExportLogs}
+            onImport={handleImportTelemetry}
+            onView={handleViewImport}
+            onAnalyze={handleAnalyzeImport}
+            onDiscard={() => setImportedTelemetry(null)}
+            onClose={() => setDataPanelOpen(false)}
+          />
+        )}
+
+        {faultPanelOpen && (
+          <FaultInjectionPanel
+            state={faults}
+            stations={stationIds}
+            scenarios={scenarios}
+            aiTimeoutMs={aiConfig.timeoutMs}
+            onUpdate={handleUpdateFaults}
+            onClear={handleClearFaults}
+            onPlay={handlePlayScenario}
+            onExport={handleExportScenario}
+            onImport={handleImportScenario}
+            onClose={() => setFaultPanelOpen(false)}
+          />
+        )}
+
+        {loginOpen && <LoginPanel onSignIn={handleSignIn} onClose={() => setLoginOpen(false)} />}
+
+        {paletteOpen && (
+          <CommandPalette
+            commands={commands}
+            history={commandHistory}
+            onExecute={executeCommand}
+            onClose={() => setPaletteOpen(false)}
+          />
+        )}
+
+      </div>
+    </AccessContext.Provider>
   );
 };
 
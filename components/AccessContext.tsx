@@ -0,0 +1,13 @@
+import { createContext, useContext } from 'react';
+import { Permission, Session } from '../types';
+import { LOCAL_SESSION } from '../services/accessControl';
+
+export interface Access {
+  session: Session;
+  can: (permission: Permission) => boolean;
+}
+
+// Outside a provider everything is allowed, matching a cockpit without sign-in.
+export const AccessContext = createContext<Access>({ session: LOCAL_SESSION, can: () => true });
+
+export const useAccess = () => useContext(AccessContext);
@@ -0,0 +1,67 @@
+import React from 'react';
+import { BellOff, Check } from 'lucide-react';
+import { Alert } from '../types';
+
+interface AlertsPanelProps {
+  alerts: Alert[];
+  onAcknowledge: (alertId: string) => void;
+  onSilence: (alertId: string) => void;
+  // Hides acknowledge/silence, e.g. while replaying a recording
+  readOnly?: boolean;
+}
+
+const formatTime = (epoch: number) =>
+  new Date(epoch).toLocaleTimeString([], { hour12: false, hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+const AlertsPanel: React.FC<AlertsPanelProps> = ({ alerts, onAcknowledge, onSilence, readOnly }) => {
+  if (alerts.length === 0) {
+    return (
+      <div className="h-full flex items-center justify-center text-slate-500 text-xs font-mono">
+        NO CRITICAL ALERTS
+      </div>
+    );
+  }
+
+  const getStyle = (alert: Alert) => {
+    if (alert.state === 'resolved') return 'border-slate-700 text-slate-500';
+    if (alert.state === 'acknowledged') return 'border-slate-600 text-slate-300';
+    return alert.severity === 'critical'
+      ? 'border-red-500/60 bg-red-900/20 text-red-300 animate-pulse'
+      : 'border-amber-500/60 bg-amber-900/20 text-amber-300';
+  };
+
+  return (
+    <div className="h-full overflow-y-auto space-y-2 pr-1">
+      {alerts.map(alert => (
+        <div key={alert.id} className={`rounded border px-2 py-1.5 font-mono text-xs ${getStyle(alert)}`}>
+          <div className="flex justify-between items-center gap-2">
+            <span className="font-bold uppercase truncate">{alert.label}</span>
+            <span className="text-[10px] uppercase shrink-0" title="Alert id (for the command line)">{alert.id} // {alert.state}</span>
+          </div>
+          <div className="flex justify-between items-center gap-2 mt-1 text-[10px]">
+            <span>
+              {alert.value} / {alert.threshold} @ {formatTime(alert.firedAt)}
+              {alert.silencedUntil && alert.state !== 'resolved' && ` // SILENCED TO ${formatTime(alert.silencedUntil)}`}
+            </span>
+            {alert.state !== 'resolved' && !readOnly && (
+              <span className="flex gap-1 shrink-0">
+                {alert.state === 'firing' && (
+                  <button onClick={() => onAcknowledge(alert.id)} title="Acknowledge" className="p-0.5 rounded hover:bg-slate-700">
+                    <Check size={12} />
+                  </button>
+                )}
+                {!alert.silencedUntil && (
+                  <button onClick={() => onSilence(alert.id)} title="Silence" className="p-0.5 rounded hover:bg-slate-700">
+                    <BellOff size={12} />
+                  </button>
+                )}
+              </span>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default AlertsPanel;
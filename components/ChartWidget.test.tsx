@@ -0,0 +1,58 @@
+import React from 'react';
+import { describe, expect, it, vi } from 'vitest';
+import { fireEvent, render, screen } from '@testing-library/react';
+import { MetricForecast, SystemMetric } from '../types';
+import ChartWidget from './ChartWidget';
+
+// jsdom has no layout, so give the chart a fixed size instead of measuring its parent.
+vi.mock('recharts', async (importOriginal) => {
+  const recharts = await importOriginal<typeof import('recharts')>();
+  return {
+    ...recharts,
+    ResponsiveContainer: ({ children }: { children: React.ReactElement<{ width?: number; height?: number }> }) =>
+      React.cloneElement(children, { width: 800, height: 400 }),
+  };
+});
+
+const DATA: SystemMetric[] = Array.from({ length: 10 }, (_, step) => ({
+  stationId: 'ALPHA',
+  timestamp: 1_700_000_000_000 + step * 2000,
+  cpuLoad: 40 + step,
+  memoryUsage: 55,
+  networkLatency: 20,
+  temperature: 45,
+}));
+
+const CPU_FORECAST: MetricForecast = {
+  metric: 'cpuLoad',
+  method: 'linear',
+  points: [0, 1, 2].map(step => ({ timestamp: 1_700_000_018_000 + step * 10_000, value: 49 + step * 5, lower: 45 + step * 5, upper: 53 + step * 5 })),
+  warningInMs: null,
+  criticalInMs: null,
+};
+
+describe('ChartWidget', () => {
+  it('draws one area per selected series', () => {
+    const { container } = render(<ChartWidget data={DATA} range="live" onRangeChange={() => {}} />);
+    expect(container.querySelectorAll('.recharts-area')).toHaveLength(2);
+    expect(container.querySelector('.recharts-brush')).toBeNull();
+  });
+
+  it('adds a band and a dashed projection for each forecast', () => {
+    const { container } = render(<ChartWidget data={DATA} range="live" onRangeChange={() => {}} forecasts={[CPU_FORECAST]} />);
+    expect(container.querySelectorAll('.recharts-area')).toHaveLength(4);
+    expect(container.querySelector('.recharts-area-curve[stroke-dasharray="4 3"]')).not.toBeNull();
+  });
+
+  it('toggles series and reports range changes', () => {
+    const onRangeChange = vi.fn();
+    const { container } = render(<ChartWidget data={DATA} range="1h" onRangeChange={onRangeChange} />);
+
+    fireEvent.click(screen.getByRole('button', { name: '5m' }));
+    expect(onRangeChange).toHaveBeenCalledWith('5m');
+    expect(container.querySelector('.recharts-brush')).not.toBeNull();
+
+    fireEvent.click(screen.getByRole('button', { name: 'MEM' }));
+    expect(container.querySelectorAll('.recharts-area')).toHaveLength(1);
+  });
+});
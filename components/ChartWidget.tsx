@@ -1,74 +1,232 @@
-import React from 'react';
-import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
-import { SystemMetric } from '../types';
+import React, { useState } from 'react';
+import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Brush } from 'recharts';
+import { ChartRange, ForecastPoint, MetricDefinition, MetricForecast, MetricId, SystemMetric } from '../types';
+import { METRICS, getMetricDefinition, getMetricValue } from '../services/metricRegistry';
 
 interface ChartWidgetProps {
   data: SystemMetric[];
+  range: ChartRange;
+  onRangeChange: (range: ChartRange) => void;
+  // Drawn as a dashed line and band past the latest frame for each visible series that has one
+  forecasts?: MetricForecast[];
 }
 
-const ChartWidget: React.FC<ChartWidgetProps> = ({ data }) => {
+// Projected values share the chart's rows with real frames, keyed by timestamp.
+interface ForecastRow {
+  timestamp: number;
+  forecast: Record<MetricId, ForecastPoint>;
+}
+
+type ChartRow = SystemMetric | ForecastRow;
+
+const isForecast = (row: ChartRow): row is ForecastRow => 'forecast' in row;
+
+// Cuts the projection at `until`, interpolating the last point so the band ends exactly there.
+const clipForecast = (points: ForecastPoint[], until: number): ForecastPoint[] => {
+  const kept = points.filter(point => point.timestamp <= until);
+  const next = points[kept.length];
+  const previous = kept[kept.length - 1];
+  if (!next || !previous || previous.timestamp === until) return kept;
+  const f = (until - previous.timestamp) / (next.timestamp - previous.timestamp);
+  const lerp = (key: 'value' | 'lower' | 'upper') => Math.round((previous[key] + (next[key] - previous[key]) * f) * 100) / 100;
+  return [...kept, { timestamp: until, value: lerp('value'), lower: lerp('lower'), upper: lerp('upper') }];
+};
+
+const forecastRows = (forecasts: MetricForecast[], until: number): ForecastRow[] => {
+  const rows = new Map<number, ForecastRow>();
+  for (const forecast of forecasts) {
+    for (const point of clipForecast(forecast.points, until)) {
+      const row = rows.get(point.timestamp) ?? { timestamp: point.timestamp, forecast: {} };
+      row.forecast[forecast.metric] = point;
+      rows.set(point.timestamp, row);
+    }
+  }
+  return Array.from(rows.values()).sort((a, b) => a.timestamp - b.timestamp);
+};
+
+const RANGES: ChartRange[] = ['live', '5m', '1h', '24h'];
+// Two Y axes at most: one per side.
+const MAX_UNITS = 2;
+
+const TICK_STYLE = { fontSize: 10, fill: '#64748b', fontFamily: 'monospace' };
+
+const formatTick = (epoch: number, spanMs: number) => {
+  const date = new Date(epoch);
+  if (spanMs > 12 * 60 * 60 * 1000) {
+    return `${date.toLocaleDateString([], { month: '2-digit', day: '2-digit' })} ${date.toLocaleTimeString([], { hour12: false, hour: '2-digit', minute: '2-digit' })}`;
+  }
+  return date.toLocaleTimeString([], { hour12: false, hour: '2-digit', minute: '2-digit', ...(spanMs < 10 * 60 * 1000 ? { second: '2-digit' } : {}) });
+};
+
+// Fixed to the declared ranges of every series on the axis; recharts still widens it for values outside.
+const axisDomain = (definitions: MetricDefinition[]): [number, number] => [
+  Math.min(...definitions.map(definition => definition.range[0])),
+  Math.max(...definitions.map(definition => definition.range[1])),
+];
+
+const ChartWidget: React.FC<ChartWidgetProps> = ({ data, range, onRangeChange, forecasts = [] }) => {
+  const [series, setSeries] = useState<MetricId[]>(['cpuLoad', 'memoryUsage']);
+
+  const visible = METRICS.filter(definition => series.includes(definition.id));
+  const units = Array.from(new Set<string>(visible.map(definition => definition.unit)));
+  const spanMs = data.length > 1 ? data[data.length - 1].timestamp - data[0].timestamp : 0;
+  // The projection gets as much width as the data, so the recent frames stay readable
+  const projected = forecasts.filter(forecast => series.includes(forecast.metric));
+  const rows: ChartRow[] = projected.length > 0 && spanMs > 0
+    ? [...data, ...forecastRows(projected, data[data.length - 1].timestamp + spanMs)]
+    : data;
+
+  const toggleSeries = (key: MetricId) => {
+    setSeries(prev => (prev.includes(key) ? prev.filter(item => item !== key) : [...prev, key]));
+  };
+
   return (
-    <div className="w-full h-full min-h-[200px]">
-      <ResponsiveContainer width="100%" height="100%">
-        <AreaChart
-          data={data}
-          margin={{
-            top: 5,
-            right: 0,
-            left: 0,
-            bottom: 0,
-          }}
-        >
-          <defs>
-            <linearGradient id="colorCpu" x1="0" y1="0" x2="0" y2="1">
-              <stop offset="5%" stopColor="#06b6d4" stopOpacity={0.3}/>
-              <stop offset="95%" stopColor="#06b6d4" stopOpacity={0}/>
-            </linearGradient>
-            <linearGradient id="colorMem" x1="0" y1="0" x2="0" y2="1">
-              <stop offset="5%" stopColor="#8b5cf6" stopOpacity={0.3}/>
-              <stop offset="95%" stopColor="#8b5cf6" stopOpacity={0}/>
-            </linearGradient>
-          </defs>
-          <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" vertical={false} />
-          <XAxis 
-            dataKey="timestamp" 
-            tick={{fontSize: 10, fill: '#64748b', fontFamily: 'monospace'}}
-            tickFormatter={(tick) => tick.split(':').slice(0,2).join(':')}
-            interval="preserveStartEnd"
-          />
-          <YAxis 
-            tick={{fontSize: 10, fill: '#64748b', fontFamily: 'monospace'}}
-            domain={[0, 100]}
-          />
-          <Tooltip 
-            contentStyle={{ 
-              backgroundColor: '#0f172a', 
-              borderColor: '#334155',
-              fontFamily: 'monospace',
-              fontSize: '12px'
+    <div className="w-full h-full min-h-[200px] flex flex-col gap-2">
+      <div className="flex flex-wrap items-center justify-between gap-2 text-[10px] font-mono font-bold">
+        <div className="flex flex-wrap gap-1">
+          {METRICS.map(spec => {
+            const active = series.includes(spec.id);
+            const blocked = !active && !units.includes(spec.unit) && units.length >= MAX_UNITS;
+            return (
+              <button
+                key={spec.id}
+                onClick={() => toggleSeries(spec.id)}
+                disabled={blocked}
+                title={blocked ? `Only ${MAX_UNITS} units can share the chart` : `${spec.label} (${spec.unit})`}
+                className={`px-2 py-0.5 rounded border transition-colors disabled:opacity-30 disabled:cursor-not-allowed ${active ? 'text-slate-900' : 'text-slate-400 border-slate-700 hover:bg-slate-700'}`}
+                style={active ? { backgroundColor: spec.color, borderColor: spec.color } : undefined}
+              >
+                {spec.shortLabel}
+              </button>
+            );
+          })}
+        </div>
+        <div className="flex rounded border border-slate-700 overflow-hidden">
+          {RANGES.map(option => (
+            <button
+              key={option}
+              onClick={() => onRangeChange(option)}
+              className={`px-2 py-0.5 uppercase transition-colors ${range === option ? 'bg-cyan-700 text-white' : 'text-slate-400 hover:bg-slate-700'}`}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex-1 min-h-0">
+        <ResponsiveContainer width="100%" height="100%">
+          <AreaChart
+            data={rows}
+            margin={{
+              top: 5,
+              right: 0,
+              left: 0,
+              bottom: 0,
             }}
-            itemStyle={{ color: '#e2e8f0' }}
-          />
-          <Area 
-            type="monotone" 
-            dataKey="cpuLoad" 
-            stroke="#06b6d4" 
-            fillOpacity={1} 
-            fill="url(#colorCpu)" 
-            strokeWidth={2}
-            isAnimationActive={false}
-          />
-          <Area 
-            type="monotone" 
-            dataKey="memoryUsage" 
-            stroke="#8b5cf6" 
-            fillOpacity={1} 
-            fill="url(#colorMem)" 
-            strokeWidth={2}
-            isAnimationActive={false}
-          />
-        </AreaChart>
-      </ResponsiveContainer>
+          >
+            <defs>
+              {visible.map(spec => (
+                <linearGradient key={spec.id} id={`color-${spec.id}`} x1="0" y1="0" x2="0" y2="1">
+                  <stop offset="5%" stopColor={spec.color} stopOpacity={0.3}/>
+                  <stop offset="95%" stopColor={spec.color} stopOpacity={0}/>
+                </linearGradient>
+              ))}
+            </defs>
+            <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" vertical={false} />
+            <XAxis
+              dataKey="timestamp"
+              type="number"
+              scale="time"
+              domain={['dataMin', 'dataMax']}
+              tick={TICK_STYLE}
+              tickFormatter={(tick: number) => formatTick(tick, spanMs)}
+              interval="preserveStartEnd"
+            />
+            {units.map((unit, index) => (
+              <YAxis
+                key={unit}
+                yAxisId={unit}
+                orientation={index === 0 ? 'left' : 'right'}
+                tick={TICK_STYLE}
+                tickFormatter={(tick: number) => `${tick}${unit}`}
+                domain={axisDomain(visible.filter(spec => spec.unit === unit))}
+              />
+            ))}
+            <Tooltip
+              contentStyle={{
+                backgroundColor: '#0f172a',
+                borderColor: '#334155',
+                fontFamily: 'monospace',
+                fontSize: '12px'
+              }}
+              itemStyle={{ color: '#e2e8f0' }}
+              labelFormatter={(label) => new Date(Number(label)).toLocaleString([], { hour12: false })}
+              formatter={(value, name) => {
+                const kind = ['band', 'forecast'].find(prefix => String(name).startsWith(`${prefix}:`)) ?? 'actual';
+                const spec = getMetricDefinition(kind === 'actual' ? String(name) : String(name).slice(kind.length + 1));
+                if (!spec) return [String(value), String(name)];
+                if (kind === 'band') return [`${(value as number[]).join(' - ')}${spec.unit}`, `${spec.shortLabel} band`];
+                return [`${value}${spec.unit}`, kind === 'forecast' ? `${spec.shortLabel} forecast` : spec.shortLabel];
+              }}
+            />
+            {visible.map(spec => (
+              <Area
+                key={spec.id}
+                type="monotone"
+                name={spec.id}
+                dataKey={(row: ChartRow) => (isForecast(row) ? undefined : getMetricValue(row, spec.id))}
+                yAxisId={spec.unit}
+                stroke={spec.color}
+                fillOpacity={1}
+                fill={`url(#color-${spec.id})`}
+                strokeWidth={2}
+                isAnimationActive={false}
+              />
+            ))}
+            {projected.map(forecast => {
+              const spec = getMetricDefinition(forecast.metric);
+              if (!spec) return null;
+              return (
+                <React.Fragment key={`forecast-${spec.id}`}>
+                  <Area
+                    name={`band:${spec.id}`}
+                    dataKey={(row: ChartRow) => {
+                      const point = isForecast(row) ? row.forecast[spec.id] : undefined;
+                      return point ? [point.lower, point.upper] : undefined;
+                    }}
+                    yAxisId={spec.unit}
+                    stroke="none"
+                    fill={spec.color}
+                    fillOpacity={0.12}
+                    isAnimationActive={false}
+                  />
+                  <Area
+                    name={`forecast:${spec.id}`}
+                    dataKey={(row: ChartRow) => (isForecast(row) ? row.forecast[spec.id]?.value : undefined)}
+                    yAxisId={spec.unit}
+                    stroke={spec.color}
+                    strokeDasharray="4 3"
+                    strokeWidth={1.5}
+                    fill="none"
+                    isAnimationActive={false}
+                  />
+                </React.Fragment>
+              );
+            })}
+            {range !== 'live' && data.length > 1 && (
+              <Brush
+                dataKey="timestamp"
+                height={18}
+                stroke="#334155"
+                fill="#0f172a"
+                travellerWidth={8}
+                tickFormatter={(tick: number) => formatTick(tick, spanMs)}
+              />
+            )}
+          </AreaChart>
+        </ResponsiveContainer>
+      </div>
     </div>
   );
 };
@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { ChevronRight } from 'lucide-react';
+import { CommandSpec, complete } from '../services/commandLine';
+
+interface CommandInputProps {
+  commands: CommandSpec[];
+  history: string[];
+  onExecute: (line: string) => void;
+  autoFocus?: boolean;
+  placeholder?: string;
+  // Lets the palette react to typing without owning the input
+  onInputChange?: (value: string) => void;
+  value?: string;
+}
+
+// Shell-style prompt: Tab completes, ArrowUp/ArrowDown walk the history, Enter runs.
+const CommandInput: React.FC<CommandInputProps> = ({ commands, history, onExecute, autoFocus, placeholder, onInputChange, value: controlled }) => {
+  const [uncontrolled, setUncontrolled] = useState('');
+  const [historyIndex, setHistoryIndex] = useState<number | null>(null);
+  const [candidates, setCandidates] = useState<string[]>([]);
+  const value = controlled ?? uncontrolled;
+
+  const setValue = (next: string) => {
+    setUncontrolled(next);
+    onInputChange?.(next);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (event.key) {
+      case 'Tab': {
+        event.preventDefault();
+        const completion = complete(commands, value);
+        setValue(completion.input);
+        setCandidates(completion.candidates.length > 1 ? completion.candidates : []);
+        break;
+      }
+      case 'ArrowUp': {
+        if (history.length === 0) return;
+        event.preventDefault();
+        const index = historyIndex === null ? history.length - 1 : Math.max(0, historyIndex - 1);
+        setHistoryIndex(index);
+        setValue(history[index]);
+        break;
+      }
+      case 'ArrowDown': {
+        if (historyIndex === null) return;
+        event.preventDefault();
+        const index = historyIndex + 1;
+        setHistoryIndex(index >= history.length ? null : index);
+        setValue(index >= history.length ? '' : history[index]);
+        break;
+      }
+      case 'Enter': {
+        event.preventDefault();
+        if (!value.trim()) return;
+        onExecute(value.trim());
+        setValue('');
+        setHistoryIndex(null);
+        setCandidates([]);
+        break;
+      }
+      case 'Escape':
+        setCandidates([]);
+        break;
+    }
+  };
+
+  return (
+    <div className="font-mono text-xs">
+      {candidates.length > 0 && (
+        <div className="flex flex-wrap gap-x-3 px-2 pb-1 text-slate-500">
+          {candidates.map(candidate => <span key={candidate}>{candidate}</span>)}
+        </div>
+      )}
+      <div className="flex items-center gap-1 bg-slate-950/70 border border-slate-800 rounded px-2 focus-within:border-cyan-700">
+        <ChevronRight size={12} className="text-cyan-500 shrink-0" />
+        <input
+          value={value}
+          onChange={(event) => {
+            setValue(event.target.value);
+            setCandidates([]);
+          }}
+          onKeyDown={handleKeyDown}
+          autoFocus={autoFocus}
+          spellCheck={false}
+          autoComplete="off"
+          placeholder={placeholder ?? 'Type a command. Tab completes, "help" lists all.'}
+          className="flex-1 bg-transparent py-1 text-slate-200 placeholder-slate-600 focus:outline-none"
+        />
+      </div>
+    </div>
+  );
+};
+
+export default CommandInput;
@@ -0,0 +1,84 @@
+import React, { useEffect, useState } from 'react';
+import { Command } from 'lucide-react';
+import { CommandSpec, formatUsage } from '../services/commandLine';
+import CommandInput from './CommandInput';
+
+interface CommandPaletteProps {
+  commands: CommandSpec[];
+  history: string[];
+  onExecute: (line: string) => void;
+  onClose: () => void;
+}
+
+const CommandPalette: React.FC<CommandPaletteProps> = ({ commands, history, onExecute, onClose }) => {
+  const [value, setValue] = useState('');
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const needle = value.trim().toLowerCase();
+  const matches = commands.filter(command => {
+    if (!needle) return true;
+    const usage = formatUsage(command);
+    return usage.includes(needle) || command.summary.toLowerCase().includes(needle) || needle.startsWith(command.path.join(' '));
+  });
+
+  const execute = (line: string) => {
+    onExecute(line);
+    onClose();
+  };
+
+  // Commands without required arguments run straight from the list; the rest are staged for typing.
+  const pick = (command: CommandSpec) => {
+    const needsArgs = (command.args ?? []).some(arg => !arg.optional);
+    if (needsArgs) {
+      setValue(`${command.path.join(' ')} `);
+    } else {
+      execute(command.path.join(' '));
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-start justify-center pt-[15vh] bg-slate-950/70 backdrop-blur-sm" onClick={onClose}>
+      <div
+        className="w-full max-w-xl bg-slate-900 border border-cyan-800 rounded-lg shadow-[0_0_30px_rgba(8,145,178,0.25)] p-3 flex flex-col gap-2"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <div className="flex items-center gap-2 text-cyan-400 font-mono text-xs font-bold uppercase tracking-wider">
+          <Command size={14} /> Command Palette
+          <span className="ml-auto text-slate-600 font-normal normal-case">Esc to close</span>
+        </div>
+        <CommandInput
+          commands={commands}
+          history={history}
+          onExecute={execute}
+          value={value}
+          onInputChange={setValue}
+          autoFocus
+          placeholder="Search or type a command..."
+        />
+        <ul className="max-h-72 overflow-y-auto font-mono text-xs divide-y divide-slate-800">
+          {matches.map(command => (
+            <li key={command.path.join(' ')}>
+              <button
+                onClick={() => pick(command)}
+                className="w-full flex justify-between gap-4 px-2 py-1.5 text-left hover:bg-slate-800 rounded"
+              >
+                <span className="text-cyan-300 shrink-0">{formatUsage(command)}</span>
+                <span className="text-slate-500 truncate">{command.summary}</span>
+              </button>
+            </li>
+          ))}
+          {matches.length === 0 && <li className="px-2 py-1.5 text-slate-600 italic">No matching commands.</li>}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default CommandPalette;
@@ -0,0 +1,62 @@
+import React from 'react';
+import { describe, expect, it } from 'vitest';
+import { fireEvent, render, screen } from '@testing-library/react';
+import { LogEntry } from '../types';
+import ConsoleLog from './ConsoleLog';
+
+const LOGS: LogEntry[] = [
+  { id: '1', timestamp: '12:00:00', level: 'info', source: 'SYS', message: 'Cockpit online' },
+  { id: '2', timestamp: '12:00:02', level: 'warning', source: 'NET', message: 'Carrier signal lost. Switching to local cache.' },
+  { id: '3', timestamp: '12:00:05', level: 'error', source: 'CACHE', message: 'Cache refresh failed: quota exceeded', context: { stationId: 'ALPHA' } },
+];
+
+describe('ConsoleLog', () => {
+  it('shows a placeholder before any entries arrive', () => {
+    render(<ConsoleLog logs={[]} />);
+    expect(screen.getByText('System initialized. Awaiting events...')).toBeTruthy();
+  });
+
+  it('renders every entry with its time, source and message', () => {
+    render(<ConsoleLog logs={LOGS} />);
+    expect(screen.getByText('[12:00:02]')).toBeTruthy();
+    expect(screen.getByText('NET:')).toBeTruthy();
+    expect(screen.getByText('Cache refresh failed: quota exceeded')).toBeTruthy();
+    expect(screen.getByText('3/3')).toBeTruthy();
+  });
+
+  it('hides levels and sources that are toggled off', () => {
+    render(<ConsoleLog logs={LOGS} />);
+    fireEvent.click(screen.getByRole('button', { name: 'error' }));
+    fireEvent.click(screen.getByRole('button', { name: 'SYS' }));
+
+    expect(screen.getByText('1/3')).toBeTruthy();
+    expect(screen.queryByText('Cockpit online')).toBeNull();
+    expect(screen.queryByText('Cache refresh failed: quota exceeded')).toBeNull();
+  });
+
+  it('filters by text, and keeps every entry while a regex is invalid', () => {
+    render(<ConsoleLog logs={LOGS} />);
+    const search = screen.getByPlaceholderText('Search...');
+    fireEvent.change(search, { target: { value: 'cache' } });
+    expect(screen.getByText('2/3')).toBeTruthy();
+
+    fireEvent.click(screen.getByTitle('Regular expression'));
+    fireEvent.change(screen.getByPlaceholderText('Regex...'), { target: { value: '(' } });
+    expect(screen.getByText('3/3')).toBeTruthy();
+    expect(screen.getByPlaceholderText('Regex...').title).not.toBe('');
+  });
+
+  it('says so when the filters match nothing', () => {
+    render(<ConsoleLog logs={LOGS} />);
+    fireEvent.change(screen.getByPlaceholderText('Search...'), { target: { value: 'no such entry' } });
+    expect(screen.getByText('No entries match the current filters.')).toBeTruthy();
+  });
+
+  it('opens the entry detail with its context on click', () => {
+    render(<ConsoleLog logs={LOGS} />);
+    fireEvent.click(screen.getByText('Cache refresh failed: quota exceeded'));
+
+    expect(screen.getByText('Entry Detail')).toBeTruthy();
+    expect(screen.getByText(/"stationId": "ALPHA"/)).toBeTruthy();
+  });
+});
@@ -1,49 +1,213 @@
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
 import { LogEntry } from '../types';
-import { AlertCircle, CheckCircle, Info, AlertTriangle } from 'lucide-react';
+import { AlertCircle, CheckCircle, Info, AlertTriangle, ArrowDown, Download, Regex, X } from 'lucide-react';
+import { downloadFile } from '../services/download';
+import { toJsonLines, toPlainText } from '../services/logExport';
 
 interface ConsoleLogProps {
   logs: LogEntry[];
 }
 
+const ROW_HEIGHT = 22;
+const OVERSCAN = 10;
+const LEVELS: LogEntry['level'][] = ['info', 'success', 'warning', 'error'];
+const KNOWN_SOURCES = ['SYS', 'NET', 'SIM', 'CACHE', 'AI'];
+
+const getIcon = (level: LogEntry['level']) => {
+  switch (level) {
+    case 'error': return <AlertCircle className="w-3 h-3 text-red-500" />;
+    case 'warning': return <AlertTriangle className="w-3 h-3 text-amber-500" />;
+    case 'success': return <CheckCircle className="w-3 h-3 text-green-500" />;
+    default: return <Info className="w-3 h-3 text-blue-500" />;
+  }
+};
+
+const getColor = (level: LogEntry['level']) => {
+  switch (level) {
+    case 'error': return 'text-red-400';
+    case 'warning': return 'text-amber-400';
+    case 'success': return 'text-green-400';
+    default: return 'text-slate-300';
+  }
+};
+
+const toggle = <T,>(list: T[], value: T) => (list.includes(value) ? list.filter(item => item !== value) : [...list, value]);
+
+const CHIP = 'px-1.5 py-0.5 rounded border text-[10px] font-bold uppercase transition-colors';
+
 const ConsoleLog: React.FC<ConsoleLogProps> = ({ logs }) => {
   const scrollRef = useRef<HTMLDivElement>(null);
+  const [hiddenLevels, setHiddenLevels] = useState<LogEntry['level'][]>([]);
+  const [hiddenSources, setHiddenSources] = useState<string[]>([]);
+  const [query, setQuery] = useState('');
+  const [useRegex, setUseRegex] = useState(false);
+  const [follow, setFollow] = useState(true);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
 
-  useEffect(() => {
-    if (scrollRef.current) {
-      scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+  const sources = useMemo(
+    () => [...new Set([...KNOWN_SOURCES, ...logs.map(log => log.source)])],
+    [logs]
+  );
+
+  // An invalid pattern shows an error and leaves the text filter off, so no entries disappear while typing.
+  const { matcher, patternError } = useMemo(() => {
+    if (!query) return { matcher: null, patternError: null };
+    if (!useRegex) {
+      const needle = query.toLowerCase();
+      return { matcher: (text: string) => text.toLowerCase().includes(needle), patternError: null };
+    }
+    try {
+      const pattern = new RegExp(query, 'i');
+      return { matcher: (text: string) => pattern.test(text), patternError: null };
+    } catch (err) {
+      return { matcher: null, patternError: (err as Error).message };
     }
-  }, [logs]);
-
-  const getIcon = (level: LogEntry['level']) => {
-    switch (level) {
-      case 'error': return <AlertCircle className="w-3 h-3 text-red-500" />;
-      case 'warning': return <AlertTriangle className="w-3 h-3 text-amber-500" />;
-      case 'success': return <CheckCircle className="w-3 h-3 text-green-500" />;
-      default: return <Info className="w-3 h-3 text-blue-500" />;
+  }, [query, useRegex]);
+
+  const filtered = useMemo(() => logs.filter(log =>
+    !hiddenLevels.includes(log.level)
+    && !hiddenSources.includes(log.source)
+    && (!matcher || matcher(`${log.source} ${log.message}`))
+  ), [logs, hiddenLevels, hiddenSources, matcher]);
+
+  const selected = selectedId ? logs.find(log => log.id === selectedId) ?? null : null;
+
+  useEffect(() => {
+    const element = scrollRef.current;
+    if (!element) return;
+    const observer = new ResizeObserver(() => setViewportHeight(element.clientHeight));
+    observer.observe(element);
+    setViewportHeight(element.clientHeight);
+    return () => observer.disconnect();
+  }, []);
+
+  useLayoutEffect(() => {
+    const element = scrollRef.current;
+    if (follow && element) {
+      element.scrollTop = element.scrollHeight;
+      setScrollTop(element.scrollTop);
     }
+  }, [filtered, follow]);
+
+  // Scrolling away from the bottom pauses auto-scroll; returning to it resumes.
+  const handleScroll = () => {
+    const element = scrollRef.current;
+    if (!element) return;
+    setScrollTop(element.scrollTop);
+    setFollow(element.scrollHeight - element.scrollTop - element.clientHeight < ROW_HEIGHT);
   };
 
-  const getColor = (level: LogEntry['level']) => {
-    switch (level) {
-      case 'error': return 'text-red-400';
-      case 'warning': return 'text-amber-400';
-      case 'success': return 'text-green-400';
-      default: return 'text-slate-300';
+  const exportLogs = (format: 'jsonl' | 'txt') => {
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    if (format === 'jsonl') {
+      downloadFile(`cockpit-console-${stamp}.jsonl`, toJsonLines(filtered), 'application/x-ndjson');
+    } else {
+      downloadFile(`cockpit-console-${stamp}.txt`, toPlainText(filtered), 'text/plain');
     }
   };
 
+  const first = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const last = Math.min(filtered.length, Math.ceil((scrollTop + viewportHeight) / ROW_HEIGHT) + OVERSCAN);
+  const visible = filtered.slice(first, last);
+
   return (
-    <div className="h-full bg-slate-950/50 rounded border border-slate-800 font-mono text-xs p-2 overflow-y-auto" ref={scrollRef}>
-      {logs.length === 0 && <div className="text-slate-600 italic p-2">System initialized. Awaiting events...</div>}
-      {logs.map((log) => (
-        <div key={log.id} className="flex gap-2 items-start py-1 border-b border-slate-800/50 last:border-0 animate-fade-in">
-          <span className="text-slate-600 shrink-0 select-none">[{log.timestamp}]</span>
-          <span className="shrink-0 mt-0.5">{getIcon(log.level)}</span>
-          <span className="text-cyan-600 shrink-0 font-bold select-none">{log.source}:</span>
-          <span className={`${getColor(log.level)} break-all`}>{log.message}</span>
+    <div className="h-full flex flex-col gap-1 font-mono text-xs">
+      <div className="flex flex-wrap items-center gap-1">
+        {LEVELS.map(level => (
+          <button
+            key={level}
+            onClick={() => setHiddenLevels(prev => toggle(prev, level))}
+            className={`${CHIP} ${hiddenLevels.includes(level) ? 'border-slate-800 text-slate-600' : `border-slate-600 ${getColor(level)}`}`}
+          >
+            {level}
+          </button>
+        ))}
+        <span className="w-px h-4 bg-slate-700 mx-1"></span>
+        {sources.map(source => (
+          <button
+            key={source}
+            onClick={() => setHiddenSources(prev => toggle(prev, source))}
+            className={`${CHIP} ${hiddenSources.includes(source) ? 'border-slate-800 text-slate-600' : 'border-cyan-800 text-cyan-500'}`}
+          >
+            {source}
+          </button>
+        ))}
+        <div className="flex items-center gap-1 ml-auto">
+          <input
+            value={query}
+            onChange={(event) => setQuery(event.target.value)}
+            placeholder={useRegex ? 'Regex...' : 'Search...'}
+            title={patternError ?? undefined}
+            className={`bg-slate-900 border rounded px-2 py-0.5 text-[11px] text-slate-200 w-40 focus:outline-none ${patternError ? 'border-red-500' : 'border-slate-700 focus:border-cyan-500'}`}
+          />
+          <button
+            onClick={() => setUseRegex(prev => !prev)}
+            title="Regular expression"
+            className={`${CHIP} ${useRegex ? 'border-cyan-600 text-cyan-400' : 'border-slate-700 text-slate-500'}`}
+          >
+            <Regex size={12} />
+          </button>
+          <span className="text-[10px] text-slate-500 px-1">{filtered.length}/{logs.length}</span>
+          <button onClick={() => exportLogs('jsonl')} title="Export filtered entries as JSON Lines" className={`${CHIP} border-slate-700 text-slate-400 hover:bg-slate-700 flex items-center gap-1`}>
+            <Download size={10} /> JSONL
+          </button>
+          <button onClick={() => exportLogs('txt')} title="Export filtered entries as plain text" className={`${CHIP} border-slate-700 text-slate-400 hover:bg-slate-700 flex items-center gap-1`}>
+            <Download size={10} /> TXT
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 min-h-0 relative">
+        <div className="absolute inset-0 bg-slate-950/50 rounded border border-slate-800 px-2 overflow-y-auto" ref={scrollRef} onScroll={handleScroll}>
+          {logs.length === 0 && <div className="text-slate-600 italic p-2">System initialized. Awaiting events...</div>}
+          {logs.length > 0 && filtered.length === 0 && <div className="text-slate-600 italic p-2">No entries match the current filters.</div>}
+          <div className="relative" style={{ height: filtered.length * ROW_HEIGHT }}>
+            {visible.map((log, index) => (
+              <div
+                key={log.id}
+                onClick={() => setSelectedId(log.id === selectedId ? null : log.id)}
+                className={`absolute left-0 right-0 flex gap-2 items-center border-b border-slate-800/50 cursor-pointer hover:bg-slate-800/50 ${log.id === selectedId ? 'bg-slate-800' : ''}`}
+                style={{ top: (first + index) * ROW_HEIGHT, height: ROW_HEIGHT }}
+              >
+                <span className="text-slate-600 shrink-0 select-none">[{log.timestamp}]</span>
+                <span className="shrink-0">{getIcon(log.level)}</span>
+                <span className="text-cyan-600 shrink-0 font-bold select-none">{log.source}:</span>
+                <span className={`${getColor(log.level)} truncate`}>{log.message}</span>
+              </div>
+            ))}
+          </div>
         </div>
-      ))}
+
+        {!follow && filtered.length > 0 && (
+          <button
+            onClick={() => setFollow(true)}
+            className="absolute bottom-2 left-1/2 -translate-x-1/2 flex items-center gap-1 px-2 py-0.5 rounded bg-cyan-800/90 border border-cyan-500 text-cyan-100 text-[10px] font-bold uppercase"
+          >
+            <ArrowDown size={10} /> Auto-scroll paused
+          </button>
+        )}
+
+        {selected && (
+          <div className="absolute top-0 right-0 bottom-0 w-full sm:w-1/2 lg:w-1/3 bg-slate-900/95 border-l border-slate-700 rounded-r p-2 overflow-y-auto z-10">
+            <div className="flex justify-between items-center mb-2">
+              <span className="text-[10px] text-slate-400 uppercase font-bold">Entry Detail</span>
+              <button onClick={() => setSelectedId(null)} className="text-slate-500 hover:text-slate-200"><X size={12} /></button>
+            </div>
+            <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-[11px]">
+              {Object.entries(selected).map(([field, value]) => (
+                <React.Fragment key={field}>
+                  <dt className="text-slate-500 uppercase">{field}</dt>
+                  <dd className={`break-all whitespace-pre-wrap ${field === 'message' ? getColor(selected.level) : 'text-slate-200'}`}>
+                    {typeof value === 'object' ? JSON.stringify(value, null, 2) : String(value)}
+                  </dd>
+                </React.Fragment>
+              ))}
+            </dl>
+          </div>
+        )}
+      </div>
     </div>
   );
 };
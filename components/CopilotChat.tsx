@@ -0,0 +1,89 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Send, User, Bot } from 'lucide-react';
+import { ChatMessage } from '../types';
+
+interface CopilotChatProps {
+  messages: ChatMessage[];
+  onSend: (question: string) => void;
+  isStreaming: boolean;
+  disabled?: boolean;
+}
+
+const SUGGESTIONS = ['Why is memory climbing?', 'Any thermal risk?', 'Summarize the last minute'];
+
+const CopilotChat: React.FC<CopilotChatProps> = ({ messages, onSend, isStreaming, disabled = false }) => {
+  const [draft, setDraft] = useState('');
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (scrollRef.current) {
+      scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+    }
+  }, [messages]);
+
+  const submit = (question: string) => {
+    const trimmed = question.trim();
+    if (!trimmed || isStreaming || disabled) return;
+    onSend(trimmed);
+    setDraft('');
+  };
+
+  return (
+    <div className="h-full flex flex-col gap-2">
+      <div ref={scrollRef} className="flex-1 min-h-0 overflow-y-auto space-y-3 pr-1">
+        {messages.length === 0 && (
+          <div className="h-full flex flex-col items-center justify-center gap-2 text-slate-600">
+            <span className="text-xs font-mono uppercase opacity-60">Ask the Copilot</span>
+            {SUGGESTIONS.map(suggestion => (
+              <button
+                key={suggestion}
+                onClick={() => submit(suggestion)}
+                disabled={disabled}
+                className="text-[11px] font-mono px-2 py-1 rounded border border-slate-700 hover:border-cyan-600 hover:text-cyan-400 transition-colors disabled:opacity-50"
+              >
+                {suggestion}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {messages.map(message => (
+          <div key={message.id} className={`flex gap-2 items-start ${message.role === 'user' ? 'flex-row-reverse' : ''}`}>
+            <span className={`shrink-0 mt-0.5 ${message.role === 'user' ? 'text-slate-400' : 'text-cyan-400'}`}>
+              {message.role === 'user' ? <User size={14} /> : <Bot size={14} />}
+            </span>
+            <div className={`rounded px-2 py-1.5 text-xs leading-relaxed whitespace-pre-wrap max-w-[85%]
+              ${message.role === 'user' ? 'bg-slate-700/60 text-slate-200' : 'bg-cyan-950/40 border border-cyan-900/60 text-slate-200'}
+              ${message.status === 'error' ? 'border-red-600/60 text-red-300' : ''}`}>
+              {message.text}
+              {message.status === 'streaming' && <span className="inline-block w-1.5 h-3 ml-0.5 bg-cyan-400 animate-pulse align-middle" />}
+              <div className="text-[9px] text-slate-500 font-mono mt-1">{message.timestamp}</div>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <form
+        onSubmit={(event) => { event.preventDefault(); submit(draft); }}
+        className="flex gap-2"
+      >
+        <input
+          value={draft}
+          onChange={(event) => setDraft(event.target.value)}
+          placeholder={disabled ? 'Uplink required' : 'Ask a follow-up...'}
+          disabled={disabled}
+          className="flex-1 min-w-0 bg-slate-900/70 border border-slate-700 rounded px-2 py-1.5 text-xs font-mono text-slate-200 placeholder:text-slate-600 focus:outline-none focus:border-cyan-600 disabled:opacity-50"
+        />
+        <button
+          type="submit"
+          disabled={disabled || isStreaming || !draft.trim()}
+          className="px-2 rounded bg-cyan-700 hover:bg-cyan-600 text-white disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          <Send size={14} />
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default CopilotChat;
@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { GripVertical, X } from 'lucide-react';
+import { LayoutItem, WidgetType } from '../types';
+import { DashboardCard } from './Widgets';
+import { WIDGET_REGISTRY } from './widgetRegistry';
+import { resizeItem } from '../services/layoutStorage';
+
+export interface WidgetContent {
+  content: React.ReactNode;
+  action?: React.ReactNode;
+}
+
+interface DashboardGridProps {
+  items: LayoutItem[];
+  editing: boolean;
+  onChange: (items: LayoutItem[]) => void;
+  renderWidget: (type: WidgetType) => WidgetContent;
+}
+
+// Tailwind only ships classes it can see, so spans are spelled out rather than interpolated.
+const COL_SPAN: Record<number, string> = { 1: 'lg:col-span-1', 2: 'lg:col-span-2', 3: 'lg:col-span-3', 4: 'lg:col-span-4' };
+const ROW_SPAN: Record<number, string> = { 1: 'lg:row-span-1', 2: 'lg:row-span-2', 3: 'lg:row-span-3', 4: 'lg:row-span-4' };
+
+const SIZE_CONTROLS: { label: string; cols: number; rows: number }[] = [
+  { label: 'W-', cols: -1, rows: 0 },
+  { label: 'W+', cols: 1, rows: 0 },
+  { label: 'H-', cols: 0, rows: -1 },
+  { label: 'H+', cols: 0, rows: 1 },
+];
+
+const DashboardGrid: React.FC<DashboardGridProps> = ({ items, editing, onChange, renderWidget }) => {
+  const [dragging, setDragging] = useState<WidgetType | null>(null);
+  const [dropTarget, setDropTarget] = useState<WidgetType | null>(null);
+
+  const update = (type: WidgetType, change: (item: LayoutItem) => LayoutItem) =>
+    onChange(items.map(item => (item.type === type ? change(item) : item)));
+
+  const moveBefore = (source: WidgetType, target: WidgetType) => {
+    if (source === target) return;
+    const moving = items.find(item => item.type === source);
+    if (!moving) return;
+    const rest = items.filter(item => item.type !== source);
+    const index = rest.findIndex(item => item.type === target);
+    onChange([...rest.slice(0, index), moving, ...rest.slice(index)]);
+  };
+
+  const endDrag = () => {
+    setDragging(null);
+    setDropTarget(null);
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-4 lg:auto-rows-[160px] grid-flow-row-dense gap-4">
+      {items.map(item => {
+        const definition = WIDGET_REGISTRY[item.type];
+        const { content, action } = renderWidget(item.type);
+
+        return (
+          <div
+            key={item.type}
+            draggable={editing}
+            onDragStart={(event) => {
+              event.dataTransfer.effectAllowed = 'move';
+              event.dataTransfer.setData('text/plain', item.type);
+              setDragging(item.type);
+            }}
+            onDragOver={(event) => {
+              if (!dragging) return;
+              event.preventDefault();
+              setDropTarget(item.type);
+            }}
+            onDragLeave={() => setDropTarget(prev => (prev === item.type ? null : prev))}
+            onDrop={(event) => {
+              event.preventDefault();
+              if (dragging) moveBefore(dragging, item.type);
+              endDrag();
+            }}
+            onDragEnd={endDrag}
+            className={`min-h-[160px] flex ${COL_SPAN[item.cols]} ${ROW_SPAN[item.rows]}
+              ${editing ? 'cursor-move' : ''} ${dragging === item.type ? 'opacity-40' : ''}
+              ${dropTarget === item.type && dragging !== item.type ? 'ring-2 ring-cyan-500 rounded-lg' : ''}`}
+          >
+            <DashboardCard
+              title={definition.title}
+              icon={editing ? GripVertical : definition.icon}
+              className={`flex-1 min-w-0 ${definition.className ?? ''}`}
+              action={editing ? (
+                <div className="flex items-center gap-1 text-[10px] font-mono font-bold">
+                  <span className="text-slate-500 mr-1">{item.cols}x{item.rows}</span>
+                  {SIZE_CONTROLS.map(control => (
+                    <button
+                      key={control.label}
+                      onClick={() => update(item.type, current => resizeItem(current, control.cols, control.rows))}
+                      className="px-1 rounded border border-slate-700 text-slate-400 hover:bg-slate-700"
+                    >
+                      {control.label}
+                    </button>
+                  ))}
+                  <button
+                    onClick={() => onChange(items.filter(other => other.type !== item.type))}
+                    title="Remove widget"
+                    className="p-0.5 rounded border border-red-900 text-red-400 hover:bg-red-900/40"
+                  >
+                    <X size={10} />
+                  </button>
+                </div>
+              ) : action}
+            >
+              {content}
+              {/* Keeps charts and buttons from swallowing drag gestures while arranging */}
+              {editing && <div className="absolute inset-0 z-30 bg-slate-900/40 rounded border border-dashed border-slate-600"></div>}
+            </DashboardCard>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default DashboardGrid;
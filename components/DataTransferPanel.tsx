@@ -0,0 +1,197 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ArrowUpDown, Bot, Eye, FileDown, FileUp, Trash2, X } from 'lucide-react';
+import { AiAnalysisResult, SystemMetric } from '../types';
+import { ImportIssue } from '../services/telemetryImport';
+import { METRICS_EXPORT_FORMATS, MetricsExportFormat } from '../services/telemetryExport';
+import { requiredRole } from '../services/accessControl';
+import DiagnosticsReport from './DiagnosticsReport';
+import { useAccess } from './AccessContext';
+
+export type MetricsExportScope = 'live' | 'stored' | 'imported';
+export type LogsExportScope = 'console' | 'stored';
+
+export interface ImportedTelemetry {
+  name: string;
+  metrics: SystemMetric[];
+  issues: ImportIssue[];
+  rows: number;
+  analysis: Record<string, AiAnalysisResult>;
+}
+
+interface DataTransferPanelProps {
+  stationIds: string[];
+  selectedStation: string | null;
+  storageAvailable: boolean;
+  imported: ImportedTelemetry | null;
+  analyzing: string[];
+  onExportMetrics: (format: MetricsExportFormat, scope: MetricsExportScope, stationId: string | null) => void;
+  onExportLogs: (format: 'jsonl' | 'txt', scope: LogsExportScope) => void;
+  onImport: (file: File) => void;
+  onView: () => void;
+  onAnalyze: (stationId: string) => void;
+  onDiscard: () => void;
+  onClose: () => void;
+}
+
+const TOOL_BUTTON = 'flex items-center gap-1 px-2 py-1 rounded border border-slate-700 text-slate-300 hover:bg-slate-700 disabled:opacity-40 disabled:cursor-not-allowed';
+const SELECT = 'bg-slate-900 border border-slate-700 rounded px-2 py-1 text-slate-200 focus:outline-none focus:border-cyan-500';
+const FORMAT_LABELS: Record<MetricsExportFormat, string> = { csv: 'CSV', json: 'JSON', openmetrics: 'OpenMetrics' };
+// Rows shown in the validation list; the console log carries the count for the rest
+const ISSUE_LIMIT = 100;
+
+const formatRange = (metrics: SystemMetric[]) => metrics.length === 0
+  ? 'no frames'
+  : `${new Date(metrics[0].timestamp).toLocaleString()} to ${new Date(metrics[metrics.length - 1].timestamp).toLocaleString()}`;
+
+const DataTransferPanel: React.FC<DataTransferPanelProps> = ({
+  stationIds, selectedStation, storageAvailable, imported, analyzing, onExportMetrics, onExportLogs, onImport, onView, onAnalyze, onDiscard, onClose
+}) => {
+  const [scope, setScope] = useState<MetricsExportScope>(storageAvailable ? 'stored' : 'live');
+  const [station, setStation] = useState<string>(selectedStation ?? '');
+  const [logScope, setLogScope] = useState<LogsExportScope>('console');
+  const [reportFor, setReportFor] = useState<string | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+  const { can } = useAccess();
+  // Exports stay open to everyone; importing and analysing need an operator
+  const canImport = can('data.import');
+  const canAnalyze = can('diagnostics.run');
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const importedStations = imported ? Array.from(new Set<string>(imported.metrics.map(metric => metric.stationId))).sort() : [];
+  const exportStations = scope === 'imported' ? importedStations : stationIds;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-start justify-center pt-[8vh] bg-slate-950/70 backdrop-blur-sm" onClick={onClose}>
+      <div
+        className="w-full max-w-2xl max-h-[84vh] overflow-y-auto bg-slate-900 border border-cyan-800 rounded-lg shadow-[0_0_30px_rgba(8,145,178,0.25)] p-4 flex flex-col gap-4 font-mono text-xs"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <div className="flex items-center gap-2 text-cyan-400 font-bold uppercase tracking-wider">
+          <ArrowUpDown size={14} /> Import / Export
+          <button onClick={onClose} className="ml-auto text-slate-500 hover:text-slate-300" title="Close (Esc)"><X size={14} /></button>
+        </div>
+
+        <section className="flex flex-col gap-2">
+          <span className="text-slate-400 uppercase text-[10px] tracking-wider">Export telemetry</span>
+          <div className="flex flex-wrap items-center gap-2">
+            <select value={scope} onChange={(event) => setScope(event.target.value as MetricsExportScope)} className={SELECT}>
+              <option value="live">Current view</option>
+              <option value="stored" disabled={!storageAvailable}>Stored history</option>
+              <option value="imported" disabled={!imported}>Imported dataset</option>
+            </select>
+            <select value={station} onChange={(event) => setStation(event.target.value)} className={SELECT}>
+              <option value="">All stations</option>
+              {exportStations.map(id => <option key={id} value={id}>{id}</option>)}
+            </select>
+            {METRICS_EXPORT_FORMATS.map(format => (
+              <button key={format} onClick={() => onExportMetrics(format, scope, station || null)} className={TOOL_BUTTON}>
+                <FileDown size={12} /> {FORMAT_LABELS[format]}
+              </button>
+            ))}
+          </div>
+        </section>
+
+        <section className="flex flex-col gap-2">
+          <span className="text-slate-400 uppercase text-[10px] tracking-wider">Export logs</span>
+          <div className="flex flex-wrap items-center gap-2">
+            <select value={logScope} onChange={(event) => setLogScope(event.target.value as LogsExportScope)} className={SELECT}>
+              <option value="console">Console buffer</option>
+              <option value="stored" disabled={!storageAvailable}>Stored history</option>
+            </select>
+            <button onClick={() => onExportLogs('jsonl', logScope)} className={TOOL_BUTTON}><FileDown size={12} /> JSON Lines</button>
+            <button onClick={() => onExportLogs('txt', logScope)} className={TOOL_BUTTON}><FileDown size={12} /> Text</button>
+          </div>
+        </section>
+
+        <section className="flex flex-col gap-2 border-t border-slate-800 pt-3">
+          <div className="flex items-center gap-2">
+            <span className="text-slate-400 uppercase text-[10px] tracking-wider">Import telemetry (CSV or JSON)</span>
+            <button
+              onClick={() => fileRef.current?.click()}
+              disabled={!canImport}
+              className={`${TOOL_BUTTON} ml-auto`}
+              title={canImport ? undefined : `Requires the ${requiredRole('data.import')} role`}
+            >
+              <FileUp size={12} /> Choose file
+            </button>
+            <input
+              ref={fileRef}
+              type="file"
+              accept=".csv,.json,text/csv,application/json"
+              className="hidden"
+              onChange={(event) => {
+                const file = event.target.files?.[0];
+                if (file) onImport(file);
+                event.target.value = '';
+              }}
+            />
+          </div>
+          <p className="text-slate-600">
+            Columns: <span className="text-slate-400">stationId, timestamp, cpuLoad, memoryUsage, networkLatency, temperature</span>.
+            Timestamps may be epoch seconds, epoch milliseconds or ISO 8601.
+          </p>
+
+          {imported && (
+            <div className="flex flex-col gap-2 bg-slate-950/60 border border-slate-800 rounded p-2">
+              <div className="flex items-center gap-2">
+                <span className="text-slate-200 truncate">{imported.name}</span>
+                <span className="text-slate-500 shrink-0">
+                  {imported.metrics.length}/{imported.rows} rows accepted
+                  {imported.issues.length > 0 && <span className="text-amber-400"> // {imported.issues.length} issue{imported.issues.length === 1 ? '' : 's'}</span>}
+                </span>
+                <button onClick={onView} disabled={imported.metrics.length === 0} className={`${TOOL_BUTTON} ml-auto`} title="Open in replay mode"><Eye size={12} /> View</button>
+                <button onClick={onDiscard} className={TOOL_BUTTON} title="Discard dataset"><Trash2 size={12} /></button>
+              </div>
+              <div className="text-slate-500">{formatRange(imported.metrics)}</div>
+
+              {importedStations.length > 0 && (
+                <ul className="flex flex-col gap-1">
+                  {importedStations.map(id => {
+                    const result = imported.analysis[id];
+                    return (
+                      <li key={id} className="flex items-center gap-2">
+                        <span className="text-slate-300 w-32 truncate">{id}</span>
+                        <span className="text-slate-500">{imported.metrics.filter(metric => metric.stationId === id).length} frames</span>
+                        {result && (
+                          <button onClick={() => setReportFor(reportFor === id ? null : id)} className="text-cyan-400 hover:underline uppercase">
+                            {result.status} // {reportFor === id ? 'hide' : 'report'}
+                          </button>
+                        )}
+                        <button onClick={() => onAnalyze(id)} disabled={!canAnalyze || analyzing.includes(id)} className={`${TOOL_BUTTON} ml-auto`}>
+                          <Bot size={12} /> {analyzing.includes(id) ? 'Analyzing...' : 'Analyze'}
+                        </button>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+              {reportFor && imported.analysis[reportFor] && (
+                <div className="border border-slate-800 rounded p-2">
+                  <DiagnosticsReport result={imported.analysis[reportFor]} />
+                </div>
+              )}
+
+              {imported.issues.length > 0 && (
+                <ul className="max-h-40 overflow-y-auto border border-amber-900/50 rounded p-1 text-amber-300/90">
+                  {imported.issues.slice(0, ISSUE_LIMIT).map((issue, index) => (
+                    <li key={index}>Row {issue.row}: {issue.message}</li>
+                  ))}
+                  {imported.issues.length > ISSUE_LIMIT && <li className="text-slate-500">...and {imported.issues.length - ISSUE_LIMIT} more</li>}
+                </ul>
+              )}
+            </div>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default DataTransferPanel;
@@ -0,0 +1,109 @@
+import React from 'react';
+import { AlertOctagon } from 'lucide-react';
+import { AiAnalysisResult, MetricFinding, SuggestedAction } from '../types';
+import { getMetricDefinition } from '../services/metricRegistry';
+
+export interface DiagnosticsError {
+  message: string;
+  issues: string[];
+}
+
+interface DiagnosticsReportProps {
+  result: AiAnalysisResult | null;
+  error?: DiagnosticsError | null;
+}
+
+
+const ASSESSMENT_STYLES: Record<MetricFinding['assessment'], string> = {
+  nominal: 'text-green-400',
+  elevated: 'text-amber-400',
+  critical: 'text-red-400',
+};
+
+const URGENCY_STYLES: Record<SuggestedAction['urgency'], string> = {
+  low: 'border-slate-600 text-slate-400',
+  medium: 'border-cyan-700 text-cyan-400',
+  high: 'border-amber-600 text-amber-400',
+  immediate: 'border-red-600 text-red-400 animate-pulse',
+};
+
+const DiagnosticsReport: React.FC<DiagnosticsReportProps> = ({ result, error }) => {
+  if (error) {
+    return (
+      <div className="space-y-3 animate-fade-in">
+        <div className="p-2 rounded border font-mono text-center uppercase text-sm font-bold bg-red-900/30 border-red-600 text-red-400 flex items-center justify-center gap-2">
+          <AlertOctagon size={16} /> Diagnostics Rejected
+        </div>
+        <p className="text-sm text-slate-200">{error.message}</p>
+        {error.issues.length > 0 && (
+          <ul className="text-[11px] font-mono text-red-300/80 space-y-0.5 list-disc list-inside max-h-32 overflow-y-auto">
+            {error.issues.map(issue => <li key={issue}>{issue}</li>)}
+          </ul>
+        )}
+        <p className="text-[10px] text-slate-500 font-mono uppercase">The previous report was kept. Re-run diagnostics to retry.</p>
+      </div>
+    );
+  }
+
+  if (!result) return null;
+
+  return (
+    <div className="space-y-4 animate-fade-in">
+      <div className={`p-2 rounded border font-mono text-center uppercase text-sm font-bold
+        ${result.status === 'optimal' ? 'bg-green-900/30 border-green-600 text-green-400' :
+          result.status === 'warning' ? 'bg-amber-900/30 border-amber-600 text-amber-400' :
+          'bg-red-900/30 border-red-600 text-red-400'}`}>
+         STATUS: {result.status}
+      </div>
+      <div>
+        <h4 className="text-xs text-slate-400 uppercase font-mono mb-1">Analysis</h4>
+        <p className="text-sm text-slate-200 leading-relaxed">{result.summary}</p>
+      </div>
+      <div>
+        <h4 className="text-xs text-slate-400 uppercase font-mono mb-1">Directive</h4>
+        <p className="text-sm text-cyan-300 font-medium">{result.recommendation}</p>
+      </div>
+      <div>
+        <div className="flex justify-between text-xs text-slate-400 uppercase font-mono mb-1">
+          <span>Confidence</span>
+          <span className="text-slate-200">{Math.round(result.confidence * 100)}%</span>
+        </div>
+        <div className="h-1 w-full bg-slate-700 rounded-full overflow-hidden">
+          <div className="h-full bg-cyan-500" style={{ width: `${result.confidence * 100}%` }}></div>
+        </div>
+      </div>
+      <div>
+        <h4 className="text-xs text-slate-400 uppercase font-mono mb-1">Suspected Root Cause</h4>
+        <p className="text-sm text-slate-200">{result.rootCause}</p>
+      </div>
+      {result.findings.length > 0 && (
+        <div>
+          <h4 className="text-xs text-slate-400 uppercase font-mono mb-1">Findings</h4>
+          <ul className="space-y-1">
+            {result.findings.map(finding => (
+              <li key={finding.metric} className="text-xs flex gap-2">
+                <span className={`font-mono font-bold w-10 shrink-0 ${ASSESSMENT_STYLES[finding.assessment]}`}>{getMetricDefinition(finding.metric)?.shortLabel ?? finding.metric}</span>
+                <span className="text-slate-300">{finding.observation}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {result.actions.length > 0 && (
+        <div>
+          <h4 className="text-xs text-slate-400 uppercase font-mono mb-1">Suggested Actions</h4>
+          <ul className="space-y-1">
+            {result.actions.map(action => (
+              <li key={action.action} className="text-xs flex gap-2 items-start">
+                <span className={`text-[9px] font-mono font-bold uppercase border rounded px-1 shrink-0 ${URGENCY_STYLES[action.urgency]}`}>{action.urgency}</span>
+                <span className="text-slate-200">{action.action}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DiagnosticsReport;
@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, History } from 'lucide-react';
+import { DiagnosticsRun } from '../types';
+import DiagnosticsReport from './DiagnosticsReport';
+
+interface DiagnosticsTimelineProps {
+  runs: DiagnosticsRun[];
+}
+
+const STATUS_STYLES: Record<DiagnosticsRun['result']['status'], string> = {
+  optimal: 'bg-green-500',
+  warning: 'bg-amber-500',
+  critical: 'bg-red-500',
+};
+
+const TRIGGER_STYLES: Record<DiagnosticsRun['trigger'], string> = {
+  manual: 'border-slate-600 text-slate-400',
+  schedule: 'border-cyan-700 text-cyan-400',
+  anomaly: 'border-fuchsia-700 text-fuchsia-400',
+  import: 'border-violet-700 text-violet-400',
+};
+
+const DiagnosticsTimeline: React.FC<DiagnosticsTimelineProps> = ({ runs }) => {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  if (runs.length === 0) {
+    return (
+      <div className="flex-1 flex flex-col items-center justify-center text-slate-600 gap-2 opacity-50">
+        <History size={48} />
+        <span className="text-xs font-mono uppercase">No diagnostics recorded</span>
+      </div>
+    );
+  }
+
+  return (
+    <ul className="flex-1 overflow-y-auto space-y-2 pr-1">
+      {[...runs].reverse().map(run => {
+        const expanded = expandedId === run.id;
+        return (
+          <li key={run.id} className="bg-slate-900/50 rounded border border-slate-800">
+            <button
+              onClick={() => setExpandedId(expanded ? null : run.id)}
+              className="w-full flex items-center gap-2 px-2 py-1.5 text-left hover:bg-slate-800/60 transition-colors"
+            >
+              {expanded ? <ChevronDown size={12} className="text-slate-500" /> : <ChevronRight size={12} className="text-slate-500" />}
+              <span className={`w-2 h-2 rounded-full shrink-0 ${STATUS_STYLES[run.result.status]}`}></span>
+              <span className="text-[10px] font-mono text-slate-500 shrink-0">
+                {new Date(run.ranAt).toLocaleTimeString([], { hour12: false, hour: '2-digit', minute: '2-digit', second: '2-digit' })}
+              </span>
+              <span className={`text-[9px] font-mono font-bold uppercase border rounded px-1 shrink-0 ${TRIGGER_STYLES[run.trigger]}`}>{run.trigger}</span>
+              <span className="text-xs text-slate-300 truncate">{run.reason ?? run.result.summary}</span>
+            </button>
+            {expanded && (
+              <div className="px-3 pb-3 pt-1 border-t border-slate-800">
+                <DiagnosticsReport result={run.result} />
+              </div>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default DiagnosticsTimeline;
@@ -0,0 +1,209 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Download, Play, Square, Upload, X, Zap } from 'lucide-react';
+import { FaultProfile, FaultScenario } from '../types';
+import { FaultInjectorState, NO_FAULTS, describeFaults } from '../services/faultInjection';
+
+interface FaultInjectionPanelProps {
+  state: FaultInjectorState;
+  stations: string[];
+  scenarios: FaultScenario[];
+  aiTimeoutMs: number;
+  onUpdate: (patch: Partial<FaultProfile>) => void;
+  onClear: () => void;
+  onPlay: (scenario: FaultScenario) => void;
+  onExport: (scenario: FaultScenario) => void;
+  onImport: (file: File) => void;
+  onClose: () => void;
+}
+
+interface Choice {
+  label: string;
+  value: number;
+}
+
+const TOOL_BUTTON = 'flex items-center gap-1 px-2 py-1 rounded border border-slate-700 text-slate-300 hover:bg-slate-700 disabled:opacity-40 disabled:cursor-not-allowed';
+
+const seconds = (ms: number) => `${Math.round(ms / 1000)}s`;
+
+const FaultSelect: React.FC<{ label: string; value: number; choices: Choice[]; onChange: (value: number) => void }> = ({ label, value, choices, onChange }) => (
+  <label className="flex items-center justify-between gap-2">
+    <span className="text-slate-400">{label}</span>
+    <select
+      value={value}
+      onChange={(event) => onChange(Number(event.target.value))}
+      className={`bg-slate-900 border rounded px-2 py-1 focus:outline-none focus:border-cyan-500 ${value > 0 ? 'border-amber-600 text-amber-300' : 'border-slate-700 text-slate-200'}`}
+    >
+      {/* Keep a value set by a scenario selectable even when it is not a preset */}
+      {!choices.some(choice => choice.value === value) && <option value={value}>{value}</option>}
+      {choices.map(choice => <option key={choice.value} value={choice.value}>{choice.label}</option>)}
+    </select>
+  </label>
+);
+
+const FaultInjectionPanel: React.FC<FaultInjectionPanelProps> = ({
+  state, stations, scenarios, aiTimeoutMs, onUpdate, onClear, onPlay, onExport, onImport, onClose
+}) => {
+  const [now, setNow] = useState(Date.now());
+  const fileRef = useRef<HTMLInputElement>(null);
+  const { profile, run } = state;
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  // Advance the timeline cursor while a scenario plays
+  useEffect(() => {
+    if (!run) return;
+    const interval = setInterval(() => setNow(Date.now()), 500);
+    return () => clearInterval(interval);
+  }, [run]);
+
+  const toggleGap = (stationId: string) => {
+    const next = profile.gapStations.includes(stationId)
+      ? profile.gapStations.filter(id => id !== stationId)
+      : [...profile.gapStations, stationId];
+    onUpdate({ gapStations: next });
+  };
+
+  const elapsed = run ? Math.min(now - run.startedAt, run.scenario.durationMs) : 0;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-start justify-center pt-[10vh] bg-slate-950/70 backdrop-blur-sm" onClick={onClose}>
+      <div
+        className="w-full max-w-2xl bg-slate-900 border border-amber-800 rounded-lg shadow-[0_0_30px_rgba(217,119,6,0.2)] p-4 flex flex-col gap-4 font-mono text-xs"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <div className="flex items-center gap-2 text-amber-400 font-bold uppercase tracking-wider">
+          <Zap size={14} /> Fault Injection
+          <span className="ml-2 text-slate-500 font-normal normal-case truncate">Active: {describeFaults(profile)}</span>
+          <button onClick={onClose} className="ml-auto text-slate-500 hover:text-slate-300" title="Close (Esc)"><X size={14} /></button>
+        </div>
+
+        <div className="grid grid-cols-2 gap-x-6 gap-y-2">
+          <FaultSelect
+            label="Latency"
+            value={profile.latencyMs}
+            choices={[0, 100, 250, 500, 1000, 3000].map(value => ({ label: value ? `+${value} ms` : 'Off', value }))}
+            onChange={(latencyMs) => onUpdate({ latencyMs })}
+          />
+          <FaultSelect
+            label="Packet loss"
+            value={profile.packetLoss}
+            choices={[0, 0.05, 0.1, 0.25, 0.5, 0.9].map(value => ({ label: value ? `${value * 100}%` : 'Off', value }))}
+            onChange={(packetLoss) => onUpdate({ packetLoss })}
+          />
+          <FaultSelect
+            label="Link flapping"
+            value={profile.flapMs}
+            choices={[0, 5000, 10000, 30000].map(value => ({ label: value ? `Every ${seconds(value)}` : 'Off', value }))}
+            onChange={(flapMs) => onUpdate({ flapMs })}
+          />
+          <label className="flex items-center justify-between gap-2">
+            <span className="text-slate-400">Link drop</span>
+            <button
+              onClick={() => onUpdate({ linkDown: !profile.linkDown })}
+              className={`px-2 py-1 rounded border uppercase font-bold ${profile.linkDown ? 'border-red-600 bg-red-900/40 text-red-300' : 'border-slate-700 text-slate-300 hover:bg-slate-700'}`}
+            >
+              {profile.linkDown ? 'Down' : 'Up'}
+            </button>
+          </label>
+          <FaultSelect
+            label="AI delay"
+            value={profile.aiDelayMs}
+            choices={[
+              ...[0, 2000, 5000, 10000].map(value => ({ label: value ? seconds(value) : 'Off', value })),
+              { label: `Hang (${seconds(aiTimeoutMs)} timeout)`, value: aiTimeoutMs },
+            ]}
+            onChange={(aiDelayMs) => onUpdate({ aiDelayMs })}
+          />
+          <FaultSelect
+            label="AI failures"
+            value={profile.aiFailureRate}
+            choices={[0, 0.25, 0.5, 1].map(value => ({ label: value ? `${value * 100}%` : 'Off', value }))}
+            onChange={(aiFailureRate) => onUpdate({ aiFailureRate })}
+          />
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-slate-400">Telemetry gap</span>
+          {stations.map(stationId => (
+            <button
+              key={stationId}
+              onClick={() => toggleGap(stationId)}
+              className={`px-2 py-0.5 rounded border ${profile.gapStations.includes(stationId) ? 'border-amber-600 bg-amber-900/40 text-amber-300' : 'border-slate-700 text-slate-400 hover:bg-slate-700'}`}
+            >
+              {stationId}
+            </button>
+          ))}
+          {stations.length === 0 && <span className="text-slate-600 italic">No stations reporting yet.</span>}
+        </div>
+
+        <div className="border-t border-slate-800 pt-3 flex flex-col gap-2">
+          <div className="flex items-center gap-2">
+            <span className="text-amber-400 font-bold uppercase tracking-wider">Scenarios</span>
+            <button onClick={() => fileRef.current?.click()} className={`${TOOL_BUTTON} ml-auto text-[10px] uppercase`}><Upload size={12} /> Import</button>
+            <input
+              ref={fileRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(event) => {
+                const file = event.target.files?.[0];
+                if (file) onImport(file);
+                event.target.value = '';
+              }}
+            />
+            <button onClick={onClear} className={`${TOOL_BUTTON} text-[10px] uppercase`}><Square size={12} /> Clear all</button>
+          </div>
+
+          <ul className="divide-y divide-slate-800 max-h-48 overflow-y-auto">
+            {scenarios.map(scenario => (
+              <li key={scenario.name} className="flex items-center gap-2 py-1.5">
+                <div className="flex-1 min-w-0">
+                  <div className={run?.scenario.name === scenario.name ? 'text-amber-300 font-bold' : 'text-slate-200'}>{scenario.name}</div>
+                  {scenario.description && <div className="text-slate-500 truncate">{scenario.description}</div>}
+                </div>
+                <span className="text-slate-500 shrink-0">{scenario.steps.length} steps / {seconds(scenario.durationMs)}</span>
+                <button onClick={() => onPlay(scenario)} className={TOOL_BUTTON} title={run?.scenario.name === scenario.name ? 'Replay from the start' : 'Play'}><Play size={12} /></button>
+                <button onClick={() => onExport(scenario)} className={TOOL_BUTTON} title="Export as JSON"><Download size={12} /></button>
+              </li>
+            ))}
+          </ul>
+
+          {run && (
+            <div className="flex flex-col gap-1">
+              <div className="flex justify-between text-slate-400">
+                <span>PLAYING // {run.scenario.name}</span>
+                <span>{seconds(elapsed)} / {seconds(run.scenario.durationMs)}</span>
+              </div>
+              <div className="relative h-2 bg-slate-800 rounded-full">
+                <div className="absolute inset-y-0 left-0 bg-amber-600/60 rounded-full" style={{ width: `${(elapsed / run.scenario.durationMs) * 100}%` }}></div>
+                {run.scenario.steps.map((step, index) => (
+                  <div
+                    key={index}
+                    title={`${seconds(step.atMs)}: ${step.note ?? describeFaults({ ...NO_FAULTS, ...step.set })}`}
+                    className={`absolute top-1/2 w-2 h-2 -mt-1 -ml-1 rounded-full ${index < run.applied ? 'bg-amber-400' : 'bg-slate-500'}`}
+                    style={{ left: `${(step.atMs / run.scenario.durationMs) * 100}%` }}
+                  ></div>
+                ))}
+              </div>
+              <ol className="text-slate-500">
+                {run.scenario.steps.map((step, index) => (
+                  <li key={index} className={index < run.applied ? 'text-amber-300' : ''}>
+                    {seconds(step.atMs).padStart(4)}  {step.note ?? 'Step'}
+                  </li>
+                ))}
+              </ol>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FaultInjectionPanel;
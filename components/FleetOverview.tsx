@@ -0,0 +1,109 @@
+import React from 'react';
+import { Satellite } from 'lucide-react';
+import { SystemMetric, Alert, AiAnalysisResult, HealthGrade, HealthScore } from '../types';
+import { METRICS, getMetricValue, metricColor } from '../services/metricRegistry';
+
+export type StationHealth = 'nominal' | 'warning' | 'critical' | 'stale';
+
+interface FleetOverviewProps {
+  fleetMetrics: Record<string, SystemMetric[]>;
+  lastSeen: Record<string, number>;
+  alerts: Alert[];
+  aiResults: Record<string, AiAnalysisResult>;
+  staleAfterMs: number;
+  now: number;
+  // Composite scores from local analytics, shown on each tile
+  healthScores?: Record<string, HealthScore>;
+  onSelect: (stationId: string) => void;
+}
+
+export const getStationHealth = (
+  stationId: string,
+  alerts: Alert[],
+  aiResult: AiAnalysisResult | undefined,
+  lastSeen: number | undefined,
+  staleAfterMs: number,
+  now: number
+): StationHealth => {
+  const open = alerts.filter(alert => alert.stationId === stationId && alert.state !== 'resolved');
+  if (open.some(alert => alert.severity === 'critical') || aiResult?.status === 'critical') return 'critical';
+  if (open.length > 0 || aiResult?.status === 'warning') return 'warning';
+  if (lastSeen === undefined || now - lastSeen > staleAfterMs) return 'stale';
+  return 'nominal';
+};
+
+const HEALTH_STYLES: Record<StationHealth, string> = {
+  nominal: 'border-green-600/50 text-green-400',
+  warning: 'border-amber-500/60 text-amber-400',
+  critical: 'border-red-500/70 text-red-400 shadow-[0_0_12px_rgba(220,38,38,0.25)]',
+  stale: 'border-slate-600 text-slate-500',
+};
+
+const SCORE_STYLES: Record<HealthGrade, string> = {
+  healthy: 'text-green-400',
+  degraded: 'text-amber-400',
+  critical: 'text-red-400',
+};
+
+const FleetOverview: React.FC<FleetOverviewProps> = ({ fleetMetrics, lastSeen, alerts, aiResults, staleAfterMs, now, healthScores = {}, onSelect }) => {
+  const stationIds = Object.keys(fleetMetrics).sort();
+
+  if (stationIds.length === 0) {
+    return (
+      <div className="h-full flex flex-col items-center justify-center text-slate-600 gap-2 font-mono text-xs uppercase">
+        <Satellite size={40} className="opacity-50" />
+        Awaiting station telemetry...
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-4 gap-4 auto-rows-min">
+      {stationIds.map(stationId => {
+        const series = fleetMetrics[stationId];
+        const latest = series[series.length - 1];
+        const health = getStationHealth(stationId, alerts, aiResults[stationId], lastSeen[stationId], staleAfterMs, now);
+        const openAlerts = alerts.filter(alert => alert.stationId === stationId && alert.state !== 'resolved').length;
+        const score = healthScores[stationId];
+
+        return (
+          <button
+            key={stationId}
+            onClick={() => onSelect(stationId)}
+            className={`text-left bg-slate-800/60 backdrop-blur-md border rounded-lg p-4 font-mono transition-colors hover:bg-slate-700/60 ${HEALTH_STYLES[health]}`}
+          >
+            <div className="flex justify-between items-center mb-3 border-b border-slate-700/50 pb-2">
+              <span className="text-sm font-bold tracking-wider text-white">{stationId}</span>
+              <span className="text-[10px] font-bold uppercase">{health}</span>
+            </div>
+            {latest ? (
+              <div className="grid grid-cols-2 gap-y-1 text-xs text-slate-400">
+                {METRICS.map(definition => {
+                  const value = getMetricValue(latest, definition.id);
+                  if (value === undefined) return null;
+                  return (
+                    <React.Fragment key={definition.id}>
+                      <span>{definition.shortLabel}</span>
+                      <span className="text-right" style={{ color: metricColor(definition, value) }}>{value}{definition.unit}</span>
+                    </React.Fragment>
+                  );
+                })}
+              </div>
+            ) : (
+              <div className="text-xs text-slate-600">NO DATA</div>
+            )}
+            <div className="mt-3 flex justify-between text-[10px] text-slate-500 uppercase">
+              <span>{latest ? `Last ${new Date(latest.timestamp).toLocaleTimeString([], { hour12: false, hour: '2-digit', minute: '2-digit', second: '2-digit' })}` : '--:--:--'}</span>
+              {score && (
+                <span className={SCORE_STYLES[score.grade]} title={score.factors.join('\n') || 'All metrics nominal'}>Health {score.score}</span>
+              )}
+              <span className={openAlerts > 0 ? 'text-red-400' : ''}>{openAlerts} alert{openAlerts === 1 ? '' : 's'}</span>
+            </div>
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default FleetOverview;
@@ -0,0 +1,199 @@
+import React, { useEffect, useState } from 'react';
+import { CheckCircle2, FileDown, Siren, X } from 'lucide-react';
+import { Incident, IncidentEvent } from '../types';
+import { METRICS, getMetricValue } from '../services/metricRegistry';
+import { requiredRole } from '../services/accessControl';
+import { useAccess } from './AccessContext';
+
+interface IncidentsPanelProps {
+  incidents: Incident[];
+  // Incident shown first, e.g. the selected station's open one
+  initialId?: string;
+  onAssign: (incidentId: string, assignee: string) => void;
+  onNotes: (incidentId: string, notes: string) => void;
+  onResolve: (incidentId: string, resolution: string) => void;
+  onExport: (incidentId: string) => void;
+  onClose: () => void;
+}
+
+const TOOL_BUTTON = 'flex items-center gap-1 px-2 py-1 rounded border border-slate-700 text-slate-300 hover:bg-slate-700 disabled:opacity-40 disabled:cursor-not-allowed';
+const INPUT = 'bg-slate-900 border border-slate-700 rounded px-2 py-1 text-slate-200 focus:outline-none focus:border-cyan-500';
+
+const LEVEL_STYLES: Record<NonNullable<IncidentEvent['level']>, string> = {
+  info: 'text-slate-300',
+  success: 'text-green-400',
+  warning: 'text-amber-300',
+  error: 'text-red-300',
+};
+
+const formatTime = (epoch: number) =>
+  new Date(epoch).toLocaleTimeString([], { hour12: false, hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+const describeSnapshot = (frame: IncidentEvent['metric']) => frame
+  ? METRICS
+    .map(definition => ({ definition, value: getMetricValue(frame, definition.id) }))
+    .filter(({ value }) => value !== undefined)
+    .map(({ definition, value }) => `${definition.shortLabel} ${Number(value!.toFixed(1))}${definition.unit}`)
+    .join(' // ')
+  : '';
+
+const IncidentsPanel: React.FC<IncidentsPanelProps> = ({ incidents, initialId, onAssign, onNotes, onResolve, onExport, onClose }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(initialId ?? incidents[0]?.id ?? null);
+  const selected = incidents.find(incident => incident.id === selectedId) ?? null;
+  const [assignee, setAssignee] = useState('');
+  const [notes, setNotes] = useState('');
+  const [resolution, setResolution] = useState('');
+  // Viewers can read every incident but not change one
+  const editable = useAccess().can('incidents.manage');
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  // Drafts follow the selection; edits from the command line show up when the incident is reopened here.
+  useEffect(() => {
+    setAssignee(selected?.assignee ?? '');
+    setNotes(selected?.notes ?? '');
+    setResolution('');
+  }, [selectedId]);
+
+  const commitAssignee = () => {
+    if (editable && selected && assignee.trim() !== (selected.assignee ?? '')) onAssign(selected.id, assignee);
+  };
+
+  const commitNotes = () => {
+    if (editable && selected && notes !== selected.notes) onNotes(selected.id, notes);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-start justify-center pt-[8vh] bg-slate-950/70 backdrop-blur-sm" onClick={onClose}>
+      <div
+        className="w-full max-w-4xl h-[84vh] bg-slate-900 border border-cyan-800 rounded-lg shadow-[0_0_30px_rgba(8,145,178,0.25)] p-4 flex flex-col gap-3 font-mono text-xs"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <div className="flex items-center gap-2 text-cyan-400 font-bold uppercase tracking-wider">
+          <Siren size={14} /> Incidents
+          <span className="text-slate-500 font-normal">{incidents.filter(incident => incident.state === 'open').length} open</span>
+          <button onClick={onClose} className="ml-auto text-slate-500 hover:text-slate-300" title="Close (Esc)"><X size={14} /></button>
+        </div>
+
+        {incidents.length === 0 ? (
+          <div className="flex-1 flex items-center justify-center text-slate-500 uppercase">
+            No incidents. Warning and critical alerts or diagnostics open one automatically.
+          </div>
+        ) : (
+          <div className="flex-1 min-h-0 flex gap-3">
+            <ul className="w-64 shrink-0 overflow-y-auto space-y-1 pr-1">
+              {incidents.map(incident => (
+                <li key={incident.id}>
+                  <button
+                    onClick={() => setSelectedId(incident.id)}
+                    className={`w-full text-left rounded border px-2 py-1.5 transition-colors ${incident.id === selectedId ? 'border-cyan-600 bg-cyan-950/40' : 'border-slate-800 hover:bg-slate-800'}`}
+                  >
+                    <div className="flex justify-between gap-2">
+                      <span className="text-slate-400">{incident.id}</span>
+                      <span className={incident.state === 'resolved' ? 'text-slate-500' : incident.severity === 'critical' ? 'text-red-400' : 'text-amber-400'}>
+                        {incident.state === 'resolved' ? 'RESOLVED' : incident.severity.toUpperCase()}
+                      </span>
+                    </div>
+                    <div className="text-slate-200 truncate">{incident.title}</div>
+                    <div className="text-[10px] text-slate-500">{incident.stationId} // {formatTime(incident.openedAt)}{incident.assignee && ` // ${incident.assignee}`}</div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+
+            {selected && (
+              <div className="flex-1 min-w-0 flex flex-col gap-2">
+                <div className="flex items-center gap-2">
+                  <span className="text-slate-200 font-bold truncate">{selected.id} // {selected.title}</span>
+                  <button
+                    onClick={() => onExport(selected.id)}
+                    disabled={selected.state !== 'resolved'}
+                    className={`${TOOL_BUTTON} ml-auto shrink-0`}
+                    title={selected.state === 'resolved' ? 'Download the post-mortem as Markdown' : 'Available once the incident is resolved'}
+                  >
+                    <FileDown size={12} /> Post-mortem
+                  </button>
+                </div>
+
+                <div className="grid grid-cols-[auto_1fr] items-center gap-x-2 gap-y-1">
+                  <span className="text-slate-500 uppercase text-[10px]">Assignee</span>
+                  <input
+                    value={assignee}
+                    onChange={(event) => setAssignee(event.target.value)}
+                    onBlur={commitAssignee}
+                    onKeyDown={(event) => { if (event.key === 'Enter') commitAssignee(); }}
+                    placeholder="Unassigned"
+                    readOnly={!editable}
+                    className={INPUT}
+                  />
+                  <span className="text-slate-500 uppercase text-[10px] self-start mt-1">Notes</span>
+                  <textarea
+                    value={notes}
+                    onChange={(event) => setNotes(event.target.value)}
+                    onBlur={commitNotes}
+                    rows={3}
+                    placeholder="Findings, hypotheses, follow-ups"
+                    readOnly={!editable}
+                    className={`${INPUT} resize-y`}
+                  />
+                  {selected.state === 'open' ? (
+                    <>
+                      <span className="text-slate-500 uppercase text-[10px]">Resolution</span>
+                      <div className="flex gap-2">
+                        <input
+                          value={resolution}
+                          onChange={(event) => setResolution(event.target.value)}
+                          placeholder="What fixed it (optional)"
+                          readOnly={!editable}
+                          className={`${INPUT} flex-1`}
+                        />
+                        <button
+                          onClick={() => { commitNotes(); onResolve(selected.id, resolution); }}
+                          disabled={!editable}
+                          className={TOOL_BUTTON}
+                          title={editable ? undefined : `Requires the ${requiredRole('incidents.manage')} role`}
+                        >
+                          <CheckCircle2 size={12} /> Resolve
+                        </button>
+                      </div>
+                    </>
+                  ) : (
+                    <>
+                      <span className="text-slate-500 uppercase text-[10px]">Resolved</span>
+                      <span className="text-green-400">{formatTime(selected.resolvedAt!)}{selected.resolution && ` // ${selected.resolution}`}</span>
+                    </>
+                  )}
+                </div>
+
+                <span className="text-slate-400 uppercase text-[10px] tracking-wider border-t border-slate-800 pt-2">Timeline ({selected.timeline.length} events)</span>
+                <ul className="flex-1 min-h-0 overflow-y-auto space-y-1 pr-1">
+                  {selected.timeline.map((event, index) => (
+                    <li key={index} className="flex gap-2">
+                      <span className="text-slate-600 shrink-0">{formatTime(event.t)}</span>
+                      <span className="text-cyan-600 uppercase w-20 shrink-0">{event.kind}</span>
+                      <div className="min-w-0">
+                        <div className={LEVEL_STYLES[event.level ?? 'info']}>{event.message}</div>
+                        {event.diagnostics && event.diagnostics.rootCause !== 'none' && (
+                          <div className="text-slate-500">Root cause: {event.diagnostics.rootCause}</div>
+                        )}
+                        {event.metric && <div className="text-[10px] text-slate-500">{describeSnapshot(event.metric)}</div>}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default IncidentsPanel;
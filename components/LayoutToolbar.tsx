@@ -0,0 +1,93 @@
+import React, { useRef, useState } from 'react';
+import { Download, Plus, RotateCcw, Save, Trash2, Upload } from 'lucide-react';
+import { DashboardLayout, WidgetType } from '../types';
+import { WIDGET_REGISTRY } from './widgetRegistry';
+
+interface LayoutToolbarProps {
+  layouts: DashboardLayout[];
+  active: string;
+  available: WidgetType[];
+  onSelect: (name: string) => void;
+  onSaveAs: (name: string) => void;
+  onDelete: () => void;
+  onReset: () => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+  onAdd: (type: WidgetType) => void;
+}
+
+const TOOL_BUTTON = 'flex items-center gap-1 px-2 py-1 rounded border border-slate-700 text-slate-300 hover:bg-slate-700 disabled:opacity-40 disabled:cursor-not-allowed';
+
+const LayoutToolbar: React.FC<LayoutToolbarProps> = ({
+  layouts, active, available, onSelect, onSaveAs, onDelete, onReset, onExport, onImport, onAdd
+}) => {
+  const [name, setName] = useState('');
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const saveAs = (event: React.FormEvent) => {
+    event.preventDefault();
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    onSaveAs(trimmed);
+    setName('');
+  };
+
+  return (
+    <div className="mb-4 bg-slate-800/60 backdrop-blur-md border border-cyan-900/60 rounded-lg p-3 flex flex-col gap-3 font-mono text-[10px] uppercase">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-cyan-400 font-bold tracking-wider">Layout</span>
+        <select
+          value={active}
+          onChange={(event) => onSelect(event.target.value)}
+          className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-slate-200 normal-case focus:outline-none focus:border-cyan-500"
+        >
+          {layouts.map(layout => <option key={layout.name} value={layout.name}>{layout.name}</option>)}
+        </select>
+
+        <form onSubmit={saveAs} className="flex items-center gap-1">
+          <input
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+            placeholder="Save as..."
+            maxLength={40}
+            className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-slate-200 normal-case w-32 focus:outline-none focus:border-cyan-500"
+          />
+          <button type="submit" disabled={!name.trim()} className={TOOL_BUTTON}><Save size={12} /> Save</button>
+        </form>
+
+        <button onClick={onDelete} disabled={layouts.length <= 1} className={TOOL_BUTTON}><Trash2 size={12} /> Delete</button>
+        <button onClick={onReset} className={TOOL_BUTTON}><RotateCcw size={12} /> Reset</button>
+        <button onClick={onExport} className={TOOL_BUTTON}><Download size={12} /> Export</button>
+        <button onClick={() => fileRef.current?.click()} className={TOOL_BUTTON}><Upload size={12} /> Import</button>
+        <input
+          ref={fileRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(event) => {
+            const file = event.target.files?.[0];
+            if (file) onImport(file);
+            event.target.value = '';
+          }}
+        />
+        <span className="ml-auto text-slate-500 normal-case">Drag cards to reorder. Changes save automatically.</span>
+      </div>
+
+      {available.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-slate-500">Add</span>
+          {available.map(type => {
+            const { title, icon: Icon, description } = WIDGET_REGISTRY[type];
+            return (
+              <button key={type} onClick={() => onAdd(type)} title={description} className={TOOL_BUTTON}>
+                <Plus size={10} /> <Icon size={12} /> {title}
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LayoutToolbar;
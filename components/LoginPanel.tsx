@@ -0,0 +1,65 @@
+import React, { useEffect, useState } from 'react';
+import { KeyRound, X } from 'lucide-react';
+
+interface LoginPanelProps {
+  // Resolves to an error message, or null once signed in
+  onSignIn: (username: string, password: string) => Promise<string | null>;
+  onClose: () => void;
+}
+
+const INPUT = 'bg-slate-900 border border-slate-700 rounded px-2 py-1.5 text-slate-200 focus:outline-none focus:border-cyan-500';
+
+const LoginPanel: React.FC<LoginPanelProps> = ({ onSignIn, onClose }) => {
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [pending, setPending] = useState(false);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!username.trim() || pending) return;
+    setPending(true);
+    const failure = await onSignIn(username, password);
+    setPending(false);
+    if (failure) {
+      setError(failure);
+      setPassword('');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-start justify-center pt-[15vh] bg-slate-950/70 backdrop-blur-sm" onClick={onClose}>
+      <form
+        onSubmit={handleSubmit}
+        className="w-full max-w-xs bg-slate-900 border border-cyan-800 rounded-lg shadow-[0_0_30px_rgba(8,145,178,0.25)] p-4 flex flex-col gap-3 font-mono text-xs"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <div className="flex items-center gap-2 text-cyan-400 font-bold uppercase tracking-wider">
+          <KeyRound size={14} /> Sign in
+          <button type="button" onClick={onClose} className="ml-auto text-slate-500 hover:text-slate-300" title="Close (Esc)"><X size={14} /></button>
+        </div>
+        <input value={username} onChange={(event) => setUsername(event.target.value)} placeholder="Username" autoComplete="username" autoFocus className={INPUT} />
+        <input type="password" value={password} onChange={(event) => setPassword(event.target.value)} placeholder="Password" autoComplete="current-password" className={INPUT} />
+        {error && <div className="text-red-400">{error}</div>}
+        <button
+          type="submit"
+          disabled={!username.trim() || pending}
+          className="py-1.5 rounded bg-cyan-600 hover:bg-cyan-500 text-white font-bold uppercase tracking-widest disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {pending ? 'Checking...' : 'Sign in'}
+        </button>
+        <p className="text-slate-500">Without signing in the cockpit is read-only.</p>
+      </form>
+    </div>
+  );
+};
+
+export default LoginPanel;
@@ -0,0 +1,84 @@
+import React from 'react';
+import { History, Pause, Play, X } from 'lucide-react';
+
+interface ReplayBarProps {
+  name: string;
+  startedAt: number;
+  endedAt: number;
+  at: number;
+  playing: boolean;
+  speed: number;
+  speeds: number[];
+  // Recording moments worth jumping to, e.g. diagnostics runs
+  markers: number[];
+  onTogglePlay: () => void;
+  onSeek: (at: number) => void;
+  onSpeedChange: (speed: number) => void;
+  onExit: () => void;
+}
+
+const formatOffset = (ms: number) => {
+  const total = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(total / 3600);
+  const rest = `${String(Math.floor((total % 3600) / 60)).padStart(2, '0')}:${String(total % 60).padStart(2, '0')}`;
+  return hours > 0 ? `${hours}:${rest}` : rest;
+};
+
+const ReplayBar: React.FC<ReplayBarProps> = ({
+  name, startedAt, endedAt, at, playing, speed, speeds, markers, onTogglePlay, onSeek, onSpeedChange, onExit
+}) => {
+  const duration = Math.max(1, endedAt - startedAt);
+
+  return (
+    <div className="relative z-10 mb-4 flex items-center gap-3 bg-violet-950/60 border border-violet-700/60 rounded-lg px-3 py-2 font-mono text-xs text-violet-200">
+      <span className="flex items-center gap-1.5 font-bold uppercase tracking-wider text-violet-300 shrink-0">
+        <History size={14} /> Replay
+      </span>
+      <span className="text-violet-400/80 truncate max-w-[12rem]" title={name}>{name}</span>
+
+      <button onClick={onTogglePlay} className="p-1 rounded border border-violet-700 hover:bg-violet-800/60" title={playing ? 'Pause' : 'Play'}>
+        {playing ? <Pause size={12} /> : <Play size={12} />}
+      </button>
+
+      <div className="relative flex-1 flex items-center">
+        <input
+          type="range"
+          min={startedAt}
+          max={endedAt}
+          step={1000}
+          value={Math.min(Math.max(at, startedAt), endedAt)}
+          onChange={(event) => onSeek(Number(event.target.value))}
+          className="w-full accent-violet-400"
+        />
+        {markers.filter(marker => marker >= startedAt && marker <= endedAt).map(marker => (
+          <button
+            key={marker}
+            onClick={() => onSeek(marker)}
+            title={`Diagnostics at ${new Date(marker).toLocaleTimeString()}`}
+            className="absolute -top-1.5 w-1.5 h-1.5 -ml-[3px] rounded-full bg-cyan-400 hover:scale-150"
+            style={{ left: `${((marker - startedAt) / duration) * 100}%` }}
+          />
+        ))}
+      </div>
+
+      <span className="shrink-0 tabular-nums">
+        {formatOffset(at - startedAt)} / {formatOffset(duration)}
+        <span className="ml-2 text-violet-400/70">{new Date(at).toLocaleTimeString([], { hour12: false })}</span>
+      </span>
+
+      <select
+        value={speed}
+        onChange={(event) => onSpeedChange(Number(event.target.value))}
+        className="bg-violet-950 border border-violet-700 rounded px-1 py-0.5 focus:outline-none"
+      >
+        {speeds.map(option => <option key={option} value={option}>{option}x</option>)}
+      </select>
+
+      <button onClick={onExit} className="flex items-center gap-1 px-2 py-0.5 rounded border border-violet-700 hover:bg-violet-800/60 uppercase" title="Leave replay and return to live telemetry">
+        <X size={12} /> Live
+      </button>
+    </div>
+  );
+};
+
+export default ReplayBar;
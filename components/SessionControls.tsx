@@ -0,0 +1,65 @@
+import React, { useRef } from 'react';
+import { Circle, FolderOpen, Square } from 'lucide-react';
+import { requiredRole } from '../services/accessControl';
+import { useAccess } from './AccessContext';
+
+interface SessionControlsProps {
+  recordingSince: number | null;
+  recordedEvents: number;
+  recorderFull: boolean;
+  now: number;
+  onStartRecording: () => void;
+  onStopRecording: () => void;
+  onOpenReplay: (file: File) => void;
+}
+
+const formatElapsed = (ms: number) => {
+  const total = Math.floor(ms / 1000);
+  return `${String(Math.floor(total / 60)).padStart(2, '0')}:${String(total % 60).padStart(2, '0')}`;
+};
+
+const CONTROL = 'flex items-center gap-1.5 px-3 py-1.5 rounded border font-mono text-xs uppercase transition-colors';
+
+const SessionControls: React.FC<SessionControlsProps> = ({
+  recordingSince, recordedEvents, recorderFull, now, onStartRecording, onStopRecording, onOpenReplay
+}) => {
+  const fileRef = useRef<HTMLInputElement>(null);
+  const canRecord = useAccess().can('recording.manage');
+
+  return (
+    <div className="flex items-center gap-2">
+      {recordingSince === null ? (
+        <button
+          onClick={onStartRecording}
+          disabled={!canRecord}
+          className={`${CONTROL} border-slate-700 bg-slate-800/80 text-slate-300 hover:bg-slate-700 disabled:opacity-40 disabled:cursor-not-allowed`}
+          title={canRecord ? 'Record metrics, logs, alerts and diagnostics' : `Requires the ${requiredRole('recording.manage')} role`}
+        >
+          <Circle size={10} className="fill-red-500 text-red-500" /> Rec
+        </button>
+      ) : (
+        <button onClick={onStopRecording} className={`${CONTROL} border-red-500/60 bg-red-900/30 text-red-300 hover:bg-red-900/50`} title="Stop and download the recording">
+          <Square size={10} className="fill-current" />
+          {formatElapsed(now - recordingSince)}
+          <span className={`text-[10px] ${recorderFull ? 'text-amber-300' : 'text-red-400/70'}`}>{recorderFull ? 'FULL' : `${recordedEvents} EV`}</span>
+        </button>
+      )}
+      <button onClick={() => fileRef.current?.click()} className={`${CONTROL} border-slate-700 bg-slate-800/80 text-slate-300 hover:bg-slate-700`} title="Open a recording for replay">
+        <FolderOpen size={12} /> Replay
+      </button>
+      <input
+        ref={fileRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={(event) => {
+          const file = event.target.files?.[0];
+          if (file) onOpenReplay(file);
+          event.target.value = '';
+        }}
+      />
+    </div>
+  );
+};
+
+export default SessionControls;
@@ -0,0 +1,55 @@
+import React from 'react';
+import { describe, expect, it, vi } from 'vitest';
+import { fireEvent, render, screen } from '@testing-library/react';
+import { Cpu } from 'lucide-react';
+import { GUEST_SESSION, hasPermission } from '../services/accessControl';
+import { AccessContext } from './AccessContext';
+import { Button, DashboardCard, MetricValue } from './Widgets';
+
+describe('DashboardCard', () => {
+  it('renders the title, icon, action and body', () => {
+    const { container } = render(
+      <DashboardCard title="Core Systems" icon={Cpu} action={<button>Expand</button>} className="col-span-2">
+        <p>Nominal</p>
+      </DashboardCard>
+    );
+
+    expect(screen.getByRole('heading', { name: 'Core Systems' })).toBeTruthy();
+    expect(screen.getByText('Nominal')).toBeTruthy();
+    expect(screen.getByRole('button', { name: 'Expand' })).toBeTruthy();
+    expect(container.querySelector('svg')).not.toBeNull();
+    expect((container.firstChild as HTMLElement).className).toContain('col-span-2');
+  });
+
+  it('leaves out the icon and action when none are given', () => {
+    const { container } = render(<DashboardCard title="Empty">{null}</DashboardCard>);
+    expect(container.querySelector('svg')).toBeNull();
+    expect(screen.queryByRole('button')).toBeNull();
+  });
+});
+
+describe('MetricValue', () => {
+  it('shows the value, unit and trend', () => {
+    render(<MetricValue label="Temp" value={71} unit="°C" trend="up" trendLabel="+1.2/min" />);
+    expect(screen.getByText('Temp')).toBeTruthy();
+    expect(screen.getByText('°C')).toBeTruthy();
+    expect(screen.getByTitle('Trend: up').textContent).toBe('+1.2/min');
+  });
+});
+
+describe('Button', () => {
+  it('is disabled for roles without the permission and names the role it needs', () => {
+    const onClick = vi.fn();
+    render(
+      <AccessContext.Provider value={{ session: GUEST_SESSION, can: permission => hasPermission(GUEST_SESSION.role, permission) }}>
+        <Button permission="alerts.manage" onClick={onClick}>Acknowledge</Button>
+      </AccessContext.Provider>
+    );
+
+    const button = screen.getByRole('button', { name: 'Acknowledge' }) as HTMLButtonElement;
+    fireEvent.click(button);
+    expect(button.disabled).toBe(true);
+    expect(button.title).toBe('Requires the operator role');
+    expect(onClick).not.toHaveBeenCalled();
+  });
+});
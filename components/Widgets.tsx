@@ -1,5 +1,8 @@
 import React from 'react';
-import { LucideIcon } from 'lucide-react';
+import { ArrowDownRight, ArrowRight, ArrowUpRight, LucideIcon } from 'lucide-react';
+import { Permission } from '../types';
+import { requiredRole } from '../services/accessControl';
+import { useAccess } from './AccessContext';
 
 interface CardProps {
   title: string;
@@ -31,24 +34,44 @@ interface MetricValueProps {
   value: string | number;
   unit?: string;
   trend?: 'up' | 'down' | 'stable';
+  // Shown beside the trend arrow, e.g. a rate of change
+  trendLabel?: string;
   color?: string;
+  // CSS colour; overrides the `color` class, e.g. a registry metric's colour
+  accent?: string;
 }
 
-export const MetricValue: React.FC<MetricValueProps> = ({ label, value, unit, color = 'text-white' }) => (
-  <div className="flex flex-col">
-    <span className="text-slate-400 text-xs font-mono uppercase">{label}</span>
-    <span className={`text-2xl font-bold font-mono ${color}`}>
-      {value}<span className="text-sm text-slate-500 ml-1">{unit}</span>
-    </span>
-  </div>
-);
+const TREND_ICONS = { up: ArrowUpRight, down: ArrowDownRight, stable: ArrowRight };
 
-export const Button: React.FC<React.ButtonHTMLAttributes<HTMLButtonElement> & { variant?: 'primary' | 'secondary' | 'danger' }> = ({ 
+export const MetricValue: React.FC<MetricValueProps> = ({ label, value, unit, trend, trendLabel, color = 'text-white', accent }) => {
+  const TrendIcon = trend ? TREND_ICONS[trend] : null;
+  return (
+    <div className="flex flex-col">
+      <span className="text-slate-400 text-xs font-mono uppercase">{label}</span>
+      <span className="flex items-baseline gap-2">
+        <span className={`text-2xl font-bold font-mono ${color}`} style={accent ? { color: accent } : undefined}>
+          {value}<span className="text-sm text-slate-500 ml-1">{unit}</span>
+        </span>
+        {TrendIcon && (
+          <span className="flex items-center gap-0.5 text-[10px] font-mono text-slate-400" title={`Trend: ${trend}`}>
+            <TrendIcon size={14} />{trendLabel}
+          </span>
+        )}
+      </span>
+    </div>
+  );
+};
+
+// With `permission`, the button is disabled for roles that lack it and says which role it needs.
+export const Button: React.FC<React.ButtonHTMLAttributes<HTMLButtonElement> & { variant?: 'primary' | 'secondary' | 'danger'; permission?: Permission }> = ({ 
   children, 
   variant = 'primary', 
   className = '', 
+  permission,
   ...props 
 }) => {
+  const { can } = useAccess();
+  const denied = permission !== undefined && !can(permission);
   const baseStyle = "px-4 py-2 rounded font-mono text-xs font-bold uppercase tracking-widest transition-all focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-slate-900";
   
   const variants = {
@@ -58,7 +81,12 @@ export const Button: React.FC<React.ButtonHTMLAttributes<HTMLButtonElement> & {
   };
 
   return (
-    <button className={`${baseStyle} ${variants[variant]} ${className} disabled:opacity-50 disabled:cursor-not-allowed`} {...props}>
+    <button
+      className={`${baseStyle} ${variants[variant]} ${className} disabled:opacity-50 disabled:cursor-not-allowed`}
+      {...props}
+      disabled={props.disabled || denied}
+      title={denied ? `Requires the ${requiredRole(permission!)} role` : props.title}
+    >
       {children}
     </button>
   );
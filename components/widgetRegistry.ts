@@ -0,0 +1,75 @@
+import { LucideIcon, Activity, BatteryMedium, Bot, Command, Cpu, Database, Gauge, HardDrive, Plug, Radiation, RefreshCw, ShieldAlert, Thermometer, Wifi } from 'lucide-react';
+import { DashboardLayout, LayoutItem, MetricIconName, MetricId, WidgetType } from '../types';
+import { METRICS } from '../services/metricRegistry';
+
+export interface WidgetDefinition {
+  title: string;
+  icon: LucideIcon;
+  description: string;
+  defaultSize: Pick<LayoutItem, 'cols' | 'rows'>;
+  className?: string;
+}
+
+export const GRID_COLUMNS = 4;
+export const GRID_MAX_ROWS = 4;
+
+export const METRIC_ICONS: Record<MetricIconName, LucideIcon> = {
+  cpu: Cpu,
+  memory: Database,
+  thermometer: Thermometer,
+  wifi: Wifi,
+  'hard-drive': HardDrive,
+  plug: Plug,
+  radiation: Radiation,
+  battery: BatteryMedium,
+  gauge: Gauge,
+  activity: Activity,
+};
+
+export const metricWidget = (id: MetricId): WidgetType => `metric:${id}`;
+
+// Layouts saved before the metric registry named the four gauge cards directly.
+export const LEGACY_WIDGETS: Record<string, WidgetType> = {
+  cpu: metricWidget('cpuLoad'),
+  memory: metricWidget('memoryUsage'),
+  thermal: metricWidget('temperature'),
+  latency: metricWidget('networkLatency'),
+};
+
+// One gauge card per registry metric
+const METRIC_WIDGETS: Record<`metric:${string}`, WidgetDefinition> = Object.fromEntries(METRICS.map(definition => [
+  metricWidget(definition.id),
+  { title: definition.label, icon: METRIC_ICONS[definition.icon], description: `${definition.description} (${definition.unit})`, defaultSize: { cols: 1, rows: 1 }, className: 'bg-slate-800/40' },
+]));
+
+// Static metadata for every card the dashboard can host. App.tsx supplies the live content.
+export const WIDGET_REGISTRY: Record<WidgetType, WidgetDefinition> = {
+  ...METRIC_WIDGETS,
+  custom: { title: 'Custom Metrics', icon: Gauge, description: 'Mapped series without a registry entry', defaultSize: { cols: 1, rows: 1 }, className: 'bg-slate-800/40' },
+  cache: { title: 'Cache Status', icon: RefreshCw, description: 'Local cache and sync queue', defaultSize: { cols: 1, rows: 1 }, className: 'bg-slate-800/40' },
+  copilot: { title: 'AI Copilot', icon: Bot, description: 'Diagnostics, history and chat', defaultSize: { cols: 1, rows: 4 } },
+  alerts: { title: 'Alerts', icon: ShieldAlert, description: 'Threshold alerts for the station', defaultSize: { cols: 2, rows: 1 } },
+  chart: { title: 'Telemetry History', icon: Activity, description: 'Multi-series metric chart', defaultSize: { cols: 3, rows: 2 } },
+  console: { title: 'System Console', icon: Command, description: 'Searchable log stream', defaultSize: { cols: 4, rows: 2 }, className: 'bg-black/40' },
+};
+
+export const WIDGET_TYPES = Object.keys(WIDGET_REGISTRY) as WidgetType[];
+
+const item = (type: WidgetType, cols = WIDGET_REGISTRY[type].defaultSize.cols, rows = WIDGET_REGISTRY[type].defaultSize.rows): LayoutItem =>
+  ({ type, cols, rows });
+
+// Mirrors the original fixed grid: gauges on top, chart below, Copilot down the right-hand side.
+export const DEFAULT_LAYOUT: DashboardLayout = {
+  name: 'Default',
+  updatedAt: 0,
+  items: [
+    item(metricWidget('cpuLoad')),
+    item(metricWidget('memoryUsage')),
+    item(metricWidget('temperature')),
+    item('copilot'),
+    item('chart'),
+    item('alerts'),
+    item('cache'),
+    item('console'),
+  ],
+};
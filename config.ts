@@ -0,0 +1,238 @@
+import { AiProviderConfig, AiProviderKind, AnalyticsConfig, AuthConfig, AutoDiagnosticsConfig, ChartRange, FaultScenario, LoggingConfig, LogLevel, MetricDefinition, NotificationConfig, PrometheusMapping, StorageRetentionPolicy, TelemetrySourceConfig, TelemetrySourceKind } from './types';
+
+const TELEMETRY_KINDS: TelemetrySourceKind[] = ['simulator', 'websocket', 'sse', 'polling', 'prometheus', 'scrape'];
+
+const readNumber = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+const readList = (value: string | undefined, fallback: string[]) => {
+  const items = (value || '').split(',').map(item => item.trim()).filter(Boolean);
+  return items.length > 0 ? items : fallback;
+};
+
+const readKind = (value: string | undefined): TelemetrySourceKind =>
+  TELEMETRY_KINDS.includes(value as TelemetrySourceKind) ? (value as TelemetrySourceKind) : 'simulator';
+
+// node_exporter and blackbox_exporter queries for the HTTP API; the cockpit's own OpenMetrics export for /metrics.
+const DEFAULT_PROMETHEUS_MAPPINGS: PrometheusMapping[] = [
+  { metric: 'cpuLoad', query: '100 * (1 - avg by (instance) (rate(node_cpu_seconds_total{mode="idle"}[1m])))', series: 'cockpit_cpu_load_percent' },
+  { metric: 'memoryUsage', query: '100 * (1 - node_memory_MemAvailable_bytes / node_memory_MemTotal_bytes)', series: 'cockpit_memory_usage_percent' },
+  { metric: 'networkLatency', query: 'max by (instance) (probe_duration_seconds)', series: 'cockpit_network_latency_seconds', scale: 1000 },
+  { metric: 'temperature', query: 'max by (instance) (node_hwmon_temp_celsius)', series: 'cockpit_temperature_celsius' },
+  { metric: 'diskIo', series: 'cockpit_disk_io_bytes_per_second', scale: 1e-6 },
+  { metric: 'powerDraw', series: 'cockpit_power_draw_watts', scale: 0.001 },
+  { metric: 'radiation', series: 'cockpit_radiation' },
+];
+
+// PROMETHEUS_MAPPINGS is a JSON array of PrometheusMapping; anything unparseable keeps the defaults.
+const readMappings = (value: string | undefined, fallback: PrometheusMapping[]): PrometheusMapping[] => {
+  if (!value) return fallback;
+  try {
+    const parsed = JSON.parse(value);
+    const valid = Array.isArray(parsed) && parsed.length > 0 && parsed.every(item =>
+      item && typeof item.metric === 'string' && (typeof item.query === 'string' || typeof item.series === 'string'));
+    return valid ? parsed : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+// Telemetry source selection. Set TELEMETRY_SOURCE / TELEMETRY_URL in .env.local to point at a real system.
+export const telemetryConfig: TelemetrySourceConfig = {
+  kind: readKind(process.env.TELEMETRY_SOURCE),
+  url: process.env.TELEMETRY_URL || '',
+  stations: readList(process.env.TELEMETRY_STATIONS, ['ORB-ALPHA', 'ORB-BRAVO', 'ORB-CHARLIE']),
+  intervalMs: readNumber(process.env.TELEMETRY_INTERVAL_MS, 2000),
+  reconnectDelayMs: readNumber(process.env.TELEMETRY_RECONNECT_MS, 2000),
+  reconnectMaxDelayMs: readNumber(process.env.TELEMETRY_RECONNECT_MAX_MS, 60000),
+  prometheus: {
+    mappings: readMappings(process.env.PROMETHEUS_MAPPINGS, DEFAULT_PROMETHEUS_MAPPINGS),
+    stationLabels: readList(process.env.PROMETHEUS_STATION_LABELS, ['station', 'instance']),
+    backfillMinutes: process.env.PROMETHEUS_BACKFILL_MINUTES === '0' ? 0 : readNumber(process.env.PROMETHEUS_BACKFILL_MINUTES, 15),
+  },
+};
+
+// SIM_SEED replays the same simulated feed on every load; unset keeps Math.random.
+const simSeed = Number(process.env.SIM_SEED);
+export const SIMULATOR_SEED: number | null = process.env.SIM_SEED && Number.isInteger(simSeed) ? simSeed : null;
+
+// Assigned to telemetry frames that arrive without a station identity.
+export const DEFAULT_STATION_ID = 'PRIMARY';
+
+// A station is considered stale once it has been silent for this many source intervals.
+export const STATION_STALE_INTERVALS = 3;
+
+// Local history kept in IndexedDB. Whichever limit is hit first wins.
+export const storageConfig: StorageRetentionPolicy = {
+  maxAgeMs: readNumber(process.env.STORAGE_RETENTION_HOURS, 24) * 60 * 60 * 1000,
+  maxMetrics: 10000,
+  maxLogs: 5000,
+};
+
+export const LIVE_METRIC_WINDOW = 20;
+// In-memory console ring buffer; also the number of stored entries rehydrated on load.
+export const LOG_BUFFER_SIZE = readNumber(process.env.LOG_BUFFER_SIZE, 5000);
+
+const LOG_LEVELS: LogLevel[] = ['info', 'success', 'warning', 'error'];
+const readLevel = (value: string | undefined, fallback: LogLevel): LogLevel =>
+  LOG_LEVELS.includes(value as LogLevel) ? (value as LogLevel) : fallback;
+
+// Log sinks beyond the in-app console. Set LOG_REMOTE_URL to ship entries to a collector.
+export const loggingConfig: LoggingConfig = {
+  consoleLevel: readLevel(process.env.LOG_CONSOLE_LEVEL, 'warning'),
+  remoteUrl: process.env.LOG_REMOTE_URL || '',
+  remoteLevel: readLevel(process.env.LOG_REMOTE_LEVEL, 'info'),
+  remoteBatchSize: 20,
+  remoteFlushMs: 5000,
+  remoteMaxQueue: 500,
+};
+export const CACHED_VIEW_POINTS = 150;
+
+// Session recording for later replay. Roughly 1 MB per 5,000 events.
+export const RECORDING_MAX_EVENTS = readNumber(process.env.RECORDING_MAX_EVENTS, 200000);
+export const REPLAY_SPEEDS = [0.5, 1, 2, 5, 10, 30];
+export const REPLAY_TICK_MS = 250;
+
+// Rows read from an imported CSV/JSON telemetry file; the rest are reported and ignored.
+export const IMPORT_MAX_ROWS = 100000;
+
+// History presets for the telemetry chart, read back from IndexedDB and thinned to CHART_MAX_POINTS.
+export const CHART_RANGES: Record<Exclude<ChartRange, 'live'>, number> = {
+  '5m': 5 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '24h': 24 * 60 * 60 * 1000,
+};
+export const CHART_MAX_POINTS = 500;
+
+// Every signal the cockpit knows about. The first four are SystemMetric fields; the rest travel in
+// SystemMetric.custom (the simulator generates them, Prometheus mappings can fill them). Adding an entry
+// adds its card, chart series, alert rules and AI prompt statistics.
+export const metricRegistry: MetricDefinition[] = [
+  { id: 'cpuLoad', label: 'CPU Load', shortLabel: 'CPU', description: 'Core Utilization', unit: '%', range: [0, 100], color: '#06b6d4', icon: 'cpu', thresholds: { warning: 75, critical: 90 }, hysteresis: 5, alertAfterMs: 30000 },
+  { id: 'memoryUsage', label: 'Memory', shortLabel: 'MEM', description: 'Allocated', unit: '%', range: [0, 100], color: '#8b5cf6', icon: 'memory', thresholds: { warning: 85, critical: 95 }, hysteresis: 5, alertAfterMs: 20000 },
+  { id: 'temperature', label: 'Thermal', shortLabel: 'TEMP', description: 'Core Temp', unit: '°C', range: [20, 100], color: '#f59e0b', icon: 'thermometer', thresholds: { warning: 70, critical: 80 }, hysteresis: 3, alertAfterMs: 10000 },
+  { id: 'networkLatency', label: 'Uplink Latency', shortLabel: 'LAT', description: 'Round Trip', unit: 'ms', range: [0, 300], color: '#10b981', icon: 'wifi', thresholds: { warning: 200, critical: 300 }, hysteresis: 20, alertAfterMs: 10000 },
+  { id: 'diskIo', label: 'Disk I/O', shortLabel: 'DISK', description: 'Storage Throughput', unit: 'MB/s', range: [0, 500], color: '#38bdf8', icon: 'hard-drive', thresholds: { warning: 350, critical: 450 }, hysteresis: 25, alertAfterMs: 20000 },
+  { id: 'powerDraw', label: 'Power Draw', shortLabel: 'PWR', description: 'Bus Load', unit: 'kW', range: [0, 50], color: '#facc15', icon: 'plug', thresholds: { warning: 40, critical: 46 }, hysteresis: 2, alertAfterMs: 15000 },
+  { id: 'radiation', label: 'Radiation', shortLabel: 'RAD', description: 'Hull Dosimeter', unit: 'mSv/h', range: [0, 10], color: '#f472b6', icon: 'radiation', thresholds: { warning: 5, critical: 8 }, hysteresis: 0.5, alertAfterMs: 10000 },
+];
+
+export const ALERT_SILENCE_MS = 15 * 60 * 1000;
+export const ALERT_HISTORY_LIMIT = 50;
+
+// Outbound webhooks for alerts and diagnostics. Deliveries wait while OFFLINE and retry with backoff on failure.
+// NOTIFY_CHANNELS holds webhook URLs and credentials, so only the cockpit API server reads it.
+export const notificationConfig: NotificationConfig = {
+  baseUrl: process.env.AI_PROXY_URL || '/api',
+  // Longer than the server's own webhook timeout, so its answer arrives first
+  timeoutMs: 15000,
+  retryDelayMs: readNumber(process.env.NOTIFY_RETRY_MS, 5000),
+  retryMaxDelayMs: 5 * 60 * 1000,
+  maxAttempts: readNumber(process.env.NOTIFY_MAX_ATTEMPTS, 8),
+  queueLimit: 200,
+};
+
+export const authConfig: AuthConfig = {
+  baseUrl: process.env.AI_PROXY_URL || '/api',
+  auditLimit: readNumber(process.env.AUDIT_LIMIT, 1000),
+};
+
+// Events kept per incident (the opening event always stays) and resolved incidents kept in the list.
+export const INCIDENT_TIMELINE_LIMIT = 300;
+export const INCIDENT_HISTORY_LIMIT = 25;
+
+// Per-provider defaults; AI_MODEL / AI_TIMEOUT_MS / AI_MAX_RETRIES override the active provider.
+const AI_PROVIDER_DEFAULTS: Record<AiProviderKind, Omit<AiProviderConfig, 'kind' | 'diagnosticsWindow'>> = {
+  // Keys and upstream URLs stay on the cockpit API server; the browser only knows the proxy URL.
+  gemini: { model: 'gemini-3-flash-preview', baseUrl: process.env.AI_PROXY_URL || '/api', timeoutMs: 20000, maxRetries: 2 },
+  openai: { model: 'llama3.1', baseUrl: process.env.AI_PROXY_URL || '/api', timeoutMs: 60000, maxRetries: 1 },
+  mock: { model: 'deterministic-v1', baseUrl: '', timeoutMs: 5000, maxRetries: 0 },
+};
+
+const aiKind: AiProviderKind = (['gemini', 'mock', 'openai'] as const).find(kind => kind === process.env.AI_PROVIDER) ?? 'gemini';
+
+export const aiConfig: AiProviderConfig = {
+  kind: aiKind,
+  ...AI_PROVIDER_DEFAULTS[aiKind],
+  model: process.env.AI_MODEL || AI_PROVIDER_DEFAULTS[aiKind].model,
+  timeoutMs: readNumber(process.env.AI_TIMEOUT_MS, AI_PROVIDER_DEFAULTS[aiKind].timeoutMs),
+  maxRetries: process.env.AI_MAX_RETRIES ? Math.max(0, Number(process.env.AI_MAX_RETRIES) || 0) : AI_PROVIDER_DEFAULTS[aiKind].maxRetries,
+  diagnosticsWindow: readNumber(process.env.AI_DIAGNOSTICS_WINDOW, 60),
+};
+
+// Automatic diagnostics. AUTO_DIAGNOSE=on starts the cockpit with the scheduler armed.
+export const AUTO_DIAGNOSE_DEFAULT = process.env.AUTO_DIAGNOSE === 'on';
+
+export const autoDiagnosticsConfig: AutoDiagnosticsConfig = {
+  intervalMs: readNumber(process.env.AUTO_DIAGNOSE_INTERVAL_MS, 5 * 60 * 1000),
+  debounceMs: readNumber(process.env.AUTO_DIAGNOSE_DEBOUNCE_MS, 60 * 1000),
+  budget: readNumber(process.env.AUTO_DIAGNOSE_BUDGET, 20),
+  budgetWindowMs: 60 * 60 * 1000,
+  anomalyMetrics: ['cpuLoad', 'networkLatency'],
+  zScoreThreshold: readNumber(process.env.AUTO_DIAGNOSE_ZSCORE, 3),
+  baselineSamples: 10,
+  timelineLimit: 25,
+};
+
+// Local trend, health and forecast analytics. FORECAST_METHOD=ewma switches from a least-squares line to Holt smoothing.
+export const analyticsConfig: AnalyticsConfig = {
+  window: readNumber(process.env.ANALYTICS_WINDOW, 150),
+  minSamples: 10,
+  method: process.env.FORECAST_METHOD === 'ewma' ? 'ewma' : 'linear',
+  horizonMs: readNumber(process.env.FORECAST_HORIZON_MS, 5 * 60 * 1000),
+  forecastPoints: 12,
+  ewmaAlpha: 0.3,
+  ewmaBeta: 0.1,
+  bandSigma: 2,
+};
+
+// Built-in drills for the fault injection panel. Imported scenario files use the same shape.
+export const faultScenarios: FaultScenario[] = [
+  {
+    name: 'Degraded uplink',
+    description: 'Latency climbs, then frames start dropping before the link recovers.',
+    seed: 1,
+    durationMs: 90000,
+    steps: [
+      { atMs: 0, set: { latencyMs: 150 }, note: 'Latency rises' },
+      { atMs: 20000, set: { latencyMs: 400, packetLoss: 0.2 }, note: 'Congestion with 20% loss' },
+      { atMs: 50000, set: { latencyMs: 900, packetLoss: 0.5 }, note: 'Severe congestion' },
+      { atMs: 75000, set: { latencyMs: 0, packetLoss: 0 }, note: 'Recovery' },
+    ],
+  },
+  {
+    name: 'Flapping link',
+    description: 'The link drops every 8 s, then stays down long enough to exhaust a few retries.',
+    seed: 2,
+    durationMs: 120000,
+    steps: [
+      { atMs: 0, set: { flapMs: 8000 }, note: 'Link starts flapping' },
+      { atMs: 40000, set: { flapMs: 0, linkDown: true }, note: 'Hard drop' },
+      { atMs: 80000, set: { linkDown: false }, note: 'Link restored' },
+    ],
+  },
+  {
+    name: 'Partial telemetry gap',
+    description: 'One station goes silent while the rest keep reporting.',
+    seed: 3,
+    durationMs: 60000,
+    steps: [
+      { atMs: 0, set: { gapStations: ['ORB-BRAVO'] }, note: 'ORB-BRAVO silent' },
+      { atMs: 30000, set: { gapStations: ['ORB-BRAVO', 'ORB-CHARLIE'], packetLoss: 0.3 }, note: 'Gap widens' },
+      { atMs: 50000, set: { gapStations: [], packetLoss: 0 }, note: 'Feeds resume' },
+    ],
+  },
+  {
+    name: 'AI Core brownout',
+    description: 'Diagnostics slow down, then fail intermittently, then time out.',
+    seed: 4,
+    durationMs: 120000,
+    steps: [
+      { atMs: 0, set: { aiDelayMs: 8000 }, note: 'Slow responses' },
+      { atMs: 40000, set: { aiDelayMs: 2000, aiFailureRate: 0.5 }, note: 'Half of calls fail' },
+      { atMs: 80000, set: { aiDelayMs: 120000, aiFailureRate: 0 }, note: 'Calls hang past the timeout' },
+    ],
+  },
+];
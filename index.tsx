@@ -1,6 +1,12 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { registerServiceWorker } from './services/offlineSync';
+import { installDefaultSinks } from './services/logSinks';
+import { createLogger, errorContext } from './services/logger';
+import { loggingConfig } from './config';
+
+installDefaultSinks(loggingConfig);
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -12,4 +18,8 @@ root.render(
   <React.StrictMode>
     <App />
   </React.StrictMode>
-);
\ No newline at end of file
+);
+
+registerServiceWorker().catch((error) => {
+  createLogger('SYS').error('Service worker registration failed.', errorContext(error));
+});
@@ -0,0 +1,187 @@
+/* Cockpit service worker: offline app shell + background sync for queued cache refreshes. */
+
+// Replaced at build time (vite.config.ts). Each build gets its own shell cache, and activate drops the previous
+// one along with the hashed assets it held.
+const BUILD_VERSION = '__BUILD_VERSION__';
+const SHELL_CACHE = `cockpit-shell-${BUILD_VERSION}`;
+// CDN modules only. v2: earlier workers cached every same-origin GET here, including live telemetry; activate drops that cache.
+const RUNTIME_CACHE = 'cockpit-runtime-v2';
+const MANIFEST_URL = '/precache-manifest.json';
+const SYNC_TAG = 'cockpit-cache-refresh';
+
+// Must match services/offlineSync.ts
+const SYNC_DB_NAME = 'cockpit-sync';
+const SYNC_DB_VERSION = 1;
+const QUEUE_STORE = 'refresh-queue';
+const META_STORE = 'meta';
+
+// CDN origins the import map and stylesheet pull from at runtime.
+const RUNTIME_ORIGINS = ['https://esm.sh', 'https://cdn.tailwindcss.com', 'https://fonts.googleapis.com', 'https://fonts.gstatic.com'];
+
+// --- IndexedDB helpers (shared schema with the page) ---
+
+const openSyncDb = () => new Promise((resolve, reject) => {
+  const request = indexedDB.open(SYNC_DB_NAME, SYNC_DB_VERSION);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    if (!db.objectStoreNames.contains(QUEUE_STORE)) db.createObjectStore(QUEUE_STORE, { keyPath: 'id', autoIncrement: true });
+    if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE);
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const withStore = async (storeName, mode, fn) => {
+  const db = await openSyncDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const result = fn(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(result && 'result' in result ? result.result : undefined);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+// --- Precache ---
+
+const fetchManifest = async () => {
+  try {
+    const response = await fetch(MANIFEST_URL, { cache: 'no-store' });
+    if (!response.ok) return { version: 'dev', files: [] };
+    return await response.json();
+  } catch {
+    return { version: 'dev', files: [] };
+  }
+};
+
+const precacheShell = async () => {
+  const manifest = await fetchManifest();
+  const urls = ['/', '/index.html', ...manifest.files.map(file => `/${file}`)];
+  const cache = await caches.open(SHELL_CACHE);
+  await cache.addAll(urls);
+  return { version: manifest.version, files: urls.length };
+};
+
+const notifyClients = async (message) => {
+  const clients = await self.clients.matchAll({ includeUncontrolled: true, type: 'window' });
+  clients.forEach(client => client.postMessage(message));
+};
+
+// Replays every queued refresh in one pass. Throwing leaves the queue intact so the browser retries the sync.
+const replayQueue = async () => {
+  const entries = await withStore(QUEUE_STORE, 'readonly', store => store.getAll());
+  if (!entries || entries.length === 0) return { replayed: 0 };
+
+  const result = await precacheShell();
+  const syncedAt = Date.now();
+  await withStore(QUEUE_STORE, 'readwrite', store => store.clear());
+  await withStore(META_STORE, 'readwrite', store => store.put(syncedAt, 'lastSync'));
+  await notifyClients({ type: 'SYNC_COMPLETE', replayed: entries.length, syncedAt, files: result.files });
+  return { replayed: entries.length };
+};
+
+// --- Lifecycle ---
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(precacheShell().then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const keys = await caches.keys();
+    await Promise.all(keys.filter(key => key !== SHELL_CACHE && key !== RUNTIME_CACHE).map(key => caches.delete(key)));
+    await self.clients.claim();
+  })());
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  // API responses opened in a tab, e.g. /api/health, pass straight through.
+  if (url.origin === self.location.origin && url.pathname.startsWith('/api/')) return;
+
+  // App shell: network first so deploys land, cached shell when the uplink is gone.
+  // Only a successful HTML page replaces the cached shell; a 404 or 500 page must not become the offline app.
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request)
+        .then(response => {
+          if (response.ok && (response.headers.get('Content-Type') || '').includes('text/html')) {
+            const copy = response.clone();
+            caches.open(SHELL_CACHE).then(cache => cache.put('/index.html', copy));
+          }
+          return response;
+        })
+        .catch(async () => (await caches.match('/index.html', { cacheName: SHELL_CACHE })) || Response.error())
+    );
+    return;
+  }
+
+  if (url.origin === self.location.origin) {
+    if (url.pathname === MANIFEST_URL) return;
+
+    // Hashed build output never changes under the same name: cache first, in this build's shell cache.
+    if (url.pathname.startsWith('/assets/')) {
+      event.respondWith(
+        caches.match(request).then(cached => cached || fetch(request).then(response => {
+          if (response.ok) {
+            const copy = response.clone();
+            caches.open(SHELL_CACHE).then(cache => cache.put(request, copy));
+          }
+          return response;
+        }))
+      );
+      return;
+    }
+
+    // Anything else, e.g. a polled telemetry URL or a /metrics scrape target, must stay live.
+    // Only the precached shell files are answered from cache, so they still load offline.
+    event.respondWith(
+      caches.match(request, { cacheName: SHELL_CACHE }).then(cached => cached || fetch(request))
+    );
+    return;
+  }
+
+  // CDN modules: stale-while-revalidate
+  if (RUNTIME_ORIGINS.includes(url.origin)) {
+    event.respondWith(
+      caches.open(RUNTIME_CACHE).then(async cache => {
+        const cached = await cache.match(request);
+        const network = fetch(request).then(response => {
+          if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+          return response;
+        }).catch(() => cached || Response.error());
+        return cached || network;
+      })
+    );
+  }
+});
+
+self.addEventListener('sync', (event) => {
+  if (event.tag === SYNC_TAG) {
+    event.waitUntil(replayQueue());
+  }
+});
+
+self.addEventListener('message', (event) => {
+  const { data, ports } = event;
+  if (!data || typeof data !== 'object') return;
+
+  const reply = (payload) => ports[0] && ports[0].postMessage(payload);
+
+  if (data.type === 'REFRESH_CACHE') {
+    event.waitUntil(
+      precacheShell()
+        .then(result => reply({ ok: true, ...result }))
+        .catch(error => reply({ ok: false, error: String(error) }))
+    );
+  } else if (data.type === 'REPLAY_QUEUE') {
+    event.waitUntil(
+      replayQueue()
+        .then(result => reply({ ok: true, ...result }))
+        .catch(error => reply({ ok: false, error: String(error) }))
+    );
+  }
+});
@@ -0,0 +1,67 @@
+// @vitest-environment node
+import { describe, expect, it, vi } from 'vitest';
+import { createAuditLog } from './auditLog';
+
+const ANA = { username: 'ana', role: 'admin' as const };
+const WALL = { username: 'wall', role: 'viewer' as const };
+
+describe('createAuditLog', () => {
+  it('records allowed and denied checks with who, what and when', () => {
+    const audit = createAuditLog({ limit: 10 });
+    audit.record(ANA, 'diagnostics.run', 'POST /api/diagnostics', 'allowed', 1000);
+    audit.record(WALL, 'copilot.ask', 'POST /api/copilot', 'denied', 2000);
+
+    expect(audit.entries()).toMatchObject([
+      { username: 'ana', role: 'admin', action: 'diagnostics.run', detail: 'POST /api/diagnostics', outcome: 'allowed', at: 1000 },
+      { username: 'wall', role: 'viewer', action: 'copilot.ask', detail: 'POST /api/copilot', outcome: 'denied', at: 2000 },
+    ]);
+    expect(new Set(audit.entries().map(entry => entry.id)).size).toBe(2);
+  });
+
+  it('keeps only the newest entries in memory', () => {
+    const audit = createAuditLog({ limit: 2 });
+    ['first', 'second', 'third'].forEach((detail, index) => audit.record(ANA, 'audit.export', detail, 'allowed', index));
+    expect(audit.entries().map(entry => entry.detail)).toEqual(['second', 'third']);
+    expect(audit.entries(1).map(entry => entry.detail)).toEqual(['third']);
+  });
+
+  it('appends each entry to the file as one JSON line, in order', async () => {
+    const lines: string[] = [];
+    const append = vi.fn(async (_path: string, data: string) => { lines.push(data); });
+    const audit = createAuditLog({ limit: 10, filePath: '/var/log/cockpit-audit.jsonl' }, append);
+
+    const first = audit.record(ANA, 'auth.login', 'Signed in', 'allowed', 1);
+    const second = audit.record(WALL, 'notifications.test', 'POST /api/notify', 'denied', 2);
+    await audit.flush();
+
+    expect(append).toHaveBeenCalledTimes(2);
+    expect(append.mock.calls[0][0]).toBe('/var/log/cockpit-audit.jsonl');
+    expect(lines.map(line => JSON.parse(line))).toEqual([first, second]);
+    expect(lines.every(line => line.endsWith('\n'))).toBe(true);
+  });
+
+  it('keeps recording when the file cannot be written', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const append = vi.fn()
+      .mockRejectedValueOnce(new Error('EACCES'))
+      .mockResolvedValue(undefined);
+    const audit = createAuditLog({ limit: 10, filePath: 'audit.jsonl' }, append);
+
+    audit.record(ANA, 'faults.inject', 'first', 'allowed');
+    audit.record(ANA, 'faults.inject', 'second', 'allowed');
+    await audit.flush();
+
+    expect(append).toHaveBeenCalledTimes(2);
+    expect(error).toHaveBeenCalledOnce();
+    expect(audit.entries()).toHaveLength(2);
+    error.mockRestore();
+  });
+
+  it('writes nothing without a file path', async () => {
+    const append = vi.fn();
+    const audit = createAuditLog({ limit: 10 }, append);
+    audit.record(ANA, 'auth.logout', 'Signed out', 'allowed');
+    await audit.flush();
+    expect(append).not.toHaveBeenCalled();
+  });
+});
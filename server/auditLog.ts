@@ -0,0 +1,43 @@
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import { AuditEntry, Session } from '../types';
+
+export interface AuditLogConfig {
+  // Newest entries kept in memory for GET /api/audit; the oldest are dropped beyond this
+  limit: number;
+  // JSON Lines file every entry is appended to. Unset, the trail lasts until the server restarts.
+  filePath?: string;
+}
+
+// The authoritative audit trail: every permission check the API makes, allowed or denied, and every sign-in attempt.
+export const createAuditLog = (config: AuditLogConfig, appendImpl: (path: string, data: string) => Promise<void> = (path, data) => fs.appendFile(path, data)) => {
+  let entries: AuditEntry[] = [];
+  // Appends run one after another so the file keeps the order entries were recorded in.
+  let writing: Promise<void> = Promise.resolve();
+
+  return {
+    record: (
+      session: Pick<Session, 'username' | 'role'>,
+      action: AuditEntry['action'],
+      detail: string,
+      outcome: AuditEntry['outcome'],
+      now: number = Date.now()
+    ): AuditEntry => {
+      const entry: AuditEntry = { id: crypto.randomUUID(), at: now, username: session.username, role: session.role, action, detail, outcome };
+      entries = [...entries, entry].slice(-config.limit);
+      if (config.filePath) {
+        const path = config.filePath;
+        writing = writing
+          .then(() => appendImpl(path, `${JSON.stringify(entry)}\n`))
+          .catch(error => console.error(`Audit entry could not be written to ${path}:`, error));
+      }
+      return entry;
+    },
+
+    // Oldest first, like the file
+    entries: (count: number = config.limit) => entries.slice(-count),
+
+    // Resolves once every entry recorded so far has been written
+    flush: () => writing,
+  };
+};
@@ -0,0 +1,75 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+import { UserAccount } from '../types';
+import { AuthError } from '../services/accessControl';
+import { createAuthenticator, hashPassword, parseUsers, verifyPassword } from './auth';
+
+const HOUR = 3600000;
+
+const makeAuthenticator = async (enabled = true) => {
+  const users: UserAccount[] = [
+    { username: 'ana', role: 'admin', passwordHash: await hashPassword('ana-pass') },
+    { username: 'wall', role: 'viewer', passwordHash: await hashPassword('wall-pass') },
+  ];
+  return createAuthenticator({ enabled, users, sessionTtlMs: HOUR });
+};
+
+describe('hashPassword', () => {
+  it('salts every hash and verifies only the original password', async () => {
+    const first = await hashPassword('secret');
+    const second = await hashPassword('secret');
+    expect(first).toMatch(/^scrypt\$[0-9a-f]{32}\$[0-9a-f]{64}$/);
+    expect(first).not.toBe(second);
+    await expect(verifyPassword('secret', first)).resolves.toBe(true);
+    await expect(verifyPassword('Secret', first)).resolves.toBe(false);
+    await expect(verifyPassword('secret', 'not-a-hash')).resolves.toBe(false);
+  });
+});
+
+describe('parseUsers', () => {
+  it('rejects the whole list when any entry is malformed', async () => {
+    const passwordHash = await hashPassword('x');
+    expect(parseUsers(JSON.stringify([{ username: 'ops', role: 'operator', passwordHash }]))).toHaveLength(1);
+    expect(parseUsers(JSON.stringify([{ username: 'ops', role: 'operator', passwordHash }, { username: 'old', role: 'admin', passwordSha256: 'ab'.repeat(32) }]))).toEqual([]);
+    expect(parseUsers('not json')).toEqual([]);
+  });
+});
+
+describe('createAuthenticator', () => {
+  it('issues a token that resolves to the account until it expires', async () => {
+    const auth = await makeAuthenticator();
+    const session = await auth.signIn(' ana ', 'ana-pass', 1000);
+    expect(session).toMatchObject({ username: 'ana', role: 'admin', signedInAt: 1000 });
+    expect(auth.resolve(session.token, 1000 + HOUR - 1)).toEqual(session);
+    expect(auth.resolve(session.token, 1000 + HOUR)).toBeNull();
+  });
+
+  it('answers an unknown user and a wrong password alike', async () => {
+    const auth = await makeAuthenticator();
+    await expect(auth.signIn('ana', 'wrong')).rejects.toThrow(new AuthError('Unknown user or wrong password'));
+    await expect(auth.signIn('nobody', 'ana-pass')).rejects.toThrow(new AuthError('Unknown user or wrong password'));
+  });
+
+  it('forgets a token on sign-out', async () => {
+    const auth = await makeAuthenticator();
+    const session = await auth.signIn('ana', 'ana-pass');
+    auth.signOut(session.token);
+    expect(auth.resolve(session.token)).toBeNull();
+  });
+
+  it('checks the role behind the token', async () => {
+    const auth = await makeAuthenticator();
+    const admin = await auth.signIn('ana', 'ana-pass');
+    const viewer = await auth.signIn('wall', 'wall-pass');
+    expect(auth.check(admin.token, 'copilot.ask')).toEqual({ allowed: true });
+    expect(auth.check(viewer.token, 'diagnostics.run')).toMatchObject({ allowed: false, status: 403 });
+    expect(auth.check(undefined, 'diagnostics.run')).toMatchObject({ allowed: false, status: 401 });
+    expect(auth.check('forged', 'diagnostics.run')).toMatchObject({ allowed: false, status: 401 });
+  });
+
+  it('lets everything through while sign-in is off', async () => {
+    const auth = await makeAuthenticator(false);
+    expect(auth.check(undefined, 'diagnostics.run')).toEqual({ allowed: true });
+    await expect(auth.signIn('ana', 'ana-pass')).rejects.toThrow(AuthError);
+  });
+});
@@ -0,0 +1,101 @@
+import crypto from 'crypto';
+import { promisify } from 'util';
+import { Permission, Role, Session, UserAccount } from '../types';
+import { AuthError, ROLES, hasPermission } from '../services/accessControl';
+
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+const KEY_BYTES = 32;
+const SALT_BYTES = 16;
+// scrypt$<salt hex>$<derived key hex>, with node's default cost (N=16384, r=8, p=1)
+const HASH_PATTERN = /^scrypt\$([0-9a-f]{32})\$([0-9a-f]{64})$/i;
+// Compared against when the username is unknown, so a miss costs as long as a wrong password.
+const DUMMY_HASH = `scrypt$${'0'.repeat(SALT_BYTES * 2)}$${'0'.repeat(KEY_BYTES * 2)}`;
+
+export const hashPassword = async (password: string, salt: Buffer = crypto.randomBytes(SALT_BYTES)) =>
+  `scrypt$${salt.toString('hex')}$${(await scrypt(password, salt, KEY_BYTES)).toString('hex')}`;
+
+export const verifyPassword = async (password: string, stored: string) => {
+  const match = HASH_PATTERN.exec(stored);
+  if (!match) return false;
+  const expected = Buffer.from(match[2], 'hex');
+  const actual = await scrypt(password, Buffer.from(match[1], 'hex'), KEY_BYTES);
+  return crypto.timingSafeEqual(actual, expected);
+};
+
+// AUTH_USERS is a JSON array of UserAccount. An unparseable list leaves no accounts, so nobody gets in rather than everybody.
+export const parseUsers = (value: string | undefined): UserAccount[] => {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    const valid = Array.isArray(parsed) && parsed.every(item =>
+      item && typeof item.username === 'string' && ROLES.includes(item.role as Role) && HASH_PATTERN.test(item.passwordHash));
+    return valid ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+export interface AuthenticatorConfig {
+  // Off when AUTH_USERS is unset; every request then acts as the local admin
+  enabled: boolean;
+  users: UserAccount[];
+  sessionTtlMs: number;
+}
+
+export interface AccessDecision {
+  allowed: boolean;
+  // HTTP status and reason when the request is refused: 401 without a live session, 403 when the role falls short.
+  status?: 401 | 403;
+  message?: string;
+}
+
+// Sessions live in memory and end when the server restarts.
+export const createAuthenticator = (config: AuthenticatorConfig) => {
+  const sessions = new Map<string, Session & { expiresAt: number }>();
+
+  const resolve = (token: string | undefined, now: number = Date.now()): Session | null => {
+    const stored = token ? sessions.get(token) : undefined;
+    if (!stored) return null;
+    if (stored.expiresAt <= now) {
+      sessions.delete(token!);
+      return null;
+    }
+    const { expiresAt: _expiresAt, ...session } = stored;
+    return session;
+  };
+
+  return {
+    enabled: config.enabled,
+    configured: config.users.length > 0,
+
+    // The same message for an unknown user and a wrong password, so neither can be probed.
+    signIn: async (username: string, password: string, now: number = Date.now()): Promise<Session> => {
+      const account = config.users.find(user => user.username === username.trim());
+      const valid = await verifyPassword(password, account?.passwordHash ?? DUMMY_HASH);
+      if (!config.enabled || !account || !valid) throw new AuthError('Unknown user or wrong password');
+
+      for (const [token, stored] of sessions) {
+        if (stored.expiresAt <= now) sessions.delete(token);
+      }
+      const token = crypto.randomBytes(32).toString('hex');
+      const session: Session = { username: account.username, role: account.role, signedInAt: now, token };
+      sessions.set(token, { ...session, expiresAt: now + config.sessionTtlMs });
+      return session;
+    },
+
+    signOut: (token: string | undefined) => {
+      if (token) sessions.delete(token);
+    },
+
+    resolve,
+
+    check: (token: string | undefined, permission: Permission, now: number = Date.now()): AccessDecision => {
+      if (!config.enabled) return { allowed: true };
+      const session = resolve(token, now);
+      if (!session) return { allowed: false, status: 401, message: 'Sign in to use this' };
+      if (!hasPermission(session.role, permission)) return { allowed: false, status: 403, message: `The ${session.role} role may not do this` };
+      return { allowed: true };
+    },
+  };
+};
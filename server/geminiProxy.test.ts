@@ -0,0 +1,89 @@
+// @vitest-environment node
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { AiAnalysisResult, SystemMetric } from '../types';
+import { AiResponseError } from '../services/aiPrompts';
+import { createGeminiProxy } from './geminiProxy';
+
+const generateContent = vi.hoisted(() => vi.fn());
+
+vi.mock('@google/genai', () => ({
+  GoogleGenAI: vi.fn(function GoogleGenAI() {
+    return { models: { generateContent } };
+  }),
+  Type: { OBJECT: 'OBJECT', STRING: 'STRING', ARRAY: 'ARRAY', NUMBER: 'NUMBER' },
+}));
+
+const METRICS: SystemMetric[] = [
+  { stationId: 'ALPHA', timestamp: 1_700_000_000_000, cpuLoad: 91, memoryUsage: 64, networkLatency: 22, temperature: 71 },
+];
+
+const REPORT: AiAnalysisResult = {
+  status: 'warning',
+  summary: 'CPU saturation on ALPHA',
+  recommendation: 'Shed background jobs',
+  findings: [{ metric: 'cpuLoad', assessment: 'elevated', observation: 'CPU held above 90%' }],
+  rootCause: 'Runaway batch job',
+  confidence: 0.8,
+  actions: [{ action: 'Throttle the batch queue', urgency: 'high' }],
+};
+
+const proxy = (overrides: Partial<Parameters<typeof createGeminiProxy>[0]> = {}) =>
+  createGeminiProxy({ apiKey: 'test-key', model: 'gemini-test', timeoutMs: 1000, maxRetries: 0, ...overrides });
+
+describe('createGeminiProxy().analyze', () => {
+  beforeEach(() => generateContent.mockReset());
+
+  it('returns the parsed report and sends the prompt to the configured model', async () => {
+    generateContent.mockResolvedValue({ text: JSON.stringify(REPORT) });
+
+    await expect(proxy().analyze(METRICS)).resolves.toEqual(REPORT);
+    const request = generateContent.mock.calls[0][0];
+    expect(request.model).toBe('gemini-test');
+    expect(request.contents).toContain('ALPHA');
+    expect(request.config.responseMimeType).toBe('application/json');
+  });
+
+  it('rejects malformed JSON and keeps the raw text', async () => {
+    generateContent.mockResolvedValue({ text: '{"status": "warning",' });
+
+    const error = await proxy().analyze(METRICS).catch((caught: unknown) => caught);
+    expect(error).toBeInstanceOf(AiResponseError);
+    expect(error).toMatchObject({ message: 'AI Core returned malformed JSON', issues: ['response is not valid JSON'], raw: '{"status": "warning",' });
+  });
+
+  it('lists every schema violation', async () => {
+    generateContent.mockResolvedValue({ text: JSON.stringify({ ...REPORT, status: 'fine', confidence: 4, findings: [{ metric: 'humidity', assessment: 'nominal', observation: '' }] }) });
+
+    const error = await proxy().analyze(METRICS).catch((caught: unknown) => caught) as AiResponseError;
+    expect(error).toBeInstanceOf(AiResponseError);
+    expect(error.issues).toEqual([
+      'status must be one of optimal, warning, critical',
+      'confidence must be a number between 0 and 1',
+      'findings[0].metric is not a known metric',
+    ]);
+  });
+
+  it('rejects an empty answer', async () => {
+    generateContent.mockResolvedValue({ text: '' });
+    await expect(proxy().analyze(METRICS)).rejects.toThrow('No response from AI Core');
+  });
+
+  it('retries a failing model call before giving up', async () => {
+    vi.useFakeTimers();
+    try {
+      generateContent.mockRejectedValueOnce(new Error('503 UNAVAILABLE')).mockResolvedValueOnce({ text: JSON.stringify(REPORT) });
+      const result = proxy({ maxRetries: 1 }).analyze(METRICS);
+      await vi.advanceTimersByTimeAsync(500);
+
+      await expect(result).resolves.toEqual(REPORT);
+      expect(generateContent).toHaveBeenCalledTimes(2);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('refuses to run without an API key', async () => {
+    await expect(proxy({ apiKey: '' }).analyze(METRICS)).rejects.toThrow('GEMINI_API_KEY is missing');
+    expect(generateContent).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,96 @@
+import { GoogleGenAI, Type } from "@google/genai";
+import { AiAnalysisResult, ChatMessage, CopilotContext, SystemMetric } from '../types';
+import { buildCopilotInstruction, buildDiagnosticsPrompt, parseAnalysisResult, toConversationTurns } from '../services/aiPrompts';
+import { withRetries, withTimeout } from '../services/aiRetry';
+import { METRIC_IDS } from '../services/metricRegistry';
+
+export interface GeminiProxyConfig {
+  apiKey: string;
+  model: string;
+  timeoutMs: number;
+  maxRetries: number;
+}
+
+// Server-side Gemini access. The API key lives only in this process.
+export const createGeminiProxy = (config: GeminiProxyConfig) => {
+  const getAiClient = () => {
+    if (!config.apiKey) {
+      throw new Error("GEMINI_API_KEY is missing from the server environment.");
+    }
+    return new GoogleGenAI({ apiKey: config.apiKey });
+  };
+
+  return {
+    analyze: async (metrics: SystemMetric[]): Promise<AiAnalysisResult> => {
+      const ai = getAiClient();
+
+      const response = await withRetries(config, (abortSignal) => ai.models.generateContent({
+        model: config.model,
+        // The client already trimmed the frames to its configured window.
+        contents: buildDiagnosticsPrompt(metrics, metrics.length),
+        config: {
+          abortSignal,
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.OBJECT,
+            properties: {
+              status: { type: Type.STRING, enum: ["optimal", "warning", "critical"] },
+              summary: { type: Type.STRING },
+              recommendation: { type: Type.STRING },
+              findings: {
+                type: Type.ARRAY,
+                items: {
+                  type: Type.OBJECT,
+                  properties: {
+                    metric: { type: Type.STRING, enum: METRIC_IDS },
+                    assessment: { type: Type.STRING, enum: ["nominal", "elevated", "critical"] },
+                    observation: { type: Type.STRING }
+                  },
+                  required: ["metric", "assessment", "observation"]
+                }
+              },
+              rootCause: { type: Type.STRING },
+              confidence: { type: Type.NUMBER },
+              actions: {
+                type: Type.ARRAY,
+                items: {
+                  type: Type.OBJECT,
+                  properties: {
+                    action: { type: Type.STRING },
+                    urgency: { type: Type.STRING, enum: ["low", "medium", "high", "immediate"] }
+                  },
+                  required: ["action", "urgency"]
+                }
+              }
+            },
+            required: ["status", "summary", "recommendation", "findings", "rootCause", "confidence", "actions"]
+          }
+        }
+      }));
+
+      return parseAnalysisResult(response.text);
+    },
+
+    streamChat: async function* (history: ChatMessage[], question: string, context: CopilotContext): AsyncGenerator<string> {
+      const ai = getAiClient();
+      const contents = [
+        ...toConversationTurns(history).map(message => ({ role: message.role, parts: [{ text: message.text }] })),
+        { role: 'user', parts: [{ text: question }] }
+      ];
+
+      // Only opening the stream is bounded by the timeout; a long answer may take longer to finish.
+      const stream = await withTimeout(config.timeoutMs, (abortSignal) => ai.models.generateContentStream({
+        model: config.model,
+        contents,
+        config: {
+          abortSignal,
+          systemInstruction: buildCopilotInstruction(context)
+        }
+      }));
+
+      for await (const chunk of stream) {
+        if (chunk.text) yield chunk.text;
+      }
+    }
+  };
+};
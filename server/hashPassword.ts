@@ -0,0 +1,13 @@
+import { hashPassword } from './auth';
+
+// Prints the passwordHash for an AUTH_USERS entry:
+//   npm run hash-password -- 'correct horse battery staple'
+// Each run salts afresh, so the same password never hashes the same way twice.
+
+const password = process.argv[2];
+if (!password) {
+  console.error('Usage: npm run hash-password -- <password>');
+  process.exit(1);
+}
+
+hashPassword(password).then(hash => console.log(hash));
@@ -0,0 +1,323 @@
+import http from 'http';
+import { ChatMessage, CopilotContext, LogEntry, Permission, SystemMetric } from '../types';
+import { createAuditLog } from './auditLog';
+import { createAuthenticator, parseUsers } from './auth';
+import { createGeminiProxy } from './geminiProxy';
+import { createOpenAiProxy } from './openAiProxy';
+import { createClientIdResolver, createRateLimiter } from './rateLimiter';
+import { NotifyRelayError, createNotifyRelay, readNotification } from './notifyRelay';
+import { parseChannels } from '../services/notifications';
+import { AuthError, GUEST_SESSION, LOCAL_SESSION } from '../services/accessControl';
+import { AiResponseError } from '../services/aiPrompts';
+
+// Loads GEMINI_API_KEY and friends from the same file Vite reads. Real env vars win.
+try {
+  process.loadEnvFile('.env.local');
+} catch {
+  // No .env.local: rely on the process environment
+}
+
+const PORT = Number(process.env.PORT) || 3001;
+const MAX_BODY_BYTES = 256 * 1024;
+const MAX_METRICS = 500;
+
+// AI_PROVIDER=openai sends both routes to an OpenAI-compatible server instead of Gemini.
+// Either way the upstream URL and key are read here and never bundled.
+const USE_OPENAI = process.env.AI_PROVIDER === 'openai';
+
+const aiCore = USE_OPENAI
+  ? createOpenAiProxy({
+    baseUrl: process.env.AI_BASE_URL || '',
+    apiKey: process.env.AI_API_KEY || '',
+    model: process.env.AI_MODEL || 'llama3.1',
+    timeoutMs: Number(process.env.AI_TIMEOUT_MS) || 60000,
+    maxRetries: Number(process.env.AI_MAX_RETRIES ?? 1)
+  })
+  : createGeminiProxy({
+    apiKey: process.env.GEMINI_API_KEY || '',
+    model: process.env.GEMINI_MODEL || 'gemini-3-flash-preview',
+    timeoutMs: Number(process.env.AI_TIMEOUT_MS) || 20000,
+    maxRetries: Number(process.env.AI_MAX_RETRIES ?? 2)
+  });
+
+const aiConfigured = USE_OPENAI ? !!process.env.AI_BASE_URL : !!process.env.GEMINI_API_KEY;
+
+// NOTIFY_CHANNELS carries webhook URLs and credentials, so it is read here and never bundled.
+const notifyRelay = createNotifyRelay({
+  channels: parseChannels(process.env.NOTIFY_CHANNELS),
+  timeoutMs: 10000,
+  dedupWindowMs: Number(process.env.NOTIFY_DEDUP_MS) || 10 * 60 * 1000
+});
+
+// AUTH_USERS holds the accounts and their password hashes, so it is read here and never bundled.
+// Unset, sign-in is off and every caller acts as the local admin.
+const authenticator = createAuthenticator({
+  enabled: Boolean(process.env.AUTH_USERS),
+  users: parseUsers(process.env.AUTH_USERS),
+  sessionTtlMs: (Number(process.env.SESSION_TTL_HOURS) || 12) * 3600000
+});
+
+// AUDIT_LOG names a JSON Lines file that keeps the trail across restarts; memory holds the newest AUDIT_LIMIT entries.
+const auditLog = createAuditLog({
+  limit: Number(process.env.AUDIT_LIMIT) || 1000,
+  filePath: process.env.AUDIT_LOG || undefined
+});
+
+// Defaults: 10 diagnostics, 30 chat turns and 60 notifications per client per minute.
+const diagnosticsLimiter = createRateLimiter(Number(process.env.RATE_LIMIT_DIAGNOSTICS) || 10, 60000);
+const copilotLimiter = createRateLimiter(Number(process.env.RATE_LIMIT_COPILOT) || 30, 60000);
+const notifyLimiter = createRateLimiter(Number(process.env.RATE_LIMIT_NOTIFY) || 60, 60000);
+// Sign-in attempts: 10 per client per minute, to slow password guessing.
+const loginLimiter = createRateLimiter(Number(process.env.RATE_LIMIT_LOGIN) || 10, 60000);
+
+class HttpError extends Error {
+  constructor(public status: number, message: string, public retryAfterMs?: number) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+// TRUST_PROXY: how many reverse proxies sit in front of this server. Unset, clients are keyed on the socket address.
+const getClientId = createClientIdResolver(Math.floor(Number(process.env.TRUST_PROXY) || 0));
+
+const readJsonBody = (req: http.IncomingMessage): Promise<unknown> =>
+  new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new HttpError(413, 'Request body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8') || 'null'));
+      } catch {
+        reject(new HttpError(400, 'Request body is not valid JSON'));
+      }
+    });
+    req.on('error', reject);
+  });
+
+const isFiniteNumber = (value: unknown) => typeof value === 'number' && Number.isFinite(value);
+
+const readMetrics = (value: unknown): SystemMetric[] => {
+  if (!Array.isArray(value) || value.length === 0) throw new HttpError(400, '`metrics` must be a non-empty array');
+  if (value.length > MAX_METRICS) throw new HttpError(400, `At most ${MAX_METRICS} metrics per request`);
+
+  return value.map((item, index) => {
+    const metric = item as Partial<SystemMetric> | null;
+    if (!metric || typeof metric !== 'object'
+      || !isFiniteNumber(metric.cpuLoad) || !isFiniteNumber(metric.memoryUsage)
+      || !isFiniteNumber(metric.networkLatency) || !isFiniteNumber(metric.temperature)) {
+      throw new HttpError(400, `metrics[${index}] is not a valid SystemMetric`);
+    }
+    return {
+      stationId: String(metric.stationId ?? ''),
+      timestamp: isFiniteNumber(metric.timestamp) ? metric.timestamp! : Date.now(),
+      cpuLoad: metric.cpuLoad!,
+      memoryUsage: metric.memoryUsage!,
+      networkLatency: metric.networkLatency!,
+      temperature: metric.temperature!,
+      // Registry metrics beyond the core four; non-numeric entries are dropped
+      ...(metric.custom && typeof metric.custom === 'object'
+        ? { custom: Object.fromEntries(Object.entries(metric.custom).filter(([, value]) => isFiniteNumber(value))) }
+        : {})
+    };
+  });
+};
+
+const readHistory = (value: unknown): ChatMessage[] => {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) throw new HttpError(400, '`history` must be an array');
+  return value.filter((message): message is ChatMessage =>
+    !!message && (message.role === 'user' || message.role === 'model') && typeof message.text === 'string'
+  );
+};
+
+const readLogs = (value: unknown): LogEntry[] =>
+  Array.isArray(value) ? value.filter(log => log && typeof log.message === 'string').slice(-50) : [];
+
+const getCorrelationId = (req: http.IncomingMessage) => {
+  const header = req.headers['x-correlation-id'];
+  return typeof header === 'string' && header ? ` [${header.slice(0, 64)}]` : '';
+};
+
+const sendJson = (res: http.ServerResponse, status: number, body: unknown, headers: http.OutgoingHttpHeaders = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const enforceRateLimit = (limiter: ReturnType<typeof createRateLimiter>, req: http.IncomingMessage) => {
+  const decision = limiter.consume(getClientId(req));
+  if (!decision.allowed) throw new HttpError(429, 'Rate limit exceeded', decision.retryAfterMs);
+};
+
+const getBearerToken = (req: http.IncomingMessage) => {
+  const match = /^Bearer\s+(\S+)$/i.exec(req.headers.authorization ?? '');
+  return match ? match[1] : undefined;
+};
+
+// Any signed-in role; for routes every cockpit uses, such as alert delivery.
+const requireSession = (req: http.IncomingMessage) => {
+  if (authenticator.enabled && !authenticator.resolve(getBearerToken(req))) throw new HttpError(401, 'Sign in to use this');
+};
+
+const getRoute = (req: http.IncomingMessage) => `${req.method} ${(req.url || '/').split('?')[0]}`;
+
+// Callers without a live session are audited as the guest, or as the local admin when sign-in is off.
+const getCaller = (req: http.IncomingMessage) =>
+  authenticator.resolve(getBearerToken(req)) ?? (authenticator.enabled ? GUEST_SESSION : LOCAL_SESSION);
+
+// Every check is audited, pass or fail, before the request goes any further.
+const requirePermission = (req: http.IncomingMessage, permission: Permission) => {
+  const caller = getCaller(req);
+  const decision = authenticator.check(getBearerToken(req), permission);
+  auditLog.record(caller, permission, getRoute(req), decision.allowed ? 'allowed' : 'denied');
+  if (!decision.allowed) throw new HttpError(decision.status, decision.message);
+};
+
+const handleDiagnostics = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+  requirePermission(req, 'diagnostics.run');
+  enforceRateLimit(diagnosticsLimiter, req);
+  const body = await readJsonBody(req) as { metrics?: unknown } | null;
+  const metrics = readMetrics(body?.metrics);
+
+  try {
+    const result = await aiCore.analyze(metrics);
+    sendJson(res, 200, result);
+  } catch (error) {
+    console.error(`Diagnostics upstream failure${getCorrelationId(req)}:`, error);
+    if (error instanceof AiResponseError) {
+      sendJson(res, 502, { error: error.message, issues: error.issues });
+      return;
+    }
+    throw new HttpError(502, 'AI Core returned an invalid or failed response');
+  }
+};
+
+const handleCopilot = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+  requirePermission(req, 'copilot.ask');
+  enforceRateLimit(copilotLimiter, req);
+  const body = await readJsonBody(req) as { question?: unknown; history?: unknown; context?: Partial<CopilotContext> } | null;
+  if (typeof body?.question !== 'string' || !body.question.trim()) throw new HttpError(400, '`question` is required');
+
+  const context: CopilotContext = {
+    stationId: String(body.context?.stationId ?? 'UNKNOWN'),
+    metrics: readMetrics(body.context?.metrics),
+    logs: readLogs(body.context?.logs)
+  };
+
+  const stream = aiCore.streamChat(readHistory(body.history), body.question, context);
+  let started = false;
+  try {
+    for await (const chunk of stream) {
+      if (!started) {
+        res.writeHead(200, { 'Content-Type': 'text/plain; charset=utf-8', 'Cache-Control': 'no-store' });
+        started = true;
+      }
+      res.write(chunk);
+    }
+    if (!started) res.writeHead(200, { 'Content-Type': 'text/plain; charset=utf-8' });
+    res.end();
+  } catch (error) {
+    console.error(`Copilot upstream failure${getCorrelationId(req)}:`, error);
+    if (!started) throw new HttpError(502, 'AI Core stream failed');
+    // Headers are gone; cut the stream so the client sees a truncated reply.
+    res.destroy(error as Error);
+  }
+};
+
+const handleNotify = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+  requireSession(req);
+  enforceRateLimit(notifyLimiter, req);
+  const body = await readJsonBody(req) as { channel?: unknown; notification?: unknown } | null;
+  if (typeof body?.channel !== 'string' || !body.channel) throw new HttpError(400, '`channel` is required');
+
+  try {
+    const notification = readNotification(body.notification);
+    // Test messages bypass the channel filters, so they need the role that may send them.
+    if (notification.kind === 'test') requirePermission(req, 'notifications.test');
+    sendJson(res, 200, await notifyRelay.deliver(body.channel, notification));
+  } catch (error) {
+    if (error instanceof NotifyRelayError) throw new HttpError(error.status, error.message);
+    throw error;
+  }
+};
+
+const handleLogin = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+  enforceRateLimit(loginLimiter, req);
+  const body = await readJsonBody(req) as { username?: unknown; password?: unknown } | null;
+  if (typeof body?.username !== 'string' || typeof body.password !== 'string') throw new HttpError(400, '`username` and `password` are required');
+
+  try {
+    const session = await authenticator.signIn(body.username, body.password);
+    auditLog.record(session, 'auth.login', 'Signed in', 'allowed');
+    sendJson(res, 200, { session });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      auditLog.record({ ...GUEST_SESSION, username: body.username.trim().slice(0, 64) }, 'auth.failed', 'Rejected sign-in', 'denied');
+      throw new HttpError(401, error.message);
+    }
+    throw error;
+  }
+};
+
+const handleAudit = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+  requirePermission(req, 'audit.export');
+  const limit = Number(new URL(req.url || '/', 'http://localhost').searchParams.get('limit'));
+  sendJson(res, 200, { entries: auditLog.entries(Number.isInteger(limit) && limit > 0 ? limit : undefined) });
+};
+
+const routes: Record<string, (req: http.IncomingMessage, res: http.ServerResponse) => Promise<void>> = {
+  'POST /api/diagnostics': handleDiagnostics,
+  'POST /api/copilot': handleCopilot,
+  'POST /api/notify': handleNotify,
+  'GET /api/notify/channels': async (req, res) => {
+    requireSession(req);
+    sendJson(res, 200, { channels: notifyRelay.channels() });
+  },
+  'GET /api/auth/session': async (req, res) => sendJson(res, 200, {
+    enabled: authenticator.enabled,
+    configured: authenticator.configured,
+    session: authenticator.resolve(getBearerToken(req))
+  }),
+  'POST /api/auth/login': handleLogin,
+  'POST /api/auth/logout': async (req, res) => {
+    const session = authenticator.resolve(getBearerToken(req));
+    if (session) auditLog.record(session, 'auth.logout', 'Signed out', 'allowed');
+    authenticator.signOut(getBearerToken(req));
+    sendJson(res, 200, { ok: true });
+  },
+  'GET /api/audit': handleAudit,
+  'GET /api/health': async (_req, res) => sendJson(res, 200, { ok: true, keyConfigured: aiConfigured })
+};
+
+const server = http.createServer(async (req, res) => {
+  const path = (req.url || '/').split('?')[0];
+  const handler = routes[`${req.method} ${path}`];
+
+  try {
+    if (!handler) throw new HttpError(404, 'Not found');
+    await handler(req, res);
+  } catch (error) {
+    const status = error instanceof HttpError ? error.status : 500;
+    const message = error instanceof HttpError ? error.message : 'Internal server error';
+    const retryAfterMs = error instanceof HttpError ? error.retryAfterMs : undefined;
+    if (!res.headersSent) {
+      sendJson(res, status, { error: message }, retryAfterMs ? { 'Retry-After': String(Math.ceil(retryAfterMs / 1000)) } : {});
+    }
+    if (status >= 500) console.error(`${req.method} ${path} failed:`, error);
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Cockpit API listening on http://localhost:${PORT}`);
+  if (!aiConfigured) console.warn(`${USE_OPENAI ? 'AI_BASE_URL' : 'GEMINI_API_KEY'} is not set; /api/diagnostics and /api/copilot will fail.`);
+  if (authenticator.enabled && !authenticator.configured) console.warn('AUTH_USERS could not be parsed; nobody can sign in.');
+  if (process.env.NOTIFY_CHANNELS && notifyRelay.channels().length === 0) console.warn('NOTIFY_CHANNELS could not be parsed; notifications are disabled.');
+});
@@ -0,0 +1,90 @@
+// @vitest-environment node
+import { describe, expect, it, vi } from 'vitest';
+import { CockpitNotification, NotificationChannel } from '../types';
+import { NotifyRelayError, createNotifyRelay, readNotification } from './notifyRelay';
+
+const CHANNELS: NotificationChannel[] = [
+  { name: 'ops', url: 'https://hooks.example/T000/B000/secret', template: 'slack', minSeverity: 'warning' },
+  { name: 'bus', url: 'https://events.example/cockpit', template: 'json', minSeverity: 'critical', events: ['diagnostics'], headers: { 'X-Cockpit-Token': 'secret' } },
+];
+
+const CONFIG = { channels: CHANNELS, timeoutMs: 1000, dedupWindowMs: 60000 };
+
+const NOTIFICATION: CockpitNotification = {
+  id: 'n1', kind: 'alert', severity: 'warning', stationId: 'ALPHA', title: 'CPU Load', message: 'cpuLoad is 91 (threshold 75).',
+  state: 'firing', at: 1_700_000_000_000, dedupKey: 'alert:ALPHA:cpu:fired',
+};
+
+describe('createNotifyRelay', () => {
+  it('lists channels without URLs, recipients or headers', () => {
+    const relay = createNotifyRelay(CONFIG);
+    expect(relay.channels()).toEqual([
+      { name: 'ops', template: 'slack', minSeverity: 'warning' },
+      { name: 'bus', template: 'json', minSeverity: 'critical', events: ['diagnostics'] },
+    ]);
+  });
+
+  it('renders the payload and posts it to the channel webhook with its headers', async () => {
+    const fetch = vi.fn().mockResolvedValue(new Response('ok', { status: 200 }));
+    const relay = createNotifyRelay(CONFIG, fetch);
+
+    await expect(relay.deliver('ops', NOTIFICATION)).resolves.toEqual({ detail: 'HTTP 200', deduplicated: false });
+    const [url, init] = fetch.mock.calls[0];
+    expect(url).toBe('https://hooks.example/T000/B000/secret');
+    expect(JSON.parse(init.body).text).toBe('[WARNING] ALPHA: CPU Load');
+
+    await relay.deliver('bus', { ...NOTIFICATION, kind: 'diagnostics', severity: 'critical', dedupKey: 'diagnostics:ALPHA:critical' });
+    expect(fetch.mock.calls[1][1].headers).toMatchObject({ 'X-Cockpit-Token': 'secret' });
+  });
+
+  it('refuses unknown channels and notifications the filters exclude', async () => {
+    const fetch = vi.fn();
+    const relay = createNotifyRelay(CONFIG, fetch);
+
+    await expect(relay.deliver('nope', NOTIFICATION)).rejects.toMatchObject({ status: 404 });
+    await expect(relay.deliver('bus', NOTIFICATION)).rejects.toMatchObject({ status: 400 });
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('sends each dedupKey to a channel once per window, whichever cockpit asks', async () => {
+    const fetch = vi.fn().mockResolvedValue(new Response('ok', { status: 200 }));
+    const relay = createNotifyRelay(CONFIG, fetch);
+
+    await relay.deliver('ops', NOTIFICATION, 1000);
+    await expect(relay.deliver('ops', { ...NOTIFICATION, id: 'n2' }, 30000)).resolves.toEqual({ detail: 'already sent', deduplicated: true });
+    await expect(relay.deliver('ops', NOTIFICATION, 61000)).resolves.toMatchObject({ deduplicated: false });
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('lets a retry through after a failed send and forgets keys once their window passes', async () => {
+    const fetch = vi.fn().mockResolvedValueOnce(new Response('', { status: 503 })).mockResolvedValue(new Response('ok', { status: 200 }));
+    const relay = createNotifyRelay(CONFIG, fetch);
+
+    await expect(relay.deliver('ops', NOTIFICATION, 1000)).rejects.toMatchObject({ status: 502 });
+    await expect(relay.deliver('ops', NOTIFICATION, 2000)).resolves.toMatchObject({ deduplicated: false });
+    await relay.deliver('ops', { ...NOTIFICATION, dedupKey: 'other' }, 3000);
+    expect(relay.size()).toBe(2);
+
+    await relay.deliver('ops', { ...NOTIFICATION, dedupKey: 'late' }, 70000);
+    expect(relay.size()).toBe(1);
+  });
+
+  it('reports a failing webhook as a bad gateway', async () => {
+    const relay = createNotifyRelay(CONFIG, vi.fn().mockResolvedValue(new Response('', { status: 503 })));
+    const error = await relay.deliver('ops', NOTIFICATION).catch((caught: unknown) => caught);
+    expect(error).toBeInstanceOf(NotifyRelayError);
+    expect(error).toMatchObject({ message: 'HTTP 503', status: 502 });
+  });
+});
+
+describe('readNotification', () => {
+  it('keeps only the known fields', () => {
+    expect(readNotification({ ...NOTIFICATION, extra: 'dropped' })).toEqual(NOTIFICATION);
+  });
+
+  it('rejects malformed notifications', () => {
+    expect(() => readNotification({ ...NOTIFICATION, severity: 'info' })).toThrow(NotifyRelayError);
+    expect(() => readNotification({ ...NOTIFICATION, message: 'x'.repeat(5000) })).toThrow(NotifyRelayError);
+    expect(() => readNotification(null)).toThrow(NotifyRelayError);
+  });
+});
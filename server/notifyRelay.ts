@@ -0,0 +1,105 @@
+import { AlertSeverity, CockpitNotification, NotificationChannel } from '../types';
+import { passesFilters, renderPayload, toChannelSummary } from '../services/notifications';
+
+export interface NotifyRelayConfig {
+  channels: NotificationChannel[];
+  timeoutMs: number;
+  // The same dedupKey reaches a channel at most once per window, however many cockpits send it
+  dedupWindowMs: number;
+}
+
+export interface RelayOutcome {
+  // The webhook's status line, e.g. "HTTP 200", or why nothing was sent
+  detail: string;
+  deduplicated: boolean;
+}
+
+// `status` is the HTTP status the API answers the browser with.
+export class NotifyRelayError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'NotifyRelayError';
+  }
+}
+
+const KINDS: CockpitNotification['kind'][] = ['alert', 'diagnostics', 'test'];
+const SEVERITIES: AlertSeverity[] = ['warning', 'critical'];
+const MAX_TEXT = 2000;
+
+const isText = (value: unknown): value is string => typeof value === 'string' && value.length <= MAX_TEXT;
+
+// The browser decides what to send; the server only forwards well-formed notifications.
+export const readNotification = (value: unknown): CockpitNotification => {
+  const item = value as Partial<CockpitNotification> | null;
+  if (!item || typeof item !== 'object'
+    || !KINDS.includes(item.kind!) || !SEVERITIES.includes(item.severity!)
+    || !isText(item.id) || !isText(item.stationId) || !isText(item.title) || !isText(item.message) || !isText(item.dedupKey)
+    || typeof item.at !== 'number' || !Number.isFinite(item.at)
+    || (item.state !== undefined && item.state !== 'firing' && item.state !== 'resolved')) {
+    throw new NotifyRelayError('`notification` is not a valid CockpitNotification', 400);
+  }
+  return {
+    id: item.id!,
+    kind: item.kind!,
+    severity: item.severity!,
+    stationId: item.stationId!,
+    title: item.title!,
+    message: item.message!,
+    ...(item.state ? { state: item.state } : {}),
+    at: item.at,
+    dedupKey: item.dedupKey!,
+  };
+};
+
+// Server side of outbound notifications. Webhook URLs, recipients and headers never leave this process.
+export const createNotifyRelay = (config: NotifyRelayConfig, fetchImpl: typeof fetch = (input, init) => fetch(input, init)) => {
+  // channel + dedupKey -> when it was sent. Claimed before sending so tabs racing each other collapse; released on failure.
+  const lastSent = new Map<string, number>();
+  let sweptAt = 0;
+
+  const sweep = (now: number) => {
+    sweptAt = now;
+    for (const [key, at] of lastSent) {
+      if (now - at >= config.dedupWindowMs) lastSent.delete(key);
+    }
+  };
+
+  return {
+    channels: () => config.channels.map(toChannelSummary),
+
+    // Channel/dedupKey pairs currently remembered
+    size: () => lastSent.size,
+
+    deliver: async (channelName: string, notification: CockpitNotification, now: number = Date.now()): Promise<RelayOutcome> => {
+      const channel = config.channels.find(candidate => candidate.name === channelName);
+      if (!channel) throw new NotifyRelayError(`Unknown notification channel "${channelName}"`, 404);
+      if (!passesFilters(channel, notification)) throw new NotifyRelayError(`Channel "${channelName}" does not take this notification`, 400);
+
+      if (now - sweptAt >= config.dedupWindowMs) sweep(now);
+      const key = `${channel.name}\u0000${notification.dedupKey}`;
+      const last = lastSent.get(key);
+      if (last !== undefined && now - last < config.dedupWindowMs) return { detail: 'already sent', deduplicated: true };
+      lastSent.set(key, now);
+
+      const controller = new AbortController();
+      const timeout = setTimeout(() => controller.abort(), config.timeoutMs);
+      try {
+        const response = await fetchImpl(channel.url, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', ...channel.headers },
+          body: JSON.stringify(renderPayload(channel, notification)),
+          signal: controller.signal,
+        });
+        if (!response.ok) throw new NotifyRelayError(`HTTP ${response.status}`, 502);
+        return { detail: `HTTP ${response.status}`, deduplicated: false };
+      } catch (err) {
+        // A failed send must not block the retry
+        if (lastSent.get(key) === now) lastSent.delete(key);
+        if (err instanceof NotifyRelayError) throw err;
+        throw new NotifyRelayError(controller.signal.aborted ? `no response within ${config.timeoutMs}ms` : (err as Error).message, 502);
+      } finally {
+        clearTimeout(timeout);
+      }
+    },
+  };
+};
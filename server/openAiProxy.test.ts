@@ -0,0 +1,52 @@
+// @vitest-environment node
+import { describe, expect, it, vi } from 'vitest';
+import { AiAnalysisResult, SystemMetric } from '../types';
+import { createOpenAiProxy } from './openAiProxy';
+
+const METRICS: SystemMetric[] = [
+  { stationId: 'ALPHA', timestamp: 1_700_000_000_000, cpuLoad: 91, memoryUsage: 64, networkLatency: 22, temperature: 71 },
+];
+
+const REPORT: AiAnalysisResult = {
+  status: 'warning',
+  summary: 'CPU saturation on ALPHA',
+  recommendation: 'Shed background jobs',
+  findings: [{ metric: 'cpuLoad', assessment: 'elevated', observation: 'CPU held above 90%' }],
+  rootCause: 'Runaway batch job',
+  confidence: 0.8,
+  actions: [{ action: 'Throttle the batch queue', urgency: 'high' }],
+};
+
+const CONFIG = { baseUrl: 'http://llm.internal/v1/', apiKey: 'sk-test', model: 'llama-test', timeoutMs: 1000, maxRetries: 0 };
+
+describe('createOpenAiProxy', () => {
+  it('posts the prompt with the server-held key and parses the report', async () => {
+    const fetch = vi.fn().mockResolvedValue(new Response(JSON.stringify({ choices: [{ message: { content: JSON.stringify(REPORT) } }] })));
+
+    await expect(createOpenAiProxy(CONFIG, fetch).analyze(METRICS)).resolves.toEqual(REPORT);
+    const [url, init] = fetch.mock.calls[0];
+    expect(url).toBe('http://llm.internal/v1/chat/completions');
+    expect(init.headers.Authorization).toBe('Bearer sk-test');
+    expect(JSON.parse(init.body)).toMatchObject({ model: 'llama-test', response_format: { type: 'json_object' } });
+  });
+
+  it('streams the chat deltas until [DONE]', async () => {
+    const events = ['Hel', 'lo'].map(content => `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n`).join('') + 'data: [DONE]\n';
+    const fetch = vi.fn().mockResolvedValue(new Response(events));
+
+    const chunks: string[] = [];
+    for await (const chunk of createOpenAiProxy(CONFIG, fetch).streamChat([], 'Status?', { stationId: 'ALPHA', metrics: METRICS, logs: [] })) chunks.push(chunk);
+    expect(chunks).toEqual(['Hel', 'lo']);
+  });
+
+  it('surfaces an upstream error status', async () => {
+    const fetch = vi.fn().mockResolvedValue(new Response('nope', { status: 401 }));
+    await expect(createOpenAiProxy(CONFIG, fetch).analyze(METRICS)).rejects.toThrow('AI Core responded HTTP 401');
+  });
+
+  it('refuses to run without a base URL', async () => {
+    const fetch = vi.fn();
+    await expect(createOpenAiProxy({ ...CONFIG, baseUrl: '' }, fetch).analyze(METRICS)).rejects.toThrow('AI_BASE_URL is missing');
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
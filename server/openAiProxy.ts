@@ -0,0 +1,93 @@
+import { AiAnalysisResult, ChatMessage, CopilotContext, SystemMetric } from '../types';
+import { buildCopilotInstruction, buildDiagnosticsPrompt, parseAnalysisResult, toConversationTurns } from '../services/aiPrompts';
+import { withRetries, withTimeout } from '../services/aiRetry';
+
+export interface OpenAiProxyConfig {
+  // e.g. http://localhost:11434/v1
+  baseUrl: string;
+  apiKey: string;
+  model: string;
+  timeoutMs: number;
+  maxRetries: number;
+}
+
+interface ChatCompletionMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+// Server-side access to any OpenAI /chat/completions API (vLLM, llama.cpp, Ollama, LM Studio, ...).
+// Like the Gemini proxy, the API key lives only in this process.
+export const createOpenAiProxy = (config: OpenAiProxyConfig, fetchImpl: typeof fetch = (input, init) => fetch(input, init)) => {
+  const endpoint = `${config.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  const post = async (body: object, signal: AbortSignal) => {
+    if (!config.baseUrl) {
+      throw new Error("AI_BASE_URL is missing from the server environment.");
+    }
+    const response = await fetchImpl(endpoint, {
+      method: 'POST',
+      signal,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {})
+      },
+      body: JSON.stringify({ model: config.model, ...body })
+    });
+    if (!response.ok) throw new Error(`AI Core responded HTTP ${response.status}`);
+    return response;
+  };
+
+  return {
+    analyze: async (metrics: SystemMetric[]): Promise<AiAnalysisResult> => {
+      const text = await withRetries(config, async (signal) => {
+        const response = await post({
+          // The client already trimmed the frames to its configured window.
+          messages: [{ role: 'user', content: buildDiagnosticsPrompt(metrics, metrics.length) }],
+          response_format: { type: 'json_object' }
+        }, signal);
+        const data = await response.json();
+        return data?.choices?.[0]?.message?.content as string | undefined;
+      });
+
+      return parseAnalysisResult(text);
+    },
+
+    streamChat: async function* (history: ChatMessage[], question: string, context: CopilotContext): AsyncGenerator<string> {
+      const messages: ChatCompletionMessage[] = [
+        { role: 'system', content: buildCopilotInstruction(context) },
+        ...toConversationTurns(history).map(message => ({
+          role: message.role === 'model' ? 'assistant' as const : 'user' as const,
+          content: message.text
+        })),
+        { role: 'user', content: question }
+      ];
+
+      // Only opening the stream is bounded by the timeout; a long answer may take longer to finish.
+      const response = await withTimeout(config.timeoutMs, (signal) => post({ messages, stream: true }, signal));
+      if (!response.body) throw new Error('AI Core sent no stream');
+
+      // Server-sent events: one `data: {...}` line per delta, terminated by `data: [DONE]`.
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+        for (const line of lines) {
+          const payload = line.trim();
+          if (!payload.startsWith('data:')) continue;
+          const data = payload.slice(5).trim();
+          if (data === '[DONE]') return;
+          const delta = JSON.parse(data)?.choices?.[0]?.delta?.content;
+          if (delta) yield delta as string;
+        }
+      }
+    }
+  };
+};
@@ -0,0 +1,53 @@
+// @vitest-environment node
+import http from 'http';
+import { describe, expect, it } from 'vitest';
+import { createClientIdResolver, createRateLimiter } from './rateLimiter';
+
+describe('createRateLimiter', () => {
+  it('rejects a client once its burst is spent and says when to retry', () => {
+    const limiter = createRateLimiter(2, 60000);
+    expect(limiter.consume('a', 0).allowed).toBe(true);
+    expect(limiter.consume('a', 0).allowed).toBe(true);
+    expect(limiter.consume('a', 0)).toEqual({ allowed: false, retryAfterMs: 30000 });
+    expect(limiter.consume('b', 0).allowed).toBe(true);
+    expect(limiter.consume('a', 30000).allowed).toBe(true);
+  });
+
+  it('forgets clients that have been idle for a whole window', () => {
+    const limiter = createRateLimiter(10, 60000);
+    for (let client = 0; client < 1000; client++) limiter.consume(`client-${client}`, 1000);
+    expect(limiter.size()).toBe(1000);
+
+    limiter.consume('late', 61000);
+    expect(limiter.size()).toBe(1);
+  });
+
+  it('keeps clients that are still refilling', () => {
+    const limiter = createRateLimiter(1, 60000);
+    limiter.consume('busy', 0);
+    limiter.consume('busy', 59000);
+    limiter.consume('other', 60000);
+
+    expect(limiter.size()).toBe(2);
+  });
+});
+
+describe('createClientIdResolver', () => {
+  const request = (remoteAddress: string, forwardedFor?: string) =>
+    ({ socket: { remoteAddress }, headers: forwardedFor ? { 'x-forwarded-for': forwardedFor } : {} }) as unknown as http.IncomingMessage;
+
+  it('ignores X-Forwarded-For unless a proxy is trusted', () => {
+    const resolve = createClientIdResolver(0);
+    expect(resolve(request('203.0.113.7', '198.51.100.1'))).toBe('203.0.113.7');
+  });
+
+  it('takes the entry the trusted proxy added, not the forgeable first one', () => {
+    expect(createClientIdResolver(1)(request('10.0.0.2', 'spoofed, 203.0.113.7'))).toBe('203.0.113.7');
+    expect(createClientIdResolver(2)(request('10.0.0.3', 'spoofed, 203.0.113.7, 10.0.0.2'))).toBe('203.0.113.7');
+  });
+
+  it('falls back to the socket when the header is missing or too short', () => {
+    expect(createClientIdResolver(1)(request('10.0.0.2'))).toBe('10.0.0.2');
+    expect(createClientIdResolver(2)(request('10.0.0.3', '203.0.113.7'))).toBe('10.0.0.3');
+  });
+});
@@ -0,0 +1,61 @@
+import http from 'http';
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  // Milliseconds until the next token is available when the request is rejected.
+  retryAfterMs: number;
+}
+
+export interface RateLimiter {
+  consume: (clientId: string, now?: number) => RateLimitDecision;
+  // Clients currently tracked
+  size: () => number;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+// Token bucket per client: `capacity` requests burst, refilled evenly over `windowMs`.
+// A bucket idle for a whole window is full again, the same as a new one, so it is dropped on the next sweep.
+export const createRateLimiter = (capacity: number, windowMs: number): RateLimiter => {
+  const buckets = new Map<string, Bucket>();
+  const refillPerMs = capacity / windowMs;
+  let sweptAt = 0;
+
+  const sweep = (now: number) => {
+    for (const [clientId, bucket] of buckets) {
+      if (now - bucket.updatedAt >= windowMs) buckets.delete(clientId);
+    }
+    sweptAt = now;
+  };
+
+  return {
+    consume: (clientId, now = Date.now()) => {
+      if (now - sweptAt >= windowMs) sweep(now);
+      const bucket = buckets.get(clientId) ?? { tokens: capacity, updatedAt: now };
+      bucket.tokens = Math.min(capacity, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+      bucket.updatedAt = now;
+      buckets.set(clientId, bucket);
+
+      if (bucket.tokens >= 1) {
+        bucket.tokens -= 1;
+        return { allowed: true, retryAfterMs: 0 };
+      }
+      return { allowed: false, retryAfterMs: Math.ceil((1 - bucket.tokens) / refillPerMs) };
+    },
+    size: () => buckets.size
+  };
+};
+
+// Identifies the client behind a request. Each proxy appends the address it received from to X-Forwarded-For,
+// so with `trustedHops` proxies in front, the entry the outermost one added is the client; anything left of it
+// was sent by the client and can be forged. Without trusted proxies the header is ignored.
+export const createClientIdResolver = (trustedHops: number) => (req: http.IncomingMessage) => {
+  const socketAddress = req.socket.remoteAddress || 'unknown';
+  if (trustedHops <= 0) return socketAddress;
+  const header = req.headers['x-forwarded-for'];
+  const hops = (Array.isArray(header) ? header.join(',') : header ?? '').split(',').map(hop => hop.trim()).filter(Boolean);
+  return hops[hops.length - trustedHops] || socketAddress;
+};
@@ -0,0 +1,98 @@
+import http from 'http';
+
+// Local stand-in for Slack, JSON and email-relay webhooks. Point NOTIFY_CHANNELS at it to watch deliveries:
+//   POST /<anything>    records the body and answers 200 (or 503 while failures are configured)
+//   GET  /deliveries    everything received so far, oldest first
+//   DELETE /deliveries  forgets them
+// STAND_IN_FAIL_FIRST=n answers the first n POSTs with 503 to exercise retries.
+
+const PORT = Number(process.env.STAND_IN_PORT) || 3002;
+const MAX_BODY_BYTES = 256 * 1024;
+const MAX_DELIVERIES = 500;
+
+interface ReceivedDelivery {
+  receivedAt: string;
+  path: string;
+  status: number;
+  body: unknown;
+}
+
+let failuresLeft = Number(process.env.STAND_IN_FAIL_FIRST) || 0;
+let deliveries: ReceivedDelivery[] = [];
+
+// Deliveries come from the cockpit API; CORS headers let a browser page inspect GET /deliveries too.
+const CORS_HEADERS: http.OutgoingHttpHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': '*',
+};
+
+const sendJson = (res: http.ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store', ...CORS_HEADERS });
+  res.end(JSON.stringify(body));
+};
+
+const readBody = (req: http.IncomingMessage): Promise<string> =>
+  new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error('Request body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+
+const parse = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+};
+
+// One readable line per delivery, whichever template produced it.
+const summarize = (body: unknown) => {
+  const payload = body as Record<string, unknown> | null;
+  if (!payload || typeof payload !== 'object') return String(body).slice(0, 120);
+  if (typeof payload.subject === 'string') return `email to ${(payload.to as string[] | undefined)?.join(', ')}: ${payload.subject}`;
+  if (typeof payload.text === 'string') return `slack: ${payload.text}`;
+  return `json: ${payload.kind} ${payload.severity} ${payload.stationId} ${payload.title}`;
+};
+
+const server = http.createServer(async (req, res) => {
+  const path = (req.url || '/').split('?')[0];
+
+  try {
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, CORS_HEADERS);
+      res.end();
+    } else if (path === '/deliveries' && req.method === 'GET') {
+      sendJson(res, 200, deliveries);
+    } else if (path === '/deliveries' && req.method === 'DELETE') {
+      deliveries = [];
+      sendJson(res, 200, { ok: true });
+    } else if (req.method === 'POST') {
+      const body = parse(await readBody(req));
+      const status = failuresLeft > 0 ? 503 : 200;
+      if (failuresLeft > 0) failuresLeft--;
+      deliveries = [...deliveries, { receivedAt: new Date().toISOString(), path, status, body }].slice(-MAX_DELIVERIES);
+      console.log(`${new Date().toISOString()} ${status} POST ${path}  ${summarize(body)}`);
+      sendJson(res, status, status === 200 ? { ok: true } : { error: 'Simulated failure' });
+    } else {
+      sendJson(res, 404, { error: 'Not found' });
+    }
+  } catch (error) {
+    if (!res.headersSent) sendJson(res, 400, { error: (error as Error).message });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Webhook stand-in listening on http://localhost:${PORT}${failuresLeft > 0 ? ` (failing the first ${failuresLeft} POSTs)` : ''}`);
+});
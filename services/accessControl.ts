@@ -0,0 +1,159 @@
+import { AuditEntry, AuthState, Permission, Role, Session } from '../types';
+import { createLogger, newLogId } from './logger';
+
+const SESSION_KEY = 'cockpit-session';
+const AUDIT_KEY = 'cockpit-audit';
+
+const logger = createLogger('AUDIT');
+
+export const ROLES: Role[] = ['viewer', 'operator', 'admin'];
+
+// Viewers only look. Operators run the station day to day; admins also change how the cockpit itself behaves.
+const OPERATOR_PERMISSIONS: Permission[] = [
+  'network.simulate', 'cache.refresh', 'diagnostics.run', 'diagnostics.auto', 'copilot.ask', 'alerts.manage',
+  'incidents.manage', 'notifications.test', 'recording.manage', 'data.import', 'layout.edit',
+];
+
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  viewer: [],
+  operator: OPERATOR_PERMISSIONS,
+  admin: [...OPERATOR_PERMISSIONS, 'faults.inject', 'source.configure', 'console.clear', 'audit.export'],
+};
+
+export const PERMISSION_LABELS: Record<Permission, string> = {
+  'network.simulate': 'simulate outages',
+  'cache.refresh': 'refresh the cache',
+  'diagnostics.run': 'run diagnostics',
+  'diagnostics.auto': 'arm auto-diagnose',
+  'copilot.ask': 'query the copilot',
+  'alerts.manage': 'acknowledge or silence alerts',
+  'incidents.manage': 'work incidents',
+  'notifications.test': 'send test notifications',
+  'recording.manage': 'record sessions',
+  'data.import': 'import telemetry',
+  'layout.edit': 'edit layouts',
+  'faults.inject': 'inject faults',
+  'source.configure': 'change the telemetry source',
+  'console.clear': 'clear the console',
+  'audit.export': 'export the audit trail',
+};
+
+// Used when sign-in is disabled, so an unconfigured cockpit behaves as it always has.
+export const LOCAL_SESSION: Session = { username: 'local', role: 'admin', signedInAt: 0 };
+// Visitors who have not signed in get the read-only view.
+export const GUEST_SESSION: Session = { username: 'guest', role: 'viewer', signedInAt: 0 };
+
+export const hasPermission = (role: Role, permission: Permission) => ROLE_PERMISSIONS[role].includes(permission);
+
+// Lowest role that holds the permission, for "requires operator" hints.
+export const requiredRole = (permission: Permission): Role =>
+  ROLES.find(role => hasPermission(role, permission)) ?? 'admin';
+
+// Thrown when a sign-in attempt is rejected.
+export class AuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+const apiUrl = (baseUrl: string, path: string) => `${baseUrl.replace(/\/+$/, '')}${path}`;
+
+const bearer = (token: string | undefined): Record<string, string> => (token ? { Authorization: `Bearer ${token}` } : {});
+
+// Asks the cockpit API whether sign-in is on and whether the stored token still names a live session.
+export const fetchAuthState = async (baseUrl: string, token: string | undefined, fetchImpl: typeof fetch = (input, init) => fetch(input, init)): Promise<AuthState> => {
+  const response = await fetchImpl(apiUrl(baseUrl, '/auth/session'), { headers: { Accept: 'application/json', ...bearer(token) } });
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+  const body = await response.json() as Partial<AuthState>;
+  return { enabled: body.enabled === true, configured: body.configured !== false, session: body.session ?? null };
+};
+
+// Passwords are checked by the cockpit API; a 401 means the credentials were wrong, anything else that they could not be checked.
+export const signIn = async (baseUrl: string, username: string, password: string, fetchImpl: typeof fetch = (input, init) => fetch(input, init)): Promise<Session> => {
+  const response = await fetchImpl(apiUrl(baseUrl, '/auth/login'), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ username, password }),
+  });
+  if (response.status === 401) throw new AuthError('Unknown user or wrong password');
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+  const body = await response.json() as { session?: Session };
+  if (!body.session?.token) throw new Error('The API answered without a session');
+  return body.session;
+};
+
+// Best effort: the local session is dropped whether or not the API hears about it.
+export const signOut = async (baseUrl: string, session: Session, fetchImpl: typeof fetch = (input, init) => fetch(input, init)) => {
+  if (!session.token) return;
+  try {
+    await fetchImpl(apiUrl(baseUrl, '/auth/logout'), { method: 'POST', headers: bearer(session.token) });
+  } catch {
+    // The token expires on the server anyway
+  }
+};
+
+// The API's trail is the record of what it allowed and refused; `audit.export` is needed to read it.
+export const fetchAuditTrail = async (baseUrl: string, token: string | undefined, limit?: number, fetchImpl: typeof fetch = (input, init) => fetch(input, init)): Promise<AuditEntry[]> => {
+  const response = await fetchImpl(apiUrl(baseUrl, `/audit${limit ? `?limit=${limit}` : ''}`), { headers: { Accept: 'application/json', ...bearer(token) } });
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+  const body = await response.json() as { entries?: unknown };
+  return Array.isArray(body.entries) ? body.entries : [];
+};
+
+const storage = (kind: 'local' | 'session') => {
+  try {
+    return kind === 'local' ? localStorage : sessionStorage;
+  } catch {
+    // Access throws in some sandboxed iframes
+    return null;
+  }
+};
+
+// Sessions last for the tab. Only the token matters: the API says which account and role it belongs to, if any.
+export const loadSession = (): Session | null => {
+  try {
+    const stored = JSON.parse(storage('session')?.getItem(SESSION_KEY) ?? 'null') as Session | null;
+    return stored && typeof stored.token === 'string' ? stored : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveSession = (session: Session | null) => {
+  const store = storage('session');
+  if (!store) return;
+  if (session) store.setItem(SESSION_KEY, JSON.stringify(session));
+  else store.removeItem(SESSION_KEY);
+};
+
+export const loadAuditTrail = (): AuditEntry[] => {
+  try {
+    const parsed = JSON.parse(storage('local')?.getItem(AUDIT_KEY) ?? '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+// Appends to this browser's view of the trail and mirrors the entry to every log sink, so the collector keeps a copy too.
+// The API records its own checks; this covers the actions that never reach it.
+export const recordAudit = (
+  session: Session,
+  action: AuditEntry['action'],
+  detail: string,
+  outcome: AuditEntry['outcome'],
+  limit: number,
+  now: number = Date.now()
+): AuditEntry => {
+  const entry: AuditEntry = { id: newLogId(), at: now, username: session.username, role: session.role, action, detail, outcome };
+  try {
+    storage('local')?.setItem(AUDIT_KEY, JSON.stringify([...loadAuditTrail(), entry].slice(-limit)));
+  } catch {
+    logger.error('Audit trail could not be written to local storage.');
+  }
+  const line = `${session.username} (${session.role}) ${outcome === 'denied' ? 'was denied' : 'did'} ${action}: ${detail}`;
+  if (outcome === 'denied') logger.warning(line);
+  else logger.info(line);
+  return entry;
+};
@@ -0,0 +1,125 @@
+import { SystemMetric, AiAnalysisResult, ChatMessage, CopilotContext, MetricFinding, SuggestedAction } from '../types';
+import { summarizeWindow } from './metricStats';
+import { METRIC_IDS, describeMetrics } from './metricRegistry';
+
+// Shared by every AI provider so they all see the same instructions.
+
+export const DEFAULT_DIAGNOSTICS_WINDOW = 60;
+
+export const buildDiagnosticsPrompt = (metrics: SystemMetric[], windowSize: number = DEFAULT_DIAGNOSTICS_WINDOW) => {
+  const window = metrics.slice(-windowSize);
+  const first = window[0];
+  const last = window[window.length - 1];
+  const iso = (metric?: SystemMetric) => (metric ? new Date(metric.timestamp).toISOString() : '?');
+
+  return `
+      Act as a futuristic spaceship computer system. Analyze the following system telemetry summary and provide a diagnostic report.
+      
+      Station: ${last?.stationId ?? 'UNKNOWN'}
+      Window: ${window.length} samples from ${iso(first)} to ${iso(last)}
+
+      Metrics: ${describeMetrics()}
+
+      Per-metric statistics (slope is change per sample):
+      ${JSON.stringify(summarizeWindow(window))}
+
+      Most recent samples:
+      ${JSON.stringify(window.slice(-3).map(metric => ({ ...metric, timestamp: iso(metric) })))}
+      
+      Return the response in strictly valid JSON format matching this schema:
+      {
+        "status": "optimal" | "warning" | "critical",
+        "summary": "Short analysis of the current state (max 20 words)",
+        "recommendation": "Actionable advice (max 15 words)",
+        "findings": [{ "metric": ${METRIC_IDS.map(id => `"${id}"`).join(' | ')}, "assessment": "nominal" | "elevated" | "critical", "observation": "max 15 words" }],
+        "rootCause": "Most likely root cause, or 'none' when nominal (max 20 words)",
+        "confidence": "number between 0 and 1",
+        "actions": [{ "action": "max 12 words", "urgency": "low" | "medium" | "high" | "immediate" }]
+      }
+      Include one finding per metric in the statistics and at most 3 actions.
+    `;
+};
+
+export const buildCopilotInstruction = ({ stationId, metrics, logs }: CopilotContext) => `
+  You are the AI Copilot of a futuristic spaceship monitoring cockpit, assisting an operator watching station ${stationId}.
+  Answer questions about the station using the live context below. Be concise and technical, cite concrete values,
+  and say so plainly when the telemetry does not support a conclusion.
+
+  Recent Telemetry (oldest first):
+  ${JSON.stringify(metrics)}
+
+  Recent Console Log (oldest first):
+  ${logs.map(log => `[${log.timestamp}] ${log.level.toUpperCase()} ${log.source}: ${log.message}`).join('\n  ')}
+`;
+
+// Earlier turns that completed cleanly, in chronological order.
+export const toConversationTurns = (history: ChatMessage[]) =>
+  history.filter(message => message.status === 'done' && message.text);
+
+// Thrown when the model answers with something that is not a valid diagnostics report.
+export class AiResponseError extends Error {
+  constructor(message: string, public readonly issues: string[] = [], public readonly raw?: string) {
+    super(message);
+    this.name = 'AiResponseError';
+  }
+}
+
+const ANALYSIS_STATUSES: AiAnalysisResult['status'][] = ['optimal', 'warning', 'critical'];
+const ASSESSMENTS: MetricFinding['assessment'][] = ['nominal', 'elevated', 'critical'];
+const URGENCIES: SuggestedAction['urgency'][] = ['low', 'medium', 'high', 'immediate'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Returns every schema violation, so the UI can say exactly what the model got wrong.
+export const validateAnalysisResult = (value: unknown): string[] => {
+  if (!isRecord(value)) return ['response is not a JSON object'];
+  const issues: string[] = [];
+
+  if (!ANALYSIS_STATUSES.includes(value.status as AiAnalysisResult['status'])) issues.push(`status must be one of ${ANALYSIS_STATUSES.join(', ')}`);
+  if (typeof value.summary !== 'string' || !value.summary) issues.push('summary must be a non-empty string');
+  if (typeof value.recommendation !== 'string') issues.push('recommendation must be a string');
+  if (typeof value.rootCause !== 'string') issues.push('rootCause must be a string');
+  if (typeof value.confidence !== 'number' || value.confidence < 0 || value.confidence > 1) issues.push('confidence must be a number between 0 and 1');
+
+  if (!Array.isArray(value.findings)) {
+    issues.push('findings must be an array');
+  } else {
+    value.findings.forEach((finding, index) => {
+      if (!isRecord(finding)) return issues.push(`findings[${index}] must be an object`);
+      if (!METRIC_IDS.includes(finding.metric as MetricFinding['metric'])) issues.push(`findings[${index}].metric is not a known metric`);
+      if (!ASSESSMENTS.includes(finding.assessment as MetricFinding['assessment'])) issues.push(`findings[${index}].assessment must be one of ${ASSESSMENTS.join(', ')}`);
+      if (typeof finding.observation !== 'string') issues.push(`findings[${index}].observation must be a string`);
+    });
+  }
+
+  if (!Array.isArray(value.actions)) {
+    issues.push('actions must be an array');
+  } else {
+    value.actions.forEach((action, index) => {
+      if (!isRecord(action)) return issues.push(`actions[${index}] must be an object`);
+      if (typeof action.action !== 'string' || !action.action) issues.push(`actions[${index}].action must be a non-empty string`);
+      if (!URGENCIES.includes(action.urgency as SuggestedAction['urgency'])) issues.push(`actions[${index}].urgency must be one of ${URGENCIES.join(', ')}`);
+    });
+  }
+
+  return issues;
+};
+
+export const isAiAnalysisResult = (value: unknown): value is AiAnalysisResult => validateAnalysisResult(value).length === 0;
+
+export const parseAnalysisResult = (text: string | undefined): AiAnalysisResult => {
+  if (!text) throw new AiResponseError("No response from AI Core");
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new AiResponseError("AI Core returned malformed JSON", ['response is not valid JSON'], text);
+  }
+
+  const issues = validateAnalysisResult(parsed);
+  if (issues.length > 0) {
+    throw new AiResponseError("AI Core response does not match the diagnostics schema", issues, text);
+  }
+  return parsed as AiAnalysisResult;
+};
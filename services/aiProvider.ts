@@ -0,0 +1,11 @@
+import { AiProvider, AiProviderConfig } from '../types';
+import { createGeminiProvider } from './geminiService';
+import { createMockProvider } from './mockAiProvider';
+
+export const createAiProvider = (config: AiProviderConfig): AiProvider => {
+  switch (config.kind) {
+    case 'mock': return createMockProvider(config);
+    // Both go through the cockpit API, which holds the keys and picks the upstream from AI_PROVIDER.
+    default: return createGeminiProvider(config);
+  }
+};
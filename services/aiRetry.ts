@@ -0,0 +1,54 @@
+import { AiProviderConfig } from '../types';
+
+export class AiTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`AI Core did not respond within ${timeoutMs} ms`);
+    this.name = 'AiTimeoutError';
+  }
+}
+
+// Failures that another attempt cannot fix, e.g. a 4xx from the AI endpoint.
+export class NonRetryableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NonRetryableError';
+  }
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Runs one attempt with an abort signal that fires after `timeoutMs`.
+export const withTimeout = async <T>(timeoutMs: number, attempt: (signal: AbortSignal) => Promise<T>): Promise<T> => {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new AiTimeoutError(timeoutMs));
+    }, timeoutMs);
+  });
+
+  try {
+    return await Promise.race([attempt(controller.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+// Retries failed attempts with exponential backoff (500 ms, 1 s, 2 s, ...).
+export const withRetries = async <T>(
+  { timeoutMs, maxRetries }: Pick<AiProviderConfig, 'timeoutMs' | 'maxRetries'>,
+  attempt: (signal: AbortSignal) => Promise<T>
+): Promise<T> => {
+  let lastError: unknown;
+  for (let tries = 0; tries <= maxRetries; tries++) {
+    if (tries > 0) await sleep(500 * 2 ** (tries - 1));
+    try {
+      return await withTimeout(timeoutMs, attempt);
+    } catch (error) {
+      if (error instanceof NonRetryableError) throw error;
+      lastError = error;
+    }
+  }
+  throw lastError;
+};
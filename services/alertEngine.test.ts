@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { AlertRule, SystemMetric } from '../types';
+import { createAlertEngine } from './alertEngine';
+
+const CPU_WARNING: AlertRule = {
+  id: 'cpu-warning', label: 'CPU high', metric: 'cpuLoad', comparator: '>',
+  threshold: 80, hysteresis: 5, durationMs: 10_000, severity: 'warning'
+};
+
+const CPU_CRITICAL: AlertRule = {
+  id: 'cpu-critical', label: 'CPU critical', metric: 'cpuLoad', comparator: '>',
+  threshold: 95, hysteresis: 5, durationMs: 0, severity: 'critical', inhibits: 'cpu-warning'
+};
+
+const frame = (cpuLoad: number, stationId: string = 'ALPHA'): SystemMetric =>
+  ({ stationId, timestamp: 0, cpuLoad, memoryUsage: 40, networkLatency: 20, temperature: 40 });
+
+describe('alert engine', () => {
+  it('fires only once the breach has lasted the rule duration', () => {
+    const engine = createAlertEngine([CPU_WARNING]);
+    expect(engine.evaluate(frame(90), 0)).toEqual([]);
+    expect(engine.evaluate(frame(90), 9_999)).toEqual([]);
+
+    const events = engine.evaluate(frame(90), 10_000);
+    expect(events).toHaveLength(1);
+    expect(events[0].type).toBe('fired');
+    expect(events[0].alert).toMatchObject({ ruleId: 'cpu-warning', stationId: 'ALPHA', state: 'firing', value: 90, firedAt: 10_000 });
+  });
+
+  it('restarts the duration when the value dips back under the threshold', () => {
+    const engine = createAlertEngine([CPU_WARNING]);
+    engine.evaluate(frame(90), 0);
+    engine.evaluate(frame(70), 5_000);
+    expect(engine.evaluate(frame(90), 10_000)).toEqual([]);
+    expect(engine.evaluate(frame(90), 20_000).map(event => event.type)).toEqual(['fired']);
+  });
+
+  it('stays firing inside the hysteresis band and resolves once past it', () => {
+    const engine = createAlertEngine([CPU_WARNING]);
+    engine.evaluate(frame(90), 0);
+    engine.evaluate(frame(90), 10_000);
+
+    // Between threshold - hysteresis and the threshold itself: no flapping either way
+    for (const [cpuLoad, at] of [[79, 11_000], [81, 12_000], [76, 13_000], [82, 14_000]]) {
+      expect(engine.evaluate(frame(cpuLoad), at)).toEqual([]);
+    }
+    expect(engine.getAlerts()).toMatchObject([{ state: 'firing', value: 82 }]);
+
+    const events = engine.evaluate(frame(75), 15_000);
+    expect(events.map(event => event.type)).toEqual(['resolved']);
+    expect(events[0].alert).toMatchObject({ state: 'resolved', resolvedAt: 15_000 });
+  });
+
+  it('keeps an inhibited rule quiet while the inhibiting alert is active', () => {
+    const engine = createAlertEngine([CPU_WARNING, CPU_CRITICAL]);
+    expect(engine.evaluate(frame(97), 0).map(event => event.alert.ruleId)).toEqual(['cpu-critical']);
+    expect(engine.evaluate(frame(97), 10_000)).toEqual([]);
+    expect(engine.evaluate(frame(97), 30_000)).toEqual([]);
+    expect(engine.getAlerts().filter(alert => alert.state !== 'resolved').map(alert => alert.ruleId)).toEqual(['cpu-critical']);
+  });
+
+  it('supersedes an open alert without an event when an inhibiting rule fires', () => {
+    const engine = createAlertEngine([CPU_WARNING, CPU_CRITICAL]);
+    engine.evaluate(frame(90), 0);
+    engine.evaluate(frame(90), 10_000);
+
+    expect(engine.evaluate(frame(97), 11_000).map(event => `${event.type}:${event.alert.ruleId}`)).toEqual(['fired:cpu-critical']);
+    expect(engine.getAlerts().map(alert => `${alert.ruleId}:${alert.state}`)).toEqual(['cpu-critical:firing', 'cpu-warning:resolved']);
+  });
+
+  it('tracks each station separately', () => {
+    const engine = createAlertEngine([CPU_WARNING]);
+    engine.evaluate(frame(90, 'ALPHA'), 0);
+    engine.evaluate(frame(90, 'ALPHA'), 10_000);
+    expect(engine.evaluate(frame(40, 'BRAVO'), 10_000)).toEqual([]);
+    expect(engine.getAlerts('ALPHA')).toHaveLength(1);
+    expect(engine.getAlerts('BRAVO')).toEqual([]);
+  });
+
+  it('does not re-fire a silenced rule until the window ends', () => {
+    const engine = createAlertEngine([{ ...CPU_WARNING, durationMs: 0 }]);
+    const [fired] = engine.evaluate(frame(90), 0);
+    expect(engine.silence(fired.alert.id, 60_000, 0)).toMatchObject({ state: 'acknowledged', silencedUntil: 60_000 });
+
+    engine.evaluate(frame(70), 1_000);
+    expect(engine.evaluate(frame(90), 2_000)).toEqual([]);
+    expect(engine.evaluate(frame(90), 60_000).map(event => event.type)).toEqual(['fired']);
+  });
+});
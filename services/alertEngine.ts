@@ -0,0 +1,146 @@
+import { Alert, AlertRule, SystemMetric } from '../types';
+import { getMetricValue } from './metricRegistry';
+
+export type AlertEvent =
+  | { type: 'fired'; alert: Alert }
+  | { type: 'resolved'; alert: Alert };
+
+export interface AlertEngine {
+  evaluate: (metric: SystemMetric, now?: number) => AlertEvent[];
+  acknowledge: (alertId: string, now?: number) => Alert | null;
+  silence: (alertId: string, durationMs: number, now?: number) => Alert | null;
+  getAlerts: (stationId?: string) => Alert[];
+}
+
+interface RuleState {
+  breachStartedAt: number | null;
+  active: Alert | null;
+  silencedUntil: number;
+}
+
+const isBreached = (rule: AlertRule, value: number) =>
+  rule.comparator === '>' ? value > rule.threshold : value < rule.threshold;
+
+const isCleared = (rule: AlertRule, value: number) =>
+  rule.comparator === '>' ? value <= rule.threshold - rule.hysteresis : value >= rule.threshold + rule.hysteresis;
+
+// Rule state is tracked per station, so one noisy node never masks or clears another's alert.
+export const createAlertEngine = (rules: AlertRule[], historyLimit: number = 50): AlertEngine => {
+  const states = new Map<string, RuleState>();
+  // Inhibiting rules are evaluated first so an escalation takes effect on the same frame.
+  const ordered = [...rules].sort((a, b) => Number(Boolean(b.inhibits)) - Number(Boolean(a.inhibits)));
+  let resolved: Alert[] = [];
+  let sequence = 0;
+
+  const getState = (stationId: string, ruleId: string) => {
+    const key = `${stationId}:${ruleId}`;
+    let state = states.get(key);
+    if (!state) {
+      state = { breachStartedAt: null, active: null, silencedUntil: 0 };
+      states.set(key, state);
+    }
+    return state;
+  };
+
+  const findActive = (alertId: string) => {
+    for (const state of states.values()) {
+      if (state.active?.id === alertId) return { state };
+    }
+    return null;
+  };
+
+  return {
+    evaluate: (metric, now = Date.now()) => {
+      const events: AlertEvent[] = [];
+      const inhibited = new Set<string>();
+
+      for (const rule of ordered) {
+        const value = getMetricValue(metric, rule.metric);
+        // Frames without this signal leave its rule untouched
+        if (value === undefined) continue;
+        const state = getState(metric.stationId, rule.id);
+
+        if (inhibited.has(rule.id)) {
+          // Superseded by the escalated alert rather than resolved by the signal, so no event is raised
+          if (state.active) {
+            const superseded: Alert = { ...state.active, value, state: 'resolved', resolvedAt: now };
+            resolved = [superseded, ...resolved].slice(0, historyLimit);
+            state.active = null;
+          }
+          continue;
+        }
+
+        if (state.active) {
+          state.active = { ...state.active, value };
+          if (isCleared(rule, value)) {
+            const alert: Alert = { ...state.active, state: 'resolved', resolvedAt: now };
+            resolved = [alert, ...resolved].slice(0, historyLimit);
+            state.active = null;
+            state.breachStartedAt = null;
+            events.push({ type: 'resolved', alert });
+          } else if (rule.inhibits) {
+            inhibited.add(rule.inhibits);
+          }
+          continue;
+        }
+
+        if (!isBreached(rule, value)) {
+          state.breachStartedAt = null;
+          continue;
+        }
+
+        state.breachStartedAt ??= now;
+        if (now - state.breachStartedAt < rule.durationMs || now < state.silencedUntil) continue;
+
+        const alert: Alert = {
+          id: `${rule.id}-${++sequence}`,
+          ruleId: rule.id,
+          stationId: metric.stationId,
+          label: rule.label,
+          metric: rule.metric,
+          severity: rule.severity,
+          state: 'firing',
+          value,
+          threshold: rule.threshold,
+          firedAt: now
+        };
+        state.active = alert;
+        if (rule.inhibits) inhibited.add(rule.inhibits);
+        events.push({ type: 'fired', alert });
+      }
+
+      return events;
+    },
+
+    acknowledge: (alertId, now = Date.now()) => {
+      const match = findActive(alertId);
+      if (!match || match.state.active!.state === 'acknowledged') return null;
+      match.state.active = { ...match.state.active!, state: 'acknowledged', acknowledgedAt: now };
+      return match.state.active;
+    },
+
+    // Silencing acknowledges the alert and keeps its rule from re-firing until the window expires.
+    silence: (alertId, durationMs, now = Date.now()) => {
+      const match = findActive(alertId);
+      if (!match) return null;
+      const silencedUntil = now + durationMs;
+      match.state.silencedUntil = silencedUntil;
+      match.state.active = {
+        ...match.state.active!,
+        state: 'acknowledged',
+        acknowledgedAt: match.state.active!.acknowledgedAt ?? now,
+        silencedUntil
+      };
+      return match.state.active;
+    },
+
+    getAlerts: (stationId) => {
+      const active = Array.from(states.values())
+        .map(state => state.active)
+        .filter((alert): alert is Alert => alert !== null)
+        .sort((a, b) => (a.severity === b.severity ? b.firedAt - a.firedAt : a.severity === 'critical' ? -1 : 1));
+      const all = [...active, ...resolved];
+      return stationId ? all.filter(alert => alert.stationId === stationId) : all;
+    }
+  };
+};
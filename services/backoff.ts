@@ -0,0 +1,28 @@
+export interface BackoffPolicy {
+  baseMs: number;
+  maxMs: number;
+  // Fraction of each delay randomised either way so many clients do not retry in lockstep
+  jitter?: number;
+}
+
+export interface Backoff {
+  // Delay before the next attempt; each call counts as one failed attempt
+  next: () => number;
+  reset: () => void;
+  attempts: () => number;
+}
+
+// Exponential backoff: baseMs, 2x, 4x, ... capped at maxMs.
+export const createBackoff = ({ baseMs, maxMs, jitter = 0.2 }: BackoffPolicy, random: () => number = Math.random): Backoff => {
+  let attempts = 0;
+
+  return {
+    next: () => {
+      const delay = Math.min(maxMs, baseMs * 2 ** attempts);
+      attempts++;
+      return Math.round(delay * (1 - jitter + 2 * jitter * random()));
+    },
+    reset: () => { attempts = 0; },
+    attempts: () => attempts,
+  };
+};
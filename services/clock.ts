@@ -0,0 +1,14 @@
+export type TimerHandle = ReturnType<typeof setInterval>;
+
+// Wall time and interval timers behind one seam, so timing-driven code can be stepped by hand.
+export interface Clock {
+  now: () => number;
+  setInterval: (callback: () => void, ms: number) => TimerHandle;
+  clearInterval: (handle: TimerHandle) => void;
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setInterval: (callback, ms) => setInterval(callback, ms),
+  clearInterval: handle => clearInterval(handle),
+};
@@ -0,0 +1,102 @@
+export interface CommandArg {
+  name: string;
+  optional?: boolean;
+  // Candidate values offered by tab completion
+  suggest?: () => string[];
+}
+
+export interface CommandSpec {
+  // Words that select the command, e.g. ['alerts', 'ack']
+  path: string[];
+  args?: CommandArg[];
+  summary: string;
+  run: (args: string[]) => void | Promise<void>;
+}
+
+export type ResolvedCommand =
+  | { ok: true; command: CommandSpec; args: string[] }
+  | { ok: false; error: string };
+
+export interface Completion {
+  // The input with its last word replaced by the longest common completion
+  input: string;
+  candidates: string[];
+}
+
+// Splits on whitespace; double quotes keep spaces inside one argument.
+export const tokenize = (input: string): string[] =>
+  (input.match(/"[^"]*"|\S+/g) ?? []).map(token => token.replace(/^"(.*)"$/, '$1'));
+
+export const formatUsage = (command: CommandSpec) =>
+  [...command.path, ...(command.args ?? []).map(arg => (arg.optional ? `[${arg.name}]` : `<${arg.name}>`))].join(' ');
+
+const startsWithPath = (tokens: string[], path: string[]) =>
+  path.every((word, index) => tokens[index]?.toLowerCase() === word);
+
+export const resolveCommand = (commands: CommandSpec[], input: string): ResolvedCommand => {
+  const tokens = tokenize(input);
+  if (tokens.length === 0) return { ok: false, error: 'Empty command.' };
+
+  // Longest matching path wins, so `alerts ack` beats a hypothetical bare `alerts`.
+  const command = commands
+    .filter(candidate => startsWithPath(tokens, candidate.path))
+    .sort((a, b) => b.path.length - a.path.length)[0];
+
+  if (!command) {
+    const group = commands.filter(candidate => candidate.path[0] === tokens[0].toLowerCase());
+    return {
+      ok: false,
+      error: group.length > 0
+        ? `Unknown subcommand "${tokens.slice(0, 2).join(' ')}". Try: ${group.map(formatUsage).join(' | ')}`
+        : `Unknown command "${tokens[0]}". Type "help" for the command list.`
+    };
+  }
+
+  const args = tokens.slice(command.path.length);
+  const specs = command.args ?? [];
+  const required = specs.filter(arg => !arg.optional).length;
+  if (args.length < required || args.length > specs.length) {
+    return { ok: false, error: `Usage: ${formatUsage(command)}` };
+  }
+  return { ok: true, command, args };
+};
+
+const commonPrefix = (words: string[]) =>
+  words.reduce((prefix, word) => {
+    let length = 0;
+    while (length < prefix.length && prefix[length] === word[length]) length++;
+    return prefix.slice(0, length);
+  });
+
+export const complete = (commands: CommandSpec[], input: string): Completion => {
+  const endsWithSpace = /\s$/.test(input) || input.length === 0;
+  const tokens = tokenize(input);
+  const done = endsWithSpace ? tokens : tokens.slice(0, -1);
+  const partial = endsWithSpace ? '' : tokens[tokens.length - 1];
+  const position = done.length;
+
+  const options = new Set<string>();
+  for (const command of commands) {
+    if (!startsWithPath(done, command.path.slice(0, Math.min(position, command.path.length)))) continue;
+    if (position < command.path.length) {
+      options.add(command.path[position]);
+    } else {
+      const arg = command.args?.[position - command.path.length];
+      arg?.suggest?.().forEach(value => options.add(value));
+    }
+  }
+
+  const candidates = [...options].filter(option => option.toLowerCase().startsWith(partial.toLowerCase())).sort();
+  if (candidates.length === 0) return { input, candidates };
+
+  const prefix = [...done, ''].join(' ');
+  const completed = candidates.length === 1 ? `${candidates[0]} ` : commonPrefix(candidates) || partial;
+  return { input: `${prefix}${completed}`, candidates };
+};
+
+export const formatHelp = (commands: CommandSpec[], topic: string[] = []) => {
+  const matching = commands.filter(command => startsWithPath(command.path, topic.map(word => word.toLowerCase())));
+  if (matching.length === 0) return [`No commands match "${topic.join(' ')}".`];
+  const width = Math.max(...matching.map(command => formatUsage(command).length));
+  return matching.map(command => `${formatUsage(command).padEnd(width)}  ${command.summary}`);
+};
@@ -0,0 +1,53 @@
+import { AutoDiagnosticsConfig } from '../types';
+
+export type ScheduleDecision =
+  | { allowed: true }
+  | { allowed: false; reason: 'debounced' | 'budget' };
+
+export interface DiagnosticsBudget {
+  used: number;
+  limit: number;
+  // When the oldest counted run leaves the window, or null if nothing is counted.
+  resetsAt: number | null;
+}
+
+export interface DiagnosticsScheduler {
+  request: (stationId: string, now?: number) => ScheduleDecision;
+  getBudget: (now?: number) => DiagnosticsBudget;
+}
+
+// Gatekeeper for automatic runs: per-station debounce plus a fleet-wide sliding budget.
+// Manual runs never pass through here, so an operator is never locked out.
+export const createDiagnosticsScheduler = (config: AutoDiagnosticsConfig): DiagnosticsScheduler => {
+  const lastRunAt = new Map<string, number>();
+  let spent: number[] = [];
+
+  const prune = (now: number) => {
+    spent = spent.filter(at => now - at < config.budgetWindowMs);
+  };
+
+  return {
+    request: (stationId, now = Date.now()) => {
+      const previous = lastRunAt.get(stationId);
+      if (previous !== undefined && now - previous < config.debounceMs) {
+        return { allowed: false, reason: 'debounced' };
+      }
+
+      prune(now);
+      if (spent.length >= config.budget) return { allowed: false, reason: 'budget' };
+
+      lastRunAt.set(stationId, now);
+      spent.push(now);
+      return { allowed: true };
+    },
+
+    getBudget: (now = Date.now()) => {
+      prune(now);
+      return {
+        used: spent.length,
+        limit: config.budget,
+        resetsAt: spent.length > 0 ? spent[0] + config.budgetWindowMs : null
+      };
+    }
+  };
+};
@@ -0,0 +1,324 @@
+import { AiProvider, FaultProfile, FaultScenario, FaultStep, TelemetrySource, TelemetrySourceConfig } from '../types';
+import { createLogger } from './logger';
+import { createSeededRandom } from './random';
+import { AiTimeoutError } from './aiRetry';
+import { createReconnectBackoff, createSourceBase, describeRetry } from './telemetrySource';
+
+const logger = createLogger('FAULT');
+const EXPORT_FORMAT = 'cockpit-fault-scenario/v1';
+// How often a running source checks whether an injected link drop has started
+const LINK_CHECK_MS = 250;
+
+export const NO_FAULTS: FaultProfile = {
+  latencyMs: 0,
+  packetLoss: 0,
+  linkDown: false,
+  flapMs: 0,
+  gapStations: [],
+  aiDelayMs: 0,
+  aiFailureRate: 0,
+};
+
+export interface ScenarioRun {
+  scenario: FaultScenario;
+  startedAt: number;
+  // Number of steps applied so far
+  applied: number;
+}
+
+export interface FaultInjectorState {
+  profile: FaultProfile;
+  run: ScenarioRun | null;
+}
+
+export interface FaultInjector {
+  getState: () => FaultInjectorState;
+  getProfile: () => FaultProfile;
+  update: (patch: Partial<FaultProfile>) => void;
+  // Stops any scenario and removes every fault
+  clear: () => void;
+  play: (scenario: FaultScenario) => void;
+  isLinkDown: (now?: number) => boolean;
+  // Seeded while a scenario plays so packet loss and AI failures repeat on replay
+  random: () => number;
+  subscribe: (listener: (state: FaultInjectorState) => void) => () => void;
+}
+
+// Thrown when an imported file is not a usable scenario.
+export class FaultScenarioError extends Error {
+  constructor(message: string, public readonly issues: string[] = []) {
+    super(message);
+    this.name = 'FaultScenarioError';
+  }
+}
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+// One-line summary for logs and the command line, e.g. "latency +400ms, loss 20%".
+export const describeFaults = (profile: FaultProfile) => {
+  const parts: string[] = [];
+  if (profile.latencyMs > 0) parts.push(`latency +${profile.latencyMs}ms`);
+  if (profile.packetLoss > 0) parts.push(`loss ${percent(profile.packetLoss)}`);
+  if (profile.linkDown) parts.push('link down');
+  if (profile.flapMs > 0) parts.push(`flapping every ${profile.flapMs / 1000}s`);
+  if (profile.gapStations.length > 0) parts.push(`gap ${profile.gapStations.join('/')}`);
+  if (profile.aiDelayMs > 0) parts.push(`AI delay ${profile.aiDelayMs / 1000}s`);
+  if (profile.aiFailureRate > 0) parts.push(`AI failures ${percent(profile.aiFailureRate)}`);
+  return parts.length > 0 ? parts.join(', ') : 'none';
+};
+
+export const countActiveFaults = (profile: FaultProfile) =>
+  (Object.keys(NO_FAULTS) as (keyof FaultProfile)[]).filter(key =>
+    Array.isArray(profile[key]) ? (profile[key] as string[]).length > 0 : Boolean(profile[key])
+  ).length;
+
+export const createFaultInjector = (): FaultInjector => {
+  const listeners = new Set<(state: FaultInjectorState) => void>();
+  let profile: FaultProfile = NO_FAULTS;
+  let run: ScenarioRun | null = null;
+  let timers: ReturnType<typeof setTimeout>[] = [];
+  let flapStartedAt = Date.now();
+  let random: () => number = Math.random;
+
+  const notify = () => {
+    const state = { profile, run };
+    listeners.forEach(listener => listener(state));
+  };
+
+  const apply = (patch: Partial<FaultProfile>) => {
+    if (patch.flapMs !== undefined && patch.flapMs !== profile.flapMs) flapStartedAt = Date.now();
+    profile = { ...profile, ...patch };
+  };
+
+  const cancelRun = () => {
+    timers.forEach(clearTimeout);
+    timers = [];
+    run = null;
+    random = Math.random;
+  };
+
+  const applyStep = (step: FaultStep, index: number, total: number) => {
+    apply(step.set);
+    if (run) run = { ...run, applied: index + 1 };
+    logger.warning(`Scenario step ${index + 1}/${total}${step.note ? ` (${step.note})` : ''}: ${describeFaults(profile)}.`);
+    notify();
+  };
+
+  return {
+    getState: () => ({ profile, run }),
+    getProfile: () => profile,
+    update: (patch) => {
+      apply(patch);
+      logger.warning(`Faults now: ${describeFaults(profile)}.`);
+      notify();
+    },
+    clear: () => {
+      const wasRunning = run?.scenario.name;
+      cancelRun();
+      profile = NO_FAULTS;
+      logger.success(wasRunning ? `Scenario "${wasRunning}" stopped. All faults cleared.` : 'All faults cleared.');
+      notify();
+    },
+    play: (scenario) => {
+      cancelRun();
+      profile = NO_FAULTS;
+      random = createSeededRandom(scenario.seed);
+      const steps = [...scenario.steps].sort((a, b) => a.atMs - b.atMs);
+      run = { scenario: { ...scenario, steps }, startedAt: Date.now(), applied: 0 };
+      logger.warning(`Scenario "${scenario.name}" started (${steps.length} steps over ${Math.round(scenario.durationMs / 1000)}s, seed ${scenario.seed}).`);
+
+      steps.forEach((step, index) => {
+        if (step.atMs <= 0) applyStep(step, index, steps.length);
+        else timers.push(setTimeout(() => applyStep(step, index, steps.length), step.atMs));
+      });
+      timers.push(setTimeout(() => {
+        cancelRun();
+        profile = NO_FAULTS;
+        logger.success(`Scenario "${scenario.name}" complete. All faults cleared.`);
+        notify();
+      }, scenario.durationMs));
+      notify();
+    },
+    isLinkDown: (now = Date.now()) =>
+      profile.linkDown || (profile.flapMs > 0 && Math.floor((now - flapStartedAt) / profile.flapMs) % 2 === 1),
+    random: () => random(),
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+  };
+};
+
+// Applies latency, packet loss, telemetry gaps and link drops to any source. An injected drop goes
+// through the same reconnect backoff as a real transport, so the dashboard sees RECONNECTING.
+export const withTelemetryFaults = (inner: TelemetrySource, injector: FaultInjector, config: TelemetrySourceConfig): TelemetrySource => {
+  const { emit, setState, source } = createSourceBase(inner.kind);
+  const backoff = createReconnectBackoff(config);
+  const pending = new Set<ReturnType<typeof setTimeout>>();
+  let innerState = inner.getState();
+  let innerDetail: string | undefined;
+  let dropped = false;
+  let linkCheck: ReturnType<typeof setInterval> | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  inner.onStateChange((state, detail) => {
+    innerState = state;
+    innerDetail = detail;
+    if (!dropped) setState(state, detail);
+  });
+
+  inner.subscribe(metric => {
+    const profile = injector.getProfile();
+    if (dropped) return;
+    if (profile.gapStations.includes('*') || profile.gapStations.includes(metric.stationId)) return;
+    if (profile.packetLoss > 0 && injector.random() < profile.packetLoss) return;
+    if (profile.latencyMs <= 0) {
+      emit(metric);
+      return;
+    }
+    const delayed = { ...metric, networkLatency: metric.networkLatency + profile.latencyMs };
+    const timer = setTimeout(() => {
+      pending.delete(timer);
+      if (!dropped) emit(delayed);
+    }, profile.latencyMs);
+    pending.add(timer);
+  });
+
+  const retry = () => {
+    const delay = backoff.next();
+    setState('reconnecting', describeRetry('Injected link drop', backoff, delay));
+    retryTimer = setTimeout(() => {
+      retryTimer = null;
+      if (injector.isLinkDown()) {
+        retry();
+        return;
+      }
+      dropped = false;
+      backoff.reset();
+      setState(innerState, innerState === 'connected' ? 'Injected link drop cleared' : innerDetail);
+    }, delay);
+  };
+
+  const checkLink = () => {
+    if (dropped || !injector.isLinkDown()) return;
+    dropped = true;
+    pending.forEach(clearTimeout);
+    pending.clear();
+    setState('error', 'Injected link drop');
+    retry();
+  };
+
+  return {
+    ...source,
+    start: () => {
+      if (linkCheck) return;
+      inner.start();
+      linkCheck = setInterval(checkLink, LINK_CHECK_MS);
+      checkLink();
+    },
+    stop: () => {
+      if (linkCheck) clearInterval(linkCheck);
+      linkCheck = null;
+      if (retryTimer) clearTimeout(retryTimer);
+      retryTimer = null;
+      pending.forEach(clearTimeout);
+      pending.clear();
+      dropped = false;
+      backoff.reset();
+      inner.stop();
+      setState('disconnected');
+    }
+  };
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Slows or fails AI calls. A delay at or beyond the provider timeout surfaces as that timeout.
+export const withAiFaults = (provider: AiProvider, injector: FaultInjector, timeoutMs: number): AiProvider => {
+  const inject = async () => {
+    const { aiDelayMs, aiFailureRate } = injector.getProfile();
+    if (aiDelayMs >= timeoutMs) {
+      await sleep(timeoutMs);
+      throw new AiTimeoutError(timeoutMs);
+    }
+    if (aiDelayMs > 0) await sleep(aiDelayMs);
+    if (aiFailureRate > 0 && injector.random() < aiFailureRate) throw new Error('Injected AI Core failure');
+  };
+
+  return {
+    kind: provider.kind,
+    label: provider.label,
+    analyze: async (metrics, options) => {
+      await inject();
+      return provider.analyze(metrics, options);
+    },
+    streamChat: async function* (history, question, context, options) {
+      await inject();
+      yield* provider.streamChat(history, question, context, options);
+    },
+  };
+};
+
+const isRate = (value: unknown) => typeof value === 'number' && value >= 0 && value <= 1;
+const isDuration = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+const validatePatch = (value: unknown, path: string): string[] => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return [`${path} must be an object`];
+  const patch = value as Record<string, unknown>;
+  const issues: string[] = [];
+  for (const key of Object.keys(patch)) {
+    if (!(key in NO_FAULTS)) issues.push(`${path}.${key} is not a known fault`);
+  }
+  for (const key of ['latencyMs', 'flapMs', 'aiDelayMs'] as const) {
+    if (key in patch && !isDuration(patch[key])) issues.push(`${path}.${key} must be a non-negative number`);
+  }
+  for (const key of ['packetLoss', 'aiFailureRate'] as const) {
+    if (key in patch && !isRate(patch[key])) issues.push(`${path}.${key} must be between 0 and 1`);
+  }
+  if ('linkDown' in patch && typeof patch.linkDown !== 'boolean') issues.push(`${path}.linkDown must be true or false`);
+  if ('gapStations' in patch && (!Array.isArray(patch.gapStations) || patch.gapStations.some(id => typeof id !== 'string'))) {
+    issues.push(`${path}.gapStations must be an array of station ids`);
+  }
+  return issues;
+};
+
+export const serializeScenario = (scenario: FaultScenario) =>
+  JSON.stringify({ format: EXPORT_FORMAT, ...scenario }, null, 2);
+
+export const parseScenario = (text: string): FaultScenario => {
+  let data: Record<string, unknown>;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new FaultScenarioError('Scenario file is not valid JSON');
+  }
+  if (!data || typeof data !== 'object') throw new FaultScenarioError('Scenario file must contain a JSON object');
+
+  const issues: string[] = [];
+  if (data.format !== undefined && data.format !== EXPORT_FORMAT) issues.push(`Unsupported format "${String(data.format)}"`);
+  if (typeof data.name !== 'string' || !data.name.trim()) issues.push('`name` must be a non-empty string');
+  if (!Number.isInteger(data.seed)) issues.push('`seed` must be an integer');
+  if (!isDuration(data.durationMs) || data.durationMs === 0) issues.push('`durationMs` must be a positive number');
+  if (!Array.isArray(data.steps) || data.steps.length === 0) {
+    issues.push('`steps` must be a non-empty array');
+  } else {
+    data.steps.forEach((step: Partial<FaultStep> | null, index) => {
+      if (!step || typeof step !== 'object') {
+        issues.push(`steps[${index}] is not an object`);
+        return;
+      }
+      if (!isDuration(step.atMs)) issues.push(`steps[${index}].atMs must be a non-negative number`);
+      else if (isDuration(data.durationMs) && step.atMs! > (data.durationMs as number)) issues.push(`steps[${index}].atMs is past durationMs`);
+      issues.push(...validatePatch(step.set, `steps[${index}].set`));
+    });
+  }
+  if (issues.length > 0) throw new FaultScenarioError('Scenario file failed validation', issues);
+
+  return {
+    name: (data.name as string).trim(),
+    description: typeof data.description === 'string' ? data.description : undefined,
+    seed: data.seed as number,
+    durationMs: data.durationMs as number,
+    steps: (data.steps as FaultStep[]).map(({ atMs, set, note }) => ({ atMs, set, note })),
+  };
+};
@@ -0,0 +1,63 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { AiProviderConfig, SystemMetric } from '../types';
+import { aiConfig } from '../config';
+import { AiResponseError } from './aiPrompts';
+import { NonRetryableError } from './aiRetry';
+import { createGeminiProvider } from './geminiService';
+
+const CONFIG: AiProviderConfig = { ...aiConfig, kind: 'gemini', model: 'gemini-test', baseUrl: '/api/', timeoutMs: 1000, maxRetries: 0, diagnosticsWindow: 2 };
+
+const METRICS: SystemMetric[] = [1, 2, 3].map(step => ({
+  stationId: 'ALPHA', timestamp: step * 1000, cpuLoad: 40 + step, memoryUsage: 50, networkLatency: 20, temperature: 45,
+}));
+
+const REPORT = {
+  status: 'optimal',
+  summary: 'All systems nominal',
+  recommendation: 'None',
+  findings: [],
+  rootCause: 'n/a',
+  confidence: 0.9,
+  actions: [],
+};
+
+const respond = (status: number, body: unknown, headers: Record<string, string> = {}) =>
+  vi.fn().mockResolvedValue(new Response(typeof body === 'string' ? body : JSON.stringify(body), { status, headers }));
+
+describe('createGeminiProvider().analyze', () => {
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('posts the diagnostics window to the cockpit API and parses the reply', async () => {
+    const fetch = respond(200, REPORT);
+    vi.stubGlobal('fetch', fetch);
+
+    await expect(createGeminiProvider(CONFIG).analyze(METRICS, { correlationId: 'abc-123', authToken: 'tok' })).resolves.toEqual(REPORT);
+    const [url, init] = fetch.mock.calls[0];
+    expect(url).toBe('/api/diagnostics');
+    expect(init.headers['X-Correlation-Id']).toBe('abc-123');
+    expect(init.headers.Authorization).toBe('Bearer tok');
+    expect(JSON.parse(init.body).metrics.map((metric: SystemMetric) => metric.timestamp)).toEqual([2000, 3000]);
+  });
+
+  it('surfaces the server schema report as an AiResponseError', async () => {
+    vi.stubGlobal('fetch', respond(502, { error: 'AI Core response does not match the diagnostics schema', issues: ['summary must be a non-empty string'] }));
+
+    const error = await createGeminiProvider(CONFIG).analyze(METRICS).catch((caught: unknown) => caught) as AiResponseError;
+    expect(error).toBeInstanceOf(AiResponseError);
+    expect(error.issues).toEqual(['summary must be a non-empty string']);
+  });
+
+  it('does not retry a rate-limited request', async () => {
+    const fetch = respond(429, { error: 'Too many requests' }, { 'Retry-After': '30' });
+    vi.stubGlobal('fetch', fetch);
+
+    await expect(createGeminiProvider({ ...CONFIG, maxRetries: 3 }).analyze(METRICS)).rejects.toThrow(NonRetryableError);
+    await expect(createGeminiProvider(CONFIG).analyze(METRICS)).rejects.toThrow('AI Core rate limit reached, retry in 30s');
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('rejects a reply that is not JSON', async () => {
+    vi.stubGlobal('fetch', respond(200, 'Internal proxy page'));
+    await expect(createGeminiProvider(CONFIG).analyze(METRICS)).rejects.toThrow('AI Core returned malformed JSON');
+  });
+});
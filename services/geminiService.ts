@@ -1,59 +1,83 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { SystemMetric, AiAnalysisResult } from '../types';
+import { AiProvider, AiProviderConfig, AiRequestOptions } from '../types';
+import { AiResponseError, parseAnalysisResult, toConversationTurns } from './aiPrompts';
+import { NonRetryableError, withRetries, withTimeout } from './aiRetry';
+import { createLogger, errorContext } from './logger';
 
-const apiKey = process.env.API_KEY || '';
+const logger = createLogger('AI');
 
-// Initialize specific Gemini model for system diagnostics
-const getAiClient = () => {
-  if (!apiKey) {
-    throw new Error("API_KEY is missing from environment variables.");
-  }
-  return new GoogleGenAI({ apiKey });
-};
+// Gemini is reached through the cockpit API (server/index.ts), which holds the key.
+// So is an OpenAI-compatible server: the API picks the upstream, and this client only names it.
+export const createGeminiProvider = (config: AiProviderConfig): AiProvider => {
+  const baseUrl = (config.baseUrl || '/api').replace(/\/+$/, '');
+  const name = config.kind === 'openai' ? 'OpenAI-compatible' : 'Gemini';
 
-export const analyzeSystemMetrics = async (metrics: SystemMetric[]): Promise<AiAnalysisResult> => {
-  try {
-    const ai = getAiClient();
-    const recentMetrics = metrics.slice(-5); // Analyze last 5 data points
-    
-    const prompt = `
-      Act as a futuristic spaceship computer system. Analyze the following system telemetry data and provide a brief diagnostic report.
-      
-      Telemetry Data:
-      ${JSON.stringify(recentMetrics)}
-      
-      Return the response in strictly valid JSON format matching this schema:
-      {
-        "status": "optimal" | "warning" | "critical",
-        "summary": "Short analysis of the current state (max 20 words)",
-        "recommendation": "Actionable advice (max 15 words)"
-      }
-    `;
-
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            status: { type: Type.STRING, enum: ["optimal", "warning", "critical"] },
-            summary: { type: Type.STRING },
-            recommendation: { type: Type.STRING }
-          },
-          required: ["status", "summary", "recommendation"]
-        }
-      }
+  const post = (path: string, body: object, signal: AbortSignal, { correlationId, authToken }: AiRequestOptions) =>
+    fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      signal,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(correlationId ? { 'X-Correlation-Id': correlationId } : {}),
+        ...(authToken ? { Authorization: `Bearer ${authToken}` } : {})
+      },
+      body: JSON.stringify(body)
     });
 
-    const text = response.text;
-    if (!text) throw new Error("No response from AI Core");
+  const describeFailure = async (response: Response) => {
+    const body = await response.json().catch(() => null) as { error?: string; issues?: string[] } | null;
+    if (response.status === 429) {
+      const retryAfter = response.headers.get('Retry-After');
+      return new NonRetryableError(`AI Core rate limit reached${retryAfter ? `, retry in ${retryAfter}s` : ''}`);
+    }
+    const message = body?.error || `AI Core responded HTTP ${response.status}`;
+    // The server already validated the model output; surface its schema report unchanged.
+    if (body?.issues?.length) return new AiResponseError(message, body.issues);
+    return response.status >= 400 && response.status < 500 ? new NonRetryableError(message) : new Error(message);
+  };
+
+  return {
+    kind: config.kind === 'openai' ? 'openai' : 'gemini',
+    label: config.kind === 'openai' ? `OpenAI-compatible Core (${config.model})` : `Gemini AI Core (${config.model})`,
+
+    analyze: async (metrics, options = {}) => {
+      try {
+        const text = await withRetries(config, async (signal) => {
+          const response = await post('/diagnostics', { metrics: metrics.slice(-config.diagnosticsWindow) }, signal, options);
+          if (!response.ok) throw await describeFailure(response);
+          return response.text();
+        });
 
-    return JSON.parse(text) as AiAnalysisResult;
+        return parseAnalysisResult(text);
 
-  } catch (error) {
-    console.error("AI Analysis Failed:", error);
-    throw error;
-  }
+      } catch (error) {
+        logger.error(`${name} diagnostics request failed: ${(error as Error).message}`, { correlationId: options.correlationId, ...errorContext(error) });
+        throw error;
+      }
+    },
+
+    // Streams the Copilot's reply token by token. `history` holds the earlier turns of the conversation.
+    streamChat: async function* (history, question, context, options = {}) {
+      try {
+        const response = await withTimeout(config.timeoutMs, (signal) => post('/copilot', {
+          question,
+          history: toConversationTurns(history).map(({ role, text }) => ({ role, text })),
+          context
+        }, signal, options));
+        if (!response.ok || !response.body) throw await describeFailure(response);
+
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        while (true) {
+          const { value, done } = await reader.read();
+          if (done) break;
+          const text = decoder.decode(value, { stream: true });
+          if (text) yield text;
+        }
+
+      } catch (error) {
+        logger.error(`${name} Copilot stream failed: ${(error as Error).message}`, { correlationId: options.correlationId, ...errorContext(error) });
+        throw error;
+      }
+    }
+  };
 };
@@ -0,0 +1,305 @@
+import { AlertSeverity, DiagnosticsRun, Incident, IncidentEvent, LogEntry, SystemMetric } from '../types';
+import { AlertEvent } from './alertEngine';
+import { METRICS, getMetricValue } from './metricRegistry';
+
+const STORAGE_KEY = 'cockpit-incidents';
+
+export interface IncidentManagerConfig {
+  timelineLimit: number;
+  historyLimit: number;
+  // Log sources whose entries already reach the timeline as structured events, e.g. ALERT
+  ignoredLogSources: string[];
+}
+
+export type IncidentChange =
+  | { type: 'opened'; incident: Incident }
+  | { type: 'escalated'; incident: Incident }
+  | { type: 'updated'; incident: Incident };
+
+export interface IncidentManager {
+  // Keeps the latest frame per station for the snapshots taken on alert changes and at resolution
+  observeMetric: (metric: SystemMetric) => void;
+  observeAlert: (event: AlertEvent, now?: number) => IncidentChange | null;
+  observeDiagnostics: (run: DiagnosticsRun) => IncidentChange | null;
+  // True when the entry was added to at least one open incident
+  observeLog: (entry: LogEntry, now?: number) => boolean;
+  assign: (incidentId: string, assignee: string, now?: number) => Incident | null;
+  setNotes: (incidentId: string, notes: string) => Incident | null;
+  resolve: (incidentId: string, resolution?: string, now?: number) => Incident | null;
+  getIncidents: (stationId?: string) => Incident[];
+}
+
+const SEVERITY_RANK: Record<AlertSeverity, number> = { warning: 1, critical: 2 };
+
+const formatId = (sequence: number) => `INC-${String(sequence).padStart(4, '0')}`;
+
+// One open incident per station. Alerts and non-optimal diagnostics open it, later signals join it,
+// and only an operator closes it, so a flapping alert does not scatter one outage across several incidents.
+export const createIncidentManager = (config: IncidentManagerConfig, initial: Incident[] = []): IncidentManager => {
+  let incidents = [...initial];
+  const latest = new Map<string, SystemMetric>();
+  let sequence = initial.reduce((max, incident) => Math.max(max, Number(incident.id.replace(/^INC-/, '')) || 0), 0);
+
+  const openFor = (stationId: string) => incidents.find(incident => incident.state === 'open' && incident.stationId === stationId);
+
+  const replace = (next: Incident) => {
+    incidents = incidents.map(incident => (incident.id === next.id ? next : incident));
+    return next;
+  };
+
+  // The opening event always stays, so a long incident still shows what started it.
+  const append = (incident: Incident, event: IncidentEvent): Incident => {
+    const timeline = [...incident.timeline, event];
+    return {
+      ...incident,
+      timeline: timeline.length > config.timelineLimit ? [timeline[0], ...timeline.slice(-(config.timelineLimit - 1))] : timeline,
+    };
+  };
+
+  const snapshot = (stationId: string) => {
+    const frame = latest.get(stationId);
+    return frame ? { metric: frame } : {};
+  };
+
+  const open = (stationId: string, severity: AlertSeverity, trigger: Incident['trigger'], title: string, message: string, now: number): IncidentChange => {
+    const incident: Incident = {
+      id: formatId(++sequence),
+      stationId,
+      title,
+      severity,
+      state: 'open',
+      trigger,
+      openedAt: now,
+      notes: '',
+      alertIds: [],
+      timeline: [{ t: now, kind: 'opened', message, level: severity === 'critical' ? 'error' : 'warning', ...snapshot(stationId) }],
+    };
+    incidents = [incident, ...incidents];
+    return { type: 'opened', incident };
+  };
+
+  // Raises the severity when a stronger signal joins, recording the escalation in the timeline.
+  const escalate = (incident: Incident, severity: AlertSeverity, reason: string, now: number): IncidentChange => {
+    if (SEVERITY_RANK[severity] <= SEVERITY_RANK[incident.severity]) return { type: 'updated', incident };
+    const escalated = append({ ...incident, severity }, { t: now, kind: 'escalated', message: `Escalated to ${severity}: ${reason}`, level: 'error', ...snapshot(incident.stationId) });
+    return { type: 'escalated', incident: escalated };
+  };
+
+  const pruneHistory = () => {
+    const resolved = incidents.filter(incident => incident.state === 'resolved');
+    if (resolved.length <= config.historyLimit) return;
+    const dropped = new Set(resolved.sort((a, b) => (b.resolvedAt ?? 0) - (a.resolvedAt ?? 0)).slice(config.historyLimit).map(incident => incident.id));
+    incidents = incidents.filter(incident => !dropped.has(incident.id));
+  };
+
+  return {
+    observeMetric: (metric) => {
+      latest.set(metric.stationId, metric);
+    },
+
+    observeAlert: ({ type, alert }, now = Date.now()) => {
+      const description = `${alert.label} (${alert.metric} ${alert.value}, threshold ${alert.threshold})`;
+      const current = openFor(alert.stationId);
+
+      if (type === 'resolved') {
+        if (!current || !current.alertIds.includes(alert.id)) return null;
+        const incident = replace(append(current, { t: now, kind: 'alert', message: `Alert resolved: ${description}`, level: 'success', ...snapshot(alert.stationId) }));
+        return { type: 'updated', incident };
+      }
+
+      if (!current) {
+        const change = open(alert.stationId, alert.severity, 'alert', alert.label, `Opened by ${alert.severity} alert: ${description}`, now);
+        return { ...change, incident: replace({ ...change.incident, alertIds: [alert.id] }) };
+      }
+
+      const joined = append({ ...current, alertIds: [...current.alertIds, alert.id] }, {
+        t: now,
+        kind: 'alert',
+        message: `Alert fired: ${description}`,
+        level: alert.severity === 'critical' ? 'error' : 'warning',
+        ...snapshot(alert.stationId),
+      });
+      const change = escalate(joined, alert.severity, alert.label, now);
+      return { ...change, incident: replace(change.incident) };
+    },
+
+    observeDiagnostics: (run) => {
+      // Imported datasets are history, not the station's current state
+      if (run.trigger === 'import') return null;
+      const { result } = run;
+      const current = openFor(run.stationId);
+      const event: IncidentEvent = {
+        t: run.ranAt,
+        kind: 'diagnostics',
+        message: `Diagnostics ${result.status} [${run.trigger}]: ${result.summary}`,
+        level: result.status === 'critical' ? 'error' : result.status === 'warning' ? 'warning' : 'success',
+        diagnostics: result,
+      };
+
+      if (result.status === 'optimal') {
+        if (!current) return null;
+        return { type: 'updated', incident: replace(append(current, event)) };
+      }
+
+      if (!current) {
+        const change = open(run.stationId, result.status, 'diagnostics', result.summary, `Opened by ${result.status} diagnostics [${run.trigger}]`, run.ranAt);
+        return { ...change, incident: replace(append(change.incident, event)) };
+      }
+
+      const change = escalate(append(current, event), result.status, `diagnostics reported ${result.summary}`, run.ranAt);
+      return { ...change, incident: replace(change.incident) };
+    },
+
+    // Warnings and errors for the incident's station, plus station-less ones such as link drops and cache failures.
+    observeLog: (entry, now = Date.now()) => {
+      if (entry.level !== 'warning' && entry.level !== 'error') return false;
+      if (config.ignoredLogSources.includes(entry.source)) return false;
+      const stationId = entry.context?.stationId;
+      const targets = incidents.filter(incident => incident.state === 'open' && (!stationId || incident.stationId === stationId));
+      targets.forEach(incident => replace(append(incident, { t: now, kind: 'log', message: `${entry.source}: ${entry.message}`, level: entry.level })));
+      return targets.length > 0;
+    },
+
+    assign: (incidentId, assignee, now = Date.now()) => {
+      const current = incidents.find(incident => incident.id === incidentId);
+      const name = assignee.trim();
+      if (!current || (current.assignee ?? '') === name) return null;
+      return replace(append({ ...current, assignee: name || undefined }, { t: now, kind: 'assigned', message: name ? `Assigned to ${name}` : 'Unassigned' }));
+    },
+
+    setNotes: (incidentId, notes) => {
+      const current = incidents.find(incident => incident.id === incidentId);
+      if (!current) return null;
+      return replace({ ...current, notes });
+    },
+
+    resolve: (incidentId, resolution, now = Date.now()) => {
+      const current = incidents.find(incident => incident.id === incidentId);
+      if (!current || current.state === 'resolved') return null;
+      const resolved = replace(append(
+        { ...current, state: 'resolved', resolvedAt: now, resolution: resolution?.trim() || undefined },
+        { t: now, kind: 'resolved', message: resolution?.trim() ? `Resolved: ${resolution.trim()}` : 'Resolved', level: 'success', ...snapshot(current.stationId) }
+      ));
+      pruneHistory();
+      return resolved;
+    },
+
+    getIncidents: (stationId) => {
+      const sorted = [...incidents].sort((a, b) =>
+        a.state === b.state ? b.openedAt - a.openedAt : a.state === 'open' ? -1 : 1);
+      return stationId ? sorted.filter(incident => incident.stationId === stationId) : sorted;
+    },
+  };
+};
+
+const isStorageUsable = () => {
+  try {
+    return typeof localStorage !== 'undefined';
+  } catch {
+    // Access throws in some sandboxed iframes
+    return false;
+  }
+};
+
+const isIncident = (value: unknown): value is Incident => {
+  const candidate = value as Partial<Incident> | null;
+  return !!candidate && typeof candidate === 'object'
+    && typeof candidate.id === 'string'
+    && typeof candidate.stationId === 'string'
+    && (candidate.state === 'open' || candidate.state === 'resolved')
+    && Array.isArray(candidate.alertIds)
+    && Array.isArray(candidate.timeline);
+};
+
+// Unreadable entries are dropped rather than failing the whole list.
+export const loadIncidents = (): Incident[] => {
+  if (!isStorageUsable()) return [];
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    return Array.isArray(parsed) ? parsed.filter(isIncident) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveIncidents = (incidents: Incident[]) => {
+  if (!isStorageUsable()) return;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(incidents));
+};
+
+// --- Post-mortem ---
+
+const iso = (epoch: number) => new Date(epoch).toISOString();
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  return [hours > 0 && `${hours}h`, (hours > 0 || minutes > 0) && `${minutes}m`, `${seconds % 60}s`].filter(Boolean).join(' ');
+};
+
+// Keeps free text from breaking out of a table cell.
+const cell = (text: string) => text.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+
+export const buildPostMortem = (incident: Incident): string => {
+  const end = incident.resolvedAt ?? incident.timeline[incident.timeline.length - 1]?.t ?? incident.openedAt;
+  const snapshots = incident.timeline.filter(event => event.metric);
+  const columns = METRICS.filter(definition => snapshots.some(event => getMetricValue(event.metric!, definition.id) !== undefined));
+  const diagnostics = incident.timeline.filter(event => event.diagnostics);
+
+  const lines = [
+    `# Post-mortem ${incident.id}: ${incident.title}`,
+    '',
+    '| Field | Value |',
+    '| --- | --- |',
+    `| Station | ${cell(incident.stationId)} |`,
+    `| Severity | ${incident.severity} |`,
+    `| Status | ${incident.state} |`,
+    `| Opened by | ${incident.trigger === 'alert' ? 'metric threshold alert' : 'AI diagnostics'} |`,
+    `| Opened | ${iso(incident.openedAt)} |`,
+    `| Resolved | ${incident.resolvedAt ? iso(incident.resolvedAt) : 'not yet'} |`,
+    `| Duration | ${formatDuration(end - incident.openedAt)} |`,
+    `| Assignee | ${cell(incident.assignee ?? 'unassigned')} |`,
+    `| Alerts | ${incident.alertIds.length > 0 ? incident.alertIds.join(', ') : 'none'} |`,
+    '',
+    '## Resolution',
+    '',
+    incident.resolution ?? '_Not recorded._',
+    '',
+    '## Notes',
+    '',
+    incident.notes.trim() || '_None._',
+    '',
+    '## Diagnostics',
+    '',
+  ];
+
+  if (diagnostics.length === 0) lines.push('_No diagnostics ran during the incident._', '');
+  for (const event of diagnostics) {
+    const result = event.diagnostics!;
+    lines.push(
+      `### ${iso(event.t)}: ${result.status}`,
+      '',
+      `- Summary: ${result.summary}`,
+      `- Root cause: ${result.rootCause} (confidence ${Math.round(result.confidence * 100)}%)`,
+      `- Recommendation: ${result.recommendation}`,
+      ...result.actions.map(action => `- Action (${action.urgency}): ${action.action}`),
+      ''
+    );
+  }
+
+  lines.push('## Metric Snapshots', '');
+  if (snapshots.length === 0 || columns.length === 0) {
+    lines.push('_No telemetry was captured._', '');
+  } else {
+    lines.push(
+      `| Time | Event | ${columns.map(definition => `${definition.shortLabel} (${definition.unit})`).join(' | ')} |`,
+      `| --- | --- | ${columns.map(() => '---:').join(' | ')} |`,
+      ...snapshots.map(event => `| ${iso(event.t)} | ${event.kind} | ${columns.map(definition => getMetricValue(event.metric!, definition.id) ?? '').join(' | ')} |`),
+      ''
+    );
+  }
+
+  lines.push('## Timeline', '', ...incident.timeline.map(event => `- \`${iso(event.t)}\` **${event.kind}** ${event.message}`), '');
+  return lines.join('\n');
+};
@@ -0,0 +1,120 @@
+import { DashboardLayout, LayoutItem } from '../types';
+import { DEFAULT_LAYOUT, GRID_COLUMNS, GRID_MAX_ROWS, LEGACY_WIDGETS, WIDGET_TYPES } from '../components/widgetRegistry';
+
+const STORAGE_KEY = 'cockpit-layouts';
+const EXPORT_FORMAT = 'cockpit-layout/v1';
+
+export interface LayoutWorkspace {
+  active: string;
+  layouts: DashboardLayout[];
+}
+
+// Thrown when an imported file is not a usable layout.
+export class LayoutImportError extends Error {
+  constructor(message: string, public readonly issues: string[] = []) {
+    super(message);
+    this.name = 'LayoutImportError';
+  }
+}
+
+const clamp = (value: number, max: number) => Math.min(max, Math.max(1, Math.round(value)));
+
+const isStorageUsable = () => {
+  try {
+    return typeof localStorage !== 'undefined';
+  } catch {
+    // Access throws in some sandboxed iframes
+    return false;
+  }
+};
+
+// Renames pre-registry widget types so older saved and exported layouts keep loading.
+const migrateItems = (value: unknown): unknown =>
+  Array.isArray(value)
+    ? value.map(entry => (entry && typeof entry === 'object' && LEGACY_WIDGETS[(entry as LayoutItem).type] ? { ...entry, type: LEGACY_WIDGETS[(entry as LayoutItem).type] } : entry))
+    : value;
+
+export const validateLayoutItems = (value: unknown): string[] => {
+  if (!Array.isArray(value)) return ['`items` must be an array'];
+  const issues: string[] = [];
+  const seen = new Set<string>();
+
+  value.forEach((entry, index) => {
+    const candidate = entry as Partial<LayoutItem> | null;
+    if (!candidate || typeof candidate !== 'object') {
+      issues.push(`items[${index}] is not an object`);
+      return;
+    }
+    if (!WIDGET_TYPES.includes(candidate.type as LayoutItem['type'])) {
+      issues.push(`items[${index}].type "${String(candidate.type)}" is not a known widget`);
+    } else if (seen.has(candidate.type!)) {
+      issues.push(`items[${index}].type "${candidate.type}" appears more than once`);
+    } else {
+      seen.add(candidate.type!);
+    }
+    if (typeof candidate.cols !== 'number' || candidate.cols < 1 || candidate.cols > GRID_COLUMNS) {
+      issues.push(`items[${index}].cols must be between 1 and ${GRID_COLUMNS}`);
+    }
+    if (typeof candidate.rows !== 'number' || candidate.rows < 1 || candidate.rows > GRID_MAX_ROWS) {
+      issues.push(`items[${index}].rows must be between 1 and ${GRID_MAX_ROWS}`);
+    }
+  });
+
+  return issues;
+};
+
+export const resizeItem = (item: LayoutItem, deltaCols: number, deltaRows: number): LayoutItem => ({
+  ...item,
+  cols: clamp(item.cols + deltaCols, GRID_COLUMNS),
+  rows: clamp(item.rows + deltaRows, GRID_MAX_ROWS),
+});
+
+export const loadWorkspace = (): LayoutWorkspace => {
+  const fallback: LayoutWorkspace = { active: DEFAULT_LAYOUT.name, layouts: [DEFAULT_LAYOUT] };
+  if (!isStorageUsable()) return fallback;
+
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null') as LayoutWorkspace | null;
+    if (!stored || !Array.isArray(stored.layouts)) return fallback;
+    // Drop anything an older build or a manual edit left in an unusable state.
+    const layouts = stored.layouts
+      .map(layout => (layout ? { ...layout, items: migrateItems(layout.items) as LayoutItem[] } : layout))
+      .filter(layout => layout && typeof layout.name === 'string' && validateLayoutItems(layout.items).length === 0);
+    if (layouts.length === 0) return fallback;
+    const active = layouts.some(layout => layout.name === stored.active) ? stored.active : layouts[0].name;
+    return { active, layouts };
+  } catch {
+    return fallback;
+  }
+};
+
+export const saveWorkspace = (workspace: LayoutWorkspace) => {
+  if (!isStorageUsable()) return;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(workspace));
+};
+
+export const serializeLayout = (layout: DashboardLayout) =>
+  JSON.stringify({ format: EXPORT_FORMAT, name: layout.name, items: layout.items }, null, 2);
+
+export const parseLayout = (text: string): DashboardLayout => {
+  let data: { format?: unknown; name?: unknown; items?: unknown };
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new LayoutImportError('Layout file is not valid JSON');
+  }
+  if (!data || typeof data !== 'object') throw new LayoutImportError('Layout file must contain a JSON object');
+  data.items = migrateItems(data.items);
+
+  const issues: string[] = [];
+  if (data.format !== undefined && data.format !== EXPORT_FORMAT) issues.push(`Unsupported format "${String(data.format)}"`);
+  if (typeof data.name !== 'string' || !data.name.trim()) issues.push('`name` must be a non-empty string');
+  issues.push(...validateLayoutItems(data.items));
+  if (issues.length > 0) throw new LayoutImportError('Layout file failed validation', issues);
+
+  return {
+    name: (data.name as string).trim(),
+    items: (data.items as LayoutItem[]).map(({ type, cols, rows }) => ({ type, cols, rows })),
+    updatedAt: Date.now(),
+  };
+};
@@ -0,0 +1,18 @@
+import { LogEntry } from '../types';
+
+export const toJsonLines = (logs: LogEntry[]) =>
+  logs.map(log => JSON.stringify(log)).join('\n') + (logs.length > 0 ? '\n' : '');
+
+const describeContext = ({ context }: LogEntry) => {
+  if (!context) return '';
+  const parts = [
+    context.correlationId && `corr=${context.correlationId}`,
+    context.stationId && `station=${context.stationId}`,
+    context.durationMs !== undefined && `${context.durationMs}ms`,
+    context.error && `${context.error.name}: ${context.error.message}`
+  ].filter(Boolean);
+  return parts.length > 0 ? ` (${parts.join(', ')})` : '';
+};
+
+export const toPlainText = (logs: LogEntry[]) =>
+  logs.map(log => `[${log.timestamp}] ${log.level.toUpperCase().padEnd(7)} ${log.source}: ${log.message}${describeContext(log)}`).join('\n') + (logs.length > 0 ? '\n' : '');
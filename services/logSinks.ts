@@ -0,0 +1,89 @@
+import { LogEntry, LoggingConfig } from '../types';
+import { addLogSink, LogSink, withMinLevel } from './logger';
+import { isStorageAvailable, saveLog } from './storageService';
+
+export const createBrowserConsoleSink = (): LogSink => (entry) => {
+  const line = `[${entry.timestamp}] ${entry.source}: ${entry.message}`;
+  const args = entry.context ? [line, entry.context] : [line];
+  switch (entry.level) {
+    case 'error': console.error(...args); break;
+    case 'warning': console.warn(...args); break;
+    default: console.info(...args);
+  }
+};
+
+export const createStorageSink = (): LogSink => (entry) => {
+  if (!isStorageAvailable()) return;
+  saveLog(entry).catch(() => { /* Log persistence is best effort */ });
+};
+
+export interface RemoteSink {
+  sink: LogSink;
+  flush: () => Promise<void>;
+  dispose: () => void;
+}
+
+// Batches entries and POSTs them as `{ logs: LogEntry[] }`. Failed batches stay queued for the next flush.
+export const createRemoteSink = (config: Pick<LoggingConfig, 'remoteUrl' | 'remoteBatchSize' | 'remoteFlushMs' | 'remoteMaxQueue'>): RemoteSink => {
+  let queue: LogEntry[] = [];
+  let inFlight = false;
+
+  const flush = async () => {
+    if (inFlight || queue.length === 0) return;
+    inFlight = true;
+    const batch = queue.slice(0, config.remoteBatchSize);
+    try {
+      const response = await fetch(config.remoteUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ logs: batch }),
+        keepalive: true
+      });
+      if (!response.ok) throw new Error(`Collector responded HTTP ${response.status}`);
+      queue = queue.slice(batch.length);
+    } catch {
+      // Reporting this through the logger would feed the failure straight back into this queue.
+    } finally {
+      inFlight = false;
+    }
+  };
+
+  const interval = setInterval(flush, config.remoteFlushMs);
+
+  // Best-effort delivery of whatever is left when the tab goes away.
+  const handlePageHide = () => {
+    if (queue.length === 0 || typeof navigator.sendBeacon !== 'function') return;
+    const blob = new Blob([JSON.stringify({ logs: queue })], { type: 'application/json' });
+    if (navigator.sendBeacon(config.remoteUrl, blob)) queue = [];
+  };
+  window.addEventListener('pagehide', handlePageHide);
+
+  return {
+    sink: (entry) => {
+      queue.push(entry);
+      if (queue.length > config.remoteMaxQueue) queue = queue.slice(-config.remoteMaxQueue);
+      if (queue.length >= config.remoteBatchSize) flush();
+    },
+    flush,
+    dispose: () => {
+      clearInterval(interval);
+      window.removeEventListener('pagehide', handlePageHide);
+    }
+  };
+};
+
+// Sinks that live for the whole page: devtools, IndexedDB and, when configured, the remote collector.
+// The in-app console registers its own sink from App.
+export const installDefaultSinks = (config: LoggingConfig) => {
+  const removers = [
+    addLogSink(withMinLevel(config.consoleLevel, createBrowserConsoleSink())),
+    addLogSink(createStorageSink())
+  ];
+
+  if (config.remoteUrl) {
+    const remote = createRemoteSink(config);
+    removers.push(addLogSink(withMinLevel(config.remoteLevel, remote.sink)), remote.dispose);
+  }
+
+  return () => removers.forEach(remove => remove());
+};
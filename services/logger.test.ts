@@ -0,0 +1,58 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { LogEntry } from '../types';
+import { systemClock } from './clock';
+import { createSeededRandom } from './random';
+import { addLogSink, createLogger, newCorrelationId, newLogId, setLogEntropy, withMinLevel } from './logger';
+
+const fixedClock = (at: number) => ({ ...systemClock, now: () => at });
+
+describe('log ids', () => {
+  let restore = () => {};
+  afterEach(() => restore());
+
+  it('repeat for the same seed', () => {
+    restore = setLogEntropy({ random: createSeededRandom(9) });
+    const first = [newLogId(), newLogId(), newLogId()];
+    restore();
+    restore = setLogEntropy({ random: createSeededRandom(9) });
+
+    expect([newLogId(), newLogId(), newLogId()]).toEqual(first);
+    expect(new Set(first).size).toBe(3);
+  });
+
+  it('prefix correlation ids with the injected clock', () => {
+    restore = setLogEntropy({ clock: fixedClock(1_700_000_000_000), random: createSeededRandom(1) });
+    expect(newCorrelationId().startsWith(`${(1_700_000_000_000).toString(36)}-`)).toBe(true);
+  });
+
+  it('go back to the previous sources once restored', () => {
+    const seeded = () => {
+      const undo = setLogEntropy({ random: createSeededRandom(5) });
+      const id = newLogId();
+      undo();
+      return id;
+    };
+    restore = setLogEntropy({ random: () => 0.5 });
+    expect(seeded()).toBe(seeded());
+    expect(newLogId()).toBe((0.5).toString(36).substr(2, 9));
+  });
+});
+
+describe('writeLog', () => {
+  it('stamps entries from the injected clock and delivers them to sinks by level', () => {
+    const at = new Date(2024, 0, 1, 13, 4, 5).getTime();
+    const restore = setLogEntropy({ clock: fixedClock(at), random: createSeededRandom(2) });
+    const received: LogEntry[] = [];
+    const removeSink = addLogSink(withMinLevel('warning', entry => received.push(entry)));
+
+    const logger = createLogger('TEST');
+    logger.info('ignored');
+    const entry = logger.warning('Link degraded', { stationId: 'ALPHA' });
+    removeSink();
+    restore();
+
+    expect(entry.timestamp).toBe('13:04:05');
+    expect(received).toEqual([entry]);
+    expect(entry).toMatchObject({ level: 'warning', source: 'TEST', message: 'Link degraded', context: { stationId: 'ALPHA' } });
+  });
+});
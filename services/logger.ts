@@ -0,0 +1,85 @@
+import { LogContext, LogEntry, LogLevel } from '../types';
+import { Clock, systemClock } from './clock';
+
+export type LogSink = (entry: LogEntry) => void;
+
+export interface Logger {
+  log: (level: LogLevel, message: string, context?: LogContext) => LogEntry;
+  info: (message: string, context?: LogContext) => LogEntry;
+  success: (message: string, context?: LogContext) => LogEntry;
+  warning: (message: string, context?: LogContext) => LogEntry;
+  error: (message: string, context?: LogContext) => LogEntry;
+}
+
+const LEVEL_RANK: Record<LogLevel, number> = { info: 0, success: 1, warning: 2, error: 3 };
+
+const sinks = new Set<LogSink>();
+
+let clock: Clock = systemClock;
+let random: () => number = Math.random;
+
+// Swaps the clock and random source behind ids and entry timestamps, e.g. for a seeded, reproducible run.
+// Returns the function that restores the previous ones.
+export const setLogEntropy = (next: { clock?: Clock; random?: () => number }) => {
+  const previous = { clock, random };
+  clock = next.clock ?? clock;
+  random = next.random ?? random;
+  return () => {
+    clock = previous.clock;
+    random = previous.random;
+  };
+};
+
+export const newLogId = () => random().toString(36).substr(2, 9);
+
+export const newCorrelationId = () => `${clock.now().toString(36)}-${newLogId()}`;
+
+// Registers a sink for every subsequent entry. Returns the unregister function.
+export const addLogSink = (sink: LogSink) => {
+  sinks.add(sink);
+  return () => { sinks.delete(sink); };
+};
+
+// Wraps a sink so it only receives entries at or above `minLevel`.
+export const withMinLevel = (minLevel: LogLevel, sink: LogSink): LogSink =>
+  (entry) => {
+    if (LEVEL_RANK[entry.level] >= LEVEL_RANK[minLevel]) sink(entry);
+  };
+
+export const errorContext = (error: unknown): Pick<LogContext, 'error'> => {
+  if (error instanceof Error) return { error: { name: error.name, message: error.message, stack: error.stack } };
+  return { error: { name: 'Error', message: String(error) } };
+};
+
+// Returns a function that reports the milliseconds elapsed since the timer started.
+export const startTimer = () => {
+  const startedAt = performance.now();
+  return () => Math.round(performance.now() - startedAt);
+};
+
+export const writeLog = (source: string, level: LogLevel, message: string, context?: LogContext): LogEntry => {
+  const entry: LogEntry = {
+    id: newLogId(),
+    timestamp: new Date(clock.now()).toLocaleTimeString([], { hour12: false, hour: '2-digit', minute: '2-digit', second: '2-digit' }),
+    level,
+    message,
+    source,
+    ...(context && Object.keys(context).length > 0 ? { context } : {})
+  };
+  for (const sink of sinks) {
+    try {
+      sink(entry);
+    } catch {
+      // A broken sink must not take the caller down or starve the other sinks.
+    }
+  }
+  return entry;
+};
+
+export const createLogger = (source: string): Logger => ({
+  log: (level, message, context) => writeLog(source, level, message, context),
+  info: (message, context) => writeLog(source, 'info', message, context),
+  success: (message, context) => writeLog(source, 'success', message, context),
+  warning: (message, context) => writeLog(source, 'warning', message, context),
+  error: (message, context) => writeLog(source, 'error', message, context),
+});
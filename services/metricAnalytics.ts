@@ -0,0 +1,181 @@
+import { AnalyticsConfig, ForecastPoint, HealthScore, MetricAnalytics, MetricDefinition, MetricForecast, MetricId, MetricTrend, StationAnalytics, SystemMetric } from '../types';
+import { METRICS, classifyValue, getMetricDefinition, getMetricValue } from './metricRegistry';
+import { summarizeMetric } from './metricStats';
+
+const MS_PER_MIN = 60 * 1000;
+
+// Drift across the window smaller than this fraction of the metric's declared range counts as flat.
+const STABLE_RANGE_FRACTION = 0.02;
+
+// Points taken off 100 per metric. One critical metric alone drops a station below the degraded band.
+const PENALTIES = { critical: 55, warning: 25, criticalSoon: 15, warningSoon: 5 };
+
+interface Sample {
+  t: number;
+  v: number;
+}
+
+// A fitted projection: value at a time, slope per millisecond and the band half-width (one sigma) at a time.
+interface Projection {
+  slope: number;
+  at: (t: number) => number;
+  spread: (t: number) => number;
+}
+
+const round = (value: number, digits = 2) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+const samplesOf = (metrics: SystemMetric[], metric: MetricId): Sample[] =>
+  metrics.flatMap(frame => {
+    const v = getMetricValue(frame, metric);
+    return v === undefined ? [] : [{ t: frame.timestamp, v }];
+  });
+
+// Least squares over the timestamps, so gaps and uneven intervals do not skew the rate.
+// Centred on the mean time to keep epoch-sized numbers out of the products.
+const fitLine = (samples: Sample[]): Projection => {
+  const n = samples.length;
+  const meanT = samples.reduce((sum, sample) => sum + sample.t, 0) / n;
+  const meanV = samples.reduce((sum, sample) => sum + sample.v, 0) / n;
+  let sxx = 0;
+  let sxy = 0;
+  samples.forEach(({ t, v }) => {
+    sxx += (t - meanT) ** 2;
+    sxy += (t - meanT) * (v - meanV);
+  });
+  const slope = sxx > 0 ? sxy / sxx : 0;
+  const at = (t: number) => meanV + slope * (t - meanT);
+  const residuals = samples.reduce((sum, { t, v }) => sum + (v - at(t)) ** 2, 0);
+  const sd = Math.sqrt(residuals / Math.max(1, n - 2));
+  // Prediction interval: widens the further the projection runs from the middle of the window
+  return { slope, at, spread: t => sd * Math.sqrt(1 + 1 / n + (sxx > 0 ? (t - meanT) ** 2 / sxx : 0)) };
+};
+
+// Holt's double exponential smoothing: an EWMA of the level plus an EWMA of its step-to-step trend.
+// Reacts faster than the line when a metric changes course inside the window.
+const fitHolt = (samples: Sample[], alpha: number, beta: number): Projection => {
+  let level = samples[0].v;
+  let trend = 0;
+  let squaredErrors = 0;
+  for (const { v } of samples.slice(1)) {
+    squaredErrors += (v - (level + trend)) ** 2;
+    const previous = level;
+    level = alpha * v + (1 - alpha) * (level + trend);
+    trend = beta * (level - previous) + (1 - beta) * trend;
+  }
+  const last = samples[samples.length - 1].t;
+  const stepMs = (last - samples[0].t) / (samples.length - 1);
+  const slope = stepMs > 0 ? trend / stepMs : 0;
+  const sd = Math.sqrt(squaredErrors / Math.max(1, samples.length - 1));
+  return {
+    slope,
+    at: t => level + slope * (t - last),
+    spread: t => sd * Math.sqrt(1 + Math.max(0, (t - last) / (stepMs || 1) - 1) * alpha ** 2),
+  };
+};
+
+const ewmaOf = (values: number[], alpha: number) =>
+  values.slice(1).reduce((level, value) => alpha * value + (1 - alpha) * level, values[0]);
+
+// Milliseconds from `from` until the projection crosses the threshold; 0 when the latest value is already past it.
+const timeToCross = (definition: MetricDefinition, projection: Projection, latest: number, from: number, threshold: number, horizonMs: number) => {
+  const below = definition.thresholds.direction === 'below';
+  if (below ? latest < threshold : latest > threshold) return 0;
+  const heading = below ? projection.slope < 0 : projection.slope > 0;
+  if (!heading) return null;
+  const eta = Math.max(0, (threshold - projection.at(from)) / projection.slope);
+  return eta <= horizonMs ? Math.round(eta) : null;
+};
+
+const forecastMetric = (samples: Sample[], definition: MetricDefinition, config: AnalyticsConfig): MetricForecast | null => {
+  if (samples.length < config.minSamples) return null;
+  const last = samples[samples.length - 1];
+  if (last.t <= samples[0].t) return null;
+
+  const projection = config.method === 'ewma' ? fitHolt(samples, config.ewmaAlpha, config.ewmaBeta) : fitLine(samples);
+  // The registry range starts at the physical floor, e.g. no negative latency
+  const floor = (value: number) => round(Math.max(definition.range[0], value));
+  const points: ForecastPoint[] = [];
+  for (let step = 0; step <= config.forecastPoints; step++) {
+    const timestamp = last.t + Math.round((config.horizonMs * step) / config.forecastPoints);
+    const value = projection.at(timestamp);
+    const band = config.bandSigma * projection.spread(timestamp);
+    points.push({ timestamp, value: floor(value), lower: floor(value - band), upper: floor(value + band) });
+  }
+  return {
+    metric: definition.id,
+    method: config.method,
+    points,
+    warningInMs: timeToCross(definition, projection, last.v, last.t, definition.thresholds.warning, config.horizonMs),
+    criticalInMs: timeToCross(definition, projection, last.v, last.t, definition.thresholds.critical, config.horizonMs),
+  };
+};
+
+export const analyzeMetric = (metrics: SystemMetric[], definition: MetricDefinition, config: AnalyticsConfig): MetricAnalytics | null => {
+  const window = metrics.slice(-config.window);
+  const stats = summarizeMetric(window, definition.id);
+  if (!stats) return null;
+
+  const samples = samplesOf(window, definition.id);
+  const values = samples.map(sample => sample.v);
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const stdDev = Math.sqrt(values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length);
+  const durationMs = samples[samples.length - 1].t - samples[0].t;
+  const slope = samples.length > 1 && durationMs > 0 ? fitLine(samples).slope : 0;
+  // Judged against the declared range rather than per sample, so a steady climb reads as rising at any frame rate
+  const drift = slope * durationMs;
+  const trend: MetricTrend = Math.abs(drift) < (definition.range[1] - definition.range[0]) * STABLE_RANGE_FRACTION ? 'stable' : drift > 0 ? 'rising' : 'falling';
+  return {
+    ...stats,
+    trend,
+    stdDev: round(stdDev),
+    ewma: round(ewmaOf(values, config.ewmaAlpha)),
+    ratePerMin: round(slope * MS_PER_MIN, 3),
+    forecast: forecastMetric(samples, definition, config),
+  };
+};
+
+// e.g. "now", "45s", "4m", "1.5h"
+export const formatEta = (ms: number) => {
+  if (ms <= 0) return 'now';
+  if (ms < MS_PER_MIN) return `${Math.round(ms / 1000)}s`;
+  if (ms < 60 * MS_PER_MIN) return `${Math.round(ms / MS_PER_MIN)}m`;
+  return `${(ms / (60 * MS_PER_MIN)).toFixed(1)}h`;
+};
+
+// Current breaches weigh most; a forecast crossing within the horizon costs a little, so a station degrades before it alerts.
+export const scoreHealth = (analytics: MetricAnalytics[]): HealthScore => {
+  let score = 100;
+  const factors: string[] = [];
+  for (const item of analytics) {
+    const definition = getMetricDefinition(item.metric);
+    if (!definition) continue;
+    const status = classifyValue(definition, item.latest);
+    if (status === 'critical') {
+      score -= PENALTIES.critical;
+      factors.push(`${definition.shortLabel} critical`);
+      continue;
+    }
+    if (status === 'warning') {
+      score -= PENALTIES.warning;
+      factors.push(`${definition.shortLabel} warning`);
+    }
+    const forecast = item.forecast;
+    if (forecast?.criticalInMs != null) {
+      score -= PENALTIES.criticalSoon;
+      factors.push(`${definition.shortLabel} critical in ${formatEta(forecast.criticalInMs)}`);
+    } else if (status === 'nominal' && forecast?.warningInMs != null) {
+      score -= PENALTIES.warningSoon;
+      factors.push(`${definition.shortLabel} warning in ${formatEta(forecast.warningInMs)}`);
+    }
+  }
+  score = Math.max(0, score);
+  return { score, grade: score >= 80 ? 'healthy' : score >= 50 ? 'degraded' : 'critical', factors };
+};
+
+// Registry order; metrics the window never carried are left out.
+export const analyzeStation = (metrics: SystemMetric[], config: AnalyticsConfig, definitions: MetricDefinition[] = METRICS): StationAnalytics => {
+  const analytics = definitions
+    .map(definition => analyzeMetric(metrics, definition, config))
+    .filter((item): item is MetricAnalytics => item !== null);
+  return { metrics: analytics, health: scoreHealth(analytics) };
+};
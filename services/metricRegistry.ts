@@ -0,0 +1,72 @@
+import { AlertRule, AlertSeverity, MetricDefinition, MetricId, NumericMetricKey, SystemMetric } from '../types';
+import { metricRegistry } from '../config';
+
+// The SystemMetric fields themselves; file formats and the API server require all four.
+export const NUMERIC_METRICS: NumericMetricKey[] = ['cpuLoad', 'memoryUsage', 'networkLatency', 'temperature'];
+
+export type MetricStatus = 'nominal' | AlertSeverity;
+
+export const METRICS: MetricDefinition[] = metricRegistry;
+export const METRIC_IDS: MetricId[] = METRICS.map(definition => definition.id);
+
+export const getMetricDefinition = (id: MetricId): MetricDefinition | undefined =>
+  METRICS.find(definition => definition.id === id);
+
+export const isCoreMetric = (id: MetricId): id is NumericMetricKey => NUMERIC_METRICS.includes(id as NumericMetricKey);
+
+// Registry metrics beyond the core four. Frames carry them in `custom`, and file formats treat them as optional.
+export const CUSTOM_METRICS: MetricDefinition[] = METRICS.filter(definition => !isCoreMetric(definition.id));
+
+// Core fields live on the frame itself, everything else in `custom`. Undefined when the frame does not carry it.
+export const getMetricValue = (frame: SystemMetric, id: MetricId): number | undefined => {
+  const value = isCoreMetric(id) ? frame[id] : frame.custom?.[id];
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+};
+
+const isPast = (definition: MetricDefinition, value: number, threshold: number) =>
+  definition.thresholds.direction === 'below' ? value < threshold : value > threshold;
+
+export const classifyValue = (definition: MetricDefinition, value: number): MetricStatus => {
+  if (isPast(definition, value, definition.thresholds.critical)) return 'critical';
+  if (isPast(definition, value, definition.thresholds.warning)) return 'warning';
+  return 'nominal';
+};
+
+const STATUS_COLORS: Record<AlertSeverity, string> = { warning: '#fbbf24', critical: '#f87171' };
+
+// Nominal values keep the metric's own colour; breaches switch to amber or red.
+export const metricColor = (definition: MetricDefinition, value: number | undefined) => {
+  const status = value === undefined ? 'nominal' : classifyValue(definition, value);
+  return status === 'nominal' ? definition.color : STATUS_COLORS[status];
+};
+
+// Position of a value within the declared range, clamped to 0..1 for gauges.
+export const rangeFraction = (definition: MetricDefinition, value: number) => {
+  const [min, max] = definition.range;
+  return max > min ? Math.min(1, Math.max(0, (value - min) / (max - min))) : 0;
+};
+
+// e.g. "Core Utilization: %, 0-100". Tells the model what each statistic means.
+export const describeMetrics = (definitions: MetricDefinition[] = METRICS) =>
+  definitions.map(({ id, description, unit, range, thresholds }) =>
+    `${id} (${description}, ${unit}, range ${range[0]}-${range[1]}, warning ${thresholds.direction === 'below' ? '<' : '>'} ${thresholds.warning}, critical ${thresholds.direction === 'below' ? '<' : '>'} ${thresholds.critical})`
+  ).join('; ');
+
+// Two rules per metric. The critical rule inhibits the warning one, so a station never shows both for one signal.
+export const deriveAlertRules = (definitions: MetricDefinition[]): AlertRule[] =>
+  definitions.flatMap(definition => {
+    const comparator = definition.thresholds.direction === 'below' ? '<' : '>';
+    const rule = (severity: AlertSeverity): AlertRule => ({
+      id: `${definition.id}-${severity}`,
+      label: `${definition.label} ${comparator === '>' ? 'above' : 'below'} ${definition.thresholds[severity]}${definition.unit}`,
+      metric: definition.id,
+      comparator,
+      threshold: definition.thresholds[severity],
+      hysteresis: definition.hysteresis,
+      durationMs: definition.alertAfterMs,
+      severity,
+    });
+    return [{ ...rule('critical'), inhibits: `${definition.id}-warning` }, rule('warning')];
+  });
+
+export const alertRules = deriveAlertRules(METRICS);
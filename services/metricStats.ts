@@ -0,0 +1,110 @@
+import { MetricAnomaly, MetricId, MetricTrend, MetricWindowStats, SystemMetric } from '../types';
+import { METRIC_IDS, getMetricValue } from './metricRegistry';
+
+// Slopes smaller than this fraction of the window's mean per sample count as flat.
+const STABLE_SLOPE_RATIO = 0.005;
+
+const round = (value: number, digits = 2) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+export const linearSlope = (values: number[]) => {
+  const n = values.length;
+  if (n < 2) return 0;
+  const meanX = (n - 1) / 2;
+  const meanY = values.reduce((sum, value) => sum + value, 0) / n;
+  let numerator = 0;
+  let denominator = 0;
+  values.forEach((value, x) => {
+    numerator += (x - meanX) * (value - meanY);
+    denominator += (x - meanX) ** 2;
+  });
+  return numerator / denominator;
+};
+
+export const classifyTrend = (slope: number, mean: number): MetricTrend => {
+  const tolerance = Math.max(Math.abs(mean) * STABLE_SLOPE_RATIO, 0.05);
+  if (slope > tolerance) return 'rising';
+  if (slope < -tolerance) return 'falling';
+  return 'stable';
+};
+
+const valuesOf = (metrics: SystemMetric[], metric: MetricId) =>
+  metrics.map(frame => getMetricValue(frame, metric)).filter((value): value is number => value !== undefined);
+
+export const summarizeMetric = (metrics: SystemMetric[], metric: MetricId): MetricWindowStats | null => {
+  const values = valuesOf(metrics, metric);
+  if (values.length === 0) return null;
+
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const slope = linearSlope(values);
+  return {
+    metric,
+    samples: values.length,
+    min: Math.min(...values),
+    max: Math.max(...values),
+    mean: round(mean),
+    latest: values[values.length - 1],
+    slope: round(slope, 3),
+    trend: classifyTrend(slope, mean)
+  };
+};
+
+// Averages consecutive frames into at most maxPoints buckets so long ranges stay cheap to render.
+export const downsampleMetrics = (metrics: SystemMetric[], maxPoints: number): SystemMetric[] => {
+  if (metrics.length <= maxPoints) return metrics;
+  const bucketSize = Math.ceil(metrics.length / maxPoints);
+  const result: SystemMetric[] = [];
+
+  for (let start = 0; start < metrics.length; start += bucketSize) {
+    const bucket = metrics.slice(start, start + bucketSize);
+    const average = (metric: MetricId) => {
+      const values = valuesOf(bucket, metric);
+      return values.length > 0 ? round(values.reduce((sum, value) => sum + value, 0) / values.length, 1) : undefined;
+    };
+    const custom: Record<string, number> = {};
+    for (const name of Array.from(new Set<string>(bucket.flatMap(frame => Object.keys(frame.custom ?? {}))))) {
+      const value = average(name);
+      if (value !== undefined) custom[name] = value;
+    }
+    result.push({
+      stationId: bucket[0].stationId,
+      timestamp: bucket[bucket.length - 1].timestamp,
+      cpuLoad: average('cpuLoad')!,
+      memoryUsage: average('memoryUsage')!,
+      networkLatency: average('networkLatency')!,
+      temperature: average('temperature')!,
+      ...(Object.keys(custom).length > 0 ? { custom } : {})
+    });
+  }
+  return result;
+};
+
+// Registry order; metrics the window never carried are left out.
+export const summarizeWindow = (metrics: SystemMetric[]): MetricWindowStats[] =>
+  METRIC_IDS
+    .map(metric => summarizeMetric(metrics, metric))
+    .filter((stats): stats is MetricWindowStats => stats !== null);
+
+// Scores the newest frame against the frames before it, so a spike cannot inflate its own baseline.
+export const scoreLatest = (metrics: SystemMetric[], metric: MetricId, minSamples: number): MetricAnomaly | null => {
+  const values = valuesOf(metrics, metric);
+  const baseline = values.slice(0, -1);
+  if (baseline.length < minSamples) return null;
+
+  const value = values[values.length - 1];
+  const mean = baseline.reduce((sum, item) => sum + item, 0) / baseline.length;
+  const stdDev = Math.sqrt(baseline.reduce((sum, item) => sum + (item - mean) ** 2, 0) / baseline.length);
+  // A perfectly flat baseline has no spread to compare against.
+  if (stdDev === 0) return null;
+
+  return { metric, value, mean: round(mean), stdDev: round(stdDev), zScore: round((value - mean) / stdDev) };
+};
+
+export const detectAnomalies = (
+  metrics: SystemMetric[],
+  watched: MetricId[],
+  threshold: number,
+  minSamples: number
+): MetricAnomaly[] =>
+  watched
+    .map(metric => scoreLatest(metrics, metric, minSamples))
+    .filter((anomaly): anomaly is MetricAnomaly => anomaly !== null && Math.abs(anomaly.zScore) >= threshold);
@@ -0,0 +1,82 @@
+import { AiAnalysisResult, AiProvider, AiProviderConfig, MetricFinding, MetricWindowStats, SuggestedAction, SystemMetric } from '../types';
+import { toConversationTurns } from './aiPrompts';
+import { summarizeWindow } from './metricStats';
+import { MetricStatus, classifyValue, getMetricDefinition } from './metricRegistry';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// The registry's warning threshold counts as elevated.
+const ASSESSMENTS: Record<MetricStatus, MetricFinding['assessment']> = { nominal: 'nominal', warning: 'elevated', critical: 'critical' };
+
+const assess = (stats: MetricWindowStats): MetricFinding => {
+  const definition = getMetricDefinition(stats.metric);
+  const assessment = definition ? ASSESSMENTS[classifyValue(definition, stats.latest)] : 'nominal';
+  return {
+    metric: stats.metric,
+    assessment,
+    observation: `Latest ${stats.latest}, mean ${stats.mean}, range ${stats.min}-${stats.max}, ${stats.trend}.`
+  };
+};
+
+// Deterministic rule-of-thumb diagnosis so the same telemetry always yields the same report.
+export const diagnoseLocally = (metrics: SystemMetric[], windowSize: number = metrics.length): AiAnalysisResult => {
+  const stats = summarizeWindow(metrics.slice(-windowSize));
+  if (stats.length === 0) {
+    return {
+      status: 'optimal',
+      summary: 'No telemetry received yet.',
+      recommendation: 'Await incoming data.',
+      findings: [],
+      rootCause: 'none',
+      confidence: 0,
+      actions: []
+    };
+  }
+
+  const findings = stats.map(assess);
+  const worst = findings.find(finding => finding.assessment === 'critical') ?? findings.find(finding => finding.assessment === 'elevated');
+  const status: AiAnalysisResult['status'] = !worst ? 'optimal' : worst.assessment === 'critical' ? 'critical' : 'warning';
+  const worstStats = worst && stats.find(item => item.metric === worst.metric)!;
+
+  const actions: SuggestedAction[] = status === 'critical'
+    ? [{ action: 'Shed non-essential load immediately', urgency: 'immediate' }, { action: 'Engage auxiliary cooling', urgency: 'high' }]
+    : status === 'warning'
+      ? [{ action: 'Defer scheduled batch jobs', urgency: 'medium' }]
+      : [];
+
+  return {
+    status,
+    summary: worst
+      ? `${worst.metric} ${worst.assessment} at ${worstStats!.latest} and ${worstStats!.trend}.`
+      : 'All systems nominal across the analysis window.',
+    recommendation: actions[0]?.action ?? 'No action required.',
+    findings,
+    rootCause: worst ? `Sustained ${worst.metric} load (${worstStats!.trend} trend).` : 'none',
+    // More samples, more certainty; a single frame is a guess.
+    confidence: Math.min(0.95, Math.round((0.4 + stats[0].samples / 100) * 100) / 100),
+    actions
+  };
+};
+
+// Local provider for development and tests: no network, no API key, fixed answers.
+export const createMockProvider = (config: AiProviderConfig): AiProvider => ({
+  kind: 'mock',
+  label: `Local Mock Core (${config.model})`,
+
+  analyze: async (metrics) => {
+    await sleep(300);
+    return diagnoseLocally(metrics, config.diagnosticsWindow);
+  },
+
+  streamChat: async function* (history, question, context) {
+    const diagnosis = diagnoseLocally(context.metrics);
+    const turn = toConversationTurns(history).filter(message => message.role === 'user').length + 1;
+    const reply = `[MOCK #${turn}] Station ${context.stationId} status ${diagnosis.status.toUpperCase()}. ${diagnosis.summary} ` +
+      `Regarding "${question}": ${diagnosis.recommendation}`;
+
+    for (const word of reply.split(/(\s+)/)) {
+      await sleep(20);
+      yield word;
+    }
+  }
+});
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { NetworkStatus, TelemetryConnectionState } from '../types';
+import { resolveNetworkStatus } from './networkStatus';
+
+describe('resolveNetworkStatus', () => {
+  it('is offline whenever the physical link is down or an outage is simulated', () => {
+    const states: TelemetryConnectionState[] = ['idle', 'connecting', 'connected', 'reconnecting', 'disconnected', 'error'];
+    for (const state of states) {
+      expect(resolveNetworkStatus(false, false, state)).toBe(NetworkStatus.OFFLINE);
+      expect(resolveNetworkStatus(true, true, state)).toBe(NetworkStatus.OFFLINE);
+    }
+  });
+
+  it('follows the telemetry source while the uplink is available', () => {
+    expect(resolveNetworkStatus(true, false, 'connected')).toBe(NetworkStatus.ONLINE);
+    expect(resolveNetworkStatus(true, false, 'idle')).toBe(NetworkStatus.RECONNECTING);
+    expect(resolveNetworkStatus(true, false, 'connecting')).toBe(NetworkStatus.RECONNECTING);
+    expect(resolveNetworkStatus(true, false, 'reconnecting')).toBe(NetworkStatus.RECONNECTING);
+    expect(resolveNetworkStatus(true, false, 'disconnected')).toBe(NetworkStatus.OFFLINE);
+    expect(resolveNetworkStatus(true, false, 'error')).toBe(NetworkStatus.OFFLINE);
+  });
+
+  it('walks a carrier loss and recovery through offline, reconnecting and online', () => {
+    const timeline: [boolean, boolean, TelemetryConnectionState][] = [
+      [true, false, 'connected'],
+      // Carrier lost: the cockpit stops the source
+      [false, false, 'connected'],
+      [false, false, 'disconnected'],
+      // Carrier back: the source restarts and has to reconnect first
+      [true, false, 'disconnected'],
+      [true, false, 'connecting'],
+      [true, false, 'connected'],
+      // Operator simulates an outage, then lifts it
+      [true, true, 'connected'],
+      [true, false, 'connected'],
+    ];
+
+    expect(timeline.map(([linkUp, simulated, state]) => resolveNetworkStatus(linkUp, simulated, state))).toEqual([
+      NetworkStatus.ONLINE,
+      NetworkStatus.OFFLINE,
+      NetworkStatus.OFFLINE,
+      NetworkStatus.OFFLINE,
+      NetworkStatus.RECONNECTING,
+      NetworkStatus.ONLINE,
+      NetworkStatus.OFFLINE,
+      NetworkStatus.ONLINE,
+    ]);
+  });
+});
@@ -0,0 +1,10 @@
+import { NetworkStatus, TelemetryConnectionState } from '../types';
+
+// Physical link and manual simulation always win; otherwise the telemetry source decides.
+export const resolveNetworkStatus = (linkUp: boolean, simulatedOffline: boolean, sourceState: TelemetryConnectionState): NetworkStatus => {
+  if (!linkUp || simulatedOffline) return NetworkStatus.OFFLINE;
+  if (sourceState === 'connected') return NetworkStatus.ONLINE;
+  return sourceState === 'connecting' || sourceState === 'reconnecting' || sourceState === 'idle'
+    ? NetworkStatus.RECONNECTING
+    : NetworkStatus.OFFLINE;
+};
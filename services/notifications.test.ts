@@ -0,0 +1,103 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CockpitNotification, NotificationChannelSummary, NotificationConfig } from '../types';
+import { DeliveryRecord, createNotifier } from './notifications';
+
+const CONFIG: NotificationConfig = { baseUrl: '/api/', timeoutMs: 5000, retryDelayMs: 1000, retryMaxDelayMs: 60000, maxAttempts: 3, queueLimit: 10 };
+
+const CHANNELS: NotificationChannelSummary[] = [
+  { name: 'ops', template: 'slack', minSeverity: 'warning' },
+  { name: 'pager', template: 'json', minSeverity: 'critical' },
+];
+
+const NOTIFICATION: CockpitNotification = {
+  id: 'n1', kind: 'alert', severity: 'warning', stationId: 'ALPHA', title: 'CPU Load', message: 'cpuLoad is 91 (threshold 75).',
+  state: 'firing', at: 1_700_000_000_000, dedupKey: 'alert:ALPHA:cpu:fired',
+};
+
+const reply = (status: number, body: object) => new Response(JSON.stringify(body), { status });
+
+// A notifier on the stubbed relay, with every delivery record collected in order.
+const setup = (fetch: ReturnType<typeof vi.fn>) => {
+  const notifier = createNotifier(CONFIG, fetch);
+  const records: DeliveryRecord[] = [];
+  notifier.onDelivery(record => records.push(record));
+  notifier.setChannels(CHANNELS);
+  return { notifier, records, statuses: () => records.map(record => record.status) };
+};
+
+describe('createNotifier', () => {
+  beforeEach(() => vi.useFakeTimers());
+  afterEach(() => vi.useRealTimers());
+
+  it('relays to the channels whose filters pass, with the session token', async () => {
+    const fetch = vi.fn().mockResolvedValue(reply(200, { detail: 'HTTP 200', deduplicated: false }));
+    const { notifier, records } = setup(fetch);
+    notifier.setAuthToken('tok');
+
+    expect(notifier.notify(NOTIFICATION)).toBe(1);
+    await vi.advanceTimersByTimeAsync(0);
+
+    const [url, init] = fetch.mock.calls[0];
+    expect(url).toBe('/api/notify');
+    expect(init.headers.Authorization).toBe('Bearer tok');
+    expect(JSON.parse(init.body)).toEqual({ channel: 'ops', notification: NOTIFICATION });
+    expect(records).toMatchObject([{ status: 'delivered', channel: 'ops', attempt: 1, detail: 'HTTP 200' }]);
+    expect(notifier.pending()).toBe(0);
+  });
+
+  it('reports what the relay already sent for another cockpit as deduplicated', async () => {
+    const { notifier, statuses } = setup(vi.fn().mockResolvedValue(reply(200, { detail: 'already sent', deduplicated: true })));
+
+    notifier.notify(NOTIFICATION);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(statuses()).toEqual(['deduplicated']);
+  });
+
+  it('retries a failed delivery with growing delays and gives up after maxAttempts', async () => {
+    const fetch = vi.fn().mockResolvedValue(reply(502, { error: 'HTTP 503' }));
+    const { notifier, records, statuses } = setup(fetch);
+
+    notifier.notify(NOTIFICATION);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(records[0]).toMatchObject({ status: 'retrying', attempt: 1, detail: 'HTTP 503' });
+    // 1 s, then 2 s, each with up to 20% jitter
+    expect(records[0].retryInMs).toBeGreaterThanOrEqual(800);
+    expect(records[0].retryInMs).toBeLessThanOrEqual(1200);
+
+    await vi.advanceTimersByTimeAsync(1200);
+    expect(records[1].retryInMs).toBeGreaterThanOrEqual(1600);
+    expect(records[1].retryInMs).toBeLessThanOrEqual(2400);
+
+    await vi.advanceTimersByTimeAsync(2400);
+    expect(statuses()).toEqual(['retrying', 'retrying', 'failed']);
+    expect(fetch).toHaveBeenCalledTimes(3);
+    expect(notifier.pending()).toBe(0);
+  });
+
+  it('delivers on the retry once the relay recovers', async () => {
+    const fetch = vi.fn().mockResolvedValueOnce(reply(502, { error: 'HTTP 503' })).mockResolvedValue(reply(200, { detail: 'HTTP 200' }));
+    const { notifier, records, statuses } = setup(fetch);
+
+    notifier.notify(NOTIFICATION);
+    await vi.advanceTimersByTimeAsync(1200);
+    expect(statuses()).toEqual(['retrying', 'delivered']);
+    expect(records[1].attempt).toBe(2);
+  });
+
+  it('holds deliveries while offline and flushes them when the link returns', async () => {
+    const fetch = vi.fn().mockResolvedValue(reply(200, { detail: 'HTTP 200' }));
+    const { notifier, statuses } = setup(fetch);
+
+    notifier.setOnline(false);
+    notifier.notify(NOTIFICATION);
+    notifier.notify({ ...NOTIFICATION, id: 'n2', severity: 'critical', dedupKey: 'alert:ALPHA:cpu-critical:fired' });
+    await vi.advanceTimersByTimeAsync(60000);
+    expect(fetch).not.toHaveBeenCalled();
+    expect(notifier.pending()).toBe(3);
+
+    notifier.setOnline(true);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(fetch).toHaveBeenCalledTimes(3);
+    expect(statuses()).toEqual(['held', 'held', 'held', 'delivered', 'delivered', 'delivered']);
+  });
+});
@@ -0,0 +1,286 @@
+import { CockpitNotification, DiagnosticsRun, NotificationChannel, NotificationChannelSummary, NotificationConfig, NotificationTemplate } from '../types';
+import { AlertEvent } from './alertEngine';
+import { Backoff, createBackoff } from './backoff';
+import { newLogId } from './logger';
+
+const JSON_FORMAT = 'cockpit-notification/v1';
+
+export type DeliveryStatus = 'delivered' | 'retrying' | 'failed' | 'held' | 'deduplicated' | 'dropped';
+
+// One line of the delivery log.
+export interface DeliveryRecord {
+  status: DeliveryStatus;
+  channel: string;
+  notification: CockpitNotification;
+  attempt: number;
+  // HTTP status or error message of the last attempt
+  detail?: string;
+  // Milliseconds until the next attempt, for 'retrying'
+  retryInMs?: number;
+}
+
+export interface Notifier {
+  // Queues the notification for every channel (or just the named one) whose filters it passes. Returns the number queued.
+  notify: (notification: CockpitNotification, channelName?: string) => number;
+  // Deliveries wait while offline; going online sends everything that is waiting straight away.
+  setOnline: (online: boolean) => void;
+  onDelivery: (listener: (record: DeliveryRecord) => void) => () => void;
+  // Channels come from the cockpit API; until they arrive nothing is queued.
+  setChannels: (channels: NotificationChannelSummary[]) => void;
+  // Session token sent with each delivery; the API refuses deliveries from cockpits nobody is signed in to.
+  setAuthToken: (token: string | undefined) => void;
+  getChannels: () => NotificationChannelSummary[];
+  pending: () => number;
+  dispose: () => void;
+}
+
+interface Delivery {
+  channel: NotificationChannelSummary;
+  notification: CockpitNotification;
+  attempts: number;
+  dueAt: number;
+  backoff: Backoff;
+}
+
+const SEVERITY_RANK = { warning: 1, critical: 2 };
+const NOTIFICATION_TEMPLATES: NotificationTemplate[] = ['slack', 'json', 'email'];
+const SLACK_COLORS = { warning: '#fbbf24', critical: '#f87171', resolved: '#4ade80' };
+
+const headline = (notification: CockpitNotification) =>
+  notification.state === 'resolved'
+    ? `[RESOLVED] ${notification.stationId}: ${notification.title}`
+    : `[${notification.severity.toUpperCase()}] ${notification.stationId}: ${notification.title}`;
+
+// Request body for one channel. Slack-compatible targets (Slack, Mattermost, Rocket.Chat) read `text` and `attachments`.
+export const renderPayload = (channel: NotificationChannel, notification: CockpitNotification): unknown => {
+  const at = new Date(notification.at).toISOString();
+  switch (channel.template) {
+    case 'slack':
+      return {
+        text: headline(notification),
+        attachments: [{
+          color: notification.state === 'resolved' ? SLACK_COLORS.resolved : SLACK_COLORS[notification.severity],
+          text: notification.message,
+          fields: [
+            { title: 'Station', value: notification.stationId, short: true },
+            { title: 'Source', value: notification.kind, short: true },
+          ],
+          footer: 'Cockpit PRO',
+          ts: Math.floor(notification.at / 1000),
+        }],
+      };
+    case 'email':
+      return {
+        to: channel.to ?? [],
+        subject: `Cockpit ${headline(notification)}`,
+        text: `${notification.message}\n\nStation: ${notification.stationId}\nSeverity: ${notification.severity}\nSource: ${notification.kind}\nTime: ${at}\n`,
+      };
+    default:
+      return { format: JSON_FORMAT, ...notification, timestamp: at };
+  }
+};
+
+export const passesFilters = (channel: NotificationChannelSummary, notification: CockpitNotification) =>
+  // Test messages always go out so a channel can be checked end to end
+  notification.kind === 'test' || (
+    SEVERITY_RANK[notification.severity] >= SEVERITY_RANK[channel.minSeverity]
+    && (!channel.events || channel.events.includes(notification.kind))
+  );
+
+// NOTIFY_CHANNELS is a JSON array of NotificationChannel; anything unparseable disables notifications.
+export const parseChannels = (value: string | undefined): NotificationChannel[] => {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    const valid = Array.isArray(parsed) && parsed.every(item =>
+      item && typeof item.name === 'string' && typeof item.url === 'string' && NOTIFICATION_TEMPLATES.includes(item.template)
+      && (item.template !== 'email' || (Array.isArray(item.to) && item.to.length > 0)));
+    return valid ? parsed.map(item => ({ ...item, minSeverity: item.minSeverity === 'critical' ? 'critical' : 'warning' })) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const toChannelSummary = ({ name, template, minSeverity, events }: NotificationChannel): NotificationChannelSummary =>
+  ({ name, template, minSeverity, ...(events ? { events } : {}) });
+
+const bearer = (token: string | undefined): Record<string, string> => (token ? { Authorization: `Bearer ${token}` } : {});
+
+// Asks the cockpit API which channels it relays to.
+export const loadNotificationChannels = async (baseUrl: string, token: string | undefined, fetchImpl: typeof fetch = (input, init) => fetch(input, init)): Promise<NotificationChannelSummary[]> => {
+  const response = await fetchImpl(`${baseUrl.replace(/\/+$/, '')}/notify/channels`, { headers: { Accept: 'application/json', ...bearer(token) } });
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+  const body = await response.json() as { channels?: NotificationChannelSummary[] };
+  return Array.isArray(body.channels) ? body.channels : [];
+};
+
+export const fromAlertEvent = ({ type, alert }: AlertEvent, now: number = Date.now()): CockpitNotification => ({
+  id: newLogId(),
+  kind: 'alert',
+  severity: alert.severity,
+  stationId: alert.stationId,
+  title: alert.label,
+  message: type === 'fired'
+    ? `${alert.metric} is ${alert.value} (threshold ${alert.threshold}).`
+    : `${alert.metric} is back to ${alert.value} (threshold ${alert.threshold}).`,
+  state: type === 'fired' ? 'firing' : 'resolved',
+  at: now,
+  // A flapping rule notifies once per window for each direction
+  dedupKey: `alert:${alert.stationId}:${alert.ruleId}:${type}`,
+});
+
+// Optimal reports and analyses of imported data are not worth waking anyone for.
+export const fromDiagnosticsRun = (run: DiagnosticsRun): CockpitNotification | null => {
+  const { result } = run;
+  if (run.trigger === 'import' || result.status === 'optimal') return null;
+  return {
+    id: newLogId(),
+    kind: 'diagnostics',
+    severity: result.status,
+    stationId: run.stationId,
+    title: result.summary,
+    message: `Root cause: ${result.rootCause} (confidence ${Math.round(result.confidence * 100)}%). Recommendation: ${result.recommendation}`,
+    at: run.ranAt,
+    dedupKey: `diagnostics:${run.stationId}:${result.status}`,
+  };
+};
+
+export const createNotifier = (config: NotificationConfig, fetchImpl: typeof fetch = (input, init) => fetch(input, init)): Notifier => {
+  const listeners = new Set<(record: DeliveryRecord) => void>();
+  const relayUrl = `${config.baseUrl.replace(/\/+$/, '')}/notify`;
+  let channels: NotificationChannelSummary[] = [];
+  let authToken: string | undefined;
+  let queue: Delivery[] = [];
+  let online = true;
+  let sending = false;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const emit = (delivery: Delivery, status: DeliveryStatus, extra: Partial<DeliveryRecord> = {}) => {
+    const record: DeliveryRecord = { status, channel: delivery.channel.name, notification: delivery.notification, attempt: delivery.attempts, ...extra };
+    listeners.forEach(listener => listener(record));
+  };
+
+  const schedule = () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+    if (!online || sending || queue.length === 0) return;
+    const dueAt = Math.min(...queue.map(delivery => delivery.dueAt));
+    timer = setTimeout(pump, Math.max(0, dueAt - Date.now()));
+  };
+
+  // The cockpit API renders the payload and posts it to the channel's webhook; its answer carries the webhook's status.
+  // It also drops what another cockpit already sent, so every open tab can notify without doubling up.
+  const send = async ({ channel, notification }: Delivery): Promise<{ detail: string; deduplicated: boolean }> => {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), config.timeoutMs);
+    try {
+      const response = await fetchImpl(relayUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...bearer(authToken) },
+        body: JSON.stringify({ channel: channel.name, notification }),
+        signal: controller.signal,
+      });
+      const body = await response.json().catch(() => null) as { detail?: string; deduplicated?: boolean; error?: string } | null;
+      if (!response.ok) throw new Error(body?.error || `HTTP ${response.status}`);
+      return { detail: body?.detail || `HTTP ${response.status}`, deduplicated: body?.deduplicated === true };
+    } catch (err) {
+      throw controller.signal.aborted ? new Error(`no response within ${config.timeoutMs}ms`) : err;
+    } finally {
+      clearTimeout(timeout);
+    }
+  };
+
+  const attempt = async (delivery: Delivery) => {
+    delivery.attempts++;
+    try {
+      const { detail, deduplicated } = await send(delivery);
+      queue = queue.filter(item => item !== delivery);
+      emit(delivery, deduplicated ? 'deduplicated' : 'delivered', { detail });
+    } catch (err) {
+      const detail = (err as Error).message;
+      // The link dropped while sending; the attempt is repeated once it is back rather than counted
+      if (!online) {
+        delivery.attempts--;
+        return;
+      }
+      if (delivery.attempts >= config.maxAttempts) {
+        queue = queue.filter(item => item !== delivery);
+        emit(delivery, 'failed', { detail });
+        return;
+      }
+      const retryInMs = delivery.backoff.next();
+      delivery.dueAt = Date.now() + retryInMs;
+      emit(delivery, 'retrying', { detail, retryInMs });
+    }
+  };
+
+  // Sends one delivery at a time so a slow endpoint cannot pile up parallel requests.
+  const pump = async () => {
+    timer = null;
+    if (sending || !online) return;
+    sending = true;
+    try {
+      for (const delivery of queue.filter(item => item.dueAt <= Date.now())) {
+        if (!online) break;
+        await attempt(delivery);
+      }
+    } finally {
+      sending = false;
+      schedule();
+    }
+  };
+
+  return {
+    notify: (notification, channelName) => {
+      const now = Date.now();
+      let queued = 0;
+      for (const channel of channels) {
+        if ((channelName && channel.name !== channelName) || !passesFilters(channel, notification)) continue;
+        const delivery: Delivery = {
+          channel,
+          notification,
+          attempts: 0,
+          dueAt: now,
+          backoff: createBackoff({ baseMs: config.retryDelayMs, maxMs: config.retryMaxDelayMs }),
+        };
+
+        queue.push(delivery);
+        queued++;
+        if (!online) emit(delivery, 'held');
+        if (queue.length > config.queueLimit) {
+          const [dropped] = queue.splice(0, 1);
+          emit(dropped, 'dropped');
+        }
+      }
+      if (queued > 0) schedule();
+      return queued;
+    },
+
+    setOnline: (next) => {
+      if (online === next) return;
+      online = next;
+      if (online) {
+        const now = Date.now();
+        queue.forEach(delivery => { delivery.dueAt = Math.min(delivery.dueAt, now); });
+      }
+      schedule();
+    },
+
+    onDelivery: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+
+    setChannels: (next) => { channels = next; },
+    setAuthToken: (token) => { authToken = token; },
+    getChannels: () => channels,
+    pending: () => queue.length,
+
+    dispose: () => {
+      if (timer) clearTimeout(timer);
+      timer = null;
+      queue = [];
+      listeners.clear();
+    },
+  };
+};
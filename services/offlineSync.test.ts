@@ -0,0 +1,82 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import { getSyncStatus, queueCacheRefresh, refreshCacheNow, replayQueueManually } from './offlineSync';
+
+// Stands in for public/sw.js: answers every message on the reply port with `reply`.
+const installWorker = (reply: object) => {
+  const postMessage = vi.fn((_message: { type: string }, [port]: MessagePort[]) => port.postMessage(reply));
+  Object.defineProperty(navigator, 'serviceWorker', {
+    configurable: true,
+    value: {
+      controller: {},
+      ready: Promise.resolve({ active: { postMessage } }),
+    },
+  });
+  return postMessage;
+};
+
+// An IndexedDB whose every open fails, e.g. private browsing or a full disk.
+const brokenIndexedDb = () => ({
+  open: () => {
+    const request: { error: DOMException; onerror?: () => void } = { error: new DOMException('The quota has been exceeded.', 'QuotaExceededError') };
+    queueMicrotask(() => request.onerror?.());
+    return request;
+  },
+});
+
+describe('offline cache sync', () => {
+  beforeEach(() => {
+    vi.stubGlobal('indexedDB', new IDBFactory());
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    Reflect.deleteProperty(navigator, 'serviceWorker');
+  });
+
+  it('queues refreshes while offline and drains them on reconnect without a worker', async () => {
+    await queueCacheRefresh('manual');
+    const queued = await queueCacheRefresh('manual');
+    expect(queued).toEqual({ depth: 2, backgroundSync: false });
+
+    const replay = await replayQueueManually();
+    expect(replay).toEqual({ replayed: 2, notified: false });
+    const status = await getSyncStatus();
+    expect(status.queueDepth).toBe(0);
+    expect(status.lastSync).not.toBeNull();
+  });
+
+  it('reports the worker error when a refresh fails and leaves the last sync untouched', async () => {
+    const postMessage = installWorker({ ok: false, error: 'Precache failed: 404 /index.html' });
+
+    await expect(refreshCacheNow()).rejects.toThrow('Precache failed: 404 /index.html');
+    expect(postMessage).toHaveBeenCalledWith({ type: 'REFRESH_CACHE' }, expect.any(Array));
+    expect((await getSyncStatus()).lastSync).toBeNull();
+  });
+
+  it('falls back to a generic message when the worker gives no reason', async () => {
+    installWorker({ ok: false });
+    await expect(refreshCacheNow()).rejects.toThrow('Service worker refresh failed');
+  });
+
+  it('keeps the queue when the worker cannot replay it', async () => {
+    await queueCacheRefresh('manual');
+    installWorker({ ok: false, error: 'Network still unreachable' });
+
+    await expect(replayQueueManually()).rejects.toThrow('Network still unreachable');
+    expect((await getSyncStatus()).queueDepth).toBe(1);
+  });
+
+  it('rejects queueing and refreshing when IndexedDB is unavailable', async () => {
+    vi.stubGlobal('indexedDB', brokenIndexedDb());
+
+    await expect(queueCacheRefresh('manual')).rejects.toThrow('The quota has been exceeded.');
+    await expect(refreshCacheNow()).rejects.toThrow('The quota has been exceeded.');
+  });
+
+  it('skips the worker round trip when nothing is queued', async () => {
+    const postMessage = installWorker({ ok: true, replayed: 0 });
+    expect(await replayQueueManually()).toEqual({ replayed: 0, notified: false });
+    expect(postMessage).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,148 @@
+import { SyncStatus } from '../types';
+
+// Must match public/sw.js
+const SYNC_DB_NAME = 'cockpit-sync';
+const SYNC_DB_VERSION = 1;
+const QUEUE_STORE = 'refresh-queue';
+const META_STORE = 'meta';
+const SYNC_TAG = 'cockpit-cache-refresh';
+const SW_URL = '/sw.js';
+
+interface QueuedRefresh {
+  id?: number;
+  requestedAt: number;
+  reason: string;
+}
+
+interface WorkerReply {
+  ok: boolean;
+  error?: string;
+  replayed?: number;
+  files?: number;
+}
+
+export interface SyncCompleteMessage {
+  type: 'SYNC_COMPLETE';
+  replayed: number;
+  syncedAt: number;
+}
+
+// Background Sync is not in lib.dom yet.
+type SyncCapableRegistration = ServiceWorkerRegistration & {
+  sync?: { register: (tag: string) => Promise<void> };
+};
+
+const openSyncDb = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(SYNC_DB_NAME, SYNC_DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(QUEUE_STORE)) db.createObjectStore(QUEUE_STORE, { keyPath: 'id', autoIncrement: true });
+      if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const runRequest = async <T>(storeName: string, mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openSyncDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = fn(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const isServiceWorkerSupported = () => typeof navigator !== 'undefined' && 'serviceWorker' in navigator;
+
+export const registerServiceWorker = async (): Promise<ServiceWorkerRegistration | null> => {
+  // The dev server serves unbundled modules; caching them would fight HMR.
+  if (!isServiceWorkerSupported() || !import.meta.env.PROD) return null;
+  return navigator.serviceWorker.register(SW_URL);
+};
+
+const postToWorker = async (message: { type: string }): Promise<WorkerReply> => {
+  if (!isServiceWorkerSupported()) throw new Error('Service workers are not supported.');
+  const registration = await navigator.serviceWorker.ready;
+  const worker = registration.active;
+  if (!worker) throw new Error('Service worker is not active.');
+
+  return new Promise((resolve) => {
+    const channel = new MessageChannel();
+    channel.port1.onmessage = (event) => resolve(event.data as WorkerReply);
+    worker.postMessage(message, [channel.port2]);
+  });
+};
+
+const hasActiveWorker = () => isServiceWorkerSupported() && !!navigator.serviceWorker.controller;
+
+export const isBackgroundSyncSupported = () =>
+  hasActiveWorker() && typeof window !== 'undefined' && 'SyncManager' in window;
+
+export const getSyncStatus = async (): Promise<SyncStatus> => {
+  const [queueDepth, lastSync] = await Promise.all([
+    runRequest(QUEUE_STORE, 'readonly', store => store.count()),
+    runRequest<number | undefined>(META_STORE, 'readonly', store => store.get('lastSync'))
+  ]);
+  return { queueDepth, lastSync: lastSync ?? null };
+};
+
+const markSynced = (syncedAt: number) =>
+  runRequest(META_STORE, 'readwrite', store => store.put(syncedAt, 'lastSync'));
+
+// Stores the refresh and asks the browser to replay it once connectivity returns.
+export const queueCacheRefresh = async (reason: string): Promise<{ depth: number; backgroundSync: boolean }> => {
+  const entry: QueuedRefresh = { requestedAt: Date.now(), reason };
+  await runRequest(QUEUE_STORE, 'readwrite', store => store.add(entry));
+
+  let backgroundSync = false;
+  if (hasActiveWorker()) {
+    const registration = await navigator.serviceWorker.ready as SyncCapableRegistration;
+    if (registration.sync) {
+      await registration.sync.register(SYNC_TAG);
+      backgroundSync = true;
+    }
+  }
+
+  const { queueDepth } = await getSyncStatus();
+  return { depth: queueDepth, backgroundSync };
+};
+
+// Re-precaches the app shell now. Falls back to a bookkeeping-only refresh when no worker controls the page.
+export const refreshCacheNow = async (): Promise<number> => {
+  if (hasActiveWorker()) {
+    const reply = await postToWorker({ type: 'REFRESH_CACHE' });
+    if (!reply.ok) throw new Error(reply.error || 'Service worker refresh failed');
+  }
+  const syncedAt = Date.now();
+  await markSynced(syncedAt);
+  return syncedAt;
+};
+
+// Used when the browser lacks Background Sync: the page drains the queue itself after reconnecting.
+// `notified` is true when the worker did the replay and will broadcast SYNC_COMPLETE itself.
+export const replayQueueManually = async (): Promise<{ replayed: number; notified: boolean }> => {
+  const { queueDepth } = await getSyncStatus();
+  if (queueDepth === 0) return { replayed: 0, notified: false };
+
+  if (hasActiveWorker()) {
+    const reply = await postToWorker({ type: 'REPLAY_QUEUE' });
+    if (!reply.ok) throw new Error(reply.error || 'Queue replay failed');
+    return { replayed: reply.replayed ?? 0, notified: true };
+  }
+
+  await runRequest(QUEUE_STORE, 'readwrite', store => store.clear());
+  await markSynced(Date.now());
+  return { replayed: queueDepth, notified: false };
+};
+
+export const onSyncComplete = (listener: (message: SyncCompleteMessage) => void) => {
+  if (!isServiceWorkerSupported()) return () => {};
+  const handler = (event: MessageEvent) => {
+    if (event.data?.type === 'SYNC_COMPLETE') listener(event.data as SyncCompleteMessage);
+  };
+  navigator.serviceWorker.addEventListener('message', handler);
+  return () => navigator.serviceWorker.removeEventListener('message', handler);
+};
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { matchesSelector, parseExposition, parseQueryResult, parseSelector } from './prometheus';
+
+describe('parseExposition', () => {
+  it('skips comment, HELP and TYPE lines', () => {
+    const text = [
+      '# HELP node_load1 1m load average.',
+      '# TYPE node_load1 gauge',
+      '# a free-form comment',
+      '',
+      'node_load1 0.42',
+    ].join('\n');
+    expect(parseExposition(text)).toEqual([{ name: 'node_load1', labels: {}, value: 0.42 }]);
+  });
+
+  it('unescapes quotes, backslashes and newlines in label values', () => {
+    const samples = parseExposition('probe_info{job="say \\"hi\\"",path="C:\\\\tmp",note="a\\nb"} 1');
+    expect(samples).toEqual([{ name: 'probe_info', labels: { job: 'say "hi"', path: 'C:\\tmp', note: 'a\nb' }, value: 1 }]);
+  });
+
+  it('keeps a brace or comma inside a quoted label value', () => {
+    expect(parseExposition('up{instance="a,b}c"} 1')[0].labels).toEqual({ instance: 'a,b}c' });
+  });
+
+  it('drops NaN and infinite samples', () => {
+    const text = ['latency NaN', 'latency +Inf', 'latency -Inf', 'latency 12'].join('\n');
+    expect(parseExposition(text).map(sample => sample.value)).toEqual([12]);
+  });
+
+  it('reads millisecond and OpenMetrics second timestamps as epoch milliseconds', () => {
+    const samples = parseExposition(['temp{station="ALPHA"} 41 1700000000000', 'temp{station="BRAVO"} 43 1700000000.5'].join('\n'));
+    expect(samples.map(sample => sample.timestamp)).toEqual([1_700_000_000_000, 1_700_000_000_500]);
+  });
+
+  it('skips malformed lines and keeps the rest', () => {
+    const text = ['temp{station="ALPHA" 41', 'temp{station!="ALPHA"} 41', 'temp', '1abc 3', 'temp 44'].join('\n');
+    expect(parseExposition(text)).toEqual([{ name: 'temp', labels: {}, value: 44 }]);
+  });
+});
+
+describe('parseSelector', () => {
+  it('reads a bare metric name', () => {
+    expect(parseSelector(' node_load1 ')).toEqual({ name: 'node_load1', matchers: [] });
+  });
+
+  it('reads every matcher operator and compiles the regex ones', () => {
+    const selector = parseSelector('http_requests_total{job="api", code!="200", path=~"/v1/.*", method!~"GET|HEAD"}');
+    expect(selector?.name).toBe('http_requests_total');
+    expect(selector?.matchers.map(({ label, op, value }) => [label, op, value])).toEqual([
+      ['job', '=', 'api'], ['code', '!=', '200'], ['path', '=~', '/v1/.*'], ['method', '!~', 'GET|HEAD'],
+    ]);
+
+    const sample = { name: 'http_requests_total', labels: { job: 'api', code: '500', path: '/v1/items', method: 'POST' }, value: 1 };
+    expect(matchesSelector(sample, selector!)).toBe(true);
+    expect(matchesSelector({ ...sample, labels: { ...sample.labels, method: 'GET' } }, selector!)).toBe(false);
+  });
+
+  it('anchors regex matchers to the whole value', () => {
+    const selector = parseSelector('{__name__=~"node_.*"}')!;
+    expect(selector.name).toBe('');
+    expect(matchesSelector({ name: 'node_load1', labels: {}, value: 1 }, selector)).toBe(true);
+    expect(matchesSelector({ name: 'x_node_load1', labels: {}, value: 1 }, selector)).toBe(false);
+  });
+
+  it('returns null for a malformed selector', () => {
+    for (const text of ['', '{', 'up{job="api"', 'up{job=api}', 'up{job~"api"}', 'up{job="api"} extra', 'up[5m]', 'up{path=~"("}']) {
+      expect(parseSelector(text)).toBeNull();
+    }
+  });
+});
+
+describe('parseQueryResult', () => {
+  it('flattens a vector into one point per series', () => {
+    const points = parseQueryResult({
+      resultType: 'vector',
+      result: [
+        { metric: { station: 'ALPHA' }, value: [1700000000.25, '41'] },
+        { metric: { station: 'BRAVO' }, value: [1700000000, '43.5'] },
+      ],
+    });
+    expect(points).toEqual([
+      { labels: { station: 'ALPHA' }, t: 1_700_000_000_250, value: 41 },
+      { labels: { station: 'BRAVO' }, t: 1_700_000_000_000, value: 43.5 },
+    ]);
+  });
+
+  it('flattens a matrix and drops NaN and infinite values', () => {
+    const points = parseQueryResult({
+      resultType: 'matrix',
+      result: [{ metric: { station: 'ALPHA' }, values: [[1, '1'], [2, 'NaN'], [3, '+Inf'], [4, '-Inf'], [5, '5']] }],
+    });
+    expect(points.map(point => [point.t, point.value])).toEqual([[1000, 1], [5000, 5]]);
+  });
+
+  it('reads a scalar and ignores string results', () => {
+    expect(parseQueryResult({ resultType: 'scalar', result: [1700000000, '7'] })).toEqual([{ labels: {}, t: 1_700_000_000_000, value: 7 }]);
+    expect(parseQueryResult({ resultType: 'string', result: [1700000000, 'hello'] })).toEqual([]);
+  });
+
+  it('tolerates missing or malformed series', () => {
+    expect(parseQueryResult({})).toEqual([]);
+    expect(parseQueryResult({ resultType: 'vector', result: [{ value: [1] }, { metric: null, value: [2, '3'] }] }))
+      .toEqual([{ labels: {}, t: 2000, value: 3 }]);
+  });
+});
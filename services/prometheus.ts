@@ -0,0 +1,170 @@
+// Parsers for the two ways the cockpit reads Prometheus data: the HTTP query API and /metrics exposition text.
+
+export interface PromSample {
+  name: string;
+  labels: Record<string, string>;
+  value: number;
+  // Epoch milliseconds, when the exposition line carries one
+  timestamp?: number;
+}
+
+// One labelled point from an instant or range query
+export interface PromPoint {
+  labels: Record<string, string>;
+  // Epoch milliseconds
+  t: number;
+  value: number;
+}
+
+type MatchOp = '=' | '!=' | '=~' | '!~';
+
+interface LabelMatcher {
+  label: string;
+  op: MatchOp;
+  value: string;
+  pattern?: RegExp;
+}
+
+export interface SeriesSelector {
+  // Empty when the selector only has matchers, e.g. `{__name__=~"node_.*"}`
+  name: string;
+  matchers: LabelMatcher[];
+}
+
+const METRIC_NAME = /[a-zA-Z_:][a-zA-Z0-9_:]*/y;
+const LABEL_NAME = /[a-zA-Z_][a-zA-Z0-9_]*/y;
+// Longest operators first so `=~` is not read as `=`
+const MATCH_OPS: MatchOp[] = ['=~', '!~', '!=', '='];
+
+const readName = (pattern: RegExp, text: string, start: number) => {
+  pattern.lastIndex = start;
+  const match = pattern.exec(text);
+  return match ? match[0] : null;
+};
+
+// Reads `{label="value", ...}` from text[start] === '{'. Returns null on malformed input.
+const readMatchers = (text: string, start: number): { matchers: LabelMatcher[]; end: number } | null => {
+  const matchers: LabelMatcher[] = [];
+  let i = start + 1;
+  for (;;) {
+    while (text[i] === ' ' || text[i] === ',') i++;
+    if (i >= text.length) return null;
+    if (text[i] === '}') return { matchers, end: i + 1 };
+
+    const label = readName(LABEL_NAME, text, i);
+    if (!label) return null;
+    i += label.length;
+    while (text[i] === ' ') i++;
+    const op = MATCH_OPS.find(candidate => text.startsWith(candidate, i));
+    if (!op) return null;
+    i += op.length;
+    while (text[i] === ' ') i++;
+    if (text[i] !== '"') return null;
+
+    let value = '';
+    for (i++; i < text.length && text[i] !== '"'; i++) {
+      if (text[i] === '\\' && i + 1 < text.length) {
+        i++;
+        value += text[i] === 'n' ? '\n' : text[i];
+      } else {
+        value += text[i];
+      }
+    }
+    if (i >= text.length) return null;
+    i++;
+    matchers.push({ label, op, value });
+  }
+};
+
+// Epoch seconds (OpenMetrics) or milliseconds (Prometheus text format)
+const toEpochMs = (value: number) => (value < 1e12 ? Math.round(value * 1000) : value);
+
+// Reads Prometheus text format and OpenMetrics. Comments, NaN/Inf samples and malformed lines are skipped.
+export const parseExposition = (text: string): PromSample[] => {
+  const samples: PromSample[] = [];
+
+  for (const rawLine of text.split('\n')) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) continue;
+    const name = readName(METRIC_NAME, line, 0);
+    if (!name) continue;
+
+    let rest = line.slice(name.length);
+    const labels: Record<string, string> = {};
+    if (rest.startsWith('{')) {
+      const parsed = readMatchers(rest, 0);
+      if (!parsed || parsed.matchers.some(matcher => matcher.op !== '=')) continue;
+      parsed.matchers.forEach(matcher => { labels[matcher.label] = matcher.value; });
+      rest = rest.slice(parsed.end);
+    }
+
+    const [valueText, timestampText] = rest.trim().split(/\s+/);
+    const value = Number(valueText);
+    if (!valueText || !Number.isFinite(value)) continue;
+    const sample: PromSample = { name, labels, value };
+    const timestamp = Number(timestampText);
+    if (timestampText && Number.isFinite(timestamp)) sample.timestamp = toEpochMs(timestamp);
+    samples.push(sample);
+  }
+
+  return samples;
+};
+
+// Parses `name`, `name{label="value"}` or `{__name__="name"}` with =, !=, =~ and !~ matchers.
+export const parseSelector = (text: string): SeriesSelector | null => {
+  const trimmed = text.trim();
+  const name = readName(METRIC_NAME, trimmed, 0) ?? '';
+  const rest = trimmed.slice(name.length).trim();
+  if (!rest) return name ? { name, matchers: [] } : null;
+  if (!rest.startsWith('{')) return null;
+
+  const parsed = readMatchers(rest, 0);
+  if (!parsed || parsed.end !== rest.length) return null;
+  try {
+    const matchers = parsed.matchers.map(matcher => (matcher.op === '=~' || matcher.op === '!~')
+      ? { ...matcher, pattern: new RegExp(`^(?:${matcher.value})$`) }
+      : matcher);
+    return { name, matchers };
+  } catch {
+    return null;
+  }
+};
+
+export const matchesSelector = (sample: PromSample, selector: SeriesSelector) =>
+  (!selector.name || sample.name === selector.name) && selector.matchers.every(({ label, op, value, pattern }) => {
+    const actual = label === '__name__' ? sample.name : sample.labels[label] ?? '';
+    switch (op) {
+      case '=': return actual === value;
+      case '!=': return actual !== value;
+      case '=~': return pattern!.test(actual);
+      case '!~': return !pattern!.test(actual);
+    }
+  });
+
+const toPoint = (labels: unknown, pair: unknown): PromPoint | null => {
+  if (!Array.isArray(pair) || pair.length < 2) return null;
+  const t = Number(pair[0]);
+  const value = Number(pair[1]);
+  if (!Number.isFinite(t) || !Number.isFinite(value)) return null;
+  return { labels: (labels && typeof labels === 'object' ? labels : {}) as Record<string, string>, t: Math.round(t * 1000), value };
+};
+
+// Flattens the `data` of an /api/v1/query or /api/v1/query_range response. String results carry no samples.
+export const parseQueryResult = (data: { resultType?: string; result?: unknown }): PromPoint[] => {
+  const { resultType, result } = data;
+  if (resultType === 'scalar') {
+    const point = toPoint({}, result);
+    return point ? [point] : [];
+  }
+  if (!Array.isArray(result)) return [];
+
+  const points: PromPoint[] = [];
+  for (const series of result as { metric?: unknown; value?: unknown; values?: unknown }[]) {
+    const pairs = resultType === 'matrix' ? (Array.isArray(series.values) ? series.values : []) : [series.value];
+    for (const pair of pairs) {
+      const point = toPoint(series.metric, pair);
+      if (point) points.push(point);
+    }
+  }
+  return points;
+};
@@ -0,0 +1,38 @@
+export interface RingBuffer<T> {
+  push: (item: T) => void;
+  // Oldest first
+  toArray: () => T[];
+  clear: () => void;
+  readonly size: number;
+  readonly capacity: number;
+}
+
+// Fixed-capacity FIFO. Once full, each push overwrites the oldest entry in place.
+export const createRingBuffer = <T>(capacity: number): RingBuffer<T> => {
+  const slots: (T | undefined)[] = new Array(capacity);
+  let head = 0;
+  let size = 0;
+
+  return {
+    push: (item) => {
+      slots[(head + size) % capacity] = item;
+      if (size < capacity) {
+        size++;
+      } else {
+        head = (head + 1) % capacity;
+      }
+    },
+    toArray: () => {
+      const items: T[] = new Array(size);
+      for (let i = 0; i < size; i++) items[i] = slots[(head + i) % capacity] as T;
+      return items;
+    },
+    clear: () => {
+      slots.fill(undefined);
+      head = 0;
+      size = 0;
+    },
+    get size() { return size; },
+    capacity
+  };
+};
@@ -0,0 +1,127 @@
+import { RecordedEvent, SessionRecording } from '../types';
+import { parseMetricPayload } from './telemetrySource';
+
+const EXPORT_FORMAT = 'cockpit-recording/v1';
+
+type EventOf<K extends RecordedEvent['type']> = Extract<RecordedEvent, { type: K }>;
+
+export interface SessionRecorder {
+  // Seed events describe what the dashboard already showed, so a replay does not open on an empty screen
+  start: (seed?: RecordedEvent[]) => void;
+  record: <K extends RecordedEvent['type']>(type: K, data: EventOf<K>['data'], t?: number) => void;
+  stop: () => SessionRecording | null;
+  isRecording: () => boolean;
+  size: () => number;
+  isFull: () => boolean;
+}
+
+// Thrown when an opened file is not a usable recording.
+export class RecordingImportError extends Error {
+  constructor(message: string, public readonly issues: string[] = []) {
+    super(message);
+    this.name = 'RecordingImportError';
+  }
+}
+
+export const createSessionRecorder = (maxEvents: number): SessionRecorder => {
+  let events: RecordedEvent[] | null = null;
+  let startedAt = 0;
+  let truncated = false;
+
+  return {
+    start: (seed = []) => {
+      events = [...seed];
+      startedAt = Date.now();
+      truncated = false;
+    },
+    record: (type, data, t = Date.now()) => {
+      if (!events) return;
+      if (events.length >= maxEvents) {
+        truncated = true;
+        return;
+      }
+      events.push({ t, type, data } as RecordedEvent);
+    },
+    stop: () => {
+      if (!events) return null;
+      const recording: SessionRecording = {
+        startedAt,
+        endedAt: Date.now(),
+        truncated,
+        events: [...events].sort((a, b) => a.t - b.t),
+      };
+      events = null;
+      return recording;
+    },
+    isRecording: () => events !== null,
+    size: () => events?.length ?? 0,
+    isFull: () => truncated,
+  };
+};
+
+export const serializeRecording = (recording: SessionRecording) =>
+  JSON.stringify({ format: EXPORT_FORMAT, ...recording });
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+// Normalizes one event, or returns null when it cannot be replayed.
+const parseEvent = (raw: unknown): RecordedEvent | null => {
+  if (!isObject(raw) || typeof raw.t !== 'number' || !Number.isFinite(raw.t)) return null;
+  const { t, data } = raw;
+
+  switch (raw.type) {
+    case 'metric': {
+      const [metric] = parseMetricPayload(data);
+      return metric ? { t, type: 'metric', data: metric } : null;
+    }
+    case 'log':
+      return isObject(data) && typeof data.id === 'string' && typeof data.message === 'string' && typeof data.source === 'string'
+        && ['info', 'warning', 'error', 'success'].includes(data.level as string)
+        ? { t, type: 'log', data: data as unknown as EventOf<'log'>['data'] }
+        : null;
+    case 'alerts':
+      return Array.isArray(data) && data.every(alert => isObject(alert) && typeof alert.id === 'string' && typeof alert.stationId === 'string')
+        ? { t, type: 'alerts', data: data as EventOf<'alerts'>['data'] }
+        : null;
+    case 'diagnostics':
+      return isObject(data) && typeof data.stationId === 'string' && isObject(data.result) && typeof data.result.status === 'string'
+        ? { t, type: 'diagnostics', data: data as unknown as EventOf<'diagnostics'>['data'] }
+        : null;
+    default:
+      return null;
+  }
+};
+
+// Events that cannot be replayed are skipped and counted rather than failing the whole file.
+export const parseRecording = (text: string): { recording: SessionRecording; skipped: number } => {
+  let data: Record<string, unknown>;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new RecordingImportError('Recording file is not valid JSON');
+  }
+  if (!isObject(data)) throw new RecordingImportError('Recording file must contain a JSON object');
+
+  const issues: string[] = [];
+  if (data.format !== EXPORT_FORMAT) issues.push(`Unsupported format "${String(data.format)}"`);
+  if (typeof data.startedAt !== 'number') issues.push('`startedAt` must be an epoch timestamp');
+  if (typeof data.endedAt !== 'number') issues.push('`endedAt` must be an epoch timestamp');
+  else if (typeof data.startedAt === 'number' && data.endedAt < data.startedAt) issues.push('`endedAt` is before `startedAt`');
+  if (!Array.isArray(data.events)) issues.push('`events` must be an array');
+  if (issues.length > 0) throw new RecordingImportError('Recording file failed validation', issues);
+
+  const rawEvents = data.events as unknown[];
+  const events = rawEvents.map(parseEvent).filter((event): event is RecordedEvent => event !== null);
+  if (events.length === 0) throw new RecordingImportError('Recording contains no replayable events');
+
+  return {
+    recording: {
+      startedAt: data.startedAt as number,
+      endedAt: data.endedAt as number,
+      truncated: data.truncated === true,
+      events: events.sort((a, b) => a.t - b.t),
+    },
+    skipped: rawEvents.length - events.length,
+  };
+};
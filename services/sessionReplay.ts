@@ -0,0 +1,93 @@
+import { AiAnalysisResult, Alert, DiagnosticsRun, LogEntry, SessionRecording, SystemMetric } from '../types';
+
+// Everything the dashboard renders, as it stood at one instant of a recording.
+export interface ReplayFrame {
+  at: number;
+  fleetMetrics: Record<string, SystemMetric[]>;
+  lastSeen: Record<string, number>;
+  logs: LogEntry[];
+  alerts: Alert[];
+  aiResults: Record<string, AiAnalysisResult>;
+  diagnostics: Record<string, DiagnosticsRun[]>;
+}
+
+export interface ReplayWindows {
+  // Frames per station, matching the live chart window
+  metrics: number;
+  logs: number;
+  diagnostics: number;
+}
+
+export interface ReplayIndex {
+  recording: SessionRecording;
+  stations: string[];
+  frameAt: (at: number) => ReplayFrame;
+  // Frames for one station received in [from, to], for the chart's history ranges
+  metricsBetween: (stationId: string, from: number, to: number) => SystemMetric[];
+}
+
+interface Stamped<T> {
+  t: number;
+  value: T;
+}
+
+// Number of items with t <= at
+const countUpTo = <T>(items: Stamped<T>[], at: number) => {
+  let low = 0;
+  let high = items.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (items[mid].t <= at) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+};
+
+const lastN = <T>(items: Stamped<T>[], end: number, limit: number) =>
+  items.slice(Math.max(0, end - limit), end).map(item => item.value);
+
+// Splits a recording into per-kind timelines once, so seeking anywhere is a handful of binary searches.
+export const createReplayIndex = (recording: SessionRecording, windows: ReplayWindows): ReplayIndex => {
+  const metrics: Record<string, Stamped<SystemMetric>[]> = {};
+  const diagnostics: Record<string, Stamped<DiagnosticsRun>[]> = {};
+  const logs: Stamped<LogEntry>[] = [];
+  const alerts: Stamped<Alert[]>[] = [];
+
+  for (const event of recording.events) {
+    switch (event.type) {
+      case 'metric': (metrics[event.data.stationId] ??= []).push({ t: event.t, value: event.data }); break;
+      case 'diagnostics': (diagnostics[event.data.stationId] ??= []).push({ t: event.t, value: event.data }); break;
+      case 'log': logs.push({ t: event.t, value: event.data }); break;
+      case 'alerts': alerts.push({ t: event.t, value: event.data }); break;
+    }
+  }
+
+  return {
+    recording,
+    stations: Object.keys(metrics).sort(),
+    frameAt: (at) => {
+      const frame: ReplayFrame = { at, fleetMetrics: {}, lastSeen: {}, logs: [], alerts: [], aiResults: {}, diagnostics: {} };
+
+      for (const [stationId, frames] of Object.entries(metrics)) {
+        const end = countUpTo(frames, at);
+        if (end === 0) continue;
+        frame.fleetMetrics[stationId] = lastN(frames, end, windows.metrics);
+        frame.lastSeen[stationId] = frames[end - 1].t;
+      }
+      for (const [stationId, runs] of Object.entries(diagnostics)) {
+        const end = countUpTo(runs, at);
+        if (end === 0) continue;
+        frame.diagnostics[stationId] = lastN(runs, end, windows.diagnostics);
+        frame.aiResults[stationId] = runs[end - 1].value.result;
+      }
+      frame.logs = lastN(logs, countUpTo(logs, at), windows.logs);
+      const alertCount = countUpTo(alerts, at);
+      frame.alerts = alertCount > 0 ? alerts[alertCount - 1].value : [];
+      return frame;
+    },
+    metricsBetween: (stationId, from, to) => {
+      const frames = metrics[stationId] ?? [];
+      return frames.slice(countUpTo(frames, from - 1), countUpTo(frames, to)).map(item => item.value);
+    },
+  };
+};
@@ -0,0 +1,216 @@
+import { SystemMetric, LogEntry, StorageRetentionPolicy } from '../types';
+import { DEFAULT_STATION_ID } from '../config';
+
+const DB_NAME = 'cockpit-telemetry';
+const DB_VERSION = 3;
+const METRICS_STORE = 'metrics';
+const LOGS_STORE = 'logs';
+
+type StoreName = typeof METRICS_STORE | typeof LOGS_STORE;
+
+interface StoredRecord {
+  key?: number;
+  recordedAt: number;
+}
+
+export type StoredMetric = SystemMetric & StoredRecord;
+export type StoredLog = LogEntry & StoredRecord;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+export const isStorageAvailable = () => typeof indexedDB !== 'undefined';
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!isStorageAvailable()) {
+    return Promise.reject(new Error('IndexedDB is not available in this environment.'));
+  }
+
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        for (const name of [METRICS_STORE, LOGS_STORE]) {
+          if (!db.objectStoreNames.contains(name)) {
+            const store = db.createObjectStore(name, { keyPath: 'key', autoIncrement: true });
+            store.createIndex('recordedAt', 'recordedAt');
+          }
+        }
+
+        // v2: metrics are keyed by station. Frames from v1 belonged to the single default station.
+        const metricsStore = request.transaction!.objectStore(METRICS_STORE);
+        if (!metricsStore.indexNames.contains('stationRecordedAt')) {
+          metricsStore.createIndex('stationRecordedAt', ['stationId', 'recordedAt']);
+        }
+        // v3: timestamps are epoch milliseconds. Older frames carried a locale time string with no date.
+        if (event.oldVersion >= 1 && event.oldVersion < 3) {
+          metricsStore.openCursor().onsuccess = (cursorEvent) => {
+            const cursor = (cursorEvent.target as IDBRequest<IDBCursorWithValue | null>).result;
+            if (!cursor) return;
+            const value = cursor.value;
+            if (!value.stationId || typeof value.timestamp !== 'number') {
+              cursor.update({
+                ...value,
+                stationId: value.stationId || DEFAULT_STATION_ID,
+                timestamp: typeof value.timestamp === 'number' ? value.timestamp : value.recordedAt
+              });
+            }
+            cursor.continue();
+          };
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+
+  return dbPromise;
+};
+
+const putRecord = async <T extends StoredRecord>(storeName: StoreName, record: T): Promise<T> => {
+  const db = await openDatabase();
+  const tx = db.transaction(storeName, 'readwrite');
+  const done = transactionDone(tx);
+  const key = await promisify(tx.objectStore(storeName).add(record));
+  await done;
+  return { ...record, key: key as number };
+};
+
+interface ReadOptions {
+  // Only records strictly older than this epoch
+  before?: number;
+  // Only records at or after this epoch
+  since?: number;
+  // Restrict to one station (metrics store only)
+  stationId?: string;
+}
+
+// Walks the recordedAt index backwards so the newest records are read first.
+const readLatest = async <T extends StoredRecord>(storeName: StoreName, limit: number, { before, since, stationId }: ReadOptions = {}): Promise<T[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(storeName, 'readonly');
+  const store = tx.objectStore(storeName);
+  const records: T[] = [];
+
+  let index: IDBIndex;
+  let range: IDBKeyRange | null;
+  if (stationId !== undefined) {
+    index = store.index('stationRecordedAt');
+    range = IDBKeyRange.bound([stationId, since ?? -Infinity], [stationId, before ?? Infinity], false, before !== undefined);
+  } else {
+    index = store.index('recordedAt');
+    range = IDBKeyRange.bound(since ?? -Infinity, before ?? Infinity, false, before !== undefined);
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    const request = index.openCursor(range, 'prev');
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor || records.length >= limit) {
+        resolve();
+        return;
+      }
+      records.push(cursor.value as T);
+      cursor.continue();
+    };
+  });
+
+  return records.reverse();
+};
+
+const prune = async (storeName: StoreName, maxAgeMs: number, maxRecords: number): Promise<number> => {
+  const db = await openDatabase();
+  const tx = db.transaction(storeName, 'readwrite');
+  const done = transactionDone(tx);
+  const store = tx.objectStore(storeName);
+  const cutoff = Date.now() - maxAgeMs;
+  let removed = 0;
+
+  // Age-based expiry
+  await new Promise<void>((resolve, reject) => {
+    const request = store.index('recordedAt').openCursor(IDBKeyRange.upperBound(cutoff, true));
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve();
+        return;
+      }
+      cursor.delete();
+      removed++;
+      cursor.continue();
+    };
+  });
+
+  // Size cap, oldest first
+  const excess = (await promisify(store.count())) - maxRecords;
+  if (excess > 0) {
+    await new Promise<void>((resolve, reject) => {
+      let remaining = excess;
+      const request = store.index('recordedAt').openCursor();
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor || remaining <= 0) {
+          resolve();
+          return;
+        }
+        cursor.delete();
+        removed++;
+        remaining--;
+        cursor.continue();
+      };
+    });
+  }
+
+  await done;
+  return removed;
+};
+
+export const saveMetric = (metric: SystemMetric, recordedAt: number = Date.now()) =>
+  putRecord<StoredMetric>(METRICS_STORE, { ...metric, recordedAt });
+
+export const saveLog = (log: LogEntry, recordedAt: number = Date.now()) =>
+  putRecord<StoredLog>(LOGS_STORE, { ...log, recordedAt });
+
+export const loadRecentMetrics = (limit: number, options?: ReadOptions) => readLatest<StoredMetric>(METRICS_STORE, limit, options);
+
+export const loadRecentLogs = (limit: number, before?: number) => readLatest<StoredLog>(LOGS_STORE, limit, { before });
+
+export const applyRetentionPolicy = async (policy: StorageRetentionPolicy) => {
+  const [metrics, logs] = await Promise.all([
+    prune(METRICS_STORE, policy.maxAgeMs, policy.maxMetrics),
+    prune(LOGS_STORE, policy.maxAgeMs, policy.maxLogs)
+  ]);
+  return { metrics, logs };
+};
+
+export const clearStorage = async () => {
+  const db = await openDatabase();
+  const tx = db.transaction([METRICS_STORE, LOGS_STORE], 'readwrite');
+  const done = transactionDone(tx);
+  tx.objectStore(METRICS_STORE).clear();
+  tx.objectStore(LOGS_STORE).clear();
+  await done;
+};
+
+// Strips storage bookkeeping before handing records back to the UI.
+export const toMetric = ({ key, recordedAt, ...metric }: StoredMetric): SystemMetric => metric;
+export const toLog = ({ key, recordedAt, ...log }: StoredLog): LogEntry => log;
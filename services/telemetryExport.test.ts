@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { SystemMetric } from '../types';
+import { toMetricsCsv, toMetricsJson, toOpenMetrics } from './telemetryExport';
+import { parseMetricsCsv, parseMetricsJson } from './telemetryImport';
+
+const FRAMES: SystemMetric[] = [
+  { stationId: 'ALPHA', timestamp: 1_700_000_000_000, cpuLoad: 41, memoryUsage: 52, networkLatency: 18, temperature: 44, custom: { diskIo: 120.5, powerDraw: 31, radiation: 0.4 } },
+  // Older frames and imports may carry no custom values at all
+  { stationId: 'ALPHA', timestamp: 1_700_000_001_000, cpuLoad: 43, memoryUsage: 53, networkLatency: 21, temperature: 45 },
+];
+
+describe('telemetry export and import', () => {
+  it('round-trips custom metrics through CSV', () => {
+    const csv = toMetricsCsv(FRAMES);
+    expect(csv.split('\n')[0]).toBe('stationId,timestamp,cpuLoad,memoryUsage,networkLatency,temperature,diskIo,powerDraw,radiation');
+    expect(parseMetricsCsv(csv, 100)).toEqual({ metrics: FRAMES, issues: [], rows: 2 });
+  });
+
+  it('round-trips custom metrics through JSON', () => {
+    expect(parseMetricsJson(toMetricsJson(FRAMES), 100)).toEqual({ metrics: FRAMES, issues: [], rows: 2 });
+  });
+
+  it('rejects a custom value that is not a number', () => {
+    const csv = toMetricsCsv(FRAMES.slice(0, 1)).replace(',120.5,', ',fast,');
+    expect(parseMetricsCsv(csv, 100).issues).toEqual([{ row: 1, message: 'diskIo "fast" is not a number' }]);
+  });
+
+  it('exports one OpenMetrics family per custom metric, in base units where there is one', () => {
+    const text = toOpenMetrics(FRAMES);
+    expect(text).toContain('# UNIT cockpit_disk_io_bytes_per_second bytes_per_second');
+    expect(text).toContain('cockpit_disk_io_bytes_per_second{station="ALPHA"} 120500000 1700000000.000');
+    expect(text).toContain('cockpit_power_draw_watts{station="ALPHA"} 31000 1700000000.000');
+    expect(text).toContain('# HELP cockpit_radiation Hull Dosimeter (mSv/h).');
+    expect(text).not.toContain('# UNIT cockpit_radiation');
+    // The frame without custom values has no sample in those families
+    expect(text.match(/^cockpit_radiation\{/gm)).toHaveLength(1);
+    expect(text.match(/^cockpit_cpu_load_percent\{/gm)).toHaveLength(2);
+  });
+});
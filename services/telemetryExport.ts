@@ -0,0 +1,103 @@
+import { MetricDefinition, MetricId, NumericMetricKey, SystemMetric } from '../types';
+import { CUSTOM_METRICS, NUMERIC_METRICS, getMetricValue } from './metricRegistry';
+
+export type MetricsExportFormat = 'csv' | 'json' | 'openmetrics';
+
+export const METRICS_EXPORT_FORMATS: MetricsExportFormat[] = ['csv', 'json', 'openmetrics'];
+
+const JSON_FORMAT = 'cockpit-telemetry/v1';
+
+// Core columns first, then one per custom metric; frames without a custom value leave its cell empty.
+const CSV_METRICS: MetricId[] = [...NUMERIC_METRICS, ...CUSTOM_METRICS.map(definition => definition.id)];
+const CSV_HEADER = ['stationId', 'timestamp', ...CSV_METRICS];
+
+const escapeCsv = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+// One row per frame; timestamps in ISO 8601 so spreadsheets and scripts agree on the instant.
+export const toMetricsCsv = (metrics: SystemMetric[]) =>
+  [
+    CSV_HEADER.join(','),
+    ...metrics.map(metric => [
+      escapeCsv(metric.stationId),
+      new Date(metric.timestamp).toISOString(),
+      ...CSV_METRICS.map(id => String(getMetricValue(metric, id) ?? ''))
+    ].join(','))
+  ].join('\n') + '\n';
+
+// Wrapped in an envelope; the importer also accepts a bare array of frames.
+export const toMetricsJson = (metrics: SystemMetric[]) =>
+  JSON.stringify({
+    format: JSON_FORMAT,
+    exportedAt: new Date().toISOString(),
+    metrics: metrics.map(metric => ({ ...metric, timestamp: new Date(metric.timestamp).toISOString() })),
+  }, null, 2);
+
+interface MetricFamily {
+  name: string;
+  // Empty when the registry unit has no Prometheus base unit
+  unit: string;
+  help: string;
+  // Converts the cockpit value to the family's base unit
+  scale: number;
+}
+
+// Names follow the Prometheus conventions: unit suffix, base units (seconds), percent kept as reported.
+const OPENMETRICS_FAMILIES: Record<NumericMetricKey, MetricFamily> = {
+  cpuLoad: { name: 'cockpit_cpu_load_percent', unit: 'percent', help: 'Core utilization reported by the station.', scale: 1 },
+  memoryUsage: { name: 'cockpit_memory_usage_percent', unit: 'percent', help: 'RAM usage reported by the station.', scale: 1 },
+  networkLatency: { name: 'cockpit_network_latency_seconds', unit: 'seconds', help: 'Uplink round-trip time.', scale: 0.001 },
+  temperature: { name: 'cockpit_temperature_celsius', unit: 'celsius', help: 'Core temperature.', scale: 1 },
+};
+
+// Registry units with a Prometheus base unit. Others are exported as reported, without a unit suffix.
+const BASE_UNITS: Record<string, Pick<MetricFamily, 'unit' | 'scale'>> = {
+  '%': { unit: 'percent', scale: 1 },
+  'ms': { unit: 'seconds', scale: 0.001 },
+  's': { unit: 'seconds', scale: 1 },
+  '°C': { unit: 'celsius', scale: 1 },
+  'MB/s': { unit: 'bytes_per_second', scale: 1e6 },
+  'W': { unit: 'watts', scale: 1 },
+  'kW': { unit: 'watts', scale: 1000 },
+};
+
+// e.g. diskIo in MB/s becomes cockpit_disk_io_bytes_per_second
+const toCustomFamily = (definition: MetricDefinition): MetricFamily => {
+  const stem = `cockpit_${definition.id.replace(/([a-z0-9])([A-Z])/g, '$1_$2').replace(/[^A-Za-z0-9_]/g, '_').toLowerCase()}`;
+  const base = BASE_UNITS[definition.unit];
+  return base
+    ? { name: `${stem}_${base.unit}`, help: `${definition.description}.`, ...base }
+    : { name: stem, unit: '', help: `${definition.description} (${definition.unit}).`, scale: 1 };
+};
+
+const OPENMETRICS_EXPORTED: [MetricId, MetricFamily][] = [
+  ...NUMERIC_METRICS.map((key): [MetricId, MetricFamily] => [key, OPENMETRICS_FAMILIES[key]]),
+  ...CUSTOM_METRICS.map((definition): [MetricId, MetricFamily] => [definition.id, toCustomFamily(definition)]),
+];
+
+const escapeLabel = (value: string) => value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+
+// OpenMetrics text exposition: one gauge family per metric, samples in time order, timestamps in seconds.
+// Frames without a custom value simply have no sample in that family.
+export const toOpenMetrics = (metrics: SystemMetric[]) => {
+  const ordered = [...metrics].sort((a, b) => a.timestamp - b.timestamp);
+  const lines: string[] = [];
+  for (const [id, family] of OPENMETRICS_EXPORTED) {
+    lines.push(`# TYPE ${family.name} gauge`, ...(family.unit ? [`# UNIT ${family.name} ${family.unit}`] : []), `# HELP ${family.name} ${family.help}`);
+    for (const metric of ordered) {
+      const raw = getMetricValue(metric, id);
+      if (raw === undefined) continue;
+      const value = Number((raw * family.scale).toPrecision(12));
+      lines.push(`${family.name}{station="${escapeLabel(metric.stationId)}"} ${value} ${(metric.timestamp / 1000).toFixed(3)}`);
+    }
+  }
+  lines.push('# EOF');
+  return lines.join('\n') + '\n';
+};
+
+export const exportMetrics = (metrics: SystemMetric[], format: MetricsExportFormat) => {
+  switch (format) {
+    case 'json': return { content: toMetricsJson(metrics), type: 'application/json', extension: 'json' };
+    case 'openmetrics': return { content: toOpenMetrics(metrics), type: 'application/openmetrics-text; version=1.0.0; charset=utf-8', extension: 'om.txt' };
+    default: return { content: toMetricsCsv(metrics), type: 'text/csv', extension: 'csv' };
+  }
+};
@@ -0,0 +1,196 @@
+import { NumericMetricKey, SystemMetric } from '../types';
+import { DEFAULT_STATION_ID } from '../config';
+import { CUSTOM_METRICS, NUMERIC_METRICS } from './metricRegistry';
+
+export interface ImportIssue {
+  // 1-based data row (CSV header excluded) or array index + 1 for JSON
+  row: number;
+  message: string;
+}
+
+export interface TelemetryImport {
+  metrics: SystemMetric[];
+  // Rows rejected by validation; accepted rows are imported regardless
+  issues: ImportIssue[];
+  rows: number;
+}
+
+// Thrown when the file as a whole cannot be read, as opposed to individual bad rows.
+export class TelemetryImportError extends Error {
+  constructor(message: string, public readonly issues: string[] = []) {
+    super(message);
+    this.name = 'TelemetryImportError';
+  }
+}
+
+const RANGES: Record<NumericMetricKey, [number, number]> = {
+  cpuLoad: [0, 100],
+  memoryUsage: [0, 100],
+  networkLatency: [0, Number.MAX_SAFE_INTEGER],
+  temperature: [-273, 1000],
+};
+
+// Unlike the live feed, an import never stamps frames on arrival: a bad timestamp rejects the row.
+const parseTimestamp = (value: unknown): number | null => {
+  if (typeof value === 'number' || (typeof value === 'string' && /^\d+(\.\d+)?$/.test(value.trim()))) {
+    const numeric = Number(value);
+    if (!Number.isFinite(numeric) || numeric <= 0) return null;
+    return numeric < 1e12 ? Math.round(numeric * 1000) : numeric;
+  }
+  if (typeof value === 'string' && value.trim()) {
+    const parsed = Date.parse(value);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+};
+
+const validateRecord = (raw: Record<string, unknown>, row: number, issues: ImportIssue[]): SystemMetric | null => {
+  const problems: string[] = [];
+  const stationValue = raw.stationId ?? raw.station;
+  const stationId = typeof stationValue === 'string' && stationValue.trim() ? stationValue.trim() : stationValue === undefined ? DEFAULT_STATION_ID : null;
+  if (stationId === null) problems.push('stationId must be a non-empty string');
+
+  const timestamp = parseTimestamp(raw.timestamp);
+  if (timestamp === null) problems.push(`timestamp "${String(raw.timestamp ?? '')}" is not an epoch or ISO 8601 time`);
+
+  const values = {} as Record<NumericMetricKey, number>;
+  for (const key of NUMERIC_METRICS) {
+    const value = raw[key];
+    const numeric = typeof value === 'string' && value.trim() ? Number(value) : value;
+    if (typeof numeric !== 'number' || !Number.isFinite(numeric)) {
+      problems.push(`${key} "${String(value ?? '')}" is not a number`);
+      continue;
+    }
+    const [min, max] = RANGES[key];
+    if (numeric < min || numeric > max) problems.push(`${key} ${numeric} is outside ${min}..${max === Number.MAX_SAFE_INTEGER ? '∞' : max}`);
+    values[key] = numeric;
+  }
+
+  // Custom metrics are optional: a CSV cell or JSON `custom` entry, left out by older exports and other tools.
+  const nested = raw.custom && typeof raw.custom === 'object' ? raw.custom as Record<string, unknown> : {};
+  const custom: Record<string, number> = {};
+  for (const { id } of CUSTOM_METRICS) {
+    const value = nested[id] ?? raw[id];
+    if (value === undefined || value === null || (typeof value === 'string' && !value.trim())) continue;
+    const numeric = typeof value === 'string' ? Number(value) : value;
+    if (typeof numeric !== 'number' || !Number.isFinite(numeric)) {
+      problems.push(`${id} "${String(value)}" is not a number`);
+      continue;
+    }
+    custom[id] = numeric;
+  }
+
+  if (problems.length > 0) {
+    issues.push(...problems.map(message => ({ row, message })));
+    return null;
+  }
+  return { stationId: stationId!, timestamp: timestamp!, ...values, ...(Object.keys(custom).length > 0 ? { custom } : {}) };
+};
+
+// Quoted fields may contain commas, doubled quotes and line breaks (RFC 4180).
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+};
+
+// `slots` holds one entry per data row read, null where the row was rejected.
+const finish = (slots: (SystemMetric | null)[], issues: ImportIssue[], rows: number, maxRows: number): TelemetryImport => {
+  if (rows > maxRows) issues.push({ row: maxRows + 1, message: `only the first ${maxRows} rows were read; ${rows - maxRows} more were ignored` });
+  // Later duplicates of the same station and instant are rejected rather than silently merged.
+  const seen = new Map<string, number>();
+  const metrics: SystemMetric[] = [];
+  slots.forEach((metric, index) => {
+    if (!metric) return;
+    const key = `${metric.stationId}@${metric.timestamp}`;
+    const first = seen.get(key);
+    if (first !== undefined) {
+      issues.push({ row: index + 1, message: `duplicates row ${first} (${metric.stationId} at ${new Date(metric.timestamp).toISOString()})` });
+      return;
+    }
+    seen.set(key, index + 1);
+    metrics.push(metric);
+  });
+  issues.sort((a, b) => a.row - b.row);
+  return { metrics: metrics.sort((a, b) => a.timestamp - b.timestamp), issues, rows: Math.min(rows, maxRows) };
+};
+
+export const parseMetricsCsv = (text: string, maxRows: number): TelemetryImport => {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) throw new TelemetryImportError('CSV file is empty');
+
+  const columns = header.map(name => name.trim());
+  const missing = ['timestamp', ...NUMERIC_METRICS].filter(name => !columns.includes(name));
+  if (missing.length > 0) throw new TelemetryImportError('CSV header is missing required columns', missing.map(name => `missing column "${name}"`));
+
+  const issues: ImportIssue[] = [];
+  const slots: (SystemMetric | null)[] = rows.slice(0, maxRows).map((cells, index) => {
+    if (cells.length !== columns.length) {
+      issues.push({ row: index + 1, message: `has ${cells.length} fields, expected ${columns.length}` });
+      return null;
+    }
+    return validateRecord(Object.fromEntries(columns.map((name, column) => [name, cells[column]])), index + 1, issues);
+  });
+  return finish(slots, issues, rows.length, maxRows);
+};
+
+export const parseMetricsJson = (text: string, maxRows: number): TelemetryImport => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new TelemetryImportError('JSON file is not valid JSON');
+  }
+  const items = Array.isArray(data) ? data : (data as { metrics?: unknown } | null)?.metrics;
+  if (!Array.isArray(items)) throw new TelemetryImportError('JSON file must contain an array of frames or an object with a `metrics` array');
+
+  const issues: ImportIssue[] = [];
+  const slots = items.slice(0, maxRows).map((item, index) => {
+    if (!item || typeof item !== 'object' || Array.isArray(item)) {
+      issues.push({ row: index + 1, message: 'is not an object' });
+      return null;
+    }
+    return validateRecord(item as Record<string, unknown>, index + 1, issues);
+  });
+  return finish(slots, issues, items.length, maxRows);
+};
+
+// Picks the parser from the file extension, falling back to sniffing the first character.
+export const parseTelemetryFile = (name: string, text: string, maxRows: number): TelemetryImport => {
+  const lower = name.toLowerCase();
+  const looksJson = lower.endsWith('.json') || (!lower.endsWith('.csv') && /^\s*[[{]/.test(text));
+  return looksJson ? parseMetricsJson(text, maxRows) : parseMetricsCsv(text, maxRows);
+};
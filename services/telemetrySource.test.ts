@@ -0,0 +1,221 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { SystemMetric, TelemetryConnectionState, TelemetrySourceConfig } from '../types';
+import { telemetryConfig } from '../config';
+import { Clock, TimerHandle } from './clock';
+import { createSeededRandom } from './random';
+import { createPollingSource, createPrometheusSource, createSimulatorSource, createWebSocketSource, parseMetricPayload } from './telemetrySource';
+
+const CONFIG: TelemetrySourceConfig = { ...telemetryConfig, kind: 'simulator', url: '', stations: ['ALPHA', 'BRAVO'], intervalMs: 1000 };
+
+// Interval timers that only fire when the test advances time.
+const createManualClock = (start: number) => {
+  let now = start;
+  let nextId = 1;
+  const timers = new Map<number, { callback: () => void; ms: number; due: number }>();
+
+  const clock: Clock & { advance: (ms: number) => void; pending: () => number } = {
+    now: () => now,
+    setInterval: (callback, ms) => {
+      timers.set(nextId, { callback, ms, due: now + ms });
+      return nextId++ as unknown as TimerHandle;
+    },
+    clearInterval: handle => { timers.delete(handle as unknown as number); },
+    advance: (ms) => {
+      const until = now + ms;
+      for (;;) {
+        const due = Array.from(timers.values()).filter(timer => timer.due <= until).sort((a, b) => a.due - b.due)[0];
+        if (!due) break;
+        now = due.due;
+        due.due += due.ms;
+        due.callback();
+      }
+      now = until;
+    },
+    pending: () => timers.size,
+  };
+  return clock;
+};
+
+const record = (seed: number, ticks: number) => {
+  const clock = createManualClock(1_700_000_000_000);
+  const source = createSimulatorSource(CONFIG, { clock, random: createSeededRandom(seed) });
+  const frames: SystemMetric[] = [];
+  source.subscribe(frame => frames.push(frame));
+  source.start();
+  clock.advance(ticks * CONFIG.intervalMs);
+  source.stop();
+  return frames;
+};
+
+describe('createSimulatorSource', () => {
+  it('emits one frame per station on every interval, stamped by the injected clock', () => {
+    const frames = record(7, 3);
+
+    expect(frames).toHaveLength(6);
+    expect(frames.map(frame => frame.stationId)).toEqual(['ALPHA', 'BRAVO', 'ALPHA', 'BRAVO', 'ALPHA', 'BRAVO']);
+    expect(frames.map(frame => frame.timestamp)).toEqual([
+      1_700_000_001_000, 1_700_000_001_000,
+      1_700_000_002_000, 1_700_000_002_000,
+      1_700_000_003_000, 1_700_000_003_000,
+    ]);
+  });
+
+  it('replays the same feed for the same seed', () => {
+    expect(record(42, 20)).toEqual(record(42, 20));
+    expect(record(42, 20)).not.toEqual(record(43, 20));
+  });
+
+  it('keeps every generated value inside its physical bounds', () => {
+    for (const frame of record(3, 200)) {
+      expect(frame.cpuLoad).toBeGreaterThanOrEqual(0);
+      expect(frame.cpuLoad).toBeLessThanOrEqual(100);
+      expect(frame.memoryUsage).toBeGreaterThanOrEqual(0);
+      expect(frame.memoryUsage).toBeLessThanOrEqual(100);
+      expect(frame.temperature).toBeGreaterThanOrEqual(20);
+      expect(frame.temperature).toBeLessThanOrEqual(100);
+      expect(frame.networkLatency).toBeGreaterThanOrEqual(10);
+      expect(frame.networkLatency).toBeLessThan(60);
+    }
+  });
+
+  it('reports connected on start and disconnected on stop, and stops ticking', () => {
+    const clock = createManualClock(0);
+    const source = createSimulatorSource(CONFIG, { clock, random: createSeededRandom(1) });
+    const states: TelemetryConnectionState[] = [];
+    source.onStateChange(state => states.push(state));
+    let frames = 0;
+    source.subscribe(() => frames++);
+
+    source.start();
+    source.start();
+    expect(clock.pending()).toBe(1);
+    clock.advance(1000);
+    source.stop();
+    clock.advance(5000);
+
+    expect(states).toEqual(['connected', 'disconnected']);
+    expect(source.getState()).toBe('disconnected');
+    expect(clock.pending()).toBe(0);
+    expect(frames).toBe(2);
+  });
+});
+
+describe('parseMetricPayload', () => {
+  it('drops malformed entries and normalises timestamps', () => {
+    const frames = parseMetricPayload([
+      { station: 'ALPHA', timestamp: 1_700_000_000, cpuLoad: '12', memoryUsage: 30, networkLatency: 20, temperature: 40 },
+      { stationId: 'BRAVO', cpuLoad: 'n/a', memoryUsage: 30, networkLatency: 20, temperature: 40 },
+      null,
+    ]);
+
+    expect(frames).toEqual([
+      { stationId: 'ALPHA', timestamp: 1_700_000_000_000, cpuLoad: 12, memoryUsage: 30, networkLatency: 20, temperature: 40 },
+    ]);
+  });
+});
+
+const FRAME = { stationId: 'ALPHA', timestamp: 1_700_000_000_000, cpuLoad: 10, memoryUsage: 20, networkLatency: 30, temperature: 40 };
+
+// Records every socket opened; close() only starts the handshake, the test decides when onclose fires.
+class FakeWebSocket {
+  static opened: FakeWebSocket[] = [];
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onerror: (() => void) | null = null;
+  onclose: (() => void) | null = null;
+  closed = false;
+  constructor(public url: string) {
+    FakeWebSocket.opened.push(this);
+  }
+  close() {
+    this.closed = true;
+  }
+}
+
+describe('restarting a network source', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('ignores a websocket that finishes closing after the source restarted', () => {
+    vi.useFakeTimers();
+    FakeWebSocket.opened = [];
+    vi.stubGlobal('WebSocket', FakeWebSocket);
+    const source = createWebSocketSource({ ...CONFIG, kind: 'websocket', url: 'ws://feed' });
+    const frames: SystemMetric[] = [];
+    source.subscribe(frame => frames.push(frame));
+
+    source.start();
+    const [old] = FakeWebSocket.opened;
+    source.stop();
+    source.start();
+    // The old handshake completes late; its handlers were detached, so nothing reconnects
+    old.onclose?.();
+    old.onmessage?.({ data: JSON.stringify(FRAME) });
+    vi.advanceTimersByTime(60000);
+
+    expect(old.closed).toBe(true);
+    expect(FakeWebSocket.opened).toHaveLength(2);
+    expect(frames).toEqual([]);
+    source.stop();
+  });
+
+  it('drops a poll that finished across a restart instead of running two loops', async () => {
+    vi.useFakeTimers();
+    const pending: ((response: Response) => void)[] = [];
+    const fetch = vi.fn(() => new Promise<Response>(resolve => pending.push(resolve)));
+    vi.stubGlobal('fetch', fetch);
+    const source = createPollingSource({ ...CONFIG, kind: 'polling', url: '/feed', intervalMs: 1000 });
+    const frames: SystemMetric[] = [];
+    source.subscribe(frame => frames.push(frame));
+
+    source.start();
+    source.stop();
+    source.start();
+    // The first request had already been answered when stop() aborted it
+    pending[0](new Response(JSON.stringify([FRAME])));
+    pending[1](new Response(JSON.stringify([{ ...FRAME, timestamp: FRAME.timestamp + 1000 }])));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(frames.map(frame => frame.timestamp)).toEqual([FRAME.timestamp + 1000]);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(fetch).toHaveBeenCalledTimes(3);
+    source.stop();
+  });
+
+  it('gives each Prometheus scrape its own signal and drops one that finished across a restart', async () => {
+    vi.useFakeTimers();
+    const pending: ((response: Response) => void)[] = [];
+    const signals: AbortSignal[] = [];
+    const fetch = vi.fn((_url: string, init: RequestInit) => {
+      signals.push(init.signal!);
+      return new Promise<Response>(resolve => pending.push(resolve));
+    });
+    vi.stubGlobal('fetch', fetch);
+    const source = createPrometheusSource({ ...CONFIG, kind: 'scrape', url: '/metrics', intervalMs: 1000 });
+    const frames: SystemMetric[] = [];
+    source.subscribe(frame => frames.push(frame));
+    const exposition = (seconds: number) => [
+      `cockpit_cpu_load_percent{station="ALPHA"} 10 ${seconds}`,
+      `cockpit_memory_usage_percent{station="ALPHA"} 20 ${seconds}`,
+      `cockpit_network_latency_seconds{station="ALPHA"} 0.03 ${seconds}`,
+      `cockpit_temperature_celsius{station="ALPHA"} 40 ${seconds}`,
+    ].join('\n');
+
+    source.start();
+    source.stop();
+    source.start();
+    expect(signals[0].aborted).toBe(true);
+    expect(signals[1].aborted).toBe(false);
+
+    pending[0](new Response(exposition(1_700_000_000)));
+    pending[1](new Response(exposition(1_700_000_001)));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(frames.map(frame => frame.timestamp)).toEqual([1_700_000_001_000]);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(fetch).toHaveBeenCalledTimes(3);
+    source.stop();
+  });
+});
@@ -0,0 +1,556 @@
+import { NumericMetricKey, PrometheusMapping, SystemMetric, TelemetryConnectionState, TelemetrySource, TelemetrySourceConfig, TelemetrySourceKind } from '../types';
+import { DEFAULT_STATION_ID } from '../config';
+import { createLogger } from './logger';
+import { Backoff, createBackoff } from './backoff';
+import { Clock, TimerHandle, systemClock } from './clock';
+import { METRICS, NUMERIC_METRICS, isCoreMetric } from './metricRegistry';
+import { PromPoint, SeriesSelector, matchesSelector, parseExposition, parseQueryResult, parseSelector } from './prometheus';
+
+const logger = createLogger('NET');
+
+type MetricListener = (metric: SystemMetric) => void;
+type StateListener = (state: TelemetryConnectionState, detail?: string) => void;
+
+const toNumber = (value: unknown): number | null => {
+  const parsed = typeof value === 'string' ? Number(value) : value;
+  return typeof parsed === 'number' && Number.isFinite(parsed) ? parsed : null;
+};
+
+// Feeds send epoch seconds, epoch milliseconds or ISO 8601 strings; anything else is stamped on arrival.
+const toEpochMs = (value: unknown): number => {
+  if (typeof value === 'number' && Number.isFinite(value)) return value < 1e12 ? value * 1000 : value;
+  if (typeof value === 'string') {
+    const parsed = Date.parse(value);
+    if (Number.isFinite(parsed)) return parsed;
+  }
+  return Date.now();
+};
+
+// Accepts a single metric object or an array of them from a remote feed. Malformed entries are dropped.
+export const parseMetricPayload = (payload: unknown): SystemMetric[] => {
+  const items = Array.isArray(payload) ? payload : [payload];
+  const result: SystemMetric[] = [];
+
+  for (const item of items) {
+    if (!item || typeof item !== 'object') continue;
+    const raw = item as Record<string, unknown>;
+    const cpuLoad = toNumber(raw.cpuLoad);
+    const memoryUsage = toNumber(raw.memoryUsage);
+    const networkLatency = toNumber(raw.networkLatency);
+    const temperature = toNumber(raw.temperature);
+    if (cpuLoad === null || memoryUsage === null || networkLatency === null || temperature === null) continue;
+
+    const stationId = [raw.stationId, raw.station, raw.host].find(value => typeof value === 'string' && value.length > 0);
+
+    const metric: SystemMetric = {
+      stationId: (stationId as string | undefined) ?? DEFAULT_STATION_ID,
+      timestamp: toEpochMs(raw.timestamp),
+      cpuLoad,
+      memoryUsage,
+      networkLatency,
+      temperature
+    };
+    if (raw.custom && typeof raw.custom === 'object') {
+      const custom = Object.fromEntries(Object.entries(raw.custom as Record<string, unknown>)
+        .map(([name, value]) => [name, toNumber(value)] as const)
+        .filter((entry): entry is readonly [string, number] => entry[1] !== null));
+      if (Object.keys(custom).length > 0) metric.custom = custom;
+    }
+    result.push(metric);
+  }
+
+  return result;
+};
+
+// Shared listener bookkeeping for every adapter (and for wrappers such as the fault injector).
+export const createSourceBase = (kind: TelemetrySourceKind) => {
+  const metricListeners = new Set<MetricListener>();
+  const stateListeners = new Set<StateListener>();
+  let state: TelemetryConnectionState = 'idle';
+  let stateDetail: string | undefined;
+
+  return {
+    emit: (metric: SystemMetric) => metricListeners.forEach(listener => listener(metric)),
+    // Repeats of the same state are only announced when the detail changes, e.g. the next retry attempt.
+    setState: (next: TelemetryConnectionState, detail?: string) => {
+      if (next === state && detail === stateDetail) return;
+      state = next;
+      stateDetail = detail;
+      stateListeners.forEach(listener => listener(next, detail));
+    },
+    source: {
+      kind,
+      subscribe: (listener: MetricListener) => {
+        metricListeners.add(listener);
+        return () => { metricListeners.delete(listener); };
+      },
+      onStateChange: (listener: StateListener) => {
+        stateListeners.add(listener);
+        return () => { stateListeners.delete(listener); };
+      },
+      getState: () => state
+    }
+  };
+};
+
+export const createReconnectBackoff = (config: TelemetrySourceConfig) =>
+  createBackoff({ baseMs: config.reconnectDelayMs, maxMs: config.reconnectMaxDelayMs });
+
+// e.g. "Socket closed by remote; retry 3 in 8.1s"
+export const describeRetry = (reason: string, backoff: Backoff, delayMs: number) =>
+  `${reason}; retry ${backoff.attempts()} in ${(delayMs / 1000).toFixed(1)}s`;
+
+// A fixed clock and seeded random make the simulated feed reproducible frame for frame.
+export interface SimulatorOptions {
+  clock?: Clock;
+  random?: () => number;
+}
+
+export const createSimulatorSource = (config: TelemetrySourceConfig, { clock = systemClock, random = Math.random }: SimulatorOptions = {}): TelemetrySource => {
+  const { emit, setState, source } = createSourceBase('simulator');
+  let interval: TimerHandle | null = null;
+  const stations = config.stations.length > 0 ? config.stations : [DEFAULT_STATION_ID];
+  const last = new Map(stations.map(id => [id, { cpuLoad: 30, memoryUsage: 40, temperature: 45 }]));
+  // Registry metrics beyond the core fields wander within their declared range
+  const extras = METRICS.filter(definition => !isCoreMetric(definition.id));
+  const lastExtras = new Map(stations.map(id => [id, Object.fromEntries(extras.map(({ id: metric, range: [min, max] }) => [metric, min + (max - min) * 0.3]))]));
+
+  const tick = () => {
+    const timestamp = clock.now();
+
+    for (const stationId of stations) {
+      // Simulate random fluctuation
+      const prev = last.get(stationId)!;
+      const newCpu = Math.min(100, Math.max(0, prev.cpuLoad + (random() * 20 - 10)));
+      const newMem = Math.min(100, Math.max(0, prev.memoryUsage + (random() * 10 - 5)));
+      const newTemp = Math.min(100, Math.max(20, prev.temperature + (random() * 5 - 2)));
+      const latency = Math.floor(random() * 50) + 10;
+      const custom: Record<string, number> = {};
+      for (const { id: metric, range: [min, max] } of extras) {
+        const step = (max - min) * 0.04 * (random() * 2 - 1);
+        custom[metric] = Math.round(Math.min(max, Math.max(min, lastExtras.get(stationId)![metric] + step)) * 10) / 10;
+      }
+      lastExtras.set(stationId, custom);
+
+      const metric: SystemMetric = {
+        stationId,
+        timestamp,
+        cpuLoad: Math.round(newCpu),
+        memoryUsage: Math.round(newMem),
+        temperature: Math.round(newTemp),
+        networkLatency: latency,
+        ...(extras.length > 0 ? { custom } : {})
+      };
+      last.set(stationId, metric);
+      emit(metric);
+    }
+  };
+
+  return {
+    ...source,
+    start: () => {
+      if (interval) return;
+      interval = clock.setInterval(tick, config.intervalMs);
+      setState('connected', `Local simulator engaged (${stations.length} station${stations.length === 1 ? '' : 's'})`);
+    },
+    stop: () => {
+      if (!interval) return;
+      clock.clearInterval(interval);
+      interval = null;
+      setState('disconnected');
+    }
+  };
+};
+
+export const createWebSocketSource = (config: TelemetrySourceConfig): TelemetrySource => {
+  const { emit, setState, source } = createSourceBase('websocket');
+  let socket: WebSocket | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let active = false;
+  const backoff = createReconnectBackoff(config);
+
+  const connect = () => {
+    setState('connecting', config.url);
+    try {
+      socket = new WebSocket(config.url);
+    } catch (error) {
+      setState('error', (error as Error).message);
+      scheduleReconnect((error as Error).message);
+      return;
+    }
+
+    socket.onopen = () => {
+      backoff.reset();
+      setState('connected', config.url);
+    };
+    socket.onmessage = (event) => {
+      try {
+        parseMetricPayload(JSON.parse(event.data)).forEach(emit);
+      } catch {
+        // Ignore frames that are not telemetry JSON
+      }
+    };
+    socket.onerror = () => setState('error', 'WebSocket transport error');
+    socket.onclose = () => {
+      socket = null;
+      if (!active) return;
+      scheduleReconnect('Socket closed by remote');
+    };
+  };
+
+  // Handlers come off before close: the close handshake can finish after a restart, and the old
+  // socket's onclose would then drop the new socket and open a second connection.
+  const release = () => {
+    if (!socket) return;
+    socket.onopen = socket.onmessage = socket.onerror = socket.onclose = null;
+    socket.close();
+    socket = null;
+  };
+
+  const scheduleReconnect = (reason: string) => {
+    if (!active || retryTimer) return;
+    const delay = backoff.next();
+    setState('reconnecting', describeRetry(reason, backoff, delay));
+    retryTimer = setTimeout(() => {
+      retryTimer = null;
+      if (active) connect();
+    }, delay);
+  };
+
+  return {
+    ...source,
+    start: () => {
+      if (active) return;
+      active = true;
+      connect();
+    },
+    stop: () => {
+      active = false;
+      if (retryTimer) clearTimeout(retryTimer);
+      retryTimer = null;
+      backoff.reset();
+      release();
+      setState('disconnected');
+    }
+  };
+};
+
+export const createSseSource = (config: TelemetrySourceConfig): TelemetrySource => {
+  const { emit, setState, source } = createSourceBase('sse');
+  let events: EventSource | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  const backoff = createReconnectBackoff(config);
+
+  const open = () => {
+    setState('connecting', config.url);
+    events = new EventSource(config.url);
+    events.onopen = () => {
+      backoff.reset();
+      setState('connected', config.url);
+    };
+    events.onmessage = (event) => {
+      try {
+        parseMetricPayload(JSON.parse(event.data)).forEach(emit);
+      } catch {
+        // Ignore events that are not telemetry JSON
+      }
+    };
+    // EventSource retries a dropped stream on its own; once it gives up we reopen with backoff.
+    events.onerror = () => {
+      if (events?.readyState !== EventSource.CLOSED) {
+        setState('reconnecting', 'Event stream interrupted');
+        return;
+      }
+      events.close();
+      events = null;
+      const delay = backoff.next();
+      setState('reconnecting', describeRetry('Event stream closed', backoff, delay));
+      retryTimer = setTimeout(() => {
+        retryTimer = null;
+        open();
+      }, delay);
+    };
+  };
+
+  return {
+    ...source,
+    start: () => {
+      if (events || retryTimer) return;
+      open();
+    },
+    stop: () => {
+      if (retryTimer) clearTimeout(retryTimer);
+      retryTimer = null;
+      backoff.reset();
+      events?.close();
+      events = null;
+      setState('disconnected');
+    }
+  };
+};
+
+export const createPollingSource = (config: TelemetrySourceConfig): TelemetrySource => {
+  const { emit, setState, source } = createSourceBase('polling');
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let controller: AbortController | null = null;
+  let active = false;
+  // Bumped by stop(), so a poll still in flight from before a restart neither emits nor starts a second loop
+  let generation = 0;
+  const backoff = createReconnectBackoff(config);
+
+  const schedule = (delayMs: number) => {
+    if (active) timer = setTimeout(poll, delayMs);
+  };
+
+  // Polls on the normal interval while healthy and backs off exponentially while the endpoint fails.
+  const poll = async () => {
+    timer = null;
+    const started = generation;
+    controller = new AbortController();
+    const { signal } = controller;
+    try {
+      const response = await fetch(config.url, { signal, cache: 'no-store' });
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      const payload = await response.json();
+      if (started !== generation) return;
+      parseMetricPayload(payload).forEach(emit);
+      backoff.reset();
+      setState('connected', config.url);
+      schedule(config.intervalMs);
+    } catch (error) {
+      if (started !== generation || (error as Error).name === 'AbortError') return;
+      const delay = backoff.next();
+      setState('reconnecting', describeRetry((error as Error).message, backoff, delay));
+      schedule(delay);
+    }
+  };
+
+  return {
+    ...source,
+    start: () => {
+      if (active) return;
+      active = true;
+      setState('connecting', config.url);
+      poll();
+    },
+    stop: () => {
+      active = false;
+      generation++;
+      if (timer) clearTimeout(timer);
+      timer = null;
+      controller?.abort();
+      controller = null;
+      backoff.reset();
+      setState('disconnected');
+    }
+  };
+};
+
+// A mapped value for one station at one instant
+interface MappedSample {
+  stationId: string;
+  metric: string;
+  value: number;
+  t: number;
+}
+
+// Range queries are stepped so a backfill never returns more than this many points per series.
+const BACKFILL_POINTS = 250;
+
+// Reads a Prometheus server through its HTTP query API (`prometheus`) or an exporter's /metrics text (`scrape`).
+export const createPrometheusSource = (config: TelemetrySourceConfig): TelemetrySource => {
+  const kind = config.kind === 'scrape' ? 'scrape' : 'prometheus';
+  const { emit, setState, source } = createSourceBase(kind);
+  const { stationLabels, backfillMinutes } = config.prometheus;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let controller: AbortController | null = null;
+  let active = false;
+  // Bumped by stop(); each poll carries its own signal and generation, so one from before a restart is dropped
+  let generation = 0;
+  let backfilled = backfillMinutes <= 0;
+  const backoff = createReconnectBackoff(config);
+  // Newest frame per station, for carrying over fields and skipping instants already emitted
+  const previous = new Map<string, SystemMetric>();
+  const warned = new Set<string>();
+
+  const mappings: PrometheusMapping[] = [];
+  const selectors: SeriesSelector[] = [];
+  for (const mapping of config.prometheus.mappings) {
+    const expression = kind === 'scrape' ? mapping.series : mapping.query;
+    if (!expression) continue;
+    if (kind === 'scrape') {
+      const selector = parseSelector(expression);
+      if (!selector) {
+        logger.warning(`Ignoring ${mapping.metric} mapping: "${expression}" is not a valid series selector.`);
+        continue;
+      }
+      selectors.push(selector);
+    }
+    mappings.push(mapping);
+  }
+
+  const stationOf = (labels: Record<string, string>) =>
+    stationLabels.map(label => labels[label]).find(value => Boolean(value)) ?? DEFAULT_STATION_ID;
+
+  const toMapped = (mapping: PrometheusMapping, points: PromPoint[]): MappedSample[] =>
+    points.map(point => ({ stationId: stationOf(point.labels), metric: mapping.metric, value: point.value * (mapping.scale ?? 1), t: point.t }));
+
+  const request = async (path: string, params: Record<string, string>, signal: AbortSignal) => {
+    const response = await fetch(`${config.url.replace(/\/+$/, '')}${path}?${new URLSearchParams(params)}`, { signal, cache: 'no-store' });
+    // Query errors come back as JSON bodies on 4xx/5xx responses
+    const body = await response.json().catch(() => null) as { status?: string; errorType?: string; error?: string; data?: { resultType?: string; result?: unknown } } | null;
+    if (body?.status === 'error') throw new Error(`${body.errorType ?? 'error'}: ${body.error ?? 'query failed'}`);
+    if (!response.ok || !body?.data) throw new Error(`HTTP ${response.status}`);
+    return parseQueryResult(body.data);
+  };
+
+  const query = async (signal: AbortSignal, range?: { start: number; end: number; step: number }) => {
+    const time = String(Date.now() / 1000);
+    const results = await Promise.all(mappings.map(async mapping => {
+      try {
+        const points = range
+          ? await request('/api/v1/query_range', { query: mapping.query!, start: String(range.start), end: String(range.end), step: String(range.step) }, signal)
+          : await request('/api/v1/query', { query: mapping.query!, time }, signal);
+        return toMapped(mapping, points);
+      } catch (error) {
+        if ((error as Error).name === 'AbortError') throw error;
+        throw new Error(`${mapping.metric} query failed: ${(error as Error).message}`);
+      }
+    }));
+    return results.flat();
+  };
+
+  const scrape = async (signal: AbortSignal) => {
+    const response = await fetch(config.url, { signal, cache: 'no-store' });
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    const now = Date.now();
+    const samples = parseExposition(await response.text());
+    return mappings.flatMap((mapping, index) => toMapped(mapping, samples
+      .filter(sample => matchesSelector(sample, selectors[index]))
+      .map(sample => ({ labels: sample.labels, t: sample.timestamp ?? now, value: sample.value }))));
+  };
+
+  // One frame per station and instant. Core fields missing at an instant carry over from the previous frame;
+  // a station produces nothing until all four have been seen.
+  const publish = (samples: MappedSample[]) => {
+    const groups = new Map<string, MappedSample[]>();
+    for (const sample of samples) {
+      const key = `${sample.stationId}@${sample.t}`;
+      groups.set(key, [...(groups.get(key) ?? []), sample]);
+    }
+
+    const ordered = Array.from(groups.values()).sort((a, b) => a[0].t - b[0].t);
+    for (const group of ordered) {
+      const { stationId, t } = group[0];
+      const prior = previous.get(stationId);
+      // Static /metrics files and overlapping backfills repeat instants already emitted
+      if (prior && t <= prior.timestamp) continue;
+
+      const values: Partial<Record<NumericMetricKey, number>> = prior ? { ...prior } : {};
+      const custom: Record<string, number> = {};
+      for (const sample of group) {
+        if (NUMERIC_METRICS.includes(sample.metric as NumericMetricKey)) values[sample.metric as NumericMetricKey] = sample.value;
+        else custom[sample.metric] = sample.value;
+      }
+
+      const missing = NUMERIC_METRICS.filter(key => values[key] === undefined);
+      if (missing.length > 0) {
+        if (!warned.has(stationId)) {
+          warned.add(stationId);
+          logger.warning(`Station ${stationId} has no mapped ${missing.join(', ')}; its series are ignored until they appear.`);
+        }
+        continue;
+      }
+
+      const metric: SystemMetric = {
+        stationId,
+        timestamp: t,
+        cpuLoad: values.cpuLoad!,
+        memoryUsage: values.memoryUsage!,
+        networkLatency: values.networkLatency!,
+        temperature: values.temperature!,
+      };
+      if (Object.keys(custom).length > 0) metric.custom = custom;
+      previous.set(stationId, metric);
+      emit(metric);
+    }
+  };
+
+  const schedule = (delayMs: number) => {
+    if (active) timer = setTimeout(poll, delayMs);
+  };
+
+  // Same cadence as the polling source: the normal interval while healthy, exponential backoff while failing.
+  const poll = async () => {
+    timer = null;
+    const started = generation;
+    controller = new AbortController();
+    const { signal } = controller;
+    try {
+      const backfill = kind === 'prometheus' && !backfilled;
+      let samples: MappedSample[];
+      if (kind === 'scrape') {
+        samples = await scrape(signal);
+      } else if (backfill) {
+        const end = Date.now() / 1000;
+        const start = end - backfillMinutes * 60;
+        const step = Math.max(config.intervalMs / 1000, (end - start) / BACKFILL_POINTS);
+        samples = await query(signal, { start, end, step });
+      } else {
+        samples = await query(signal);
+      }
+      if (started !== generation) return;
+      publish(samples);
+      if (backfill) backfilled = true;
+      backoff.reset();
+      setState('connected', config.url);
+      schedule(config.intervalMs);
+    } catch (error) {
+      if (started !== generation || (error as Error).name === 'AbortError') return;
+      const delay = backoff.next();
+      setState('reconnecting', describeRetry((error as Error).message, backoff, delay));
+      schedule(delay);
+    }
+  };
+
+  return {
+    ...source,
+    start: () => {
+      if (active) return;
+      if (mappings.length === 0) {
+        setState('error', `No ${kind === 'scrape' ? 'series' : 'query'} mappings configured`);
+        return;
+      }
+      active = true;
+      setState('connecting', config.url);
+      poll();
+    },
+    stop: () => {
+      active = false;
+      generation++;
+      if (timer) clearTimeout(timer);
+      timer = null;
+      controller?.abort();
+      controller = null;
+      backoff.reset();
+      setState('disconnected');
+    }
+  };
+};
+
+// `simulator` only reaches the local simulator; remote adapters run on real time.
+export const createTelemetrySource = (config: TelemetrySourceConfig, simulator?: SimulatorOptions): TelemetrySource => {
+  if (config.kind !== 'simulator' && !config.url) {
+    logger.warning(`Telemetry source "${config.kind}" has no URL configured. Falling back to simulator.`);
+    return createSimulatorSource(config, simulator);
+  }
+
+  switch (config.kind) {
+    case 'websocket': return createWebSocketSource(config);
+    case 'sse': return createSseSource(config);
+    case 'polling': return createPollingSource(config);
+    case 'prometheus':
+    case 'scrape': return createPrometheusSource(config);
+    default: return createSimulatorSource(config, simulator);
+  }
+};
@@ -1,23 +1,442 @@
 export interface SystemMetric {
-  timestamp: string;
+  stationId: string;
+  // Unix epoch milliseconds
+  timestamp: number;
   cpuLoad: number;
   memoryUsage: number;
   networkLatency: number;
   temperature: number;
+  // Extra series mapped from a Prometheus source, keyed by custom metric name
+  custom?: Record<string, number>;
+}
+
+export type LogLevel = 'info' | 'warning' | 'error' | 'success';
+
+export interface LogContext {
+  // Ties together the entries of one operation, e.g. a diagnostics run across App and provider
+  correlationId?: string;
+  durationMs?: number;
+  stationId?: string;
+  error?: {
+    name: string;
+    message: string;
+    stack?: string;
+  };
+}
+
+export interface LoggingConfig {
+  // Minimum level mirrored to the browser devtools console
+  consoleLevel: LogLevel;
+  // Collector endpoint for batched JSON log delivery; empty disables the remote sink
+  remoteUrl: string;
+  remoteLevel: LogLevel;
+  remoteBatchSize: number;
+  remoteFlushMs: number;
+  // Entries held while the collector is unreachable; the oldest are dropped beyond this
+  remoteMaxQueue: number;
 }
 
 export interface LogEntry {
   id: string;
   timestamp: string;
-  level: 'info' | 'warning' | 'error' | 'success';
+  level: LogLevel;
   message: string;
   source: string;
+  context?: LogContext;
+}
+
+export type MetricTrend = 'rising' | 'falling' | 'stable';
+
+export interface MetricWindowStats {
+  metric: MetricId;
+  samples: number;
+  min: number;
+  max: number;
+  mean: number;
+  latest: number;
+  // Least-squares slope, in metric units per sample
+  slope: number;
+  trend: MetricTrend;
+}
+
+export type ForecastMethod = 'linear' | 'ewma';
+
+// One projected point; `lower`..`upper` is the prediction band around `value`.
+export interface ForecastPoint {
+  timestamp: number;
+  value: number;
+  lower: number;
+  upper: number;
+}
+
+export interface MetricForecast {
+  metric: MetricId;
+  method: ForecastMethod;
+  points: ForecastPoint[];
+  // Milliseconds from the latest frame until the projection crosses each threshold; 0 once past it, null beyond the horizon
+  warningInMs: number | null;
+  criticalInMs: number | null;
+}
+
+// Rolling statistics of one metric over the analytics window, derived locally without the AI.
+// `trend` here is judged against the metric's range over the whole window rather than per sample.
+export interface MetricAnalytics extends MetricWindowStats {
+  stdDev: number;
+  // Smoothed level of the series
+  ewma: number;
+  // Metric units per minute, from the timestamps rather than the sample count
+  ratePerMin: number;
+  forecast: MetricForecast | null;
+}
+
+export type HealthGrade = 'healthy' | 'degraded' | 'critical';
+
+// Composite 0-100 score: 100 minus a penalty for every metric past or heading towards a threshold.
+export interface HealthScore {
+  score: number;
+  grade: HealthGrade;
+  // Human-readable reason for each penalty, e.g. "TEMP critical in 4m"
+  factors: string[];
+}
+
+export interface StationAnalytics {
+  metrics: MetricAnalytics[];
+  health: HealthScore;
+}
+
+export interface AnalyticsConfig {
+  // Latest frames per station the statistics and forecasts are computed over
+  window: number;
+  // Frames needed before a forecast is attempted
+  minSamples: number;
+  method: ForecastMethod;
+  // How far ahead forecasts look; threshold crossings beyond it are not reported
+  horizonMs: number;
+  // Points per forecast band on the chart
+  forecastPoints: number;
+  // Smoothing factors for the level and (Holt) trend of the EWMA forecast
+  ewmaAlpha: number;
+  ewmaBeta: number;
+  // Width of the prediction band in residual standard deviations
+  bandSigma: number;
+}
+
+export interface MetricFinding {
+  metric: MetricId;
+  assessment: 'nominal' | 'elevated' | 'critical';
+  observation: string;
+}
+
+export interface SuggestedAction {
+  action: string;
+  urgency: 'low' | 'medium' | 'high' | 'immediate';
 }
 
 export interface AiAnalysisResult {
   status: 'optimal' | 'warning' | 'critical';
   summary: string;
   recommendation: string;
+  findings: MetricFinding[];
+  rootCause: string;
+  // 0 to 1
+  confidence: number;
+  actions: SuggestedAction[];
+}
+
+export interface ChatMessage {
+  id: string;
+  role: 'user' | 'model';
+  text: string;
+  timestamp: string;
+  status: 'streaming' | 'done' | 'error';
+}
+
+export interface CopilotContext {
+  stationId: string;
+  metrics: SystemMetric[];
+  logs: LogEntry[];
+}
+
+export type AiProviderKind = 'gemini' | 'mock' | 'openai';
+
+export interface AiProviderConfig {
+  kind: AiProviderKind;
+  model: string;
+  // Cockpit API that proxies the model; unused by the mock provider
+  baseUrl: string;
+  timeoutMs: number;
+  maxRetries: number;
+  // Number of most recent frames summarized for a diagnostics run
+  diagnosticsWindow: number;
+}
+
+export interface AiRequestOptions {
+  // Propagated into provider logs and the proxy request so one operation can be traced end to end
+  correlationId?: string;
+  // Session token; the cockpit API checks the role behind it before spending AI quota
+  authToken?: string;
+}
+
+export interface AiProvider {
+  readonly kind: AiProviderKind;
+  readonly label: string;
+  analyze: (metrics: SystemMetric[], options?: AiRequestOptions) => Promise<AiAnalysisResult>;
+  streamChat: (history: ChatMessage[], question: string, context: CopilotContext, options?: AiRequestOptions) => AsyncGenerator<string>;
+}
+
+// The four fields every SystemMetric carries
+export type NumericMetricKey = 'cpuLoad' | 'memoryUsage' | 'networkLatency' | 'temperature';
+
+// A NumericMetricKey, or the key of a value in SystemMetric.custom
+export type MetricId = string;
+
+export type MetricIconName = 'cpu' | 'memory' | 'thermometer' | 'wifi' | 'hard-drive' | 'plug' | 'radiation' | 'battery' | 'gauge' | 'activity';
+
+// One entry of the metric registry. Cards, chart series, alert rules and the AI prompt are generated from these.
+export interface MetricDefinition {
+  id: MetricId;
+  label: string;
+  // Chart buttons, fleet tiles and diagnostics findings
+  shortLabel: string;
+  // Caption under the card title, e.g. "Core Utilization"
+  description: string;
+  unit: string;
+  // Expected span of values; scales the card gauge and the chart axis
+  range: [number, number];
+  // CSS colour for the series, gauge and nominal values
+  color: string;
+  icon: MetricIconName;
+  // Values past these raise warning and critical alerts. `below` flips the direction, e.g. for a battery charge.
+  thresholds: { warning: number; critical: number; direction?: 'above' | 'below' };
+  // Distance back past a threshold before its alert resolves
+  hysteresis: number;
+  // How long a breach must last before its alert fires
+  alertAfterMs: number;
+}
+
+export type AlertSeverity = 'warning' | 'critical';
+
+export type AlertState = 'firing' | 'acknowledged' | 'resolved';
+
+export interface AlertRule {
+  id: string;
+  label: string;
+  metric: MetricId;
+  comparator: '>' | '<';
+  threshold: number;
+  // Distance back past the threshold the value must travel before the alert resolves.
+  hysteresis: number;
+  // How long the breach must be sustained before the alert fires.
+  durationMs: number;
+  severity: AlertSeverity;
+  // While this rule's alert is active for a station, the named rule neither fires nor stays open there
+  inhibits?: string;
+}
+
+export interface Alert {
+  id: string;
+  ruleId: string;
+  stationId: string;
+  label: string;
+  metric: MetricId;
+  severity: AlertSeverity;
+  state: AlertState;
+  value: number;
+  threshold: number;
+  firedAt: number;
+  acknowledgedAt?: number;
+  resolvedAt?: number;
+  silencedUntil?: number;
+}
+
+export type Role = 'viewer' | 'operator' | 'admin';
+
+export type Permission =
+  | 'network.simulate'
+  | 'cache.refresh'
+  | 'diagnostics.run'
+  | 'diagnostics.auto'
+  | 'copilot.ask'
+  | 'alerts.manage'
+  | 'incidents.manage'
+  | 'notifications.test'
+  | 'recording.manage'
+  | 'data.import'
+  | 'layout.edit'
+  | 'faults.inject'
+  | 'source.configure'
+  | 'console.clear'
+  | 'audit.export';
+
+// Read by the cockpit API server only; the browser never sees accounts or hashes.
+export interface UserAccount {
+  username: string;
+  role: Role;
+  // scrypt$<salt hex>$<key hex>, from `npm run hash-password`
+  passwordHash: string;
+}
+
+export interface Session {
+  username: string;
+  role: Role;
+  signedInAt: number;
+  // Bearer token issued by the cockpit API; absent for the local and guest sessions
+  token?: string;
+}
+
+// What the cockpit API reports about sign-in
+export interface AuthState {
+  // False when AUTH_USERS is unset on the server; everyone then acts as a local admin
+  enabled: boolean;
+  // False when AUTH_USERS is set but unparseable, so nobody can sign in
+  configured: boolean;
+  session: Session | null;
+}
+
+export interface AuthConfig {
+  // Cockpit API that checks passwords and issues sessions
+  baseUrl: string;
+  // Audit entries kept in localStorage; the oldest are dropped beyond this
+  auditLimit: number;
+}
+
+export interface AuditEntry {
+  id: string;
+  at: number;
+  username: string;
+  role: Role;
+  action: Permission | 'auth.login' | 'auth.logout' | 'auth.failed';
+  detail: string;
+  outcome: 'allowed' | 'denied';
+}
+
+export type NotificationTemplate = 'slack' | 'json' | 'email';
+
+// One outbound webhook endpoint.
+export interface NotificationChannel {
+  name: string;
+  url: string;
+  // slack: incoming-webhook message; json: the notification as-is; email: { to, subject, text } for an HTTP mail relay
+  template: NotificationTemplate;
+  // Lowest severity delivered; 'critical' skips warnings
+  minSeverity: AlertSeverity;
+  // Event kinds delivered; all of them when omitted
+  events?: CockpitNotification['kind'][];
+  // Recipients, required by the email template
+  to?: string[];
+  headers?: Record<string, string>;
+}
+
+// What the browser learns about a channel; the URL, recipients and headers stay on the cockpit API server.
+export type NotificationChannelSummary = Pick<NotificationChannel, 'name' | 'template' | 'minSeverity' | 'events'>;
+
+export interface NotificationConfig {
+  // Cockpit API that holds NOTIFY_CHANNELS and relays each delivery
+  baseUrl: string;
+  timeoutMs: number;
+  retryDelayMs: number;
+  retryMaxDelayMs: number;
+  // Failed sends per delivery before it is given up; time spent OFFLINE does not count
+  maxAttempts: number;
+  // Deliveries waiting to be sent; the oldest are dropped beyond this
+  queueLimit: number;
+}
+
+export interface CockpitNotification {
+  id: string;
+  kind: 'alert' | 'diagnostics' | 'test';
+  severity: AlertSeverity;
+  stationId: string;
+  title: string;
+  message: string;
+  // Alerts only: a resolution is delivered as a recovery message
+  state?: 'firing' | 'resolved';
+  at: number;
+  dedupKey: string;
+}
+
+export type IncidentEventKind = 'opened' | 'escalated' | 'alert' | 'diagnostics' | 'log' | 'snapshot' | 'assigned' | 'resolved';
+
+export interface IncidentEvent {
+  t: number;
+  kind: IncidentEventKind;
+  message: string;
+  level?: LogLevel;
+  // Frame as the station reported it at this point in the timeline
+  metric?: SystemMetric;
+  diagnostics?: AiAnalysisResult;
+}
+
+// Groups the alerts, diagnostics, logs and metric snapshots of one degradation on one station.
+export interface Incident {
+  id: string;
+  stationId: string;
+  title: string;
+  // Highest severity seen while open
+  severity: AlertSeverity;
+  state: 'open' | 'resolved';
+  trigger: 'alert' | 'diagnostics';
+  openedAt: number;
+  resolvedAt?: number;
+  assignee?: string;
+  notes: string;
+  resolution?: string;
+  alertIds: string[];
+  // Oldest first
+  timeline: IncidentEvent[];
+}
+
+// Metric cards are `metric:<MetricId>`, one per registry entry
+export type WidgetType = 'cache' | 'copilot' | 'alerts' | 'chart' | 'console' | 'custom' | `metric:${string}`;
+
+export interface LayoutItem {
+  type: WidgetType;
+  // Grid span on large screens: 1-4 columns, 1-4 rows
+  cols: number;
+  rows: number;
+}
+
+export interface DashboardLayout {
+  name: string;
+  items: LayoutItem[];
+  updatedAt: number;
+}
+
+export type ChartRange = 'live' | '5m' | '1h' | '24h';
+
+// 'import' runs analyze an imported dataset and leave the station's live report untouched.
+export type DiagnosticsTrigger = 'manual' | 'schedule' | 'anomaly' | 'import';
+
+export interface DiagnosticsRun {
+  id: string;
+  stationId: string;
+  trigger: DiagnosticsTrigger;
+  // Human-readable cause, e.g. the anomaly that fired the run
+  reason?: string;
+  ranAt: number;
+  result: AiAnalysisResult;
+}
+
+export interface MetricAnomaly {
+  metric: MetricId;
+  value: number;
+  mean: number;
+  stdDev: number;
+  zScore: number;
+}
+
+export interface AutoDiagnosticsConfig {
+  intervalMs: number;
+  // Minimum gap between two automatic runs for the same station.
+  debounceMs: number;
+  // Maximum automatic runs across the fleet per budget window.
+  budget: number;
+  budgetWindowMs: number;
+  anomalyMetrics: MetricId[];
+  zScoreThreshold: number;
+  // Frames required before a z-score is trusted.
+  baselineSamples: number;
+  timelineLimit: number;
 }
 
 export enum NetworkStatus {
@@ -25,3 +444,109 @@ export enum NetworkStatus {
   OFFLINE = 'OFFLINE',
   RECONNECTING = 'RECONNECTING'
 }
+
+export interface StorageRetentionPolicy {
+  maxAgeMs: number;
+  maxMetrics: number;
+  maxLogs: number;
+}
+
+export interface SyncStatus {
+  queueDepth: number;
+  lastSync: number | null;
+}
+
+export type TelemetrySourceKind = 'simulator' | 'websocket' | 'sse' | 'polling' | 'prometheus' | 'scrape';
+
+export type TelemetryConnectionState = 'idle' | 'connecting' | 'connected' | 'reconnecting' | 'disconnected' | 'error';
+
+export interface TelemetrySourceConfig {
+  kind: TelemetrySourceKind;
+  url: string;
+  // Station IDs the simulator generates. Remote sources report their own.
+  stations: string[];
+  intervalMs: number;
+  // First retry delay after a dropped link; doubles per failed attempt up to reconnectMaxDelayMs
+  reconnectDelayMs: number;
+  reconnectMaxDelayMs: number;
+  prometheus: PrometheusConfig;
+}
+
+// Maps one Prometheus series onto a SystemMetric field or a custom metric.
+export interface PrometheusMapping {
+  // cpuLoad, memoryUsage, networkLatency, temperature, or any other name for a custom metric
+  metric: string;
+  // PromQL evaluated through the HTTP API by the `prometheus` source
+  query?: string;
+  // Series selector such as `node_load1{job="node"}`, matched against /metrics text by the `scrape` source
+  series?: string;
+  // Multiplier for the sample value, e.g. 1000 to turn seconds into milliseconds
+  scale?: number;
+}
+
+export interface PrometheusConfig {
+  mappings: PrometheusMapping[];
+  // Labels tried in order to name the station a series belongs to
+  stationLabels: string[];
+  // History fetched with range queries when the `prometheus` source connects; 0 disables it
+  backfillMinutes: number;
+}
+
+export interface TelemetrySource {
+  readonly kind: TelemetrySourceKind;
+  start: () => void;
+  stop: () => void;
+  subscribe: (listener: (metric: SystemMetric) => void) => () => void;
+  onStateChange: (listener: (state: TelemetryConnectionState, detail?: string) => void) => () => void;
+  getState: () => TelemetryConnectionState;
+}
+
+// Faults layered over the live source and AI provider for resilience drills. Zero values mean no fault.
+export interface FaultProfile {
+  // Added to frame delivery and to the reported networkLatency
+  latencyMs: number;
+  // Probability (0 to 1) that a telemetry frame is dropped
+  packetLoss: number;
+  // Hard link drop; the source reconnects with backoff once it clears
+  linkDown: boolean;
+  // Link alternates up and down every flapMs; 0 disables
+  flapMs: number;
+  // Stations whose frames are withheld; '*' withholds all of them
+  gapStations: string[];
+  aiDelayMs: number;
+  // Probability (0 to 1) that an AI call fails
+  aiFailureRate: number;
+}
+
+export interface FaultStep {
+  // Offset from scenario start
+  atMs: number;
+  set: Partial<FaultProfile>;
+  note?: string;
+}
+
+export interface FaultScenario {
+  name: string;
+  description?: string;
+  // Seeds packet loss and AI failure draws so a replay drops the same frames
+  seed: number;
+  // Faults are cleared once this elapses
+  durationMs: number;
+  steps: FaultStep[];
+}
+
+// One captured change, stamped with its arrival time (epoch ms) during recording.
+export type RecordedEvent =
+  | { t: number; type: 'metric'; data: SystemMetric }
+  | { t: number; type: 'log'; data: LogEntry }
+  | { t: number; type: 'alerts'; data: Alert[] }
+  | { t: number; type: 'diagnostics'; data: DiagnosticsRun };
+
+export interface SessionRecording {
+  startedAt: number;
+  endedAt: number;
+  // True when the recorder hit its event cap and stopped capturing early
+  truncated: boolean;
+  // Sorted by t. Events before startedAt seed the state the dashboard showed when recording began.
+  events: RecordedEvent[];
+}
@@ -1,18 +1,81 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Emits the list of bundled files so public/sw.js can precache the app shell, and stamps the build version into
+// the copied sw.js. The changed worker reinstalls on deploy and names its shell cache after the build.
+const precacheManifest = (): Plugin => {
+  let version = '';
+  return {
+    name: 'cockpit-precache-manifest',
+    apply: 'build',
+    buildStart() {
+      version = String(Date.now());
+    },
+    generateBundle(_options, bundle) {
+      const files = Object.keys(bundle).filter(file => !file.endsWith('.map'));
+      this.emitFile({
+        type: 'asset',
+        fileName: 'precache-manifest.json',
+        source: JSON.stringify({ version, files })
+      });
+    },
+    writeBundle(options) {
+      const worker = path.join(options.dir!, 'sw.js');
+      if (fs.existsSync(worker)) fs.writeFileSync(worker, fs.readFileSync(worker, 'utf8').replace('__BUILD_VERSION__', version));
+    }
+  };
+};
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // Gemini calls go through the cockpit API (npm run server) so the key never reaches the bundle.
+    const apiProxy = { '/api': `http://localhost:${env.PORT || 3001}` };
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: apiProxy,
+      },
+      preview: {
+        proxy: apiProxy,
       },
-      plugins: [react()],
+      plugins: [react(), precacheManifest()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.TELEMETRY_SOURCE': JSON.stringify(env.TELEMETRY_SOURCE),
+        'process.env.TELEMETRY_URL': JSON.stringify(env.TELEMETRY_URL),
+        'process.env.TELEMETRY_STATIONS': JSON.stringify(env.TELEMETRY_STATIONS),
+        'process.env.TELEMETRY_INTERVAL_MS': JSON.stringify(env.TELEMETRY_INTERVAL_MS),
+        'process.env.TELEMETRY_RECONNECT_MS': JSON.stringify(env.TELEMETRY_RECONNECT_MS),
+        'process.env.TELEMETRY_RECONNECT_MAX_MS': JSON.stringify(env.TELEMETRY_RECONNECT_MAX_MS),
+        'process.env.SIM_SEED': JSON.stringify(env.SIM_SEED),
+        'process.env.PROMETHEUS_MAPPINGS': JSON.stringify(env.PROMETHEUS_MAPPINGS),
+        'process.env.PROMETHEUS_STATION_LABELS': JSON.stringify(env.PROMETHEUS_STATION_LABELS),
+        'process.env.PROMETHEUS_BACKFILL_MINUTES': JSON.stringify(env.PROMETHEUS_BACKFILL_MINUTES),
+        'process.env.STORAGE_RETENTION_HOURS': JSON.stringify(env.STORAGE_RETENTION_HOURS),
+        'process.env.LOG_BUFFER_SIZE': JSON.stringify(env.LOG_BUFFER_SIZE),
+        'process.env.RECORDING_MAX_EVENTS': JSON.stringify(env.RECORDING_MAX_EVENTS),
+        'process.env.LOG_CONSOLE_LEVEL': JSON.stringify(env.LOG_CONSOLE_LEVEL),
+        'process.env.LOG_REMOTE_URL': JSON.stringify(env.LOG_REMOTE_URL),
+        'process.env.LOG_REMOTE_LEVEL': JSON.stringify(env.LOG_REMOTE_LEVEL),
+        'process.env.NOTIFY_RETRY_MS': JSON.stringify(env.NOTIFY_RETRY_MS),
+        'process.env.NOTIFY_MAX_ATTEMPTS': JSON.stringify(env.NOTIFY_MAX_ATTEMPTS),
+        'process.env.AUDIT_LIMIT': JSON.stringify(env.AUDIT_LIMIT),
+        'process.env.ANALYTICS_WINDOW': JSON.stringify(env.ANALYTICS_WINDOW),
+        'process.env.FORECAST_METHOD': JSON.stringify(env.FORECAST_METHOD),
+        'process.env.FORECAST_HORIZON_MS': JSON.stringify(env.FORECAST_HORIZON_MS),
+        'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER),
+        'process.env.AI_PROXY_URL': JSON.stringify(env.AI_PROXY_URL),
+        'process.env.AI_MODEL': JSON.stringify(env.AI_MODEL),
+        'process.env.AI_TIMEOUT_MS': JSON.stringify(env.AI_TIMEOUT_MS),
+        'process.env.AI_MAX_RETRIES': JSON.stringify(env.AI_MAX_RETRIES),
+        'process.env.AI_DIAGNOSTICS_WINDOW': JSON.stringify(env.AI_DIAGNOSTICS_WINDOW),
+        'process.env.AUTO_DIAGNOSE': JSON.stringify(env.AUTO_DIAGNOSE),
+        'process.env.AUTO_DIAGNOSE_INTERVAL_MS': JSON.stringify(env.AUTO_DIAGNOSE_INTERVAL_MS),
+        'process.env.AUTO_DIAGNOSE_DEBOUNCE_MS': JSON.stringify(env.AUTO_DIAGNOSE_DEBOUNCE_MS),
+        'process.env.AUTO_DIAGNOSE_BUDGET': JSON.stringify(env.AUTO_DIAGNOSE_BUDGET),
+        'process.env.AUTO_DIAGNOSE_ZSCORE': JSON.stringify(env.AUTO_DIAGNOSE_ZSCORE)
       },
       resolve: {
         alias: {